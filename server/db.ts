@@ -1,6 +1,17 @@
 import { Database } from "bun:sqlite";
+import { randomBytes } from "node:crypto";
 import { existsSync, mkdirSync } from "node:fs";
 import { dirname } from "node:path";
+import {
+	decryptNullable,
+	decryptSecret,
+	encryptNullable,
+	encryptSecret,
+	isEncrypted,
+	type MasterKey,
+	rewrapSecret,
+	setPassphraseSalt,
+} from "./services/secrets";
 
 const DB_PATH = "./data/nats-eye.db";
 
@@ -42,6 +53,11 @@ function initializeSchema(db: Database) {
 			token TEXT,
 			username TEXT,
 			password TEXT,
+			nkey_seed TEXT,
+			creds TEXT,
+			tls_cert TEXT,
+			tls_key TEXT,
+			tls_ca TEXT,
 			monitoring_urls TEXT,
 			created_at INTEGER NOT NULL,
 			updated_at INTEGER NOT NULL
@@ -95,6 +111,16 @@ function initializeSchema(db: Database) {
 		CREATE INDEX IF NOT EXISTS idx_alert_events_created_at ON alert_events(created_at);
 	`);
 
+	// Passphrase master keys are derived with a salt kept per database
+	let salt = db
+		.query<{ value: string }, [string]>("SELECT value FROM settings WHERE key = ?")
+		.get("master_key_salt")?.value;
+	if (!salt) {
+		salt = randomBytes(16).toString("base64");
+		db.run("INSERT INTO settings (key, value) VALUES (?, ?)", ["master_key_salt", salt]);
+	}
+	setPassphraseSalt(Buffer.from(salt, "base64"));
+
 	// Run migrations for existing databases
 	runMigrations(db);
 }
@@ -129,6 +155,69 @@ function runMigrations(db: Database) {
 	} else if (!hasMonitoringUrls) {
 		db.exec("ALTER TABLE clusters ADD COLUMN monitoring_urls TEXT");
 	}
+
+	// Add columns for nkey, creds and TLS client certificate authentication
+	for (const column of ["nkey_seed", "creds", "tls_cert", "tls_key", "tls_ca"]) {
+		if (!columns.some((col: { name: string }) => col.name === column)) {
+			db.exec(`ALTER TABLE clusters ADD COLUMN ${column} TEXT`);
+		}
+	}
+
+	// Encrypt secrets stored in plaintext by earlier versions
+	transformSecrets(db, (value) => (isEncrypted(value) ? value : encryptSecret(value)));
+}
+
+// Apply a transform to every stored secret in a single transaction
+function transformSecrets(db: Database, transform: (value: string) => string): number {
+	let changed = 0;
+	const apply = (value: string | null) => {
+		if (value == null) return null;
+		const next = transform(value);
+		if (next !== value) changed++;
+		return next;
+	};
+
+	db.transaction(() => {
+		const clusters = db
+			.query<Pick<ClusterRow, "id" | "token" | "username" | "password" | "nkey_seed" | "creds" | "tls_key">, []>(
+				"SELECT id, token, username, password, nkey_seed, creds, tls_key FROM clusters",
+			)
+			.all();
+		for (const row of clusters) {
+			const before = changed;
+			const values = [
+				apply(row.token),
+				apply(row.username),
+				apply(row.password),
+				apply(row.nkey_seed),
+				apply(row.creds),
+				apply(row.tls_key),
+			];
+			if (changed !== before) {
+				db.run(
+					"UPDATE clusters SET token = ?, username = ?, password = ?, nkey_seed = ?, creds = ?, tls_key = ? WHERE id = ?",
+					[...values, row.id],
+				);
+			}
+		}
+
+		const channels = db
+			.query<Pick<NotificationChannelRow, "id" | "config">, []>("SELECT id, config FROM notification_channels")
+			.all();
+		for (const row of channels) {
+			const config = apply(row.config);
+			if (config !== row.config) {
+				db.run("UPDATE notification_channels SET config = ? WHERE id = ?", [config, row.id]);
+			}
+		}
+	})();
+
+	return changed;
+}
+
+// Re-wrap all stored secrets under a new master key, returns the number of values updated
+export function rotateMasterKey(from: MasterKey, to: MasterKey): number {
+	return transformSecrets(getDb(), (value) => rewrapSecret(value, from, to));
 }
 
 let _db: Database | null = null;
@@ -298,6 +387,14 @@ export function getSession(id: string): (Session & { user: User }) | null {
 	};
 }
 
+export function refreshSession(
+	id: string,
+	expiresInMs = 7 * 24 * 60 * 60 * 1000,
+): void {
+	const db = getDb();
+	db.run("UPDATE sessions SET expires_at = ? WHERE id = ?", [now() + expiresInMs, id]);
+}
+
 export function deleteSession(id: string): void {
 	const db = getDb();
 	db.run("DELETE FROM sessions WHERE id = ?", [id]);
@@ -309,7 +406,7 @@ export function deleteExpiredSessions(): void {
 }
 
 // Cluster operations
-export type AuthType = "none" | "token" | "userpass";
+export type AuthType = "none" | "token" | "userpass" | "nkey" | "creds" | "tls";
 
 export interface Cluster {
 	id: string;
@@ -320,11 +417,19 @@ export interface Cluster {
 	token: string | null;
 	username: string | null;
 	password: string | null;
+	nkey_seed: string | null;
+	creds: string | null;
+	tls_cert: string | null;
+	tls_key: string | null;
+	tls_ca: string | null;
 	monitoring_urls: string[] | null;
 	created_at: number;
 	updated_at: number;
 }
 
+// Credentials for the nkey, creds and tls auth types
+export type ClusterAuthFiles = Partial<Pick<Cluster, "nkey_seed" | "creds" | "tls_cert" | "tls_key" | "tls_ca">>;
+
 interface ClusterRow {
 	id: string;
 	name: string;
@@ -334,6 +439,11 @@ interface ClusterRow {
 	token: string | null;
 	username: string | null;
 	password: string | null;
+	nkey_seed: string | null;
+	creds: string | null;
+	tls_cert: string | null;
+	tls_key: string | null;
+	tls_ca: string | null;
 	monitoring_urls: string | null;
 	created_at: number;
 	updated_at: number;
@@ -342,6 +452,12 @@ interface ClusterRow {
 function rowToCluster(row: ClusterRow): Cluster {
 	return {
 		...row,
+		token: decryptNullable(row.token),
+		username: decryptNullable(row.username),
+		password: decryptNullable(row.password),
+		nkey_seed: decryptNullable(row.nkey_seed),
+		creds: decryptNullable(row.creds),
+		tls_key: decryptNullable(row.tls_key),
 		auth_type: row.auth_type as AuthType,
 		urls: JSON.parse(row.urls),
 		nats_urls: row.nats_urls ? JSON.parse(row.nats_urls) : null,
@@ -358,23 +474,29 @@ export function createCluster(
 	password?: string,
 	natsUrls?: string[],
 	monitoringUrls?: string[],
+	authFiles: ClusterAuthFiles = {},
 ): Cluster {
 	const db = getDb();
 	const id = generateId();
 	const timestamp = now();
 
 	db.run(
-		`INSERT INTO clusters (id, name, urls, nats_urls, auth_type, token, username, password, monitoring_urls, created_at, updated_at)
-		 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+		`INSERT INTO clusters (id, name, urls, nats_urls, auth_type, token, username, password, nkey_seed, creds, tls_cert, tls_key, tls_ca, monitoring_urls, created_at, updated_at)
+		 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
 		[
 			id,
 			name,
 			JSON.stringify(urls),
 			natsUrls ? JSON.stringify(natsUrls) : null,
 			authType,
-			token ?? null,
-			username ?? null,
-			password ?? null,
+			encryptNullable(token),
+			encryptNullable(username),
+			encryptNullable(password),
+			encryptNullable(authFiles.nkey_seed),
+			encryptNullable(authFiles.creds),
+			authFiles.tls_cert ?? null,
+			encryptNullable(authFiles.tls_key),
+			authFiles.tls_ca ?? null,
 			monitoringUrls ? JSON.stringify(monitoringUrls) : null,
 			timestamp,
 			timestamp,
@@ -390,6 +512,11 @@ export function createCluster(
 		token: token ?? null,
 		username: username ?? null,
 		password: password ?? null,
+		nkey_seed: authFiles.nkey_seed ?? null,
+		creds: authFiles.creds ?? null,
+		tls_cert: authFiles.tls_cert ?? null,
+		tls_key: authFiles.tls_key ?? null,
+		tls_ca: authFiles.tls_ca ?? null,
 		monitoring_urls: monitoringUrls ?? null,
 		created_at: timestamp,
 		updated_at: timestamp,
@@ -414,7 +541,8 @@ export function getAllClusters(): Cluster[] {
 
 export function updateCluster(
 	id: string,
-	data: Partial<Pick<Cluster, "name" | "urls" | "nats_urls" | "auth_type" | "token" | "username" | "password" | "monitoring_urls">>,
+	data: Partial<Pick<Cluster, "name" | "urls" | "nats_urls" | "auth_type" | "token" | "username" | "password" | "monitoring_urls">> &
+		ClusterAuthFiles,
 ): Cluster | null {
 	const db = getDb();
 	const existing = getCluster(id);
@@ -441,15 +569,35 @@ export function updateCluster(
 	}
 	if (data.token !== undefined) {
 		updates.push("token = ?");
-		values.push(data.token);
+		values.push(encryptNullable(data.token));
 	}
 	if (data.username !== undefined) {
 		updates.push("username = ?");
-		values.push(data.username);
+		values.push(encryptNullable(data.username));
 	}
 	if (data.password !== undefined) {
 		updates.push("password = ?");
-		values.push(data.password);
+		values.push(encryptNullable(data.password));
+	}
+	if (data.nkey_seed !== undefined) {
+		updates.push("nkey_seed = ?");
+		values.push(encryptNullable(data.nkey_seed));
+	}
+	if (data.creds !== undefined) {
+		updates.push("creds = ?");
+		values.push(encryptNullable(data.creds));
+	}
+	if (data.tls_cert !== undefined) {
+		updates.push("tls_cert = ?");
+		values.push(data.tls_cert);
+	}
+	if (data.tls_key !== undefined) {
+		updates.push("tls_key = ?");
+		values.push(encryptNullable(data.tls_key));
+	}
+	if (data.tls_ca !== undefined) {
+		updates.push("tls_ca = ?");
+		values.push(data.tls_ca);
 	}
 	if (data.monitoring_urls !== undefined) {
 		updates.push("monitoring_urls = ?");
@@ -764,7 +912,7 @@ function rowToNotificationChannel(row: NotificationChannelRow): NotificationChan
 	return {
 		...row,
 		type: row.type as NotificationChannelType,
-		config: JSON.parse(row.config) as NotificationChannelConfig,
+		config: JSON.parse(decryptSecret(row.config)) as NotificationChannelConfig,
 		enabled: row.enabled === 1,
 	};
 }
@@ -782,7 +930,7 @@ export function createNotificationChannel(
 	db.run(
 		`INSERT INTO notification_channels (id, name, type, config, enabled, created_at, updated_at)
 		 VALUES (?, ?, ?, ?, ?, ?, ?)`,
-		[id, name, type, JSON.stringify(config), enabled ? 1 : 0, timestamp, timestamp],
+		[id, name, type, encryptSecret(JSON.stringify(config)), enabled ? 1 : 0, timestamp, timestamp],
 	);
 
 	return {
@@ -841,7 +989,7 @@ export function updateNotificationChannel(
 	}
 	if (data.config !== undefined) {
 		updates.push("config = ?");
-		values.push(JSON.stringify(data.config));
+		values.push(encryptSecret(JSON.stringify(data.config)));
 	}
 	if (data.enabled !== undefined) {
 		updates.push("enabled = ?");
@@ -2,16 +2,28 @@ import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { logger } from "hono/logger";
 import { serveStatic } from "hono/bun";
+import { getDb } from "./db";
+import { requireSession } from "./middleware/session";
 import auth from "./routes/auth";
+import backups from "./routes/backups";
 import clusters from "./routes/clusters";
 import consumers from "./routes/consumers";
+import jobs from "./routes/jobs";
 import kv from "./routes/kv";
+import live from "./routes/live";
 import monitoring from "./routes/monitoring";
 import notifications from "./routes/notifications";
 import objectstore from "./routes/objectstore";
 import stats from "./routes/stats";
 import streams from "./routes/streams";
+import topology from "./routes/topology";
 import * as alertMonitor from "./services/alert-monitor";
+import { loadMasterKey } from "./services/secrets";
+
+// Load the master key up front so a missing key stops the server at startup.
+// The database goes first, it holds the salt passphrase keys are derived with
+getDb();
+loadMasterKey();
 
 const app = new Hono();
 
@@ -29,16 +41,23 @@ if (process.env.NODE_ENV !== "production") {
 	);
 }
 
+// Every API route except auth and health requires a valid session
+app.use("/api/*", requireSession);
+
 // API routes
 app.route("/api/auth", auth);
+app.route("/api/backups", backups);
 app.route("/api/clusters", clusters);
 app.route("/api/consumers", consumers);
+app.route("/api/jobs", jobs);
 app.route("/api/kv", kv);
+app.route("/api/live", live);
 app.route("/api/monitoring", monitoring);
 app.route("/api/notifications", notifications);
 app.route("/api/objectstore", objectstore);
 app.route("/api/stats", stats);
 app.route("/api/streams", streams);
+app.route("/api/topology", topology);
 
 // Initialize alert monitor (auto-starts if was enabled before restart)
 alertMonitor.initialize();
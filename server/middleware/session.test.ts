@@ -0,0 +1,162 @@
+import { Hono } from "hono";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { refreshSession, type Session, type User } from "../db";
+import auth from "../routes/auth";
+import backups from "../routes/backups";
+import clusters from "../routes/clusters";
+import consumers from "../routes/consumers";
+import jobs from "../routes/jobs";
+import kv from "../routes/kv";
+import live from "../routes/live";
+import monitoring from "../routes/monitoring";
+import notifications from "../routes/notifications";
+import objectstore from "../routes/objectstore";
+import stats from "../routes/stats";
+import streams from "../routes/streams";
+import topology from "../routes/topology";
+import { REFRESH_THRESHOLD_MS, requireSession, SESSION_COOKIE_NAME, SESSION_MAX_AGE } from "./session";
+
+// Sessions stored by the fake database, looked up like getSession() does: unknown and expired ones are null
+const sessions = new Map<string, Session>();
+const user: User = { id: "user-1", username: "admin", password_hash: "", created_at: 0, updated_at: 0 };
+
+vi.mock("../db", () => ({
+	getSession: (id: string) => {
+		const session = sessions.get(id);
+		return session && session.expires_at > Date.now() ? { ...session, user } : null;
+	},
+	refreshSession: vi.fn(),
+	getUserCount: () => 1,
+	getCluster: () => null,
+	getAllClusters: () => [],
+	getAllNotificationChannels: () => [],
+}));
+
+// Wired like server/index.ts, without static files and the alert monitor
+function createApp() {
+	const app = new Hono();
+	app.use("/api/*", requireSession);
+	app.route("/api/auth", auth);
+	app.route("/api/backups", backups);
+	app.route("/api/clusters", clusters);
+	app.route("/api/consumers", consumers);
+	app.route("/api/jobs", jobs);
+	app.route("/api/kv", kv);
+	app.route("/api/live", live);
+	app.route("/api/monitoring", monitoring);
+	app.route("/api/notifications", notifications);
+	app.route("/api/objectstore", objectstore);
+	app.route("/api/stats", stats);
+	app.route("/api/streams", streams);
+	app.route("/api/topology", topology);
+	app.get("/api/health", (c) => c.json({ status: "ok" }));
+	return app;
+}
+
+// One request per router, with the status it answers once the session is accepted
+const protectedRoutes: [method: string, path: string, status: number][] = [
+	["POST", "/api/backups/restore", 400],
+	["GET", "/api/clusters", 200],
+	["GET", "/api/consumers/cluster/missing/stream/orders", 400],
+	["GET", "/api/jobs/missing", 404],
+	["GET", "/api/kv/cluster/missing", 400],
+	["GET", "/api/live/cluster/missing/stream/orders/tail", 400],
+	["GET", "/api/monitoring/cluster/missing/varz", 404],
+	["GET", "/api/notifications/channels", 200],
+	["GET", "/api/objectstore/health", 200],
+	["GET", "/api/stats/dashboard", 200],
+	["GET", "/api/streams/cluster/missing", 400],
+	["GET", "/api/topology/cluster/missing/export", 400],
+];
+
+const MAX_AGE_MS = SESSION_MAX_AGE * 1000;
+
+function request(method: string, path: string, sessionId?: string) {
+	const headers: Record<string, string> = { "Content-Type": "application/json" };
+	if (sessionId) headers.Cookie = `${SESSION_COOKIE_NAME}=${sessionId}`;
+	return createApp().request(path, { method, headers, body: method === "POST" ? "{}" : undefined });
+}
+
+function addSession(id: string, expiresAt: number) {
+	sessions.set(id, { id, user_id: user.id, expires_at: expiresAt, created_at: Date.now() });
+}
+
+describe("requireSession", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.mocked(refreshSession).mockClear();
+		sessions.clear();
+	});
+
+	describe.each(protectedRoutes)("%s %s", (method, path, status) => {
+		it("rejects a request without a cookie", async () => {
+			const res = await request(method, path);
+
+			expect(res.status).toBe(401);
+			expect(await res.json()).toEqual({ error: "Not authenticated" });
+		});
+
+		it("rejects an unknown session and clears its cookie", async () => {
+			const res = await request(method, path, "unknown");
+
+			expect(res.status).toBe(401);
+			expect(await res.json()).toEqual({ error: "Invalid session" });
+			expect(res.headers.get("Set-Cookie")).toMatch(new RegExp(`^${SESSION_COOKIE_NAME}=;.*Max-Age=0`));
+		});
+
+		it("passes a valid session on to the route", async () => {
+			addSession("valid", Date.now() + MAX_AGE_MS);
+			const res = await request(method, path, "valid");
+
+			expect(res.status).toBe(status);
+		});
+	});
+
+	it("rejects an expired session and clears its cookie", async () => {
+		addSession("expired", Date.now() - 1);
+		const res = await request("GET", "/api/clusters", "expired");
+
+		expect(res.status).toBe(401);
+		expect(res.headers.get("Set-Cookie")).toMatch(/Max-Age=0/);
+	});
+
+	it("does not extend a session before the refresh threshold", async () => {
+		addSession("fresh", Date.now() + MAX_AGE_MS);
+		vi.advanceTimersByTime(REFRESH_THRESHOLD_MS - 1000);
+		const res = await request("GET", "/api/clusters", "fresh");
+
+		expect(res.status).toBe(200);
+		expect(refreshSession).not.toHaveBeenCalled();
+		expect(res.headers.get("Set-Cookie")).toBeNull();
+	});
+
+	it("extends a session once the refresh threshold has passed", async () => {
+		addSession("aged", Date.now() + MAX_AGE_MS);
+		vi.advanceTimersByTime(REFRESH_THRESHOLD_MS + 1000);
+		const res = await request("GET", "/api/clusters", "aged");
+
+		expect(res.status).toBe(200);
+		expect(refreshSession).toHaveBeenCalledWith("aged", MAX_AGE_MS);
+		expect(res.headers.get("Set-Cookie")).toMatch(new RegExp(`^${SESSION_COOKIE_NAME}=aged;.*Max-Age=${SESSION_MAX_AGE}`));
+	});
+
+	it.each([
+		["/api/health", 200],
+		["/api/auth/setup-check", 200],
+	])("leaves %s public", async (path, status) => {
+		const res = await request("GET", path);
+
+		expect(res.status).toBe(status);
+	});
+
+	it.each(["/api/healthz", "/api/health-details", "/api/health/cluster"])("protects %s", async (path) => {
+		const res = await request("GET", path);
+
+		expect(res.status).toBe(401);
+	});
+});
@@ -0,0 +1,54 @@
+import type { Context, MiddlewareHandler } from "hono";
+import { deleteCookie, getCookie, setCookie } from "hono/cookie";
+import { getSession, refreshSession } from "../db";
+
+export const SESSION_COOKIE_NAME = "nats_eye_session";
+export const SESSION_MAX_AGE = 7 * 24 * 60 * 60; // 7 days in seconds
+
+// Allow insecure cookies for self-hosters using HTTP (Tailscale, local network, etc.)
+// Set SECURE_COOKIES=true if you're using HTTPS
+export const SECURE_COOKIES = process.env.SECURE_COOKIES === "true";
+
+// Only extend a session once it has aged this much, to avoid a write per request
+export const REFRESH_THRESHOLD_MS = 60 * 1000;
+
+// Paths reachable without a session: everything under auth, but only the health check itself
+const PUBLIC_PREFIXES = ["/api/auth/"];
+const PUBLIC_PATHS = ["/api/health"];
+
+// Set the session cookie with the standard options
+export function setSessionCookie(c: Context, sessionId: string) {
+	setCookie(c, SESSION_COOKIE_NAME, sessionId, {
+		httpOnly: true,
+		secure: SECURE_COOKIES,
+		sameSite: "Lax",
+		maxAge: SESSION_MAX_AGE,
+		path: "/",
+	});
+}
+
+// Require a valid session cookie; sliding expiry is refreshed on activity
+export const requireSession: MiddlewareHandler = async (c, next) => {
+	if (PUBLIC_PATHS.includes(c.req.path) || PUBLIC_PREFIXES.some((prefix) => c.req.path.startsWith(prefix))) {
+		return next();
+	}
+
+	const sessionId = getCookie(c, SESSION_COOKIE_NAME);
+	if (!sessionId) {
+		return c.json({ error: "Not authenticated" }, 401);
+	}
+
+	const session = getSession(sessionId);
+	if (!session) {
+		deleteCookie(c, SESSION_COOKIE_NAME, { path: "/" });
+		return c.json({ error: "Invalid session" }, 401);
+	}
+
+	const maxAgeMs = SESSION_MAX_AGE * 1000;
+	if (session.expires_at - Date.now() < maxAgeMs - REFRESH_THRESHOLD_MS) {
+		refreshSession(session.id, maxAgeMs);
+		setSessionCookie(c, session.id);
+	}
+
+	await next();
+};
@@ -1,6 +1,6 @@
 import { zValidator } from "@hono/zod-validator";
 import { Hono } from "hono";
-import { deleteCookie, getCookie, setCookie } from "hono/cookie";
+import { deleteCookie, getCookie } from "hono/cookie";
 import { z } from "zod";
 import {
 	createSession,
@@ -11,13 +11,7 @@ import {
 	getUserCount,
 	updateUser,
 } from "../db";
-
-const SESSION_COOKIE_NAME = "nats_eye_session";
-const SESSION_MAX_AGE = 7 * 24 * 60 * 60; // 7 days in seconds
-
-// Allow insecure cookies for self-hosters using HTTP (Tailscale, local network, etc.)
-// Set SECURE_COOKIES=true if you're using HTTPS
-const SECURE_COOKIES = process.env.SECURE_COOKIES === "true";
+import { SESSION_COOKIE_NAME, setSessionCookie } from "../middleware/session";
 
 // Password hashing using Bun's built-in crypto
 async function hashPassword(password: string): Promise<string> {
@@ -88,13 +82,7 @@ auth.post("/login", zValidator("json", loginSchema), async (c) => {
 	const session = createSession(user.id);
 
 	// Set session cookie
-	setCookie(c, SESSION_COOKIE_NAME, session.id, {
-		httpOnly: true,
-		secure: SECURE_COOKIES,
-		sameSite: "Lax",
-		maxAge: SESSION_MAX_AGE,
-		path: "/",
-	});
+	setSessionCookie(c, session.id);
 
 	return c.json({
 		success: true,
@@ -0,0 +1,145 @@
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { z } from "zod";
+import { getConnection } from "../services/connection-manager";
+import { isJetStreamApiError } from "../services/errors";
+import * as streamBackup from "../services/stream-backup";
+
+const restoreSchema = z.object({
+	backupId: z.string().min(1),
+	targetClusterId: z.string().min(1),
+	// Defaults to the name of the archived stream
+	name: z.string().max(256).regex(/^[a-zA-Z0-9_-]+$/, "Name can only contain letters, numbers, underscores, and hyphens").optional(),
+	subjectPrefix: z.string().regex(/^[^\s*>]+$/, "Prefix cannot contain spaces or wildcards").optional(),
+});
+
+// JetStream error code for an unknown stream
+const STREAM_NOT_FOUND = 10059;
+
+const backups = new Hono();
+
+// List archives stored on the server
+backups.get("/", async (c) => {
+	try {
+		return c.json({ backups: await streamBackup.listBackups() });
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to list backups",
+		}, 500);
+	}
+});
+
+// Start backing up a stream; poll the returned job for progress
+backups.post("/cluster/:clusterId/stream/:name", async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const name = c.req.param("name");
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc, cluster } = result;
+
+	try {
+		const job = await streamBackup.startBackup(nc, clusterId, cluster.name, name);
+		return c.json(job, 202);
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to start backup",
+		}, isJetStreamApiError(error) ? 400 : 500);
+	}
+});
+
+// Upload an archive taken elsewhere so it can be restored
+backups.post("/upload", async (c) => {
+	try {
+		const formData = await c.req.formData();
+		const file = formData.get("file") as File | null;
+
+		if (!file) {
+			return c.json({ error: "No file provided" }, 400);
+		}
+
+		return c.json(await streamBackup.importArchive(file.stream()));
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to upload backup",
+		}, 400);
+	}
+});
+
+// Recreate a stream from an archive; poll the returned job for progress
+backups.post("/restore", zValidator("json", restoreSchema), async (c) => {
+	const { backupId, targetClusterId, name, subjectPrefix } = c.req.valid("json");
+
+	const backup = await streamBackup.getBackup(backupId);
+	if (!backup) {
+		return c.json({ error: "Backup not found" }, 404);
+	}
+
+	const result = await getConnection(targetClusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		// Adding a stream with an identical config succeeds, which would republish every message into it
+		const target = name || backup.stream;
+		const jsm = await nc.jetstreamManager();
+		const existing = await jsm.streams.info(target).catch((error) => {
+			if (isJetStreamApiError(error) && error.api_error?.err_code === STREAM_NOT_FOUND) return null;
+			throw error;
+		});
+		if (existing) {
+			return c.json({
+				error: `Stream "${target}" already exists in this cluster, restore it under a different name`,
+			}, 409);
+		}
+
+		const job = await streamBackup.startRestore(nc, targetClusterId, backupId, { name, subjectPrefix });
+		return c.json(job, 202);
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to start restore",
+		}, 400);
+	}
+});
+
+// Download an archive
+backups.get("/:id/download", async (c) => {
+	const id = c.req.param("id");
+	const backup = await streamBackup.getBackup(id);
+	const archive = streamBackup.openArchive(id);
+
+	if (!backup || !archive) {
+		return c.json({ error: "Backup not found" }, 404);
+	}
+
+	return new Response(archive.body, {
+		headers: {
+			"Content-Type": "application/gzip",
+			"Content-Length": String(archive.size),
+			"Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(streamBackup.archiveFilename(backup))}`,
+		},
+	});
+});
+
+// Delete an archive
+backups.delete("/:id", async (c) => {
+	try {
+		if (!(await streamBackup.deleteBackup(c.req.param("id")))) {
+			return c.json({ error: "Backup not found" }, 404);
+		}
+		return c.json({ success: true });
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to delete backup",
+		}, 500);
+	}
+});
+
+export default backups;
@@ -1,7 +1,7 @@
 import { zValidator } from "@hono/zod-validator";
 import { Hono } from "hono";
-import { connect, type ConnectionOptions } from "nats.ws";
-import { connect as connectTcp, type ConnectionOptions as TcpConnectionOptions } from "nats";
+import { connect } from "nats.ws";
+import { connect as connectTcp } from "nats";
 import { z } from "zod";
 import {
 	type AuthType,
@@ -11,6 +11,8 @@ import {
 	getCluster,
 	updateCluster,
 } from "../db";
+import * as connectionManager from "../services/connection-manager";
+import type { ClusterCredentials } from "../services/connection-manager";
 
 // Zod schemas
 const wsUrlSchema = z
@@ -34,7 +36,77 @@ const natsUrlSchema = z
 	.transform((url) => url.trim())
 	.refine((url) => url.length > 0, { message: "URL is required" });
 
-const authTypeSchema = z.enum(["none", "token", "userpass"]);
+const authTypeSchema = z.enum(["none", "token", "userpass", "nkey", "creds", "tls"]);
+
+// Credential fields shared by create/update/test requests
+const credentialFields = {
+	token: z.string().optional(),
+	username: z.string().optional(),
+	password: z.string().optional(),
+	nkeySeed: z
+		.string()
+		.transform((seed) => seed.trim())
+		.refine((seed) => /^S[A-Z]{1}[A-Z2-7]+$/.test(seed), { message: "Must be an NKey seed (starts with S)" })
+		.optional(),
+	creds: z
+		.string()
+		.refine((creds) => creds.includes("BEGIN NATS USER JWT") && creds.includes("BEGIN USER NKEY SEED"), {
+			message: "Must be the contents of a NATS .creds file",
+		})
+		.optional(),
+	tlsCert: z.string().refine((pem) => pem.includes("BEGIN CERTIFICATE"), { message: "Must be a PEM certificate" }).optional(),
+	tlsKey: z.string().refine((pem) => pem.includes("PRIVATE KEY"), { message: "Must be a PEM private key" }).optional(),
+	tlsCa: z.string().refine((pem) => pem.includes("BEGIN CERTIFICATE"), { message: "Must be a PEM certificate" }).optional(),
+};
+
+type CredentialInput = {
+	token?: string;
+	username?: string;
+	password?: string;
+	nkeySeed?: string;
+	creds?: string;
+	tlsCert?: string;
+	tlsKey?: string;
+	tlsCa?: string;
+};
+
+// Make sure the credentials required by the chosen auth type were provided
+function requireCredentials(data: CredentialInput & { authType?: AuthType }, ctx: z.RefinementCtx) {
+	if (data.authType === "nkey" && !data.nkeySeed) {
+		ctx.addIssue({ code: "custom", path: ["nkeySeed"], message: "NKey seed is required" });
+	}
+	if (data.authType === "creds" && !data.creds) {
+		ctx.addIssue({ code: "custom", path: ["creds"], message: "Credentials file is required" });
+	}
+	if (data.authType === "tls" && (!data.tlsCert || !data.tlsKey)) {
+		ctx.addIssue({ code: "custom", path: ["tlsCert"], message: "Client certificate and key are required" });
+	}
+}
+
+// Helper to map request credentials to stored cluster fields
+function toClusterCredentials(authType: AuthType, data: CredentialInput): ClusterCredentials {
+	return {
+		auth_type: authType,
+		token: data.token ?? null,
+		username: data.username ?? null,
+		password: data.password ?? null,
+		nkey_seed: data.nkeySeed ?? null,
+		creds: data.creds ?? null,
+		tls_cert: data.tlsCert ?? null,
+		tls_key: data.tlsKey ?? null,
+		tls_ca: data.tlsCa ?? null,
+	};
+}
+
+// Determine auth type from provided credentials when the client didn't say
+function inferAuthType(data: CredentialInput): AuthType {
+	if (data.token) return "token";
+	if (data.username && data.password) return "userpass";
+	if (data.nkeySeed) return "nkey";
+	if (data.creds) return "creds";
+	if (data.tlsCert && data.tlsKey) return "tls";
+	return "none";
+}
 
 const monitoringUrlSchema = z
 	.string()
@@ -52,58 +124,33 @@ const monitoringUrlSchema = z
 		{ message: "Must be a valid HTTP URL (http:// or https://)" },
 	);
 
-const createClusterSchema = z.object({
-	name: z.string().min(1).max(100),
-	urls: z.array(wsUrlSchema).min(1).max(10),
-	natsUrls: z.array(natsUrlSchema).min(1).max(10).optional(),
-	authType: authTypeSchema.default("none"),
-	token: z.string().optional(),
-	username: z.string().optional(),
-	password: z.string().optional(),
-	monitoringUrls: z.array(monitoringUrlSchema).min(1).max(10).optional(),
-});
+const createClusterSchema = z
+	.object({
+		name: z.string().min(1).max(100),
+		urls: z.array(wsUrlSchema).min(1).max(10),
+		natsUrls: z.array(natsUrlSchema).min(1).max(10).optional(),
+		authType: authTypeSchema.default("none"),
+		...credentialFields,
+		monitoringUrls: z.array(monitoringUrlSchema).min(1).max(10).optional(),
+	})
+	.superRefine(requireCredentials);
 
 const updateClusterSchema = z.object({
 	name: z.string().min(1).max(100).optional(),
 	urls: z.array(wsUrlSchema).min(1).max(10).optional(),
 	natsUrls: z.array(natsUrlSchema).min(1).max(10).optional().nullable(),
 	authType: authTypeSchema.optional(),
-	token: z.string().optional(),
-	username: z.string().optional(),
-	password: z.string().optional(),
+	...credentialFields,
+	tlsCa: credentialFields.tlsCa.nullable(),
 	monitoringUrls: z.array(monitoringUrlSchema).min(1).max(10).optional().nullable(),
 });
 
 const testConnectionSchema = z.object({
 	urls: z.array(z.string()).min(1),
-	token: z.string().optional(),
-	username: z.string().optional(),
-	password: z.string().optional(),
+	authType: authTypeSchema.optional(),
+	...credentialFields,
 });
 
-// Helper to build NATS connection options
-function buildConnectionOptions(
-	urls: string[],
-	authType: AuthType,
-	token?: string | null,
-	username?: string | null,
-	password?: string | null,
-): ConnectionOptions {
-	const opts: ConnectionOptions = {
-		servers: urls,
-		timeout: 5000,
-	};
-
-	if (authType === "token" && token) {
-		opts.token = token;
-	} else if (authType === "userpass" && username && password) {
-		opts.user = username;
-		opts.pass = password;
-	}
-
-	return opts;
-}
-
 // Helper to sanitize cluster for client response
 function sanitizeCluster(cluster: ReturnType<typeof getCluster>) {
 	if (!cluster) return null;
@@ -115,6 +162,10 @@ function sanitizeCluster(cluster: ReturnType<typeof getCluster>) {
 		authType: cluster.auth_type,
 		hasToken: !!cluster.token,
 		hasUserPass: !!cluster.username && !!cluster.password,
+		hasNkey: !!cluster.nkey_seed,
+		hasCreds: !!cluster.creds,
+		hasTlsCert: !!cluster.tls_cert && !!cluster.tls_key,
+		hasTlsCa: !!cluster.tls_ca,
 		monitoringUrls: cluster.monitoring_urls,
 		createdAt: cluster.created_at,
 		updatedAt: cluster.updated_at,
@@ -130,6 +181,11 @@ clusters.get("/", (c) => {
 	return c.json(sanitized);
 });
 
+// Get pooled connection health for all clusters
+clusters.get("/health", (c) => {
+	return c.json(connectionManager.getAllHealth());
+});
+
 // Get single cluster
 clusters.get("/:id", (c) => {
 	const id = c.req.param("id");
@@ -144,8 +200,14 @@ clusters.get("/:id", (c) => {
 
 // Create cluster
 clusters.post("/", zValidator("json", createClusterSchema), (c) => {
-	const { name, urls, natsUrls, authType, token, username, password, monitoringUrls } = c.req.valid("json");
-	const cluster = createCluster(name, urls, authType, token, username, password, natsUrls, monitoringUrls);
+	const { name, urls, natsUrls, authType, token, username, password, monitoringUrls, ...authFiles } = c.req.valid("json");
+	const cluster = createCluster(name, urls, authType, token, username, password, natsUrls, monitoringUrls, {
+		nkey_seed: authFiles.nkeySeed,
+		creds: authFiles.creds,
+		tls_cert: authFiles.tlsCert,
+		tls_key: authFiles.tlsKey,
+		tls_ca: authFiles.tlsCa,
+	});
 
 	return c.json(sanitizeCluster(cluster), 201);
 });
@@ -163,6 +225,11 @@ clusters.patch("/:id", zValidator("json", updateClusterSchema), (c) => {
 		token: data.token,
 		username: data.username,
 		password: data.password,
+		nkey_seed: data.nkeySeed,
+		creds: data.creds,
+		tls_cert: data.tlsCert,
+		tls_key: data.tlsKey,
+		tls_ca: data.tlsCa,
 		monitoring_urls: data.monitoringUrls,
 	});
 
@@ -170,6 +237,9 @@ clusters.patch("/:id", zValidator("json", updateClusterSchema), (c) => {
 		return c.json({ error: "Cluster not found" }, 404);
 	}
 
+	// Drop the pooled connection so new URLs/credentials take effect
+	connectionManager.invalidate(id);
+
 	return c.json(sanitizeCluster(updated));
 });
 
@@ -182,23 +252,20 @@ clusters.delete("/:id", (c) => {
 		return c.json({ error: "Cluster not found" }, 404);
 	}
 
+	connectionManager.invalidate(id);
+
 	return c.json({ success: true });
 });
 
 // Test connection (with provided credentials)
 clusters.post("/test", zValidator("json", testConnectionSchema), async (c) => {
-	const { urls, token, username, password } = c.req.valid("json");
-
-	// Determine auth type from provided credentials
-	let authType: AuthType = "none";
-	if (token) {
-		authType = "token";
-	} else if (username && password) {
-		authType = "userpass";
-	}
+	const { urls, authType, ...credentials } = c.req.valid("json");
 
 	try {
-		const opts = buildConnectionOptions(urls, authType, token, username, password);
+		const opts = connectionManager.buildConnectionOptions(
+			urls,
+			toClusterCredentials(authType ?? inferAuthType(credentials), credentials),
+		);
 		const nc = await connect(opts);
 
 		const serverInfo = nc.info;
@@ -223,36 +290,18 @@ clusters.post("/test", zValidator("json", testConnectionSchema), async (c) => {
 });
 
 // Test NATS TCP connection (with provided credentials)
-const testNatsSchema = z.object({
-	urls: z.array(z.string()).min(1),
-	token: z.string().optional(),
-	username: z.string().optional(),
-	password: z.string().optional(),
-});
+const testNatsSchema = testConnectionSchema;
 
 clusters.post("/test-nats", zValidator("json", testNatsSchema), async (c) => {
-	const { urls, token, username, password } = c.req.valid("json");
-
-	let authType: AuthType = "none";
-	if (token) {
-		authType = "token";
-	} else if (username && password) {
-		authType = "userpass";
-	}
+	const { urls, authType, ...credentials } = c.req.valid("json");
 
 	try {
-		const opts: TcpConnectionOptions = {
-			servers: urls,
-			timeout: 5000,
-		};
-
-		if (authType === "token" && token) {
-			opts.token = token;
-		} else if (authType === "userpass" && username && password) {
-			opts.user = username;
-			opts.pass = password;
-		}
-
+		const opts = connectionManager.buildConnectionOptions(
+			urls,
+			toClusterCredentials(authType ?? inferAuthType(credentials), credentials),
+			5000,
+			"tcp",
+		);
 		const nc = await connectTcp(opts);
 		const serverInfo = nc.info;
 		await nc.close();
@@ -330,13 +379,7 @@ clusters.post("/:id/test", async (c) => {
 	}
 
 	try {
-		const opts = buildConnectionOptions(
-			cluster.urls,
-			cluster.auth_type,
-			cluster.token,
-			cluster.username,
-			cluster.password,
-		);
+		const opts = connectionManager.buildConnectionOptions(cluster.urls, cluster);
 		const nc = await connect(opts);
 
 		const serverInfo = nc.info;
@@ -360,8 +403,8 @@ clusters.post("/:id/test", async (c) => {
 	}
 });
 
-// Get connection info for frontend direct connection
-clusters.get("/:id/connect", (c) => {
+// Get pooled connection health for a cluster
+clusters.get("/:id/health", (c) => {
 	const id = c.req.param("id");
 	const cluster = getCluster(id);
 
@@ -369,14 +412,7 @@ clusters.get("/:id/connect", (c) => {
 		return c.json({ error: "Cluster not found" }, 404);
 	}
 
-	// Return connection info for the frontend
-	return c.json({
-		urls: cluster.urls,
-		authType: cluster.auth_type,
-		token: cluster.auth_type === "token" ? cluster.token : undefined,
-		username: cluster.auth_type === "userpass" ? cluster.username : undefined,
-		password: cluster.auth_type === "userpass" ? cluster.password : undefined,
-	});
+	return c.json(connectionManager.getHealth(id));
 });
 
 export default clusters;
@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from "vitest";
+import consumers from "./consumers";
+
+const connection = vi.hoisted(() => ({ nc: undefined as unknown }));
+
+vi.mock("../db", () => ({}));
+vi.mock("../services/connection-manager", () => ({ getConnection: async () => ({ nc: connection.nc }) }));
+
+describe("PUT /cluster/:clusterId/stream/:streamName/consumer/:consumerName/raw", () => {
+	it("removes the keys left out of the submitted config and keeps the consumer's name", async () => {
+		let stored: Record<string, unknown> = {
+			name: "worker",
+			durable_name: "worker",
+			deliver_policy: "all",
+			ack_policy: "explicit",
+			replay_policy: "instant",
+			max_deliver: 5,
+			backoff: [1_000_000_000, 5_000_000_000],
+			filter_subjects: ["orders.new", "orders.paid"],
+		};
+		// Merges onto the current config and sends the result as JSON, like nats.ws consumers.update()
+		const update = async (_stream: string, _name: string, config: object) => {
+			stored = JSON.parse(JSON.stringify(Object.assign({ ...stored }, config)));
+			return { config: stored };
+		};
+		connection.nc = {
+			jetstreamManager: async () => ({ consumers: { info: async () => ({ config: { ...stored } }), update } }),
+		};
+
+		const { backoff, filter_subjects, name, durable_name, ...submitted } = stored;
+		const res = await consumers.request("/cluster/c1/stream/ORDERS/consumer/worker/raw", {
+			method: "PUT",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(submitted),
+		});
+
+		expect(res.status).toBe(200);
+		expect(stored).toEqual({ ...submitted, name: "worker", durable_name: "worker" });
+	});
+});
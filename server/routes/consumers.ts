@@ -1,62 +1,18 @@
 import { zValidator } from "@hono/zod-validator";
 import { Hono } from "hono";
 import {
-	connect,
-	type NatsConnection,
-	type ConnectionOptions,
 	type ConsumerInfo,
 	type ConsumerConfig,
+	type NatsConnection,
 	AckPolicy,
 	DeliverPolicy,
 	ReplayPolicy,
 } from "nats.ws";
 import { z } from "zod";
-import { type AuthType, getCluster } from "../db";
-
-// Helper to build NATS connection options
-function buildConnectionOptions(
-	urls: string[],
-	authType: AuthType,
-	token?: string | null,
-	username?: string | null,
-	password?: string | null,
-): ConnectionOptions {
-	const opts: ConnectionOptions = {
-		servers: urls,
-		timeout: 5000,
-	};
-
-	if (authType === "token" && token) {
-		opts.token = token;
-	} else if (authType === "userpass" && username && password) {
-		opts.user = username;
-		opts.pass = password;
-	}
-
-	return opts;
-}
-
-// Helper to connect to a cluster
-async function connectToCluster(clusterId: string): Promise<{ nc: NatsConnection; cluster: NonNullable<ReturnType<typeof getCluster>> } | { error: string }> {
-	const cluster = getCluster(clusterId);
-	if (!cluster) {
-		return { error: "Cluster not found" };
-	}
-
-	try {
-		const opts = buildConnectionOptions(
-			cluster.urls,
-			cluster.auth_type,
-			cluster.token,
-			cluster.username,
-			cluster.password,
-		);
-		const nc = await connect(opts);
-		return { nc, cluster };
-	} catch (error) {
-		return { error: error instanceof Error ? error.message : "Connection failed" };
-	}
-}
+import { getConnection } from "../services/connection-manager";
+import { peekConsumerMessages } from "../services/consumer-peek";
+import { isJetStreamApiError } from "../services/errors";
+import { withRemovedKeys } from "../services/raw-config";
 
 // Format consumer info for response
 function formatConsumerInfo(streamName: string, info: ConsumerInfo) {
@@ -86,6 +42,13 @@ function formatConsumerInfo(streamName: string, info: ConsumerInfo) {
 			maxBytes: info.config.max_bytes,
 			numReplicas: info.config.num_replicas,
 			memStorage: info.config.mem_storage,
+			backoff: info.config.backoff,
+			inactiveThreshold: info.config.inactive_threshold,
+			pauseUntil: info.config.pause_until,
+			deliverSubject: info.config.deliver_subject,
+			deliverGroup: info.config.deliver_group,
+			rateLimitBps: info.config.rate_limit_bps,
+			metadata: info.config.metadata,
 		},
 		delivered: {
 			consumerSeq: info.delivered.consumer_seq,
@@ -100,11 +63,19 @@ function formatConsumerInfo(streamName: string, info: ConsumerInfo) {
 		numWaiting: info.num_waiting,
 		numPending: info.num_pending,
 		pushBound: info.push_bound,
+		paused: info.paused ?? false,
+		pauseRemaining: info.pause_remaining,
 	};
 }
 
+// Consumer pausing arrived in nats-server 2.11
+function supportsPause(nc: NatsConnection): boolean {
+	const [major = 0, minor = 0] = (nc.info?.version ?? "").split(".").map(Number);
+	return major > 2 || (major === 2 && minor >= 11);
+}
+
 // Zod schemas
-const createConsumerSchema = z.object({
+export const createConsumerSchema = z.object({
 	name: z.string().min(1).max(256).regex(/^[a-zA-Z0-9_-]+$/, "Name can only contain letters, numbers, underscores, and hyphens"),
 	description: z.string().max(4096).optional(),
 	durableName: z.string().min(1).max(256).regex(/^[a-zA-Z0-9_-]+$/).optional(),
@@ -123,6 +94,228 @@ const createConsumerSchema = z.object({
 	headersOnly: z.boolean().optional(),
 	maxBatch: z.number().int().min(0).optional(),
 	maxBytes: z.number().int().min(0).optional(),
+	// Ephemeral consumers are removed by the server once idle for inactiveThreshold
+	ephemeral: z.boolean().optional(),
+	backoff: z.array(z.number().int().min(0)).optional(), // nanoseconds
+	inactiveThreshold: z.number().int().min(0).optional(), // nanoseconds
+	// Push consumers only
+	deliverSubject: z.string().regex(/^[^\s*>]+$/, "Deliver subject cannot contain spaces or wildcards").optional(),
+	deliverGroup: z.string().regex(/^[^\s*>]+$/, "Deliver group cannot contain spaces or wildcards").optional(),
+	idleHeartbeat: z.number().int().min(0).optional(), // nanoseconds
+	rateLimitBps: z.number().int().min(0).optional(),
+	sampleFreq: z.string().regex(/^(\d{1,2}|100)%?$/, "Sample frequency must be a percentage from 0 to 100").optional(),
+	memStorage: z.boolean().optional(),
+	numReplicas: z.number().int().min(0).max(5).optional(),
+	metadata: z.record(z.string().min(1), z.string()).optional(),
+}).refine((data) => !data.backoff?.length || data.maxDeliver === -1 || data.maxDeliver > data.backoff.length, {
+	message: "maxDeliver must be greater than the number of backoff steps",
+	path: ["backoff"],
+}).refine((data) => !data.deliverSubject || (data.maxWaiting === undefined && data.maxBatch === undefined && data.maxBytes === undefined), {
+	message: "maxWaiting, maxBatch and maxBytes only apply to pull consumers",
+	path: ["deliverSubject"],
+}).refine((data) => data.deliverSubject || (!data.deliverGroup && !data.flowControl && !data.idleHeartbeat && !data.rateLimitBps), {
+	message: "deliverGroup, flowControl, idleHeartbeat and rateLimitBps require a deliverSubject",
+	path: ["deliverSubject"],
+}).refine((data) => !data.flowControl || data.idleHeartbeat, {
+	message: "flowControl requires an idleHeartbeat",
+	path: ["idleHeartbeat"],
+});
+
+export type CreateConsumerRequest = z.infer<typeof createConsumerSchema>;
+
+// Build a NATS consumer config from a create request
+export function toConsumerConfig(data: CreateConsumerRequest): Partial<ConsumerConfig> {
+	// Map deliver policy
+	let deliverPolicy: DeliverPolicy;
+	switch (data.deliverPolicy) {
+		case "all": deliverPolicy = DeliverPolicy.All; break;
+		case "last": deliverPolicy = DeliverPolicy.Last; break;
+		case "new": deliverPolicy = DeliverPolicy.New; break;
+		case "by_start_sequence": deliverPolicy = DeliverPolicy.StartSequence; break;
+		case "by_start_time": deliverPolicy = DeliverPolicy.StartTime; break;
+		case "last_per_subject": deliverPolicy = DeliverPolicy.LastPerSubject; break;
+		default: deliverPolicy = DeliverPolicy.All;
+	}
+
+	// Map ack policy
+	let ackPolicy: AckPolicy;
+	switch (data.ackPolicy) {
+		case "none": ackPolicy = AckPolicy.None; break;
+		case "all": ackPolicy = AckPolicy.All; break;
+		case "explicit": ackPolicy = AckPolicy.Explicit; break;
+		default: ackPolicy = AckPolicy.Explicit;
+	}
+
+	// Map replay policy
+	let replayPolicy: ReplayPolicy;
+	switch (data.replayPolicy) {
+		case "instant": replayPolicy = ReplayPolicy.Instant; break;
+		case "original": replayPolicy = ReplayPolicy.Original; break;
+		default: replayPolicy = ReplayPolicy.Instant;
+	}
+
+	const config: Partial<ConsumerConfig> = {
+		name: data.name,
+		durable_name: data.ephemeral ? undefined : data.durableName || data.name,
+		description: data.description,
+		deliver_policy: deliverPolicy,
+		ack_policy: ackPolicy,
+		replay_policy: replayPolicy,
+		max_deliver: data.maxDeliver,
+		filter_subject: data.filterSubject,
+		filter_subjects: data.filterSubjects,
+		max_waiting: data.maxWaiting,
+		max_ack_pending: data.maxAckPending,
+		flow_control: data.flowControl,
+		headers_only: data.headersOnly,
+		max_batch: data.maxBatch,
+		max_bytes: data.maxBytes,
+		backoff: data.backoff?.length ? data.backoff : undefined,
+		inactive_threshold: data.inactiveThreshold,
+		deliver_subject: data.deliverSubject,
+		deliver_group: data.deliverGroup,
+		idle_heartbeat: data.idleHeartbeat,
+		rate_limit_bps: data.rateLimitBps,
+		sample_freq: data.sampleFreq,
+		mem_storage: data.memStorage,
+		num_replicas: data.numReplicas,
+		metadata: data.metadata,
+	};
+
+	if (data.optStartSeq !== undefined) {
+		config.opt_start_seq = data.optStartSeq;
+	}
+	if (data.optStartTime !== undefined) {
+		config.opt_start_time = data.optStartTime;
+	}
+	if (data.ackWait !== undefined) {
+		config.ack_wait = data.ackWait;
+	}
+
+	return config;
+}
+
+// Convert a NATS consumer config back into a create request, e.g. for exports
+export function fromConsumerConfig(name: string, config: ConsumerConfig): CreateConsumerRequest {
+	return {
+		name,
+		durableName: config.durable_name,
+		description: config.description,
+		deliverPolicy: config.deliver_policy,
+		optStartSeq: config.opt_start_seq,
+		optStartTime: config.opt_start_time,
+		// The server always reports a concrete ack policy, never "not_set"
+		ackPolicy: config.ack_policy === AckPolicy.None || config.ack_policy === AckPolicy.All ? config.ack_policy : "explicit",
+		ackWait: config.ack_wait,
+		maxDeliver: config.max_deliver ?? -1,
+		filterSubject: config.filter_subject,
+		filterSubjects: config.filter_subjects,
+		replayPolicy: config.replay_policy,
+		maxWaiting: config.max_waiting,
+		maxAckPending: config.max_ack_pending,
+		flowControl: config.flow_control,
+		headersOnly: config.headers_only,
+		maxBatch: config.max_batch,
+		maxBytes: config.max_bytes,
+		ephemeral: config.durable_name ? undefined : true,
+		backoff: config.backoff,
+		inactiveThreshold: config.inactive_threshold || undefined,
+		deliverSubject: config.deliver_subject,
+		deliverGroup: config.deliver_group,
+		idleHeartbeat: config.idle_heartbeat || undefined,
+		rateLimitBps: config.rate_limit_bps || undefined,
+		sampleFreq: config.sample_freq,
+		memStorage: config.mem_storage || undefined,
+		numReplicas: config.num_replicas || undefined,
+		metadata: userMetadata(config.metadata),
+	};
+}
+
+// Drop the _nats.* keys the server adds to consumer metadata
+function userMetadata(metadata?: Record<string, string>): Record<string, string> | undefined {
+	const entries = Object.entries(metadata ?? {}).filter(([key]) => !key.startsWith("_nats."));
+	return entries.length ? Object.fromEntries(entries) : undefined;
+}
+
+// Fields the server allows to change after a consumer is created
+const updateConsumerSchema = z.object({
+	description: z.string().max(4096).optional(),
+	ackWait: z.number().int().min(0).optional(), // nanoseconds
+	maxDeliver: z.number().int().min(-1).optional(),
+	maxAckPending: z.number().int().min(-1).optional(),
+	filterSubjects: z.array(z.string().min(1)).optional(),
+	backoff: z.array(z.number().int().min(0)).optional(), // nanoseconds
+	inactiveThreshold: z.number().int().min(0).optional(), // nanoseconds
+	sampleFreq: z.string().regex(/^(\d{1,2}|100)%?$/, "Sample frequency must be a percentage from 0 to 100").optional(),
+}).refine((data) => !data.backoff?.length || data.maxDeliver === undefined || data.maxDeliver === -1 || data.maxDeliver > data.backoff.length, {
+	message: "maxDeliver must be greater than the number of backoff steps",
+	path: ["backoff"],
+});
+
+type UpdateConsumerRequest = z.infer<typeof updateConsumerSchema>;
+
+// Apply an update request on top of the existing config
+function buildUpdatedConsumerConfig(existing: ConsumerConfig, data: UpdateConsumerRequest): Partial<ConsumerConfig> {
+	const config: Partial<ConsumerConfig> = { ...existing };
+
+	if (data.description !== undefined) config.description = data.description;
+	if (data.ackWait !== undefined) config.ack_wait = data.ackWait;
+	if (data.maxDeliver !== undefined) config.max_deliver = data.maxDeliver;
+	if (data.maxAckPending !== undefined) config.max_ack_pending = data.maxAckPending;
+	if (data.backoff !== undefined) config.backoff = data.backoff.length ? data.backoff : undefined;
+	if (data.inactiveThreshold !== undefined) config.inactive_threshold = data.inactiveThreshold;
+	if (data.sampleFreq !== undefined) config.sample_freq = data.sampleFreq;
+
+	// The server rejects filter_subject and filter_subjects set together
+	if (data.filterSubjects !== undefined) {
+		if (data.filterSubjects.length > 1) {
+			config.filter_subjects = data.filterSubjects;
+			delete config.filter_subject;
+		} else {
+			config.filter_subject = data.filterSubjects[0] ?? "";
+			delete config.filter_subjects;
+		}
+	}
+
+	return config;
+}
+
+const pauseConsumerSchema = z.object({
+	until: z.iso.datetime({ offset: true }),
+});
+
+// Raw ConsumerConfig as returned by `nats consumer info --json`. Unknown keys are
+// passed through so configs from newer servers can still be applied.
+const rawConsumerConfigSchema = z.looseObject({
+	name: z.string().min(1).optional(),
+	durable_name: z.string().min(1).optional(),
+	description: z.string().optional(),
+	deliver_policy: z.enum(["all", "last", "new", "by_start_sequence", "by_start_time", "last_per_subject"]),
+	opt_start_seq: z.number().int().min(0).optional(),
+	opt_start_time: z.string().optional(),
+	ack_policy: z.enum(["none", "all", "explicit"]),
+	ack_wait: z.number().int().min(0).optional(),
+	max_deliver: z.number().int().min(-1).optional(),
+	backoff: z.array(z.number().int().min(0)).optional(),
+	filter_subject: z.string().optional(),
+	filter_subjects: z.array(z.string()).optional(),
+	replay_policy: z.enum(["instant", "original"]),
+	rate_limit_bps: z.number().int().min(0).optional(),
+	sample_freq: z.string().optional(),
+	max_waiting: z.number().int().min(0).optional(),
+	max_ack_pending: z.number().int().min(-1).optional(),
+	flow_control: z.boolean().optional(),
+	idle_heartbeat: z.number().int().min(0).optional(),
+	headers_only: z.boolean().optional(),
+	deliver_subject: z.string().optional(),
+	deliver_group: z.string().optional(),
+	max_batch: z.number().int().min(0).optional(),
+	max_bytes: z.number().int().min(0).optional(),
+	max_expires: z.number().int().min(0).optional(),
+	inactive_threshold: z.number().int().min(0).optional(),
+	num_replicas: z.number().int().min(0).max(5).optional(),
+	mem_storage: z.boolean().optional(),
+	metadata: z.record(z.string(), z.string()).optional(),
 });
 
 const consumers = new Hono();
@@ -131,7 +324,7 @@ const consumers = new Hono();
 consumers.get("/cluster/:clusterId/stream/:streamName", async (c) => {
 	const clusterId = c.req.param("clusterId");
 	const streamName = c.req.param("streamName");
-	const result = await connectToCluster(clusterId);
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -153,15 +346,13 @@ consumers.get("/cluster/:clusterId/stream/:streamName", async (c) => {
 		return c.json({
 			error: error instanceof Error ? error.message : "Failed to list consumers",
 		}, 500);
-	} finally {
-		await nc.close().catch(() => {});
 	}
 });
 
 // List all consumers across all streams in a cluster
 consumers.get("/cluster/:clusterId", async (c) => {
 	const clusterId = c.req.param("clusterId");
-	const result = await connectToCluster(clusterId);
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -191,8 +382,6 @@ consumers.get("/cluster/:clusterId", async (c) => {
 		return c.json({
 			error: error instanceof Error ? error.message : "Failed to list consumers",
 		}, 500);
-	} finally {
-		await nc.close().catch(() => {});
 	}
 });
 
@@ -201,7 +390,7 @@ consumers.get("/cluster/:clusterId/stream/:streamName/consumer/:consumerName", a
 	const clusterId = c.req.param("clusterId");
 	const streamName = c.req.param("streamName");
 	const consumerName = c.req.param("consumerName");
-	const result = await connectToCluster(clusterId);
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -212,22 +401,86 @@ consumers.get("/cluster/:clusterId/stream/:streamName/consumer/:consumerName", a
 	try {
 		const jsm = await nc.jetstreamManager();
 		const info = await jsm.consumers.info(streamName, consumerName);
-		return c.json(formatConsumerInfo(streamName, info));
+		return c.json({ ...formatConsumerInfo(streamName, info), pauseSupported: supportsPause(nc) });
 	} catch (error) {
 		return c.json({
 			error: error instanceof Error ? error.message : "Consumer not found",
 		}, 404);
-	} finally {
-		await nc.close().catch(() => {});
 	}
 });
 
-// Create a new consumer
-consumers.post("/cluster/:clusterId/stream/:streamName", zValidator("json", createConsumerSchema), async (c) => {
+// Update the mutable fields of a consumer
+consumers.patch(
+	"/cluster/:clusterId/stream/:streamName/consumer/:consumerName",
+	zValidator("json", updateConsumerSchema),
+	async (c) => {
+		const clusterId = c.req.param("clusterId");
+		const streamName = c.req.param("streamName");
+		const consumerName = c.req.param("consumerName");
+		const data = c.req.valid("json");
+		const result = await getConnection(clusterId);
+
+		if ("error" in result) {
+			return c.json({ error: result.error }, 400);
+		}
+
+		const { nc } = result;
+
+		try {
+			const jsm = await nc.jetstreamManager();
+			const existing = await jsm.consumers.info(streamName, consumerName);
+			const info = await jsm.consumers.update(streamName, consumerName, buildUpdatedConsumerConfig(existing.config, data));
+			return c.json({ ...formatConsumerInfo(streamName, info), pauseSupported: supportsPause(nc) });
+		} catch (error) {
+			return c.json({
+				error: error instanceof Error ? error.message : "Failed to update consumer",
+			}, isJetStreamApiError(error) ? 400 : 500);
+		}
+	},
+);
+
+// Pause delivery until the given time
+consumers.post(
+	"/cluster/:clusterId/stream/:streamName/consumer/:consumerName/pause",
+	zValidator("json", pauseConsumerSchema),
+	async (c) => {
+		const clusterId = c.req.param("clusterId");
+		const streamName = c.req.param("streamName");
+		const consumerName = c.req.param("consumerName");
+		const { until } = c.req.valid("json");
+		const result = await getConnection(clusterId);
+
+		if ("error" in result) {
+			return c.json({ error: result.error }, 400);
+		}
+
+		const { nc } = result;
+
+		if (!supportsPause(nc)) {
+			return c.json({ error: "Pausing consumers requires nats-server 2.11 or later" }, 400);
+		}
+		if (new Date(until).getTime() <= Date.now()) {
+			return c.json({ error: "The pause deadline must be in the future" }, 400);
+		}
+
+		try {
+			const jsm = await nc.jetstreamManager();
+			const paused = await jsm.consumers.pause(streamName, consumerName, new Date(until));
+			return c.json({ paused: paused.paused, pauseUntil: paused.pause_until });
+		} catch (error) {
+			return c.json({
+				error: error instanceof Error ? error.message : "Failed to pause consumer",
+			}, isJetStreamApiError(error) ? 400 : 500);
+		}
+	},
+);
+
+// Resume delivery of a paused consumer
+consumers.post("/cluster/:clusterId/stream/:streamName/consumer/:consumerName/resume", async (c) => {
 	const clusterId = c.req.param("clusterId");
 	const streamName = c.req.param("streamName");
-	const data = c.req.valid("json");
-	const result = await connectToCluster(clusterId);
+	const consumerName = c.req.param("consumerName");
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -235,74 +488,147 @@ consumers.post("/cluster/:clusterId/stream/:streamName", zValidator("json", crea
 
 	const { nc } = result;
 
+	if (!supportsPause(nc)) {
+		return c.json({ error: "Pausing consumers requires nats-server 2.11 or later" }, 400);
+	}
+
 	try {
 		const jsm = await nc.jetstreamManager();
+		const resumed = await jsm.consumers.resume(streamName, consumerName);
+		return c.json({ paused: resumed.paused, pauseUntil: resumed.pause_until });
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to resume consumer",
+		}, isJetStreamApiError(error) ? 400 : 500);
+	}
+});
 
-		// Map deliver policy
-		let deliverPolicy: DeliverPolicy;
-		switch (data.deliverPolicy) {
-			case "all": deliverPolicy = DeliverPolicy.All; break;
-			case "last": deliverPolicy = DeliverPolicy.Last; break;
-			case "new": deliverPolicy = DeliverPolicy.New; break;
-			case "by_start_sequence": deliverPolicy = DeliverPolicy.StartSequence; break;
-			case "by_start_time": deliverPolicy = DeliverPolicy.StartTime; break;
-			case "last_per_subject": deliverPolicy = DeliverPolicy.LastPerSubject; break;
-			default: deliverPolicy = DeliverPolicy.All;
-		}
+// Peek at unacknowledged and pending messages without consuming or acking them
+consumers.get("/cluster/:clusterId/stream/:streamName/consumer/:consumerName/messages", async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const streamName = c.req.param("streamName");
+	const consumerName = c.req.param("consumerName");
+	const limit = Math.min(Number(c.req.query("limit")) || 25, 100);
+	const result = await getConnection(clusterId);
 
-		// Map ack policy
-		let ackPolicy: AckPolicy;
-		switch (data.ackPolicy) {
-			case "none": ackPolicy = AckPolicy.None; break;
-			case "all": ackPolicy = AckPolicy.All; break;
-			case "explicit": ackPolicy = AckPolicy.Explicit; break;
-			default: ackPolicy = AckPolicy.Explicit;
-		}
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
 
-		// Map replay policy
-		let replayPolicy: ReplayPolicy;
-		switch (data.replayPolicy) {
-			case "instant": replayPolicy = ReplayPolicy.Instant; break;
-			case "original": replayPolicy = ReplayPolicy.Original; break;
-			default: replayPolicy = ReplayPolicy.Instant;
-		}
+	const { nc } = result;
 
-		const config: Partial<ConsumerConfig> = {
-			name: data.name,
-			durable_name: data.durableName || data.name,
-			description: data.description,
-			deliver_policy: deliverPolicy,
-			ack_policy: ackPolicy,
-			replay_policy: replayPolicy,
-			max_deliver: data.maxDeliver,
-			filter_subject: data.filterSubject,
-			filter_subjects: data.filterSubjects,
-			max_waiting: data.maxWaiting,
-			max_ack_pending: data.maxAckPending,
-			flow_control: data.flowControl,
-			headers_only: data.headersOnly,
-			max_batch: data.maxBatch,
-			max_bytes: data.maxBytes,
-		};
-
-		if (data.optStartSeq !== undefined) {
-			config.opt_start_seq = data.optStartSeq;
+	try {
+		const jsm = await nc.jetstreamManager();
+		const info = await jsm.consumers.info(streamName, consumerName);
+		const peek = await peekConsumerMessages(jsm, info, limit);
+		return c.json({
+			...peek,
+			ackFloor: info.ack_floor.stream_seq,
+			delivered: info.delivered.stream_seq,
+			numAckPending: info.num_ack_pending,
+			numPending: info.num_pending,
+			numRedelivered: info.num_redelivered,
+		});
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to read consumer messages",
+		}, isJetStreamApiError(error) ? 400 : 500);
+	}
+});
+
+// Get the untransformed ConsumerInfo
+consumers.get("/cluster/:clusterId/stream/:streamName/consumer/:consumerName/raw", async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const streamName = c.req.param("streamName");
+	const consumerName = c.req.param("consumerName");
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		const jsm = await nc.jetstreamManager();
+		const info = await jsm.consumers.info(streamName, consumerName);
+		return c.json(info);
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Consumer not found",
+		}, 404);
+	}
+});
+
+// Replace the consumer config with a raw ConsumerConfig
+consumers.put(
+	"/cluster/:clusterId/stream/:streamName/consumer/:consumerName/raw",
+	zValidator("json", rawConsumerConfigSchema, (result, c) => {
+		// Report every schema violation so the raw editor can show them together
+		if (!result.success) {
+			const issues = result.error.issues.map((issue) => `${issue.path.join(".") || "config"}: ${issue.message}`);
+			return c.json({ error: issues.join("\n") }, 400);
 		}
-		if (data.optStartTime !== undefined) {
-			config.opt_start_time = data.optStartTime;
+	}),
+	async (c) => {
+		const clusterId = c.req.param("clusterId");
+		const streamName = c.req.param("streamName");
+		const consumerName = c.req.param("consumerName");
+		const data = c.req.valid("json");
+
+		if ((data.name && data.name !== consumerName) || (data.durable_name && data.durable_name !== consumerName)) {
+			return c.json({ error: "Consumer name cannot be changed" }, 400);
 		}
-		if (data.ackWait !== undefined) {
-			config.ack_wait = data.ackWait;
+
+		const result = await getConnection(clusterId);
+
+		if ("error" in result) {
+			return c.json({ error: result.error }, 400);
 		}
 
-		const info = await jsm.consumers.add(streamName, config);
+		const { nc } = result;
+
+		try {
+			const jsm = await nc.jetstreamManager();
+			const current = await jsm.consumers.info(streamName, consumerName);
+			const config: Partial<ConsumerConfig> = {
+				...withRemovedKeys(current.config, data),
+				// Without its name the update would create a new consumer instead
+				name: current.config.name,
+				durable_name: current.config.durable_name,
+			};
+			// The server rejects changes to fields that are fixed after creation
+			const info = await jsm.consumers.update(streamName, consumerName, config);
+			return c.json(info);
+		} catch (error) {
+			return c.json({
+				error: error instanceof Error ? error.message : "Failed to update consumer",
+			}, isJetStreamApiError(error) ? 400 : 500);
+		}
+	},
+);
+
+// Create a new consumer
+consumers.post("/cluster/:clusterId/stream/:streamName", zValidator("json", createConsumerSchema), async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const streamName = c.req.param("streamName");
+	const data = c.req.valid("json");
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		const jsm = await nc.jetstreamManager();
+		const info = await jsm.consumers.add(streamName, toConsumerConfig(data));
 		return c.json(formatConsumerInfo(streamName, info), 201);
 	} catch (error) {
 		return c.json({
 			error: error instanceof Error ? error.message : "Failed to create consumer",
 		}, 500);
-	} finally {
-		await nc.close().catch(() => {});
 	}
 });
 
@@ -311,7 +637,7 @@ consumers.delete("/cluster/:clusterId/stream/:streamName/consumer/:consumerName"
 	const clusterId = c.req.param("clusterId");
 	const streamName = c.req.param("streamName");
 	const consumerName = c.req.param("consumerName");
-	const result = await connectToCluster(clusterId);
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -327,8 +653,6 @@ consumers.delete("/cluster/:clusterId/stream/:streamName/consumer/:consumerName"
 		return c.json({
 			error: error instanceof Error ? error.message : "Failed to delete consumer",
 		}, 500);
-	} finally {
-		await nc.close().catch(() => {});
 	}
 });
 
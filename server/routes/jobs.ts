@@ -0,0 +1,15 @@
+import { Hono } from "hono";
+import { getJob } from "../services/jobs";
+
+const jobs = new Hono();
+
+// Progress of a running or recently finished job
+jobs.get("/:id", (c) => {
+	const job = getJob(c.req.param("id"));
+	if (!job) {
+		return c.json({ error: "Job not found" }, 404);
+	}
+	return c.json(job);
+});
+
+export default jobs;
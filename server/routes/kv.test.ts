@@ -0,0 +1,71 @@
+import type { NatsConnection, StreamConfig } from "nats.ws";
+import { describe, expect, it, vi } from "vitest";
+import { buildUpdatedKvConfig, createBucketSchema, kvCreateError } from "./kv";
+
+vi.mock("../db", () => ({}));
+
+const existing = {
+	name: "KV_config",
+	subjects: ["$KV.config.>"],
+	max_msgs_per_subject: 1,
+	max_age: 0,
+	duplicate_window: 120_000_000_000,
+} as StreamConfig;
+
+describe("buildUpdatedKvConfig", () => {
+	it("keeps the fields the request leaves out", () => {
+		expect(buildUpdatedKvConfig(existing, {})).toEqual(existing);
+	});
+
+	it("maps the request onto the backing stream config", () => {
+		const config = buildUpdatedKvConfig(existing, {
+			description: "App config",
+			history: 5,
+			maxBytes: 1024,
+			maxValueSize: 128,
+			replicas: 3,
+		});
+
+		expect(config).toMatchObject({
+			name: "KV_config",
+			description: "App config",
+			max_msgs_per_subject: 5,
+			max_bytes: 1024,
+			max_msg_size: 128,
+			num_replicas: 3,
+		});
+	});
+
+	it("shortens the duplicate window to fit a lower TTL", () => {
+		expect(buildUpdatedKvConfig(existing, { ttl: 60_000_000_000 })).toMatchObject({
+			max_age: 60_000_000_000,
+			duplicate_window: 60_000_000_000,
+		});
+		expect(buildUpdatedKvConfig(existing, { ttl: 600_000_000_000 }).duplicate_window).toBe(120_000_000_000);
+	});
+
+	it("allows per-key TTL with limit markers", () => {
+		expect(buildUpdatedKvConfig(existing, { allowMsgTtl: true, limitMarkerTtl: 900_000_000_000 })).toMatchObject({
+			allow_msg_ttl: true,
+			subject_delete_marker_ttl: 900_000_000_000,
+		});
+	});
+});
+
+describe("kvCreateError", () => {
+	const connection = (version: string) => ({ info: { version } }) as NatsConnection;
+	const data = createBucketSchema.parse({ name: "config", allowMsgTtl: true });
+
+	it("refuses per-key TTL on servers before 2.11", () => {
+		expect(kvCreateError(connection("2.10.22"), data)).toBe("Per-key TTL needs NATS Server 2.11 or later");
+	});
+
+	it("accepts per-key TTL on 2.11 and later", () => {
+		expect(kvCreateError(connection("2.11.0"), data)).toBeUndefined();
+		expect(kvCreateError(connection("3.0.0"), data)).toBeUndefined();
+	});
+
+	it("accepts buckets without per-key TTL on any server", () => {
+		expect(kvCreateError(connection("2.9.0"), { ...data, allowMsgTtl: false })).toBeUndefined();
+	});
+});
@@ -1,78 +1,62 @@
 import { zValidator } from "@hono/zod-validator";
 import { Hono } from "hono";
 import {
-	connect,
-	type NatsConnection,
-	type ConnectionOptions,
+	type JetStreamManager,
 	type KvEntry,
+	type KvOptions,
+	type NatsConnection,
+	NatsError,
+	type StreamConfig,
+	type StreamInfo,
 	StorageType,
 } from "nats.ws";
 import { z } from "zod";
-import { type AuthType, getCluster } from "../db";
-
-// Helper to build NATS connection options
-function buildConnectionOptions(
-	urls: string[],
-	authType: AuthType,
-	token?: string | null,
-	username?: string | null,
-	password?: string | null,
-): ConnectionOptions {
-	const opts: ConnectionOptions = {
-		servers: urls,
-		timeout: 5000,
+import { getConnection } from "../services/connection-manager";
+import { isJetStreamApiError } from "../services/errors";
+import { listKeyPage } from "../services/kv-keys";
+import {
+	createTtlReader,
+	enableMessageTtl,
+	type MessageTtlConfig,
+	putWithTtl,
+	supportsMessageTtl,
+	type TtlReader,
+} from "../services/kv-ttl";
+import { exportBucket, type ImportPlanItem, planImport } from "../services/kv-transfer";
+
+// Format a bucket from its backing stream; durations are nanoseconds like in the create request
+function formatBucketInfo(info: StreamInfo) {
+	const config = info.config as StreamConfig & MessageTtlConfig;
+	return {
+		name: config.name.slice(3),
+		description: config.description,
+		history: config.max_msgs_per_subject || 1,
+		ttl: config.max_age || 0,
+		maxBytes: config.max_bytes || -1,
+		maxValueSize: config.max_msg_size || -1,
+		storage: config.storage === StorageType.File ? "file" : "memory",
+		replicas: config.num_replicas || 1,
+		allowMsgTtl: config.allow_msg_ttl ?? false,
+		limitMarkerTtl: config.subject_delete_marker_ttl || 0,
+		size: info.state.bytes,
+		values: info.state.messages,
 	};
-
-	if (authType === "token" && token) {
-		opts.token = token;
-	} else if (authType === "userpass" && username && password) {
-		opts.user = username;
-		opts.pass = password;
-	}
-
-	return opts;
-}
-
-// Helper to connect to a cluster
-async function connectToCluster(clusterId: string): Promise<{ nc: NatsConnection; cluster: NonNullable<ReturnType<typeof getCluster>> } | { error: string }> {
-	const cluster = getCluster(clusterId);
-	if (!cluster) {
-		console.log(`[KV] Cluster not found: ${clusterId}`);
-		return { error: "Cluster not found" };
-	}
-
-	try {
-		console.log(`[KV] Connecting to cluster "${cluster.name}" via WebSocket: ${cluster.urls.join(", ")}`);
-		const opts = buildConnectionOptions(
-			cluster.urls,
-			cluster.auth_type,
-			cluster.token,
-			cluster.username,
-			cluster.password,
-		);
-		const nc = await connect(opts);
-		console.log(`[KV] Connected to cluster "${cluster.name}"`);
-		return { nc, cluster };
-	} catch (error) {
-		const msg = error instanceof Error ? error.message : "Connection failed";
-		console.error(`[KV] Connection failed for cluster "${cluster.name}": ${msg}`);
-		return { error: `Failed to connect to NATS cluster "${cluster.name}": ${msg}` };
-	}
 }
 
 // Format KV entry for response
-function formatKvEntry(entry: KvEntry) {
+async function formatKvEntry(entry: KvEntry, ttlReader: TtlReader) {
 	return {
 		key: entry.key,
 		value: new TextDecoder().decode(entry.value),
 		revision: entry.revision,
 		created: entry.created.toISOString(),
-		operation: entry.operation,
+		operation: await ttlReader.operation(entry),
+		expiresAt: (await ttlReader.expiry(entry))?.toISOString(),
 	};
 }
 
 // Zod schemas
-const createBucketSchema = z.object({
+export const createBucketSchema = z.object({
 	name: z.string().min(1).max(256).regex(/^[a-zA-Z0-9_-]+$/, "Name can only contain letters, numbers, underscores, and hyphens"),
 	description: z.string().max(4096).optional(),
 	maxValueSize: z.number().int().min(-1).default(-1),
@@ -81,20 +65,187 @@ const createBucketSchema = z.object({
 	maxBytes: z.number().int().min(-1).default(-1),
 	storage: z.enum(["file", "memory"]).default("file"),
 	replicas: z.number().int().min(1).max(5).default(1),
+	// Lets individual keys set their own TTL when they are put
+	allowMsgTtl: z.boolean().default(false),
+	// Keep a marker for this long when a key is removed by a limit or its TTL, so watchers see it go
+	limitMarkerTtl: z.number().int().min(0).default(0), // nanoseconds
+}).refine((data) => data.limitMarkerTtl === 0 || data.allowMsgTtl, {
+	message: "Limit markers need per-key TTL to be allowed",
+	path: ["limitMarkerTtl"],
+}).refine((data) => data.limitMarkerTtl === 0 || data.limitMarkerTtl >= 1_000_000_000, {
+	message: "Limit markers must be kept for at least 1s",
+	path: ["limitMarkerTtl"],
+});
+
+export type CreateBucketRequest = z.infer<typeof createBucketSchema>;
+
+// Build KV bucket options from a create request
+export function toKvOptions(data: CreateBucketRequest): Partial<KvOptions> {
+	return {
+		description: data.description,
+		max_bytes: data.maxBytes,
+		history: data.history,
+		ttl: data.ttl,
+		maxValueSize: data.maxValueSize,
+		storage: data.storage === "file" ? StorageType.File : StorageType.Memory,
+		replicas: data.replicas,
+	};
+}
+
+// Convert the config of a KV_ backing stream back into a create request, e.g. for exports
+export function fromKvStreamConfig(config: StreamConfig): CreateBucketRequest {
+	return {
+		name: config.name.slice(3),
+		description: config.description,
+		maxValueSize: config.max_msg_size || -1,
+		history: config.max_msgs_per_subject || 1,
+		ttl: config.max_age || 0,
+		maxBytes: config.max_bytes || -1,
+		storage: config.storage === StorageType.File ? "file" : "memory",
+		replicas: config.num_replicas || 1,
+		allowMsgTtl: (config as MessageTtlConfig).allow_msg_ttl ?? false,
+		limitMarkerTtl: (config as MessageTtlConfig).subject_delete_marker_ttl || 0,
+	};
+}
+
+// Settings the server cannot take, checked before anything is created
+export function kvCreateError(nc: NatsConnection, data: CreateBucketRequest): string | undefined {
+	if (data.allowMsgTtl && !supportsMessageTtl(nc)) {
+		return "Per-key TTL needs NATS Server 2.11 or later";
+	}
+	return undefined;
+}
+
+// Create a bucket, then enable the settings nats.ws cannot pass at creation
+export async function createKvBucket(nc: NatsConnection, data: CreateBucketRequest) {
+	const invalid = kvCreateError(nc, data);
+	if (invalid) {
+		throw new Error(invalid);
+	}
+
+	const bucket = await nc.jetstream().views.kv(data.name, toKvOptions(data));
+	if (data.allowMsgTtl) {
+		await enableMessageTtl(await nc.jetstreamManager(), data.name, data.limitMarkerTtl);
+	}
+	return bucket;
+}
+
+// Settings that can change after creation; the name and storage type are fixed
+export const updateBucketSchema = z.object({
+	description: z.string().max(4096).optional(),
+	maxValueSize: z.number().int().min(-1).optional(),
+	history: z.number().int().min(1).max(64).optional(),
+	ttl: z.number().int().min(0).optional(), // nanoseconds
+	maxBytes: z.number().int().min(-1).optional(),
+	replicas: z.number().int().min(1).max(5).optional(),
+	// Per-key TTL cannot be turned off again once allowed
+	allowMsgTtl: z.literal(true).optional(),
+	limitMarkerTtl: z.number().int().min(0).optional(), // nanoseconds, 0 turns markers off
+}).refine((data) => !data.limitMarkerTtl || data.limitMarkerTtl >= 1_000_000_000, {
+	message: "Limit markers must be kept for at least 1s",
+	path: ["limitMarkerTtl"],
 });
 
+export type UpdateBucketRequest = z.infer<typeof updateBucketSchema>;
+
+// Apply an update request on top of the config of a bucket's backing stream
+export function buildUpdatedKvConfig(existing: StreamConfig, data: UpdateBucketRequest): StreamConfig & MessageTtlConfig {
+	const config: StreamConfig & MessageTtlConfig = { ...existing };
+
+	if (data.description !== undefined) config.description = data.description;
+	if (data.maxValueSize !== undefined) config.max_msg_size = data.maxValueSize;
+	if (data.history !== undefined) config.max_msgs_per_subject = data.history;
+	if (data.ttl !== undefined) config.max_age = data.ttl;
+	if (data.maxBytes !== undefined) config.max_bytes = data.maxBytes;
+	if (data.replicas !== undefined) config.num_replicas = data.replicas;
+	if (data.allowMsgTtl) config.allow_msg_ttl = true;
+	if (data.limitMarkerTtl !== undefined) config.subject_delete_marker_ttl = data.limitMarkerTtl;
+
+	// The duplicate window may not exceed the TTL
+	if (config.max_age > 0 && config.duplicate_window > config.max_age) {
+		config.duplicate_window = config.max_age;
+	}
+
+	return config;
+}
+
+// Checks the server would otherwise report less clearly
+function kvConfigError(config: StreamConfig & MessageTtlConfig): string | undefined {
+	if (config.subject_delete_marker_ttl && !config.allow_msg_ttl) {
+		return "Limit markers need per-key TTL to be allowed";
+	}
+	return undefined;
+}
+
+// Apply an update request to a bucket's backing stream; an error is a setting the server cannot take
+export async function updateKvBucket(
+	jsm: JetStreamManager,
+	existing: StreamConfig,
+	data: UpdateBucketRequest,
+): Promise<{ info: StreamInfo } | { error: string }> {
+	const config = buildUpdatedKvConfig(existing, data);
+
+	const invalid = kvConfigError(config);
+	if (invalid) {
+		return { error: invalid };
+	}
+
+	const info = await jsm.streams.update(config.name, config);
+	// Older servers drop settings they do not know instead of rejecting them
+	if (data.allowMsgTtl && !(info.config as MessageTtlConfig).allow_msg_ttl) {
+		return { error: "Per-key TTL needs NATS Server 2.11 or later" };
+	}
+	return { info };
+}
+
 const putKeySchema = z.object({
 	key: z.string().min(1),
 	value: z.string(),
+	// Only write if the key is still at this revision
+	revision: z.number().int().min(1).optional(),
+	// Only write if the key does not exist yet
+	create: z.boolean().optional(),
+	// Remove the key after this long; the bucket must allow per-key TTL
+	ttl: z.number().int().min(1_000_000_000).optional(), // nanoseconds
+}).refine((data) => !(data.create && data.revision !== undefined), {
+	message: "Use either create or revision, not both",
+	path: ["revision"],
 });
 
+// JetStream error code for a write whose expected last subject sequence is stale
+const WRONG_LAST_SEQUENCE = 10071;
+
+function isRevisionConflict(error: unknown): boolean {
+	return error instanceof NatsError && error.api_error?.err_code === WRONG_LAST_SEQUENCE;
+}
+
+const transferEntrySchema = z.object({
+	key: z.string().min(1),
+	value: z.string(),
+	encoding: z.literal("base64").optional(),
+	revision: z.number().int().min(0).optional(),
+	created: z.string().optional(),
+});
+
+// Imports arrive in batches so the UI can report progress
+const importSchema = z.object({
+	mode: z.enum(["overwrite", "skip", "revision"]).default("overwrite"),
+	entries: z.array(transferEntrySchema).min(1).max(1000),
+});
+
+function summarizeImport(plan: Array<Pick<ImportPlanItem, "action">>) {
+	const summary = { create: 0, update: 0, unchanged: 0, skip: 0, conflict: 0 };
+	for (const item of plan) summary[item.action]++;
+	return summary;
+}
+
 const kv = new Hono();
 
 // List all KV buckets for a cluster
 kv.get("/cluster/:clusterId", async (c) => {
 	const clusterId = c.req.param("clusterId");
 	console.log(`[KV] Listing buckets for cluster ${clusterId}`);
-	const result = await connectToCluster(clusterId);
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		console.error(`[KV] Cannot list buckets - connection failed: ${result.error}`);
@@ -104,18 +255,7 @@ kv.get("/cluster/:clusterId", async (c) => {
 	const { nc, cluster } = result;
 
 	try {
-		const buckets: Array<{
-			name: string;
-			description?: string;
-			history: number;
-			ttl: number;
-			maxBytes: number;
-			maxValueSize: number;
-			storage: string;
-			replicas: number;
-			size: number;
-			values: number;
-		}> = [];
+		const buckets: Array<ReturnType<typeof formatBucketInfo>> = [];
 
 		const jsm = await nc.jetstreamManager();
 		console.log(`[KV] Got JetStream manager for cluster "${cluster.name}", listing streams...`);
@@ -127,18 +267,7 @@ kv.get("/cluster/:clusterId", async (c) => {
 			if (stream.config.name.startsWith("KV_")) {
 				const bucketName = stream.config.name.slice(3);
 				console.log(`[KV] Found KV stream: ${stream.config.name} (bucket: ${bucketName}, messages: ${stream.state.messages}, bytes: ${stream.state.bytes})`);
-				buckets.push({
-					name: bucketName,
-					description: stream.config.description,
-					history: stream.config.max_msgs_per_subject || 1,
-					ttl: stream.config.max_age || 0,
-					maxBytes: stream.config.max_bytes || -1,
-					maxValueSize: stream.config.max_msg_size || -1,
-					storage: stream.config.storage === StorageType.File ? "file" : "memory",
-					replicas: stream.config.num_replicas || 1,
-					size: stream.state.bytes,
-					values: stream.state.messages,
-				});
+				buckets.push(formatBucketInfo(stream));
 			}
 		}
 
@@ -151,9 +280,6 @@ kv.get("/cluster/:clusterId", async (c) => {
 			console.error(`[KV] Stack trace: ${error.stack}`);
 		}
 		return c.json({ error: msg }, 500);
-	} finally {
-		await nc.close().catch(() => {});
-		console.log(`[KV] Closed connection to cluster "${cluster.name}"`);
 	}
 });
 
@@ -162,7 +288,7 @@ kv.get("/cluster/:clusterId/bucket/:name", async (c) => {
 	const clusterId = c.req.param("clusterId");
 	const name = c.req.param("name");
 	console.log(`[KV] Getting bucket info for "${name}" in cluster ${clusterId}`);
-	const result = await connectToCluster(clusterId);
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -171,33 +297,15 @@ kv.get("/cluster/:clusterId/bucket/:name", async (c) => {
 	const { nc, cluster } = result;
 
 	try {
-		const js = nc.jetstream();
 		const jsm = await nc.jetstreamManager();
-		const bucket = await js.views.kv(name);
-		const status = await bucket.status();
-
-		const streamInfo = await jsm.streams.info(`KV_${name}`);
-		const storageType = streamInfo.config.storage === StorageType.File ? "file" : "memory";
+		const info = formatBucketInfo(await jsm.streams.info(`KV_${name}`));
 
-		console.log(`[KV] Bucket "${name}" in cluster "${cluster.name}": ${status.values} keys, ${status.size} bytes, storage=${storageType}`);
-		return c.json({
-			name: status.bucket,
-			description: status.description,
-			history: status.history,
-			ttl: status.ttl,
-			maxBytes: status.max_bytes,
-			maxValueSize: status.maxValueSize,
-			storage: storageType,
-			replicas: status.replicas,
-			size: status.size,
-			values: status.values,
-		});
+		console.log(`[KV] Bucket "${name}" in cluster "${cluster.name}": ${info.values} keys, ${info.size} bytes, storage=${info.storage}`);
+		return c.json(info);
 	} catch (error) {
 		const msg = error instanceof Error ? error.message : "Bucket not found";
 		console.error(`[KV] Failed to get bucket "${name}" in cluster "${cluster.name}": ${msg}`);
 		return c.json({ error: msg }, 404);
-	} finally {
-		await nc.close().catch(() => {});
 	}
 });
 
@@ -205,7 +313,7 @@ kv.get("/cluster/:clusterId/bucket/:name", async (c) => {
 kv.post("/cluster/:clusterId", zValidator("json", createBucketSchema), async (c) => {
 	const clusterId = c.req.param("clusterId");
 	const data = c.req.valid("json");
-	const result = await connectToCluster(clusterId);
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -213,17 +321,13 @@ kv.post("/cluster/:clusterId", zValidator("json", createBucketSchema), async (c)
 
 	const { nc } = result;
 
+	const invalid = kvCreateError(nc, data);
+	if (invalid) {
+		return c.json({ error: invalid }, 400);
+	}
+
 	try {
-		const js = nc.jetstream();
-		const bucket = await js.views.kv(data.name, {
-			description: data.description,
-			max_bytes: data.maxBytes,
-			history: data.history,
-			ttl: data.ttl,
-			maxValueSize: data.maxValueSize,
-			storage: data.storage === "file" ? StorageType.File : StorageType.Memory,
-			replicas: data.replicas,
-		});
+		const bucket = await createKvBucket(nc, data);
 
 		const status = await bucket.status();
 		return c.json({
@@ -234,6 +338,8 @@ kv.post("/cluster/:clusterId", zValidator("json", createBucketSchema), async (c)
 			maxBytes: status.max_bytes,
 			maxValueSize: status.maxValueSize,
 			replicas: status.replicas,
+			allowMsgTtl: data.allowMsgTtl,
+			limitMarkerTtl: data.limitMarkerTtl,
 			size: status.size,
 			values: status.values,
 		}, 201);
@@ -241,8 +347,66 @@ kv.post("/cluster/:clusterId", zValidator("json", createBucketSchema), async (c)
 		return c.json({
 			error: error instanceof Error ? error.message : "Failed to create bucket",
 		}, 500);
-	} finally {
-		await nc.close().catch(() => {});
+	}
+});
+
+// Update the config of a bucket's backing stream
+kv.patch("/cluster/:clusterId/bucket/:name", zValidator("json", updateBucketSchema), async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const name = c.req.param("name");
+	const data = c.req.valid("json");
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		const jsm = await nc.jetstreamManager();
+		const existing = await jsm.streams.info(`KV_${name}`);
+		const updated = await updateKvBucket(jsm, existing.config, data);
+
+		if ("error" in updated) {
+			return c.json({ error: updated.error }, 400);
+		}
+		return c.json(formatBucketInfo(updated.info));
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to update bucket",
+		}, isJetStreamApiError(error) ? 400 : 500);
+	}
+});
+
+// Preview an update, returning the current and resulting stream config without applying it
+kv.post("/cluster/:clusterId/bucket/:name/update/preview", zValidator("json", updateBucketSchema), async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const name = c.req.param("name");
+	const data = c.req.valid("json");
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		const jsm = await nc.jetstreamManager();
+		const existing = await jsm.streams.info(`KV_${name}`);
+		const proposed = buildUpdatedKvConfig(existing.config, data);
+
+		const invalid = kvConfigError(proposed);
+		if (invalid) {
+			return c.json({ error: invalid }, 400);
+		}
+
+		return c.json({ current: existing.config, proposed });
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to preview bucket update",
+		}, 500);
 	}
 });
 
@@ -250,7 +414,7 @@ kv.post("/cluster/:clusterId", zValidator("json", createBucketSchema), async (c)
 kv.delete("/cluster/:clusterId/bucket/:name", async (c) => {
 	const clusterId = c.req.param("clusterId");
 	const name = c.req.param("name");
-	const result = await connectToCluster(clusterId);
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -271,17 +435,23 @@ kv.delete("/cluster/:clusterId/bucket/:name", async (c) => {
 		return c.json({
 			error: error instanceof Error ? error.message : "Failed to delete bucket",
 		}, 500);
-	} finally {
-		await nc.close().catch(() => {});
 	}
 });
 
-// List all keys in a bucket
+// List one page of keys in key order, optionally filtered by a subject-style filter or key prefix
 kv.get("/cluster/:clusterId/bucket/:name/keys", async (c) => {
 	const clusterId = c.req.param("clusterId");
 	const name = c.req.param("name");
-	console.log(`[KV] Listing keys for bucket "${name}" in cluster ${clusterId}`);
-	const result = await connectToCluster(clusterId);
+	const search = c.req.query("filter") || undefined;
+	const cursor = c.req.query("cursor") || undefined;
+	const limit = Math.min(Number(c.req.query("limit")) || 200, 1000);
+	const includeValues = c.req.query("values") !== "false";
+
+	if (search && !/^[-/=.\w*>]+$/.test(search)) {
+		return c.json({ error: "Key filters can only contain letters, numbers, -, /, _, =, . and the wildcards * and >" }, 400);
+	}
+
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		console.error(`[KV] Cannot list keys - connection failed: ${result.error}`);
@@ -292,47 +462,131 @@ kv.get("/cluster/:clusterId/bucket/:name/keys", async (c) => {
 
 	try {
 		const js = nc.jetstream();
-		console.log(`[KV] Opening KV bucket "${name}" in cluster "${cluster.name}"...`);
-		const bucket = await js.views.kv(name);
-		console.log(`[KV] Bucket "${name}" opened, fetching history...`);
-
-		const keysMap = new Map<string, {
-			key: string;
-			value: string;
-			revision: number;
-			created: string;
-		}>();
-
-		const history = await bucket.history({ key: ">" });
-
-		let entryCount = 0;
-		for await (const entry of history) {
-			entryCount++;
-			if (entry.operation === "PUT") {
-				keysMap.set(entry.key, {
-					key: entry.key,
-					value: new TextDecoder().decode(entry.value),
-					revision: entry.revision,
-					created: entry.created.toISOString(),
-				});
-			} else if (entry.operation === "DEL" || entry.operation === "PURGE") {
-				keysMap.delete(entry.key);
-			}
-		}
+		const bucket = await js.views.kv(name, { bindOnly: true });
+		const ttlReader = await createTtlReader(await nc.jetstreamManager(), name);
+		const page = await listKeyPage(bucket, ttlReader, `${clusterId}/${name}`, { search, cursor, limit, includeValues });
 
-		const keys = Array.from(keysMap.values());
-		console.log(`[KV] Bucket "${name}" in cluster "${cluster.name}": processed ${entryCount} history entries, ${keys.length} active keys`);
-		return c.json(keys);
+		return c.json({
+			keys: await Promise.all(page.keys.map(({ key, entry }) => (entry ? formatKvEntry(entry, ttlReader) : { key }))),
+			nextCursor: page.nextCursor,
+			total: page.total,
+		});
 	} catch (error) {
 		const msg = error instanceof Error ? error.message : "Failed to list keys";
 		console.error(`[KV] Error listing keys for bucket "${name}" in cluster "${cluster.name}": ${msg}`);
-		if (error instanceof Error && error.stack) {
-			console.error(`[KV] Stack trace: ${error.stack}`);
-		}
 		return c.json({ error: msg }, 500);
-	} finally {
-		await nc.close().catch(() => {});
-		console.log(`[KV] Closed connection for key listing of bucket "${name}"`);
+	}
+});
+
+// Export the current value of every key, or of the keys matching a filter, as JSON or NDJSON
+kv.get("/cluster/:clusterId/bucket/:name/export", async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const name = c.req.param("name");
+	const format = c.req.query("format") === "ndjson" ? "ndjson" : "json";
+	const search = c.req.query("filter") || undefined;
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		const js = nc.jetstream();
+		const bucket = await js.views.kv(name, { bindOnly: true });
+		const ttlReader = await createTtlReader(await nc.jetstreamManager(), name);
+		const filename = `${name}${search ? `-${search.replace(/[*>]/g, "_")}` : ""}.${format}`;
+
+		return c.body(exportBucket(bucket, ttlReader, name, format, search), 200, {
+			"Content-Type": format === "json" ? "application/json" : "application/x-ndjson",
+			"Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`,
+		});
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to export bucket",
+		}, 500);
+	}
+});
+
+// Preview what importing a batch of entries would change, without writing anything
+kv.post("/cluster/:clusterId/bucket/:name/import/plan", zValidator("json", importSchema), async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const name = c.req.param("name");
+	const { mode, entries } = c.req.valid("json");
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		const js = nc.jetstream();
+		const bucket = await js.views.kv(name, { bindOnly: true });
+		const ttlReader = await createTtlReader(await nc.jetstreamManager(), name);
+		const plan = await planImport(bucket, ttlReader, entries, mode);
+
+		return c.json({
+			items: plan.map(({ apply, ...item }) => item),
+			summary: summarizeImport(plan),
+		});
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to plan import",
+		}, 500);
+	}
+});
+
+// Import a batch of entries; each key is checked again at write time
+kv.post("/cluster/:clusterId/bucket/:name/import/apply", zValidator("json", importSchema), async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const name = c.req.param("name");
+	const { mode, entries } = c.req.valid("json");
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		const js = nc.jetstream();
+		const bucket = await js.views.kv(name, { bindOnly: true });
+		const ttlReader = await createTtlReader(await nc.jetstreamManager(), name);
+		const plan = await planImport(bucket, ttlReader, entries, mode);
+		const results = [];
+
+		// Write in file order and carry on past failures
+		for (const { apply, ...item } of plan) {
+			if (!apply) {
+				results.push({ ...item, status: "skipped" as const });
+				continue;
+			}
+			try {
+				const revision = await apply();
+				results.push({ ...item, status: "applied" as const, revision });
+			} catch (error) {
+				results.push({
+					...item,
+					status: "failed" as const,
+					error: error instanceof Error ? error.message : "Failed to write key",
+				});
+			}
+		}
+
+		return c.json({
+			results,
+			applied: results.filter((r) => r.status === "applied").length,
+			skipped: results.filter((r) => r.status === "skipped").length,
+			failed: results.filter((r) => r.status === "failed").length,
+		});
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to import entries",
+		}, 500);
 	}
 });
 
@@ -341,7 +595,7 @@ kv.get("/cluster/:clusterId/bucket/:name/key/:key", async (c) => {
 	const clusterId = c.req.param("clusterId");
 	const name = c.req.param("name");
 	const key = c.req.param("key");
-	const result = await connectToCluster(clusterId);
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -352,19 +606,18 @@ kv.get("/cluster/:clusterId/bucket/:name/key/:key", async (c) => {
 	try {
 		const js = nc.jetstream();
 		const bucket = await js.views.kv(name);
+		const ttlReader = await createTtlReader(await nc.jetstreamManager(), name);
 		const entry = await bucket.get(key);
 
-		if (!entry || entry.operation !== "PUT") {
+		if (!entry || (await ttlReader.operation(entry)) !== "PUT") {
 			return c.json({ error: "Key not found" }, 404);
 		}
 
-		return c.json(formatKvEntry(entry));
+		return c.json(await formatKvEntry(entry, ttlReader));
 	} catch (error) {
 		return c.json({
 			error: error instanceof Error ? error.message : "Failed to get key",
 		}, 500);
-	} finally {
-		await nc.close().catch(() => {});
 	}
 });
 
@@ -373,7 +626,7 @@ kv.get("/cluster/:clusterId/bucket/:name/key/:key/history", async (c) => {
 	const clusterId = c.req.param("clusterId");
 	const name = c.req.param("name");
 	const key = c.req.param("key");
-	const result = await connectToCluster(clusterId);
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -385,23 +638,13 @@ kv.get("/cluster/:clusterId/bucket/:name/key/:key/history", async (c) => {
 		const js = nc.jetstream();
 		const bucket = await js.views.kv(name);
 
-		const history: Array<{
-			key: string;
-			value: string;
-			revision: number;
-			created: string;
-			operation: string;
-		}> = [];
+		const ttlReader = await createTtlReader(await nc.jetstreamManager(), name);
+
+		const history: Array<Awaited<ReturnType<typeof formatKvEntry>>> = [];
 
 		const iter = await bucket.history({ key });
 		for await (const entry of iter) {
-			history.push({
-				key: entry.key,
-				value: new TextDecoder().decode(entry.value),
-				revision: entry.revision,
-				created: entry.created.toISOString(),
-				operation: entry.operation,
-			});
+			history.push(await formatKvEntry(entry, ttlReader));
 		}
 
 		return c.json(history);
@@ -409,8 +652,6 @@ kv.get("/cluster/:clusterId/bucket/:name/key/:key/history", async (c) => {
 		return c.json({
 			error: error instanceof Error ? error.message : "Failed to get history",
 		}, 500);
-	} finally {
-		await nc.close().catch(() => {});
 	}
 });
 
@@ -419,7 +660,7 @@ kv.put("/cluster/:clusterId/bucket/:name/key", zValidator("json", putKeySchema),
 	const clusterId = c.req.param("clusterId");
 	const name = c.req.param("name");
 	const data = c.req.valid("json");
-	const result = await connectToCluster(clusterId);
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -430,11 +671,36 @@ kv.put("/cluster/:clusterId/bucket/:name/key", zValidator("json", putKeySchema),
 	try {
 		const js = nc.jetstream();
 		const bucket = await js.views.kv(name);
-		const revision = await bucket.put(data.key, new TextEncoder().encode(data.value));
+		const ttlReader = await createTtlReader(await nc.jetstreamManager(), name);
+		const value = new TextEncoder().encode(data.value);
+
+		let revision: number;
+		try {
+			if (data.ttl !== undefined) {
+				revision = await putWithTtl(js, bucket, ttlReader, name, data.key, value, data.ttl, data);
+			} else if (data.create) {
+				revision = await bucket.create(data.key, value);
+			} else if (data.revision !== undefined) {
+				revision = await bucket.update(data.key, value, data.revision);
+			} else {
+				revision = await bucket.put(data.key, value);
+			}
+		} catch (error) {
+			if (!isRevisionConflict(error)) throw error;
+			// Hand back what is stored now so the editor can compare it with the edit
+			const current = await bucket.get(data.key);
+			const exists = current !== null && (await ttlReader.operation(current)) === "PUT";
+			return c.json({
+				error: data.create
+					? `Key "${data.key}" already exists`
+					: `Key "${data.key}" was ${exists ? "changed" : "deleted"} since revision ${data.revision}`,
+				current: exists ? await formatKvEntry(current, ttlReader) : null,
+			}, 409);
+		}
 
 		const entry = await bucket.get(data.key);
 		if (entry) {
-			return c.json(formatKvEntry(entry));
+			return c.json(await formatKvEntry(entry, ttlReader));
 		}
 
 		return c.json({ key: data.key, revision });
@@ -442,8 +708,6 @@ kv.put("/cluster/:clusterId/bucket/:name/key", zValidator("json", putKeySchema),
 		return c.json({
 			error: error instanceof Error ? error.message : "Failed to put key",
 		}, 500);
-	} finally {
-		await nc.close().catch(() => {});
 	}
 });
 
@@ -452,7 +716,7 @@ kv.delete("/cluster/:clusterId/bucket/:name/key/:key", async (c) => {
 	const clusterId = c.req.param("clusterId");
 	const name = c.req.param("name");
 	const key = c.req.param("key");
-	const result = await connectToCluster(clusterId);
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -470,8 +734,6 @@ kv.delete("/cluster/:clusterId/bucket/:name/key/:key", async (c) => {
 		return c.json({
 			error: error instanceof Error ? error.message : "Failed to delete key",
 		}, 500);
-	} finally {
-		await nc.close().catch(() => {});
 	}
 });
 
@@ -480,7 +742,7 @@ kv.post("/cluster/:clusterId/bucket/:name/key/:key/purge", async (c) => {
 	const clusterId = c.req.param("clusterId");
 	const name = c.req.param("name");
 	const key = c.req.param("key");
-	const result = await connectToCluster(clusterId);
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -498,8 +760,6 @@ kv.post("/cluster/:clusterId/bucket/:name/key/:key/purge", async (c) => {
 		return c.json({
 			error: error instanceof Error ? error.message : "Failed to purge key",
 		}, 500);
-	} finally {
-		await nc.close().catch(() => {});
 	}
 });
 
@@ -0,0 +1,153 @@
+import { Hono } from "hono";
+import { type SSEStreamingApi, streamSSE } from "hono/streaming";
+import {
+	type ConsumerMessages,
+	DeliverPolicy,
+	type KvEntry,
+	KvWatchInclude,
+	type MsgHdrs,
+	type QueuedIterator,
+} from "nats.ws";
+import { getConnection } from "../services/connection-manager";
+import { createTtlReader, type TtlReader } from "../services/kv-ttl";
+
+// Keep SSE connections alive through proxies and Bun's idle timeout
+const HEARTBEAT_INTERVAL = 5000;
+
+// Convert NATS headers into a plain object for JSON responses
+function headersToObject(headers?: MsgHdrs): Record<string, string[]> | undefined {
+	if (!headers) return undefined;
+	return Object.fromEntries(Array.from(headers.keys()).map((k) => [k, headers.values(k)]));
+}
+
+// Send heartbeats until the client goes away, then run cleanup
+async function holdOpen(stream: SSEStreamingApi, cleanup: () => void | Promise<void>) {
+	const done = new Promise<void>((resolve) => stream.onAbort(resolve));
+	const heartbeat = setInterval(() => {
+		stream.writeSSE({ event: "ping", data: String(Date.now()) }).catch(() => {});
+	}, HEARTBEAT_INTERVAL);
+
+	try {
+		await done;
+	} finally {
+		clearInterval(heartbeat);
+		await cleanup();
+	}
+}
+
+const live = new Hono();
+
+// Tail new messages of a stream (optionally filtered by subject)
+live.get("/cluster/:clusterId/stream/:name/tail", async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const name = c.req.param("name");
+	const subjectFilter = c.req.query("subject") || undefined;
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	// Resolve the consumer first so an unknown stream is a 404 rather than a dropped event stream
+	let messages: ConsumerMessages;
+	try {
+		const js = nc.jetstream();
+		const consumer = await js.consumers.get(name, {
+			deliver_policy: DeliverPolicy.New,
+			filterSubjects: subjectFilter,
+		});
+		messages = await consumer.consume();
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Stream not found",
+		}, 404);
+	}
+
+	return streamSSE(c, async (stream) => {
+		console.log(`[Live] Tailing stream "${name}" in cluster ${clusterId}${subjectFilter ? ` (${subjectFilter})` : ""}`);
+
+		(async () => {
+			for await (const msg of messages) {
+				await stream.writeSSE({
+					event: "message",
+					data: JSON.stringify({
+						seq: msg.seq,
+						subject: msg.subject,
+						data: msg.string(),
+						time: new Date(Math.floor(msg.info.timestampNanos / 1_000_000)).toISOString(),
+						headers: headersToObject(msg.headers),
+					}),
+				});
+			}
+		})().catch((err) => {
+			stream.writeSSE({ event: "error", data: err instanceof Error ? err.message : "Tail failed" }).catch(() => {});
+		});
+
+		await stream.writeSSE({ event: "ready", data: name });
+		await holdOpen(stream, async () => {
+			await messages.close().catch(() => {});
+			console.log(`[Live] Stopped tailing stream "${name}" in cluster ${clusterId}`);
+		});
+	});
+});
+
+// Watch a KV bucket for updates
+live.get("/cluster/:clusterId/kv/:bucket/watch", async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const bucket = c.req.param("bucket");
+	const key = c.req.query("key") || ">";
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	// Bind without creating the bucket; status() fails for a bucket that does not exist
+	let watcher: QueuedIterator<KvEntry>;
+	let ttlReader: TtlReader;
+	try {
+		const js = nc.jetstream();
+		const kv = await js.views.kv(bucket, { bindOnly: true });
+		await kv.status();
+		ttlReader = await createTtlReader(await nc.jetstreamManager(), bucket);
+		watcher = await kv.watch({ key, include: KvWatchInclude.UpdatesOnly });
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Bucket not found",
+		}, 404);
+	}
+
+	return streamSSE(c, async (stream) => {
+		console.log(`[Live] Watching KV bucket "${bucket}" in cluster ${clusterId}`);
+
+		(async () => {
+			for await (const entry of watcher) {
+				await stream.writeSSE({
+					event: "entry",
+					data: JSON.stringify({
+						key: entry.key,
+						value: entry.value ? new TextDecoder().decode(entry.value) : "",
+						revision: entry.revision,
+						created: entry.created.toISOString(),
+						operation: await ttlReader.operation(entry),
+						expiresAt: (await ttlReader.expiry(entry))?.toISOString(),
+					}),
+				});
+			}
+		})().catch((err) => {
+			stream.writeSSE({ event: "error", data: err instanceof Error ? err.message : "Watch failed" }).catch(() => {});
+		});
+
+		await stream.writeSSE({ event: "ready", data: bucket });
+		await holdOpen(stream, () => {
+			watcher.stop();
+			console.log(`[Live] Stopped watching KV bucket "${bucket}" in cluster ${clusterId}`);
+		});
+	});
+});
+
+export default live;
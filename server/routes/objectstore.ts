@@ -1,62 +1,14 @@
+import { zValidator } from "@hono/zod-validator";
 import { Hono } from "hono";
-import { connect, type NatsConnection, type ConnectionOptions } from "nats";
+import { connect, type NatsConnection } from "nats";
 import { Objm } from "@nats-io/obj";
-import {
-	connect as connectWs,
-	type NatsConnection as NatsWsConnection,
-	type ConnectionOptions as WsConnectionOptions,
-	StorageType,
-} from "nats.ws";
-import { type AuthType, getCluster } from "../db";
-
-// Helper to build NATS connection options (TCP)
-function buildConnectionOptions(
-	urls: string[],
-	authType: AuthType,
-	token?: string | null,
-	username?: string | null,
-	password?: string | null,
-): ConnectionOptions {
-	const opts: ConnectionOptions = {
-		servers: urls,
-		timeout: 30000,
-	};
-
-	if (authType === "token" && token) {
-		opts.token = token;
-	} else if (authType === "userpass" && username && password) {
-		opts.user = username;
-		opts.pass = password;
-	}
-
-	return opts;
-}
-
-// Helper to build NATS WS connection options
-function buildWsConnectionOptions(
-	urls: string[],
-	authType: AuthType,
-	token?: string | null,
-	username?: string | null,
-	password?: string | null,
-): WsConnectionOptions {
-	const opts: WsConnectionOptions = {
-		servers: urls,
-		timeout: 10000,
-	};
+import { type ObjectInfo, type ObjectStoreOptions, type ObjectStoreStatus, type StreamConfig, StorageType } from "nats.ws";
+import { z } from "zod";
+import { getCluster } from "../db";
+import { buildConnectionOptions, getConnection } from "../services/connection-manager";
 
-	if (authType === "token" && token) {
-		opts.token = token;
-	} else if (authType === "userpass" && username && password) {
-		opts.user = username;
-		opts.pass = password;
-	}
-
-	return opts;
-}
-
-// Helper to connect to a cluster using TCP URLs
-async function connectToCluster(clusterId: string): Promise<{ nc: NatsConnection; cluster: NonNullable<ReturnType<typeof getCluster>> } | { error: string }> {
+// Helper to open a short-lived TCP connection for uploads
+async function connectToClusterTcp(clusterId: string): Promise<{ nc: NatsConnection; cluster: NonNullable<ReturnType<typeof getCluster>> } | { error: string }> {
 	const cluster = getCluster(clusterId);
 	if (!cluster) {
 		console.log(`[ObjectStore] Cluster not found: ${clusterId}`);
@@ -71,14 +23,7 @@ async function connectToCluster(clusterId: string): Promise<{ nc: NatsConnection
 
 	try {
 		console.log(`[ObjectStore] Connecting to cluster "${cluster.name}" via TCP: ${cluster.nats_urls.join(", ")}`);
-		const opts = buildConnectionOptions(
-			cluster.nats_urls,
-			cluster.auth_type,
-			cluster.token,
-			cluster.username,
-			cluster.password,
-		);
-		const nc = await connect(opts);
+		const nc = await connect(buildConnectionOptions(cluster.nats_urls, cluster, 30000, "tcp"));
 		console.log(`[ObjectStore] Connected to cluster "${cluster.name}" via TCP`);
 		return { nc, cluster };
 	} catch (error) {
@@ -88,34 +33,65 @@ async function connectToCluster(clusterId: string): Promise<{ nc: NatsConnection
 	}
 }
 
-// Helper to connect to a cluster using WebSocket URLs (fallback when TCP not configured)
-async function connectToClusterWs(clusterId: string): Promise<{ nc: NatsWsConnection; cluster: NonNullable<ReturnType<typeof getCluster>> } | { error: string }> {
-	const cluster = getCluster(clusterId);
-	if (!cluster) {
-		console.log(`[ObjectStore] Cluster not found: ${clusterId}`);
-		return { error: "Cluster not found" };
-	}
+// Format bucket status for response
+function formatBucketStatus(status: ObjectStoreStatus) {
+	return {
+		name: status.bucket,
+		description: status.description,
+		size: status.size,
+		storage: status.storage === StorageType.Memory ? "memory" : "file",
+		replicas: status.replicas,
+		sealed: status.sealed,
+		ttl: status.ttl,
+	};
+}
 
-	const urls = cluster.urls;
-	const connType = "WebSocket";
+// Format object info for response
+function formatObjectInfo(info: ObjectInfo) {
+	return {
+		name: info.name,
+		description: info.description,
+		size: info.size,
+		chunks: info.chunks,
+		digest: info.digest,
+		mtime: new Date(info.mtime).toISOString(),
+		nuid: info.nuid,
+	};
+}
 
-	try {
-		console.log(`[ObjectStore] Connecting to cluster "${cluster.name}" via ${connType}: ${urls.join(", ")}`);
-		const opts = buildWsConnectionOptions(
-			urls,
-			cluster.auth_type,
-			cluster.token,
-			cluster.username,
-			cluster.password,
-		);
-		const nc = await connectWs(opts);
-		console.log(`[ObjectStore] Connected to cluster "${cluster.name}" via ${connType}`);
-		return { nc, cluster };
-	} catch (error) {
-		const msg = error instanceof Error ? error.message : "Connection failed";
-		console.error(`[ObjectStore] ${connType} connection failed for cluster "${cluster.name}": ${msg}`);
-		return { error: `Failed to connect to NATS cluster "${cluster.name}": ${msg}` };
-	}
+// Zod schemas
+export const createBucketSchema = z.object({
+	name: z.string().min(1).max(256).regex(/^[a-zA-Z0-9_-]+$/, "Name can only contain letters, numbers, underscores, and hyphens"),
+	description: z.string().max(4096).optional(),
+	storage: z.enum(["file", "memory"]).default("file"),
+	replicas: z.number().int().min(1).max(5).default(1),
+	ttl: z.number().int().min(0).optional(), // nanoseconds
+	maxBucketSize: z.number().int().min(-1).optional(),
+});
+
+export type CreateBucketRequest = z.infer<typeof createBucketSchema>;
+
+// Build object store options from a create request
+export function toObjectStoreOptions(data: CreateBucketRequest): Partial<ObjectStoreOptions> {
+	return {
+		description: data.description,
+		storage: data.storage === "memory" ? StorageType.Memory : StorageType.File,
+		replicas: data.replicas,
+		ttl: data.ttl,
+		max_bytes: data.maxBucketSize,
+	};
+}
+
+// Convert the config of an OBJ_ backing stream back into a create request, e.g. for exports
+export function fromObjectStoreStreamConfig(config: StreamConfig): CreateBucketRequest {
+	return {
+		name: config.name.slice(4),
+		description: config.description,
+		storage: config.storage === StorageType.Memory ? "memory" : "file",
+		replicas: config.num_replicas || 1,
+		ttl: config.max_age || 0,
+		maxBucketSize: config.max_bytes,
+	};
 }
 
 const objectstore = new Hono();
@@ -130,7 +106,7 @@ objectstore.get("/cluster/:clusterId", async (c) => {
 	const clusterId = c.req.param("clusterId");
 	console.log(`[ObjectStore] Listing buckets for cluster ${clusterId}`);
 
-	const result = await connectToClusterWs(clusterId);
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		console.error(`[ObjectStore] Cannot list buckets - connection failed: ${result.error}`);
@@ -203,9 +179,139 @@ objectstore.get("/cluster/:clusterId", async (c) => {
 			console.error(`[ObjectStore] Stack trace: ${error.stack}`);
 		}
 		return c.json({ error: msg }, 500);
-	} finally {
-		await nc.close().catch(() => {});
-		console.log(`[ObjectStore] Closed connection to cluster "${cluster.name}"`);
+	}
+});
+
+// Create an object store bucket
+objectstore.post("/cluster/:clusterId", zValidator("json", createBucketSchema), async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const data = c.req.valid("json");
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc, cluster } = result;
+
+	try {
+		const js = nc.jetstream();
+		const os = await js.views.os(data.name, toObjectStoreOptions(data));
+		console.log(`[ObjectStore] Created bucket "${data.name}" in cluster "${cluster.name}"`);
+		return c.json(formatBucketStatus(await os.status()), 201);
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to create bucket",
+		}, 500);
+	}
+});
+
+// Get object store bucket status
+objectstore.get("/cluster/:clusterId/bucket/:bucket", async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const bucketName = c.req.param("bucket");
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		const js = nc.jetstream();
+		const os = await js.views.os(bucketName);
+		return c.json(formatBucketStatus(await os.status()));
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to get bucket",
+		}, 500);
+	}
+});
+
+// List objects in a bucket
+objectstore.get("/cluster/:clusterId/bucket/:bucket/objects", async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const bucketName = c.req.param("bucket");
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		const js = nc.jetstream();
+		const os = await js.views.os(bucketName);
+		// nats.ws list() returns a Promise<Array>, not an async iterator
+		const list = await os.list();
+		return c.json(list.filter((info) => !info.deleted).map(formatObjectInfo));
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to list objects",
+		}, 500);
+	}
+});
+
+// Download an object
+objectstore.get("/cluster/:clusterId/bucket/:bucket/object/:object", async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const bucketName = c.req.param("bucket");
+	const objectName = c.req.param("object");
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		const js = nc.jetstream();
+		const os = await js.views.os(bucketName);
+		const obj = await os.get(objectName);
+
+		if (!obj) {
+			return c.json({ error: "Object not found" }, 404);
+		}
+
+		return new Response(obj.data, {
+			headers: {
+				"Content-Type": "application/octet-stream",
+				"Content-Length": String(obj.info.size),
+				"Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(objectName)}`,
+			},
+		});
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to download object",
+		}, 500);
+	}
+});
+
+// Delete an object
+objectstore.delete("/cluster/:clusterId/bucket/:bucket/object/:object", async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const bucketName = c.req.param("bucket");
+	const objectName = c.req.param("object");
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		const js = nc.jetstream();
+		const os = await js.views.os(bucketName);
+		await os.delete(objectName);
+		return c.json({ success: true });
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to delete object",
+		}, 500);
 	}
 });
 
@@ -215,7 +321,7 @@ objectstore.delete("/cluster/:clusterId/bucket/:bucket", async (c) => {
 	const bucketName = c.req.param("bucket");
 	console.log(`[ObjectStore] Deleting bucket "${bucketName}" from cluster ${clusterId}`);
 
-	const result = await connectToClusterWs(clusterId);
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -232,8 +338,6 @@ objectstore.delete("/cluster/:clusterId/bucket/:bucket", async (c) => {
 		const msg = error instanceof Error ? error.message : "Failed to delete bucket";
 		console.error(`[ObjectStore] Failed to delete bucket "${bucketName}": ${msg}`);
 		return c.json({ error: msg }, 500);
-	} finally {
-		await nc.close().catch(() => {});
 	}
 });
 
@@ -245,7 +349,7 @@ objectstore.post("/cluster/:clusterId/bucket/:bucket/upload", async (c) => {
 	const bucketName = c.req.param("bucket");
 	console.log(`[ObjectStore] Upload request for bucket "${bucketName}" in cluster ${clusterId}`);
 
-	const result = await connectToCluster(clusterId);
+	const result = await connectToClusterTcp(clusterId);
 
 	if ("error" in result) {
 		console.error(`[ObjectStore] Upload failed - cannot connect: ${result.error}`);
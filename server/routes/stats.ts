@@ -1,6 +1,6 @@
 import { Hono } from "hono";
-import { connect, type NatsConnection, type ConnectionOptions } from "nats.ws";
-import { type AuthType, getAllClusters, getCluster } from "../db";
+import { getAllClusters, getCluster } from "../db";
+import { getConnection } from "../services/connection-manager";
 
 interface ClusterStats {
 	id: string;
@@ -43,29 +43,6 @@ interface DashboardStats {
 	clusterStats: ClusterStats[];
 }
 
-// Helper to build NATS connection options
-function buildConnectionOptions(
-	urls: string[],
-	authType: AuthType,
-	token?: string | null,
-	username?: string | null,
-	password?: string | null,
-): ConnectionOptions {
-	const opts: ConnectionOptions = {
-		servers: urls,
-		timeout: 5000,
-	};
-
-	if (authType === "token" && token) {
-		opts.token = token;
-	} else if (authType === "userpass" && username && password) {
-		opts.user = username;
-		opts.pass = password;
-	}
-
-	return opts;
-}
-
 // Fetch stats for a single cluster
 async function fetchClusterStats(cluster: ReturnType<typeof getCluster>): Promise<ClusterStats> {
 	if (!cluster) {
@@ -77,18 +54,19 @@ async function fetchClusterStats(cluster: ReturnType<typeof getCluster>): Promis
 		};
 	}
 
-	let nc: NatsConnection | null = null;
+	const result = await getConnection(cluster.id);
+	if ("error" in result) {
+		return {
+			id: cluster.id,
+			name: cluster.name,
+			connected: false,
+			error: result.error,
+		};
+	}
 
-	try {
-		const opts = buildConnectionOptions(
-			cluster.urls,
-			cluster.auth_type,
-			cluster.token,
-			cluster.username,
-			cluster.password,
-		);
-		nc = await connect(opts);
+	const { nc } = result;
 
+	try {
 		const info = nc.info;
 		const stats: ClusterStats = {
 			id: cluster.id,
@@ -151,10 +129,6 @@ async function fetchClusterStats(cluster: ReturnType<typeof getCluster>): Promis
 			connected: false,
 			error: error instanceof Error ? error.message : "Connection failed",
 		};
-	} finally {
-		if (nc) {
-			await nc.close().catch(() => {});
-		}
 	}
 }
 
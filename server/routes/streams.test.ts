@@ -0,0 +1,125 @@
+import { DiscardPolicy, type JetStreamManager, RetentionPolicy, type StreamConfig } from "nats.ws";
+import { describe, expect, it, vi } from "vitest";
+import streams, { buildUpdatedConfig, estimatePurge } from "./streams";
+
+const connection = vi.hoisted(() => ({ nc: undefined as unknown }));
+
+vi.mock("../db", () => ({}));
+vi.mock("../services/connection-manager", () => ({ getConnection: async () => ({ nc: connection.nc }) }));
+
+const existing = {
+	name: "ORDERS",
+	subjects: ["orders.>"],
+	retention: RetentionPolicy.Limits,
+	discard: DiscardPolicy.Old,
+	max_age: 0,
+	max_msgs: -1,
+	duplicate_window: 120_000_000_000,
+	republish: { src: ">", dest: "copy.>" },
+} as StreamConfig;
+
+describe("buildUpdatedConfig", () => {
+	it("keeps the fields the request leaves out", () => {
+		expect(buildUpdatedConfig(existing, {})).toEqual(existing);
+	});
+
+	it("maps the request onto stream config fields", () => {
+		const config = buildUpdatedConfig(existing, {
+			description: "Orders",
+			maxAge: 3_600_000_000_000,
+			discard: "new",
+			retention: "workqueue",
+			replicas: 3,
+			duplicateWindow: 60_000_000_000,
+		});
+
+		expect(config).toMatchObject({
+			name: "ORDERS",
+			subjects: ["orders.>"],
+			description: "Orders",
+			max_age: 3_600_000_000_000,
+			discard: DiscardPolicy.New,
+			retention: RetentionPolicy.Workqueue,
+			num_replicas: 3,
+			duplicate_window: 60_000_000_000,
+		});
+	});
+
+	it("clears republishing with null and seals the stream", () => {
+		const config = buildUpdatedConfig(existing, { republish: null, sealed: true });
+
+		expect(config.republish).toBeUndefined();
+		expect(config.sealed).toBe(true);
+	});
+});
+
+describe("estimatePurge", () => {
+	// Stream info with messages 10..109 where seq 20 is deleted, and per-subject counts for filtered lookups
+	function fakeJsm(subjects: Record<string, number> = {}) {
+		const info = async (_name: string, opts?: { subjects_filter?: string }) => ({
+			state: {
+				messages: 99,
+				first_seq: 10,
+				last_seq: 109,
+				num_deleted: 1,
+				subjects: opts?.subjects_filter ? subjects : undefined,
+			},
+		});
+		return { streams: { info } } as unknown as JetStreamManager;
+	}
+
+	it("counts every message for a full purge", async () => {
+		expect(await estimatePurge(fakeJsm(), "ORDERS", {})).toEqual({ count: 99, exact: true });
+	});
+
+	it("counts the messages matching a filter", async () => {
+		const jsm = fakeJsm({ "orders.new": 30, "orders.paid": 12 });
+
+		expect(await estimatePurge(jsm, "ORDERS", { filter: "orders.*" })).toEqual({ count: 42, exact: true });
+	});
+
+	it("leaves the messages to keep", async () => {
+		expect(await estimatePurge(fakeJsm(), "ORDERS", { keep: 9 })).toEqual({ count: 90, exact: true });
+		expect(await estimatePurge(fakeJsm(), "ORDERS", { keep: 500 })).toEqual({ count: 0, exact: true });
+	});
+
+	it("estimates the messages below a sequence when the stream has gaps", async () => {
+		expect(await estimatePurge(fakeJsm(), "ORDERS", { seq: 30 })).toEqual({ count: 20, exact: false });
+		expect(await estimatePurge(fakeJsm(), "ORDERS", { seq: 5 })).toEqual({ count: 0, exact: false });
+	});
+});
+
+describe("PUT /cluster/:clusterId/stream/:name/raw", () => {
+	it("removes the keys left out of the submitted config", async () => {
+		let stored: Record<string, unknown> = {
+			name: "ORDERS",
+			subjects: ["orders.>"],
+			retention: "limits",
+			storage: "file",
+			max_consumers: -1,
+			max_msgs: -1,
+			max_bytes: -1,
+			max_age: 0,
+			discard: "old",
+			num_replicas: 1,
+			republish: { src: ">", dest: "copy.>" },
+			metadata: { team: "billing" },
+		};
+		// Merges onto the current config and sends the result as JSON, like nats.ws streams.update()
+		const update = async (_name: string, config: object) => {
+			stored = JSON.parse(JSON.stringify(Object.assign({ ...stored }, config)));
+			return { config: stored };
+		};
+		connection.nc = { jetstreamManager: async () => ({ streams: { info: async () => ({ config: { ...stored } }), update } }) };
+
+		const { republish, metadata, ...submitted } = stored;
+		const res = await streams.request("/cluster/c1/stream/ORDERS/raw", {
+			method: "PUT",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ ...submitted, max_age: 3_600_000_000_000 }),
+		});
+
+		expect(res.status).toBe(200);
+		expect(stored).toEqual({ ...submitted, max_age: 3_600_000_000_000 });
+	});
+});
@@ -1,61 +1,47 @@
 import { zValidator } from "@hono/zod-validator";
 import { Hono } from "hono";
 import {
-	connect,
-	type NatsConnection,
-	type ConnectionOptions,
 	type StreamInfo,
 	type StreamConfig,
+	type JetStreamPublishOptions,
+	type JetStreamManager,
+	type MsgRequest,
+	type PurgeOpts,
+	type StreamSource,
+	type StreamSourceInfo,
+	type SubjectTransformConfig,
 	StorageType,
 	RetentionPolicy,
 	DiscardPolicy,
+	StoreCompression,
+	headers as createHeaders,
 } from "nats.ws";
 import { z } from "zod";
-import { type AuthType, getCluster } from "../db";
-
-// Helper to build NATS connection options
-function buildConnectionOptions(
-	urls: string[],
-	authType: AuthType,
-	token?: string | null,
-	username?: string | null,
-	password?: string | null,
-): ConnectionOptions {
-	const opts: ConnectionOptions = {
-		servers: urls,
-		timeout: 5000,
-	};
-
-	if (authType === "token" && token) {
-		opts.token = token;
-	} else if (authType === "userpass" && username && password) {
-		opts.user = username;
-		opts.pass = password;
-	}
+import { getConnection } from "../services/connection-manager";
+import { isJetStreamApiError } from "../services/errors";
+import { countSelection, type MessageSelection, startCopy } from "../services/message-copy";
+import { withRemovedKeys } from "../services/raw-config";
 
-	return opts;
+// Format a mirror or source definition for response
+function formatStreamSource(source: StreamSource) {
+	return {
+		name: source.name,
+		filterSubject: source.filter_subject,
+		subjectTransforms: source.subject_transforms,
+		optStartSeq: source.opt_start_seq,
+		optStartTime: source.opt_start_time,
+		external: source.external,
+	};
 }
 
-// Helper to connect to a cluster
-async function connectToCluster(clusterId: string): Promise<{ nc: NatsConnection; cluster: NonNullable<ReturnType<typeof getCluster>> } | { error: string }> {
-	const cluster = getCluster(clusterId);
-	if (!cluster) {
-		return { error: "Cluster not found" };
-	}
-
-	try {
-		const opts = buildConnectionOptions(
-			cluster.urls,
-			cluster.auth_type,
-			cluster.token,
-			cluster.username,
-			cluster.password,
-		);
-		const nc = await connect(opts);
-		return { nc, cluster };
-	} catch (error) {
-		return { error: error instanceof Error ? error.message : "Connection failed" };
-	}
+// Format mirror or source replication state; active is nanoseconds since last contact
+function formatStreamSourceInfo(info: StreamSourceInfo) {
+	return {
+		name: info.name,
+		lag: info.lag,
+		active: info.active,
+		error: info.error?.description,
+	};
 }
 
 // Format stream info for response
@@ -63,7 +49,7 @@ function formatStreamInfo(info: StreamInfo) {
 	return {
 		name: info.config.name,
 		description: info.config.description,
-		subjects: info.config.subjects,
+		subjects: info.config.subjects ?? [],
 		retention: info.config.retention,
 		maxConsumers: info.config.max_consumers,
 		maxMsgs: info.config.max_msgs,
@@ -73,7 +59,30 @@ function formatStreamInfo(info: StreamInfo) {
 		storage: info.config.storage,
 		replicas: info.config.num_replicas,
 		discard: info.config.discard,
+		discardNewPerSubject: info.config.discard_new_per_subject ?? false,
+		maxMsgsPerSubject: info.config.max_msgs_per_subject,
 		duplicateWindow: info.config.duplicate_window,
+		allowRollupHdrs: info.config.allow_rollup_hdrs ?? false,
+		denyDelete: info.config.deny_delete ?? false,
+		denyPurge: info.config.deny_purge ?? false,
+		allowDirect: info.config.allow_direct ?? false,
+		mirrorDirect: info.config.mirror_direct ?? false,
+		republish: info.config.republish
+			? {
+					src: info.config.republish.src,
+					dest: info.config.republish.dest,
+					headersOnly: info.config.republish.headers_only ?? false,
+				}
+			: undefined,
+		subjectTransform: info.config.subject_transform,
+		compression: info.config.compression ?? "none",
+		sealed: info.config.sealed ?? false,
+		firstSeq: info.config.first_seq,
+		metadata: info.config.metadata,
+		mirror: info.config.mirror ? formatStreamSource(info.config.mirror) : undefined,
+		sources: info.config.sources?.map(formatStreamSource),
+		mirrorStatus: info.mirror ? formatStreamSourceInfo(info.mirror) : undefined,
+		sourcesStatus: info.sources?.map(formatStreamSourceInfo),
 		state: {
 			messages: info.state.messages,
 			bytes: info.state.bytes,
@@ -102,10 +111,90 @@ function subjectMatchesFilter(subject: string, filter: string): boolean {
 }
 
 // Zod schemas
-const createStreamSchema = z.object({
+const streamSourceSchema = z.object({
+	name: z.string().min(1),
+	filterSubject: z.string().min(1).optional(),
+	subjectTransforms: z.array(z.object({
+		src: z.string().min(1),
+		dest: z.string().min(1),
+	})).optional(),
+	optStartSeq: z.number().int().min(1).optional(),
+	optStartTime: z.iso.datetime({ offset: true }).optional(),
+	external: z.object({
+		api: z.string().min(1), // e.g. $JS.hub.API
+		deliver: z.string().min(1).optional(),
+	}).optional(),
+});
+
+type StreamSourceRequest = z.infer<typeof streamSourceSchema>;
+
+// Convert a mirror or source from the request into the NATS config shape
+function toStreamSource(source: StreamSourceRequest): StreamSource {
+	return {
+		name: source.name,
+		filter_subject: source.filterSubject,
+		subject_transforms: source.subjectTransforms,
+		opt_start_seq: source.optStartSeq,
+		opt_start_time: source.optStartTime,
+		external: source.external,
+	};
+}
+
+const republishSchema = z.object({
+	src: z.string().min(1),
+	dest: z.string().min(1),
+	headersOnly: z.boolean().default(false),
+});
+
+const subjectTransformSchema = z.object({
+	src: z.string().min(1),
+	dest: z.string().min(1),
+});
+
+// Settings shared by create and update
+const streamOptionsSchema = z.object({
+	maxMsgsPerSubject: z.number().int().min(-1),
+	discardNewPerSubject: z.boolean(),
+	duplicateWindow: z.number().int().min(0), // nanoseconds
+	allowRollupHdrs: z.boolean(),
+	denyDelete: z.boolean(),
+	denyPurge: z.boolean(),
+	allowDirect: z.boolean(),
+	mirrorDirect: z.boolean(),
+	republish: republishSchema.nullable(),
+	subjectTransform: subjectTransformSchema.nullable(),
+	compression: z.enum(["none", "s2"]),
+	metadata: z.record(z.string().min(1), z.string()),
+});
+
+type StreamOptionsRequest = Partial<z.infer<typeof streamOptionsSchema>>;
+
+// Apply the shared settings to a NATS stream config, leaving unset fields untouched
+function applyStreamOptions(config: Partial<StreamConfig>, data: StreamOptionsRequest) {
+	if (data.maxMsgsPerSubject !== undefined) config.max_msgs_per_subject = data.maxMsgsPerSubject;
+	if (data.discardNewPerSubject !== undefined) config.discard_new_per_subject = data.discardNewPerSubject;
+	if (data.duplicateWindow !== undefined) config.duplicate_window = data.duplicateWindow;
+	if (data.allowRollupHdrs !== undefined) config.allow_rollup_hdrs = data.allowRollupHdrs;
+	if (data.denyDelete !== undefined) config.deny_delete = data.denyDelete;
+	if (data.denyPurge !== undefined) config.deny_purge = data.denyPurge;
+	if (data.allowDirect !== undefined) config.allow_direct = data.allowDirect;
+	if (data.mirrorDirect !== undefined) config.mirror_direct = data.mirrorDirect;
+	if (data.republish !== undefined) {
+		config.republish = data.republish
+			? { src: data.republish.src, dest: data.republish.dest, headers_only: data.republish.headersOnly }
+			: undefined;
+	}
+	if (data.subjectTransform !== undefined) config.subject_transform = data.subjectTransform ?? undefined;
+	if (data.compression !== undefined) {
+		config.compression = data.compression === "s2" ? StoreCompression.S2 : StoreCompression.None;
+	}
+	if (data.metadata !== undefined) config.metadata = data.metadata;
+}
+
+export const createStreamSchema = z.object({
 	name: z.string().min(1).max(256).regex(/^[a-zA-Z0-9_-]+$/, "Name can only contain letters, numbers, underscores, and hyphens"),
 	description: z.string().max(4096).optional(),
-	subjects: z.array(z.string().min(1)).min(1),
+	subjects: z.array(z.string().min(1)).default([]),
 	retention: z.enum(["limits", "interest", "workqueue"]).default("limits"),
 	storage: z.enum(["file", "memory"]).default("file"),
 	maxConsumers: z.number().int().min(-1).default(-1),
@@ -115,25 +204,330 @@ const createStreamSchema = z.object({
 	maxMsgSize: z.number().int().min(-1).default(-1),
 	replicas: z.number().int().min(1).max(5).default(1),
 	discard: z.enum(["old", "new"]).default("old"),
+	mirror: streamSourceSchema.optional(),
+	sources: z.array(streamSourceSchema).optional(),
+	sealed: z.boolean().optional(),
+	firstSeq: z.number().int().min(1).optional(),
+	...streamOptionsSchema.partial().shape,
+}).superRefine((data, ctx) => {
+	if (data.mirror) {
+		if (data.subjects.length > 0) {
+			ctx.addIssue({ code: "custom", path: ["subjects"], message: "Mirror streams cannot have subjects" });
+		}
+		if (data.sources && data.sources.length > 0) {
+			ctx.addIssue({ code: "custom", path: ["sources"], message: "A stream cannot both mirror and source" });
+		}
+	} else if (data.subjects.length === 0 && !data.sources?.length) {
+		ctx.addIssue({ code: "custom", path: ["subjects"], message: "At least one subject or source is required" });
+	}
 });
 
-const updateStreamSchema = z.object({
+export type CreateStreamRequest = z.infer<typeof createStreamSchema>;
+
+// Build a NATS stream config from a create request
+export function toStreamConfig(data: CreateStreamRequest): Partial<StreamConfig> {
+	const config: Partial<StreamConfig> = {
+		name: data.name,
+		description: data.description,
+		subjects: data.subjects.length > 0 ? data.subjects : undefined,
+		retention: data.retention === "limits" ? RetentionPolicy.Limits :
+			data.retention === "interest" ? RetentionPolicy.Interest :
+			RetentionPolicy.Workqueue,
+		storage: data.storage === "file" ? StorageType.File : StorageType.Memory,
+		max_consumers: data.maxConsumers,
+		max_msgs: data.maxMsgs,
+		max_bytes: data.maxBytes,
+		max_age: data.maxAge,
+		max_msg_size: data.maxMsgSize,
+		num_replicas: data.replicas,
+		discard: data.discard === "old" ? DiscardPolicy.Old : DiscardPolicy.New,
+		mirror: data.mirror ? toStreamSource(data.mirror) : undefined,
+		sources: data.sources?.map(toStreamSource),
+		sealed: data.sealed,
+		first_seq: data.firstSeq,
+	};
+	applyStreamOptions(config, data);
+	return config;
+}
+
+// Convert a NATS subject transform, whose patterns are optional in the client types
+function fromSubjectTransform(transform: SubjectTransformConfig) {
+	return { src: transform.src ?? "", dest: transform.dest ?? "" };
+}
+
+// Convert a NATS mirror or source back into the request shape
+function fromStreamSource(source: StreamSource): StreamSourceRequest {
+	return {
+		...formatStreamSource(source),
+		subjectTransforms: source.subject_transforms?.map(fromSubjectTransform),
+	};
+}
+
+// Convert a NATS stream config back into a create request, e.g. for exports
+export function fromStreamConfig(config: StreamConfig): CreateStreamRequest {
+	// Keys under _nats. are maintained by the server
+	const metadata = Object.fromEntries(
+		Object.entries(config.metadata ?? {}).filter(([key]) => !key.startsWith("_nats.")),
+	);
+
+	return {
+		name: config.name,
+		description: config.description,
+		subjects: config.subjects ?? [],
+		retention: config.retention,
+		storage: config.storage,
+		maxConsumers: config.max_consumers,
+		maxMsgs: config.max_msgs,
+		maxBytes: config.max_bytes,
+		maxAge: config.max_age,
+		maxMsgSize: config.max_msg_size ?? -1,
+		replicas: config.num_replicas,
+		discard: config.discard,
+		mirror: config.mirror ? fromStreamSource(config.mirror) : undefined,
+		sources: config.sources?.map(fromStreamSource),
+		sealed: config.sealed ?? false,
+		firstSeq: config.first_seq,
+		maxMsgsPerSubject: config.max_msgs_per_subject ?? -1,
+		discardNewPerSubject: config.discard_new_per_subject ?? false,
+		duplicateWindow: config.duplicate_window,
+		allowRollupHdrs: config.allow_rollup_hdrs ?? false,
+		denyDelete: config.deny_delete ?? false,
+		denyPurge: config.deny_purge ?? false,
+		allowDirect: config.allow_direct ?? false,
+		mirrorDirect: config.mirror_direct ?? false,
+		republish: config.republish
+			? { src: config.republish.src, dest: config.republish.dest, headersOnly: config.republish.headers_only ?? false }
+			: undefined,
+		subjectTransform: config.subject_transform ? fromSubjectTransform(config.subject_transform) : undefined,
+		compression: config.compression ?? "none",
+		metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+	};
+}
+
+export const updateStreamSchema = z.object({
 	description: z.string().max(4096).optional(),
-	subjects: z.array(z.string().min(1)).min(1).optional(),
+	subjects: z.array(z.string().min(1)).optional(),
 	maxConsumers: z.number().int().min(-1).optional(),
 	maxMsgs: z.number().int().min(-1).optional(),
 	maxBytes: z.number().int().min(-1).optional(),
 	maxAge: z.number().int().min(0).optional(),
 	maxMsgSize: z.number().int().min(-1).optional(),
 	discard: z.enum(["old", "new"]).optional(),
+	// The server decides which retention changes are allowed
+	retention: z.enum(["limits", "interest", "workqueue"]).optional(),
+	// Replaces the full list; a mirror cannot be changed after creation
+	sources: z.array(streamSourceSchema).optional(),
+	replicas: z.number().int().min(1).max(5).optional(),
+	// Sealing is permanent, a sealed stream cannot be unsealed
+	sealed: z.literal(true).optional(),
+	...streamOptionsSchema.partial().shape,
 });
 
+export type UpdateStreamRequest = z.infer<typeof updateStreamSchema>;
+
+// Apply an update request on top of the existing config
+export function buildUpdatedConfig(existing: StreamConfig, data: UpdateStreamRequest): Partial<StreamConfig> {
+	const config: Partial<StreamConfig> = { ...existing };
+
+	if (data.description !== undefined) config.description = data.description;
+	if (data.subjects !== undefined) config.subjects = data.subjects;
+	if (data.maxConsumers !== undefined) config.max_consumers = data.maxConsumers;
+	if (data.maxMsgs !== undefined) config.max_msgs = data.maxMsgs;
+	if (data.maxBytes !== undefined) config.max_bytes = data.maxBytes;
+	if (data.maxAge !== undefined) config.max_age = data.maxAge;
+	if (data.maxMsgSize !== undefined) config.max_msg_size = data.maxMsgSize;
+	if (data.discard !== undefined) {
+		config.discard = data.discard === "old" ? DiscardPolicy.Old : DiscardPolicy.New;
+	}
+	if (data.retention !== undefined) {
+		config.retention = data.retention === "limits" ? RetentionPolicy.Limits :
+			data.retention === "interest" ? RetentionPolicy.Interest :
+			RetentionPolicy.Workqueue;
+	}
+	if (data.sources !== undefined) config.sources = data.sources.map(toStreamSource);
+	if (data.replicas !== undefined) config.num_replicas = data.replicas;
+	if (data.sealed) config.sealed = true;
+	applyStreamOptions(config, data);
+
+	return config;
+}
+
+const publishSchema = z.object({
+	subject: z.string().min(1).regex(/^[^\s*>]+$/, "Subject cannot contain spaces or wildcards"),
+	payload: z.string().default(""),
+	headers: z.record(z.string().min(1), z.union([z.string(), z.array(z.string())])).optional(),
+	msgId: z.string().min(1).optional(),
+	expectedStream: z.string().min(1).optional(),
+	expectedLastSeq: z.number().int().min(0).optional(),
+	expectedLastSubjectSeq: z.number().int().min(0).optional(),
+	expectedLastMsgId: z.string().min(1).optional(),
+});
+
+const purgeSchema = z.object({
+	filter: z.string().min(1).optional(),
+	keep: z.number().int().min(0).optional(),
+	seq: z.number().int().min(1).optional(),
+}).refine((data) => data.keep === undefined || data.seq === undefined, {
+	message: "keep and seq cannot be combined",
+});
+
+type PurgeRequest = z.infer<typeof purgeSchema>;
+
+const deleteMessagesSchema = z.object({
+	seqs: z.array(z.number().int().min(1)).min(1).max(1000),
+	erase: z.boolean().default(false),
+});
+
+const copyMessagesSchema = z.object({
+	startSeq: z.number().int().min(1).optional(),
+	endSeq: z.number().int().min(1).optional(),
+	startTime: z.iso.datetime({ offset: true }).optional(),
+	endTime: z.iso.datetime({ offset: true }).optional(),
+	subjectFilter: z.string().min(1).optional(),
+	targetClusterId: z.string().min(1),
+	targetSubject: z.string().regex(/^[^\s*>]+$/, "Subject cannot contain spaces or wildcards").optional(),
+	rewrite: z.object({
+		from: z.string().min(1),
+		to: z.string(),
+	}).optional(),
+	rateLimit: z.number().int().min(1).optional(),
+	move: z.boolean().default(false),
+	// Copy Nats-Msg-Id instead of dropping it; the target then skips messages it already holds
+	keepMsgId: z.boolean().default(false),
+	dryRun: z.boolean().default(false),
+}).refine((data) => data.startSeq === undefined || data.startTime === undefined, {
+	message: "startSeq and startTime cannot be combined",
+}).refine((data) => data.startSeq === undefined || data.endSeq === undefined || data.startSeq <= data.endSeq, {
+	message: "startSeq must not be after endSeq",
+});
+
+// Raw StreamConfig as returned by `nats stream info --json`. Unknown keys are passed
+// through so configs from newer servers can still be applied.
+const rawStreamSourceSchema = z.looseObject({
+	name: z.string().min(1),
+	opt_start_seq: z.number().int().min(0).optional(),
+	opt_start_time: z.string().optional(),
+	filter_subject: z.string().optional(),
+	subject_transforms: z.array(z.object({ src: z.string(), dest: z.string() })).optional(),
+	external: z.looseObject({ api: z.string(), deliver: z.string().optional() }).optional(),
+});
+
+const rawStreamConfigSchema = z.looseObject({
+	name: z.string().min(1),
+	description: z.string().optional(),
+	subjects: z.array(z.string().min(1)).optional(),
+	retention: z.enum(["limits", "interest", "workqueue"]),
+	storage: z.enum(["file", "memory"]),
+	max_consumers: z.number().int().min(-1),
+	max_msgs: z.number().int().min(-1),
+	max_bytes: z.number().int().min(-1),
+	max_age: z.number().int().min(0),
+	max_msg_size: z.number().int().min(-1).optional(),
+	max_msgs_per_subject: z.number().int().min(-1).optional(),
+	discard: z.enum(["old", "new"]),
+	discard_new_per_subject: z.boolean().optional(),
+	num_replicas: z.number().int().min(1).max(5),
+	duplicate_window: z.number().int().min(0).optional(),
+	no_ack: z.boolean().optional(),
+	sealed: z.boolean().optional(),
+	deny_delete: z.boolean().optional(),
+	deny_purge: z.boolean().optional(),
+	allow_rollup_hdrs: z.boolean().optional(),
+	allow_direct: z.boolean().optional(),
+	mirror_direct: z.boolean().optional(),
+	mirror: rawStreamSourceSchema.optional(),
+	sources: z.array(rawStreamSourceSchema).optional(),
+	republish: z.looseObject({ src: z.string(), dest: z.string(), headers_only: z.boolean().optional() }).optional(),
+	subject_transform: z.looseObject({ src: z.string(), dest: z.string() }).optional(),
+	compression: z.enum(["none", "s2"]).optional(),
+	first_seq: z.number().int().min(0).optional(),
+	metadata: z.record(z.string(), z.string()).optional(),
+	placement: z.looseObject({ cluster: z.string().optional(), tags: z.array(z.string()).optional() }).optional(),
+});
+
+// Get per-subject message counts, optionally restricted to a subject filter
+async function getSubjectCounts(jsm: JetStreamManager, name: string, filter = ">") {
+	const info = await jsm.streams.info(name, { subjects_filter: filter });
+	return info.state.subjects ?? {};
+}
+
+// Estimate how many messages a purge would remove from stream state and subject counts
+export async function estimatePurge(jsm: JetStreamManager, name: string, opts: PurgeRequest) {
+	const info = await jsm.streams.info(name);
+	const { messages, first_seq: firstSeq, num_deleted: numDeleted } = info.state;
+	let matching = messages;
+
+	if (opts.filter && opts.filter !== ">") {
+		const counts = await getSubjectCounts(jsm, name, opts.filter);
+		matching = Object.values(counts).reduce((sum, count) => sum + count, 0);
+	}
+
+	if (opts.keep !== undefined) {
+		return { count: Math.max(0, matching - opts.keep), exact: true };
+	}
+
+	if (opts.seq !== undefined) {
+		// Messages below seq, minus any gaps the stream already has
+		const below = Math.max(0, Math.min(opts.seq - firstSeq, info.state.last_seq - firstSeq + 1));
+		const exact = numDeleted === 0 && matching === messages;
+		return { count: Math.min(matching, below), exact };
+	}
+
+	return { count: matching, exact: true };
+}
+
+// Find the first message at or after a time, optionally matching a subject.
+// Uses start_time on servers that support it and falls back to a binary search by sequence.
+async function findSeqByTime(
+	jsm: JetStreamManager,
+	name: string,
+	time: Date,
+	firstSeq: number,
+	lastSeq: number,
+	subject?: string,
+): Promise<number | null> {
+	try {
+		const query = subject
+			? { start_time: time.toISOString(), next_by_subj: subject }
+			: { start_time: time.toISOString() };
+		const msg = await jsm.streams.getMessage(name, query as unknown as MsgRequest);
+		return msg.seq;
+	} catch {
+		// Older server or nothing after the given time, search by sequence instead
+	}
+
+	let lo = firstSeq;
+	let hi = lastSeq;
+	let found: number | null = null;
+
+	while (lo <= hi) {
+		const mid = Math.floor((lo + hi) / 2);
+		let msg: Awaited<ReturnType<typeof jsm.streams.getMessage>>;
+		try {
+			// Next stored message at or after mid, which skips deleted sequences
+			msg = await jsm.streams.getMessage(name, { seq: mid, next_by_subj: subject ?? ">" } as unknown as MsgRequest);
+		} catch {
+			hi = mid - 1;
+			continue;
+		}
+
+		if (msg.time.getTime() >= time.getTime()) {
+			found = msg.seq;
+			hi = mid - 1;
+		} else {
+			lo = msg.seq + 1;
+		}
+	}
+
+	return found;
+}
+
 const streams = new Hono();
 
 // List all streams for a cluster
 streams.get("/cluster/:clusterId", async (c) => {
 	const clusterId = c.req.param("clusterId");
-	const result = await connectToCluster(clusterId);
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -159,8 +553,6 @@ streams.get("/cluster/:clusterId", async (c) => {
 		return c.json({
 			error: error instanceof Error ? error.message : "Failed to list streams",
 		}, 500);
-	} finally {
-		await nc.close().catch(() => {});
 	}
 });
 
@@ -168,7 +560,7 @@ streams.get("/cluster/:clusterId", async (c) => {
 streams.get("/cluster/:clusterId/stream/:name", async (c) => {
 	const clusterId = c.req.param("clusterId");
 	const name = c.req.param("name");
-	const result = await connectToCluster(clusterId);
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -184,8 +576,6 @@ streams.get("/cluster/:clusterId/stream/:name", async (c) => {
 		return c.json({
 			error: error instanceof Error ? error.message : "Stream not found",
 		}, 404);
-	} finally {
-		await nc.close().catch(() => {});
 	}
 });
 
@@ -193,7 +583,7 @@ streams.get("/cluster/:clusterId/stream/:name", async (c) => {
 streams.post("/cluster/:clusterId", zValidator("json", createStreamSchema), async (c) => {
 	const clusterId = c.req.param("clusterId");
 	const data = c.req.valid("json");
-	const result = await connectToCluster(clusterId);
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -203,32 +593,12 @@ streams.post("/cluster/:clusterId", zValidator("json", createStreamSchema), asyn
 
 	try {
 		const jsm = await nc.jetstreamManager();
-
-		const config: Partial<StreamConfig> = {
-			name: data.name,
-			description: data.description,
-			subjects: data.subjects,
-			retention: data.retention === "limits" ? RetentionPolicy.Limits :
-				data.retention === "interest" ? RetentionPolicy.Interest :
-				RetentionPolicy.Workqueue,
-			storage: data.storage === "file" ? StorageType.File : StorageType.Memory,
-			max_consumers: data.maxConsumers,
-			max_msgs: data.maxMsgs,
-			max_bytes: data.maxBytes,
-			max_age: data.maxAge,
-			max_msg_size: data.maxMsgSize,
-			num_replicas: data.replicas,
-			discard: data.discard === "old" ? DiscardPolicy.Old : DiscardPolicy.New,
-		};
-
-		const info = await jsm.streams.add(config);
+		const info = await jsm.streams.add(toStreamConfig(data));
 		return c.json(formatStreamInfo(info), 201);
 	} catch (error) {
 		return c.json({
 			error: error instanceof Error ? error.message : "Failed to create stream",
 		}, 500);
-	} finally {
-		await nc.close().catch(() => {});
 	}
 });
 
@@ -237,7 +607,7 @@ streams.patch("/cluster/:clusterId/stream/:name", zValidator("json", updateStrea
 	const clusterId = c.req.param("clusterId");
 	const name = c.req.param("name");
 	const data = c.req.valid("json");
-	const result = await connectToCluster(clusterId);
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -248,38 +618,114 @@ streams.patch("/cluster/:clusterId/stream/:name", zValidator("json", updateStrea
 	try {
 		const jsm = await nc.jetstreamManager();
 
-		// Get existing config
+		// Get existing config and apply the changes
 		const existing = await jsm.streams.info(name);
-		const config: Partial<StreamConfig> = { ...existing.config };
-
-		// Update fields
-		if (data.description !== undefined) config.description = data.description;
-		if (data.subjects !== undefined) config.subjects = data.subjects;
-		if (data.maxConsumers !== undefined) config.max_consumers = data.maxConsumers;
-		if (data.maxMsgs !== undefined) config.max_msgs = data.maxMsgs;
-		if (data.maxBytes !== undefined) config.max_bytes = data.maxBytes;
-		if (data.maxAge !== undefined) config.max_age = data.maxAge;
-		if (data.maxMsgSize !== undefined) config.max_msg_size = data.maxMsgSize;
-		if (data.discard !== undefined) {
-			config.discard = data.discard === "old" ? DiscardPolicy.Old : DiscardPolicy.New;
-		}
+		const config = buildUpdatedConfig(existing.config, data);
 
 		const info = await jsm.streams.update(name, config);
 		return c.json(formatStreamInfo(info));
 	} catch (error) {
 		return c.json({
 			error: error instanceof Error ? error.message : "Failed to update stream",
+		}, isJetStreamApiError(error) ? 400 : 500);
+	}
+});
+
+// Preview an update, returning the current and resulting config without applying it
+streams.post("/cluster/:clusterId/stream/:name/update/preview", zValidator("json", updateStreamSchema), async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const name = c.req.param("name");
+	const data = c.req.valid("json");
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		const jsm = await nc.jetstreamManager();
+		const existing = await jsm.streams.info(name);
+		return c.json({
+			current: existing.config,
+			proposed: buildUpdatedConfig(existing.config, data),
+		});
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to preview stream update",
 		}, 500);
-	} finally {
-		await nc.close().catch(() => {});
 	}
 });
 
+// Get the untransformed StreamInfo
+streams.get("/cluster/:clusterId/stream/:name/raw", async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const name = c.req.param("name");
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		const jsm = await nc.jetstreamManager();
+		const info = await jsm.streams.info(name);
+		return c.json(info);
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Stream not found",
+		}, 404);
+	}
+});
+
+// Replace the stream config with a raw StreamConfig
+streams.put(
+	"/cluster/:clusterId/stream/:name/raw",
+	zValidator("json", rawStreamConfigSchema, (result, c) => {
+		// Report every schema violation so the raw editor can show them together
+		if (!result.success) {
+			const issues = result.error.issues.map((issue) => `${issue.path.join(".") || "config"}: ${issue.message}`);
+			return c.json({ error: issues.join("\n") }, 400);
+		}
+	}),
+	async (c) => {
+		const clusterId = c.req.param("clusterId");
+		const name = c.req.param("name");
+		const data = c.req.valid("json");
+
+		if (data.name !== name) {
+			return c.json({ error: "Stream name cannot be changed" }, 400);
+		}
+
+		const result = await getConnection(clusterId);
+
+		if ("error" in result) {
+			return c.json({ error: result.error }, 400);
+		}
+
+		const { nc } = result;
+
+		try {
+			const jsm = await nc.jetstreamManager();
+			const current = await jsm.streams.info(name);
+			const info = await jsm.streams.update(name, withRemovedKeys<StreamConfig>(current.config, data));
+			return c.json(info);
+		} catch (error) {
+			return c.json({
+				error: error instanceof Error ? error.message : "Failed to update stream",
+			}, isJetStreamApiError(error) ? 400 : 500);
+		}
+	},
+);
+
 // Delete a stream
 streams.delete("/cluster/:clusterId/stream/:name", async (c) => {
 	const clusterId = c.req.param("clusterId");
 	const name = c.req.param("name");
-	const result = await connectToCluster(clusterId);
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -295,16 +741,15 @@ streams.delete("/cluster/:clusterId/stream/:name", async (c) => {
 		return c.json({
 			error: error instanceof Error ? error.message : "Failed to delete stream",
 		}, 500);
-	} finally {
-		await nc.close().catch(() => {});
 	}
 });
 
-// Purge a stream
-streams.post("/cluster/:clusterId/stream/:name/purge", async (c) => {
+// Purge a stream, optionally restricted to a subject, keeping the last N or up to a sequence
+streams.post("/cluster/:clusterId/stream/:name/purge", zValidator("json", purgeSchema), async (c) => {
 	const clusterId = c.req.param("clusterId");
 	const name = c.req.param("name");
-	const result = await connectToCluster(clusterId);
+	const data = c.req.valid("json");
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -314,14 +759,243 @@ streams.post("/cluster/:clusterId/stream/:name/purge", async (c) => {
 
 	try {
 		const jsm = await nc.jetstreamManager();
-		const purged = await jsm.streams.purge(name);
+		let opts: PurgeOpts | undefined;
+		if (data.keep !== undefined) {
+			opts = { filter: data.filter, keep: data.keep };
+		} else if (data.seq !== undefined) {
+			opts = { filter: data.filter, seq: data.seq };
+		} else if (data.filter) {
+			opts = { filter: data.filter };
+		}
+
+		const purged = await jsm.streams.purge(name, opts);
 		return c.json({ success: true, purged: purged.purged });
 	} catch (error) {
 		return c.json({
 			error: error instanceof Error ? error.message : "Failed to purge stream",
 		}, 500);
-	} finally {
-		await nc.close().catch(() => {});
+	}
+});
+
+// Preview how many messages a purge would remove
+streams.post("/cluster/:clusterId/stream/:name/purge/preview", zValidator("json", purgeSchema), async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const name = c.req.param("name");
+	const data = c.req.valid("json");
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		const jsm = await nc.jetstreamManager();
+		return c.json(await estimatePurge(jsm, name, data));
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to preview purge",
+		}, 500);
+	}
+});
+
+// Delete a single message, optionally overwriting it on disk
+streams.delete("/cluster/:clusterId/stream/:name/message/:seq", async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const name = c.req.param("name");
+	const seq = Number(c.req.param("seq"));
+	const erase = c.req.query("erase") === "true";
+
+	if (!Number.isInteger(seq) || seq < 1) {
+		return c.json({ error: "Invalid sequence" }, 400);
+	}
+
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		const jsm = await nc.jetstreamManager();
+		// erase=false only marks the message deleted; erase=true overwrites its data
+		await jsm.streams.deleteMessage(name, seq, erase);
+		return c.json({ success: true });
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to delete message",
+		}, 500);
+	}
+});
+
+// Delete several messages, reporting failures per sequence
+streams.post("/cluster/:clusterId/stream/:name/messages/delete", zValidator("json", deleteMessagesSchema), async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const name = c.req.param("name");
+	const { seqs, erase } = c.req.valid("json");
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		const jsm = await nc.jetstreamManager();
+		const deleted: number[] = [];
+		const failed: { seq: number; error: string }[] = [];
+
+		for (const seq of [...new Set(seqs)]) {
+			try {
+				await jsm.streams.deleteMessage(name, seq, erase);
+				deleted.push(seq);
+			} catch (error) {
+				failed.push({
+					seq,
+					error: error instanceof Error ? error.message : "Failed to delete message",
+				});
+			}
+		}
+
+		return c.json({ success: failed.length === 0, deleted, failed });
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to delete messages",
+		}, 500);
+	}
+});
+
+// Copy or move a range of messages to a subject in any cluster; dryRun only counts them
+streams.post("/cluster/:clusterId/stream/:name/copy", zValidator("json", copyMessagesSchema), async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const name = c.req.param("name");
+	const data = c.req.valid("json");
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+	const selection: MessageSelection = {
+		startSeq: data.startSeq,
+		endSeq: data.endSeq,
+		startTime: data.startTime ? new Date(data.startTime) : undefined,
+		endTime: data.endTime ? new Date(data.endTime) : undefined,
+		subjectFilter: data.subjectFilter,
+	};
+
+	try {
+		if (data.dryRun) {
+			return c.json(await countSelection(nc, name, selection));
+		}
+
+		const target = data.targetClusterId === clusterId ? result : await getConnection(data.targetClusterId);
+		if ("error" in target) {
+			return c.json({ error: `Target cluster: ${target.error}` }, 400);
+		}
+
+		const job = await startCopy({ nc, clusterId }, name, selection, {
+			nc: target.nc,
+			clusterId: data.targetClusterId,
+			subject: data.targetSubject,
+			rewrite: data.rewrite,
+			rateLimit: data.rateLimit,
+			move: data.move,
+			keepMsgId: data.keepMsgId,
+		});
+		return c.json(job, 202);
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to copy messages",
+		}, isJetStreamApiError(error) ? 400 : 500);
+	}
+});
+
+// Publish a message to a subject and return the JetStream ack
+streams.post("/cluster/:clusterId/publish", zValidator("json", publishSchema), async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const data = c.req.valid("json");
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		const js = nc.jetstream();
+		const opts: Partial<JetStreamPublishOptions> = {
+			msgID: data.msgId,
+			expect: {
+				streamName: data.expectedStream,
+				lastSequence: data.expectedLastSeq,
+				lastSubjectSequence: data.expectedLastSubjectSeq,
+				lastMsgID: data.expectedLastMsgId,
+			},
+		};
+
+		if (data.headers && Object.keys(data.headers).length > 0) {
+			const hdrs = createHeaders();
+			for (const [key, value] of Object.entries(data.headers)) {
+				for (const v of Array.isArray(value) ? value : [value]) {
+					hdrs.append(key, v);
+				}
+			}
+			opts.headers = hdrs;
+		}
+
+		const ack = await js.publish(data.subject, new TextEncoder().encode(data.payload), opts);
+		return c.json({
+			stream: ack.stream,
+			seq: ack.seq,
+			duplicate: ack.duplicate,
+			domain: ack.domain,
+		});
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to publish message",
+		}, isJetStreamApiError(error) ? 400 : 500);
+	}
+});
+
+// Get message counts for each concrete subject in a stream
+streams.get("/cluster/:clusterId/stream/:name/subjects", async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const name = c.req.param("name");
+	const filter = c.req.query("filter") || ">";
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		const jsm = await nc.jetstreamManager();
+		const info = await jsm.streams.info(name);
+		const counts = await getSubjectCounts(jsm, name, filter);
+
+		const subjects = Object.entries(counts)
+			.map(([subject, messages]) => ({ subject, messages }))
+			.sort((a, b) => a.subject.localeCompare(b.subject));
+
+		return c.json({
+			subjects,
+			filter,
+			totalMessages: info.state.messages,
+			totalBytes: info.state.bytes,
+		});
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to get subject counts",
+		}, 500);
 	}
 });
 
@@ -333,8 +1007,14 @@ streams.get("/cluster/:clusterId/stream/:name/messages", async (c) => {
 	const limit = Math.min(Number(c.req.query("limit")) || 50, 100);
 	const direction = c.req.query("direction") === "forward" ? "forward" : "backward";
 	const subjectFilter = c.req.query("subject") || undefined;
+	const startTimeParam = c.req.query("startTime");
+	const startTime = startTimeParam ? new Date(startTimeParam) : undefined;
 
-	const result = await connectToCluster(clusterId);
+	if (startTime && Number.isNaN(startTime.getTime())) {
+		return c.json({ error: "Invalid startTime" }, 400);
+	}
+
+	const result = await getConnection(clusterId);
 
 	if ("error" in result) {
 		return c.json({ error: result.error }, 400);
@@ -367,7 +1047,13 @@ streams.get("/cluster/:clusterId/stream/:name/messages", async (c) => {
 			headers?: Record<string, string[]>;
 		}> = [];
 
-		if (direction === "backward") {
+		// Seeking by time resolves to the nearest sequence and reads forward from it
+		let resolvedStartSeq: number | undefined;
+		if (startTime) {
+			resolvedStartSeq = (await findSeqByTime(jsm, name, startTime, firstSeq, lastSeq, subjectFilter)) ?? lastSeq;
+		}
+
+		if (direction === "backward" && resolvedStartSeq === undefined) {
 			// Fetch messages going backward from startSeq (or lastSeq if not provided)
 			const startFrom = startSeqParam ? Math.min(Number(startSeqParam), lastSeq) : lastSeq;
 
@@ -439,7 +1125,7 @@ streams.get("/cluster/:clusterId/stream/:name/messages", async (c) => {
 		}
 
 		// Forward direction
-		const startSeq = Number(startSeqParam) || firstSeq;
+		const startSeq = resolvedStartSeq ?? (Number(startSeqParam) || firstSeq);
 		const actualStart = Math.max(startSeq, firstSeq);
 
 		if (actualStart > lastSeq) {
@@ -448,6 +1134,7 @@ streams.get("/cluster/:clusterId/stream/:name/messages", async (c) => {
 				firstSeq,
 				lastSeq,
 				hasMore: false,
+				startSeq: resolvedStartSeq,
 			});
 		}
 
@@ -500,13 +1187,12 @@ streams.get("/cluster/:clusterId/stream/:name/messages", async (c) => {
 			firstSeq,
 			lastSeq,
 			hasMore: messages.length > 0 && messages[messages.length - 1].seq < lastSeq,
+			startSeq: resolvedStartSeq,
 		});
 	} catch (error) {
 		return c.json({
 			error: error instanceof Error ? error.message : "Failed to fetch messages",
 		}, 500);
-	} finally {
-		await nc.close().catch(() => {});
 	}
 });
 
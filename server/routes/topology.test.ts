@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from "vitest";
+import topology from "./topology";
+
+const connection = vi.hoisted(() => ({ nc: undefined as unknown }));
+
+vi.mock("../db", () => ({}));
+vi.mock("../services/connection-manager", () => ({ getConnection: async () => ({ nc: connection.nc }) }));
+
+const content = JSON.stringify({ version: 1, streams: [{ name: "ORDERS", subjects: ["orders.>"] }] });
+
+// An empty cluster that records the streams added to it
+function fakeConnection() {
+	const add = vi.fn(async (config: object) => ({ config }));
+	connection.nc = {
+		jetstream: () => ({}),
+		jetstreamManager: async () => ({
+			streams: {
+				list: () => (async function* () {})(),
+				add,
+			},
+		}),
+	};
+	return { add };
+}
+
+function post(path: string, body: object) {
+	return topology.request(`/cluster/c1/import/${path}`, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify(body),
+	});
+}
+
+describe("POST /cluster/:clusterId/import/apply", () => {
+	it("applies the plan that was reviewed", async () => {
+		const { add } = fakeConnection();
+		const plan = await (await post("plan", { content })).json();
+
+		const res = await post("apply", { content, planHash: plan.planHash });
+
+		expect(res.status).toBe(200);
+		expect(await res.json()).toMatchObject({ applied: 1, failed: 0 });
+		expect(add).toHaveBeenCalledTimes(1);
+	});
+
+	it("refuses a plan that no longer matches and returns the current one", async () => {
+		const { add } = fakeConnection();
+		const plan = await (await post("plan", { content })).json();
+
+		const res = await post("apply", { content, planHash: "stale" });
+
+		expect(res.status).toBe(409);
+		expect((await res.json()).plan).toEqual(plan);
+		expect(add).not.toHaveBeenCalled();
+	});
+});
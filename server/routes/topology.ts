@@ -0,0 +1,526 @@
+import { createHash } from "node:crypto";
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import type { ConsumerConfig, JetStreamManager, NatsConnection, StreamConfig } from "nats.ws";
+import { z } from "zod";
+import { getConnection } from "../services/connection-manager";
+import { parseYaml, stringifyYaml } from "../services/yaml";
+import { createConsumerSchema, fromConsumerConfig, toConsumerConfig } from "./consumers";
+import {
+	createKvBucket,
+	createBucketSchema as createKvBucketSchema,
+	fromKvStreamConfig,
+	kvCreateError,
+	type UpdateBucketRequest,
+	updateKvBucket,
+} from "./kv";
+import {
+	createBucketSchema as createObjectStoreBucketSchema,
+	fromObjectStoreStreamConfig,
+	toObjectStoreOptions,
+} from "./objectstore";
+import {
+	buildUpdatedConfig,
+	createStreamSchema,
+	fromStreamConfig,
+	toStreamConfig,
+	type UpdateStreamRequest,
+} from "./streams";
+
+// A declarative description of the JetStream assets of a cluster, built from the create schemas
+const bundleSchema = z.object({
+	version: z.literal(1),
+	exportedAt: z.string().optional(),
+	cluster: z.string().optional(),
+	streams: z.array(createStreamSchema).default([]),
+	consumers: z.array(createConsumerSchema.extend({ stream: z.string().min(1) })).default([]),
+	kvBuckets: z.array(createKvBucketSchema).default([]),
+	objectStores: z.array(createObjectStoreBucketSchema).default([]),
+});
+
+type Bundle = z.infer<typeof bundleSchema>;
+
+const importSchema = z.object({
+	// The bundle file contents, JSON or YAML
+	content: z.string().min(1),
+});
+
+const applySchema = importSchema.extend({
+	// Fingerprint of the plan that was reviewed, as returned by the plan route
+	planHash: z.string().min(1),
+});
+
+type AssetKind = "stream" | "consumer" | "kv" | "objectStore";
+
+interface FieldChange {
+	field: string;
+	from: unknown;
+	to: unknown;
+}
+
+interface PlanItem {
+	kind: AssetKind;
+	name: string;
+	stream?: string;
+	action: "create" | "update" | "unchanged" | "conflict";
+	changes: FieldChange[];
+	reason?: string;
+	// Performs the create or update; only set for those actions
+	apply?: () => Promise<unknown>;
+}
+
+// Fields the server refuses to change once an asset exists
+const immutableFields: Record<AssetKind, string[]> = {
+	stream: ["storage", "mirror", "firstSeq", "maxConsumers"],
+	consumer: [
+		"durableName",
+		"ephemeral",
+		"deliverPolicy",
+		"optStartSeq",
+		"optStartTime",
+		"ackPolicy",
+		"replayPolicy",
+		"maxWaiting",
+		"memStorage",
+	],
+	kv: ["storage"],
+	objectStore: ["storage"],
+};
+
+// Backing stream fields for the bucket settings that can be updated in place
+const objectStoreStreamFields: Record<string, keyof StreamConfig> = {
+	description: "description",
+	ttl: "max_age",
+	maxBucketSize: "max_bytes",
+	replicas: "num_replicas",
+};
+
+// Export every stream, durable consumer, KV and object store bucket of a cluster
+async function exportBundle(jsm: JetStreamManager, clusterName: string): Promise<Bundle> {
+	const bundle: Bundle = {
+		version: 1,
+		exportedAt: new Date().toISOString(),
+		cluster: clusterName,
+		streams: [],
+		consumers: [],
+		kvBuckets: [],
+		objectStores: [],
+	};
+
+	for await (const stream of jsm.streams.list()) {
+		const name = stream.config.name;
+		if (name.startsWith("KV_")) {
+			bundle.kvBuckets.push(fromKvStreamConfig(stream.config));
+		} else if (name.startsWith("OBJ_")) {
+			bundle.objectStores.push(fromObjectStoreStreamConfig(stream.config));
+		} else {
+			bundle.streams.push(fromStreamConfig(stream.config));
+
+			// Ephemeral consumers go away with their clients, so only durables are exported
+			for await (const consumer of jsm.consumers.list(name)) {
+				if (consumer.config.durable_name) {
+					bundle.consumers.push({ stream: name, ...fromConsumerConfig(consumer.name, consumer.config) });
+				}
+			}
+		}
+	}
+
+	const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+	bundle.streams.sort(byName);
+	bundle.consumers.sort((a, b) => a.stream.localeCompare(b.stream) || byName(a, b));
+	bundle.kvBuckets.sort(byName);
+	bundle.objectStores.sort(byName);
+	return bundle;
+}
+
+// Parse and validate a bundle file, accepting both JSON and YAML
+function parseBundle(content: string): { bundle: Bundle } | { error: string } {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(content);
+	} catch {
+		try {
+			raw = parseYaml(content);
+		} catch (error) {
+			return { error: `Could not parse the file as JSON or YAML: ${error instanceof Error ? error.message : error}` };
+		}
+	}
+
+	const parsed = bundleSchema.safeParse(raw);
+	if (!parsed.success) {
+		const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "bundle"}: ${issue.message}`);
+		return { error: issues.join("\n") };
+	}
+
+	const { streams, consumers, kvBuckets, objectStores } = parsed.data;
+	const names = [
+		...streams.map((s) => `stream ${s.name}`),
+		...consumers.map((c) => `consumer ${c.stream}/${c.name}`),
+		...kvBuckets.map((b) => `KV bucket ${b.name}`),
+		...objectStores.map((b) => `object store ${b.name}`),
+	];
+	const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+	if (duplicate) {
+		return { error: `The bundle defines ${duplicate} more than once` };
+	}
+
+	return { bundle: parsed.data };
+}
+
+// Compare the desired settings with the current ones; unset desired fields are left alone
+function diffFields(current: object, desired: object): FieldChange[] {
+	const currentFields = current as Record<string, unknown>;
+	const changes: FieldChange[] = [];
+	for (const [field, to] of Object.entries(desired)) {
+		if (to === undefined) continue;
+		const from = currentFields[field];
+		if (JSON.stringify(from ?? null) !== JSON.stringify(to ?? null)) {
+			changes.push({ field, from, to });
+		}
+	}
+	return changes;
+}
+
+// Decide between update, unchanged and conflict for an asset that already exists
+function planChanges(
+	kind: AssetKind,
+	name: string,
+	changes: FieldChange[],
+	apply: () => Promise<unknown>,
+	stream?: string,
+): PlanItem {
+	if (changes.length === 0) {
+		return { kind, name, stream, action: "unchanged", changes };
+	}
+
+	const locked = changes.filter((change) => immutableFields[kind].includes(change.field));
+	if (locked.length > 0) {
+		return {
+			kind,
+			name,
+			stream,
+			action: "conflict",
+			changes,
+			reason: `Cannot change ${locked.map((change) => change.field).join(", ")} after creation`,
+		};
+	}
+
+	if (kind === "stream" && changes.some((change) => change.field === "sealed" && change.to === false)) {
+		return { kind, name, stream, action: "conflict", changes, reason: "A sealed stream cannot be unsealed" };
+	}
+
+	if (kind === "kv" && changes.some((change) => change.field === "allowMsgTtl" && change.to === false)) {
+		return { kind, name, stream, action: "conflict", changes, reason: "Per-key TTL cannot be turned off again" };
+	}
+
+	return { kind, name, stream, action: "update", changes, apply };
+}
+
+// Apply object store setting changes to the OBJ_ stream backing it
+async function updateBackingStream(
+	jsm: JetStreamManager,
+	existing: StreamConfig,
+	changes: FieldChange[],
+	fields: Record<string, keyof StreamConfig>,
+) {
+	const config: Record<string, unknown> = { ...existing };
+	for (const change of changes) {
+		config[fields[change.field]] = change.to;
+	}
+
+	// The duplicate window may not exceed the max age
+	const maxAge = config.max_age as number;
+	if (maxAge > 0 && (config.duplicate_window as number) > maxAge) {
+		config.duplicate_window = maxAge;
+	}
+
+	return jsm.streams.update(existing.name, config as Partial<StreamConfig>);
+}
+
+// Drop unset fields so a consumer update keeps the current values for them
+function definedOnly<T extends object>(value: T): Partial<T> {
+	return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+// Work out which assets of the bundle would be created or updated on the target cluster
+async function computePlan(nc: NatsConnection, bundle: Bundle): Promise<PlanItem[]> {
+	const jsm = await nc.jetstreamManager();
+	const js = nc.jetstream();
+
+	const existingStreams = new Map<string, StreamConfig>();
+	for await (const stream of jsm.streams.list()) {
+		existingStreams.set(stream.config.name, stream.config);
+	}
+
+	const plan: PlanItem[] = [];
+
+	// Streams that mirror or source others go last so their origins exist first
+	const streams = [...bundle.streams].sort(
+		(a, b) => Number(!!(a.mirror || a.sources?.length)) - Number(!!(b.mirror || b.sources?.length)),
+	);
+	for (const desired of streams) {
+		const existing = existingStreams.get(desired.name);
+		if (!existing) {
+			plan.push({
+				kind: "stream",
+				name: desired.name,
+				action: "create",
+				changes: [],
+				apply: () => jsm.streams.add(toStreamConfig(desired)),
+			});
+			continue;
+		}
+
+		const changes = diffFields(fromStreamConfig(existing), desired);
+		plan.push(planChanges("stream", desired.name, changes, () => {
+			const update = Object.fromEntries(changes.map((change) => [change.field, change.to]));
+			return jsm.streams.update(desired.name, buildUpdatedConfig(existing, update as UpdateStreamRequest));
+		}));
+	}
+
+	for (const desired of bundle.kvBuckets) {
+		const existing = existingStreams.get(`KV_${desired.name}`);
+		if (!existing) {
+			const invalid = kvCreateError(nc, desired);
+			if (invalid) {
+				plan.push({ kind: "kv", name: desired.name, action: "conflict", changes: [], reason: invalid });
+				continue;
+			}
+			plan.push({
+				kind: "kv",
+				name: desired.name,
+				action: "create",
+				changes: [],
+				apply: () => createKvBucket(nc, desired),
+			});
+			continue;
+		}
+
+		const changes = diffFields(fromKvStreamConfig(existing), desired);
+		plan.push(planChanges("kv", desired.name, changes, async () => {
+			const update = Object.fromEntries(changes.map((change) => [change.field, change.to]));
+			const updated = await updateKvBucket(jsm, existing, update as UpdateBucketRequest);
+			if ("error" in updated) {
+				throw new Error(updated.error);
+			}
+			return updated.info;
+		}));
+	}
+
+	for (const desired of bundle.objectStores) {
+		const existing = existingStreams.get(`OBJ_${desired.name}`);
+		if (!existing) {
+			plan.push({
+				kind: "objectStore",
+				name: desired.name,
+				action: "create",
+				changes: [],
+				apply: () => js.views.os(desired.name, toObjectStoreOptions(desired)),
+			});
+			continue;
+		}
+
+		const changes = diffFields(fromObjectStoreStreamConfig(existing), desired);
+		plan.push(planChanges("objectStore", desired.name, changes, () =>
+			updateBackingStream(jsm, existing, changes, objectStoreStreamFields),
+		));
+	}
+
+	// Consumers go last, after the streams they belong to
+	const existingConsumers = new Map<string, Map<string, ConsumerConfig>>();
+	for (const { stream, ...desired } of bundle.consumers) {
+		const createsStream = bundle.streams.some((s) => s.name === stream);
+		if (!existingStreams.has(stream) && !createsStream) {
+			plan.push({
+				kind: "consumer",
+				name: desired.name,
+				stream,
+				action: "conflict",
+				changes: [],
+				reason: `Stream "${stream}" does not exist on the target cluster`,
+			});
+			continue;
+		}
+
+		let consumers = existingConsumers.get(stream);
+		if (!consumers) {
+			consumers = new Map();
+			if (existingStreams.has(stream)) {
+				for await (const consumer of jsm.consumers.list(stream)) {
+					consumers.set(consumer.name, consumer.config);
+				}
+			}
+			existingConsumers.set(stream, consumers);
+		}
+
+		const existing = consumers.get(desired.name);
+		if (!existing) {
+			plan.push({
+				kind: "consumer",
+				name: desired.name,
+				stream,
+				action: "create",
+				changes: [],
+				apply: () => jsm.consumers.add(stream, toConsumerConfig(desired)),
+			});
+			continue;
+		}
+
+		const changes = diffFields(fromConsumerConfig(desired.name, existing), desired);
+		plan.push(planChanges("consumer", desired.name, changes, () =>
+			jsm.consumers.update(stream, desired.name, definedOnly(toConsumerConfig(desired))),
+		stream));
+	}
+
+	return plan;
+}
+
+// Fingerprint of what a plan would do, so an apply can be refused when it no longer matches the reviewed plan
+function planHash(plan: PlanItem[]): string {
+	const items = plan.map(({ apply, ...item }) => item);
+	return createHash("sha256").update(JSON.stringify(items)).digest("hex");
+}
+
+// The plan as returned to the client, without the apply functions
+function describePlan(bundle: Bundle, plan: PlanItem[]) {
+	return {
+		source: bundle.cluster,
+		items: plan.map(({ apply, ...item }) => item),
+		summary: summarize(plan),
+		planHash: planHash(plan),
+	};
+}
+
+function summarize(plan: PlanItem[]) {
+	return {
+		create: plan.filter((item) => item.action === "create").length,
+		update: plan.filter((item) => item.action === "update").length,
+		unchanged: plan.filter((item) => item.action === "unchanged").length,
+		conflict: plan.filter((item) => item.action === "conflict").length,
+	};
+}
+
+const topology = new Hono();
+
+// Export the cluster topology as a JSON or YAML bundle
+topology.get("/cluster/:clusterId/export", async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const format = c.req.query("format") === "json" ? "json" : "yaml";
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc, cluster } = result;
+
+	try {
+		const jsm = await nc.jetstreamManager();
+		const bundle = await exportBundle(jsm, cluster.name);
+
+		// Round-trip through JSON to drop unset fields
+		const body = format === "json"
+			? JSON.stringify(bundle, null, 2)
+			: stringifyYaml(JSON.parse(JSON.stringify(bundle)));
+		const filename = `${cluster.name}-topology.${format}`;
+
+		return c.body(body, 200, {
+			"Content-Type": format === "json" ? "application/json" : "application/yaml",
+			"Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`,
+		});
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to export topology",
+		}, 500);
+	}
+});
+
+// Compute the changes an import would make, without applying them
+topology.post("/cluster/:clusterId/import/plan", zValidator("json", importSchema), async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const { content } = c.req.valid("json");
+
+	const parsed = parseBundle(content);
+	if ("error" in parsed) {
+		return c.json({ error: parsed.error }, 400);
+	}
+
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		const plan = await computePlan(nc, parsed.bundle);
+		return c.json(describePlan(parsed.bundle, plan));
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to plan import",
+		}, 500);
+	}
+});
+
+// Apply an import. The plan is recomputed against the cluster as it is now and refused
+// when it differs from the one that was reviewed; the new plan is returned for another review
+topology.post("/cluster/:clusterId/import/apply", zValidator("json", applySchema), async (c) => {
+	const clusterId = c.req.param("clusterId");
+	const { content, planHash: reviewedHash } = c.req.valid("json");
+
+	const parsed = parseBundle(content);
+	if ("error" in parsed) {
+		return c.json({ error: parsed.error }, 400);
+	}
+
+	const result = await getConnection(clusterId);
+
+	if ("error" in result) {
+		return c.json({ error: result.error }, 400);
+	}
+
+	const { nc } = result;
+
+	try {
+		const plan = await computePlan(nc, parsed.bundle);
+		if (planHash(plan) !== reviewedHash) {
+			return c.json({
+				error: "The cluster changed since the plan was computed. Review the updated plan before applying it.",
+				plan: describePlan(parsed.bundle, plan),
+			}, 409);
+		}
+
+		const results = [];
+
+		// Apply one at a time, in plan order, and carry on past failures
+		for (const { apply, ...item } of plan) {
+			if (!apply) {
+				results.push({ ...item, status: "skipped" as const });
+				continue;
+			}
+			try {
+				await apply();
+				results.push({ ...item, status: "applied" as const });
+			} catch (error) {
+				results.push({
+					...item,
+					status: "failed" as const,
+					error: error instanceof Error ? error.message : "Failed to apply",
+				});
+			}
+		}
+
+		return c.json({
+			results,
+			applied: results.filter((r) => r.status === "applied").length,
+			failed: results.filter((r) => r.status === "failed").length,
+		});
+	} catch (error) {
+		return c.json({
+			error: error instanceof Error ? error.message : "Failed to apply import",
+		}, 500);
+	}
+});
+
+export default topology;
@@ -0,0 +1,58 @@
+import { existsSync, readFileSync, renameSync } from "node:fs";
+import { getDb, rotateMasterKey } from "../db";
+import { generateMasterKey, loadMasterKey, parseMasterKey, writeKeyFile } from "../services/secrets";
+
+// Rotate the master key used to encrypt stored secrets.
+//
+// The new key is read from NEW_MASTER_KEY or NEW_MASTER_KEY_FILE; when neither
+// is set a random key is generated. Stop the server before rotating.
+//
+//   bun run rotate-key
+
+function readNewKeyMaterial(): { material: string; generated: boolean } {
+	if (process.env.NEW_MASTER_KEY) {
+		return { material: process.env.NEW_MASTER_KEY, generated: false };
+	}
+	if (process.env.NEW_MASTER_KEY_FILE) {
+		if (!existsSync(process.env.NEW_MASTER_KEY_FILE)) {
+			throw new Error(`New master key file not found: ${process.env.NEW_MASTER_KEY_FILE}`);
+		}
+		return { material: readFileSync(process.env.NEW_MASTER_KEY_FILE, "utf8"), generated: false };
+	}
+	return { material: generateMasterKey(), generated: true };
+}
+
+function main() {
+	// Opening the database sets the salt passphrases are derived with
+	getDb();
+	const current = loadMasterKey();
+	const { material, generated } = readNewKeyMaterial();
+	const next = parseMasterKey(material);
+
+	if (next.id === current.key.id) {
+		console.error("[Secrets] The new master key is the same as the current one, nothing to do");
+		process.exit(1);
+	}
+
+	// Stage the new key file first so a failed rotation never leaves us without the key
+	const stagedPath = current.source.type === "file" && generated ? `${current.source.path}.new` : null;
+	if (stagedPath) {
+		writeKeyFile(stagedPath, material.trim());
+	}
+
+	const count = rotateMasterKey(current.key, next);
+	console.log(`[Secrets] Re-encrypted ${count} secret(s) from key ${current.key.id} to key ${next.id}`);
+
+	if (stagedPath && current.source.type === "file") {
+		renameSync(current.source.path, `${current.source.path}.old`);
+		renameSync(stagedPath, current.source.path);
+		console.log(`[Secrets] Wrote the new master key to ${current.source.path} (previous key kept at ${current.source.path}.old)`);
+		console.log("[Secrets] Delete the .old file once you have verified the server starts correctly.");
+	} else if (generated) {
+		console.log(`[Secrets] New master key (set MASTER_KEY to this value before starting the server):\n${material}`);
+	} else {
+		console.log("[Secrets] Update MASTER_KEY / MASTER_KEY_FILE to the new key before starting the server.");
+	}
+}
+
+main();
@@ -0,0 +1,221 @@
+import {
+	connect,
+	type ConnectionOptions,
+	credsAuthenticator,
+	type NatsConnection,
+	nkeyAuthenticator,
+} from "nats.ws";
+import { type Cluster, getAllClusters, getCluster } from "../db";
+
+// Connection health states reported per cluster
+export type ConnectionState = "connecting" | "connected" | "reconnecting" | "disconnected" | "error";
+
+export interface ConnectionHealth {
+	clusterId: string;
+	state: ConnectionState;
+	server?: string;
+	connectedAt?: number;
+	lastError?: string;
+	reconnects: number;
+}
+
+// Credentials needed to authenticate a connection
+export type ClusterCredentials = Pick<
+	Cluster,
+	"auth_type" | "token" | "username" | "password" | "nkey_seed" | "creds" | "tls_cert" | "tls_key" | "tls_ca"
+>;
+
+// WebSocket connections go through nats.ws, TCP connections through the nats package
+export type Transport = "ws" | "tcp";
+
+// nats.ws accepts a socket factory that isn't part of the exported ConnectionOptions type
+export type ClusterConnectionOptions = ConnectionOptions & {
+	wsFactory?: (url: string) => Promise<{ socket: WebSocket; encrypted: boolean }>;
+};
+
+interface PoolEntry {
+	fingerprint: string;
+	connection: Promise<NatsConnection>;
+	health: ConnectionHealth;
+}
+
+// One long-lived connection per cluster, keyed by cluster ID
+const pool = new Map<string, PoolEntry>();
+
+// Build NATS connection options shared by every connection path
+export function buildConnectionOptions(
+	urls: string[],
+	credentials: ClusterCredentials,
+	timeout = 5000,
+	transport: Transport = "ws",
+): ClusterConnectionOptions {
+	const opts: ClusterConnectionOptions = {
+		servers: urls,
+		timeout,
+	};
+	const encoder = new TextEncoder();
+
+	if (credentials.auth_type === "token" && credentials.token) {
+		opts.token = credentials.token;
+	} else if (credentials.auth_type === "userpass" && credentials.username && credentials.password) {
+		opts.user = credentials.username;
+		opts.pass = credentials.password;
+	} else if (credentials.auth_type === "nkey" && credentials.nkey_seed) {
+		opts.authenticator = nkeyAuthenticator(encoder.encode(credentials.nkey_seed.trim()));
+	} else if (credentials.auth_type === "creds" && credentials.creds) {
+		opts.authenticator = credsAuthenticator(encoder.encode(credentials.creds));
+	} else if (credentials.auth_type === "tls" && credentials.tls_cert && credentials.tls_key) {
+		const tls = {
+			cert: credentials.tls_cert,
+			key: credentials.tls_key,
+			ca: credentials.tls_ca ?? undefined,
+		};
+
+		if (transport === "tcp") {
+			opts.tls = tls;
+		} else {
+			// nats.ws rejects the tls option, so hand the client certificate to Bun's WebSocket instead
+			opts.wsFactory = async (url: string) => ({
+				socket: new WebSocket(url, { tls } as unknown as string[]),
+				encrypted: url.startsWith("wss://"),
+			});
+		}
+	}
+
+	return opts;
+}
+
+// Everything that affects how we connect; a change means the pooled connection is stale
+function connectionFingerprint(cluster: Cluster): string {
+	return JSON.stringify([
+		cluster.urls,
+		cluster.auth_type,
+		cluster.token,
+		cluster.username,
+		cluster.password,
+		cluster.nkey_seed,
+		cluster.creds,
+		cluster.tls_cert,
+		cluster.tls_key,
+		cluster.tls_ca,
+	]);
+}
+
+// Track status events so health reflects reconnects and errors
+async function watchStatus(clusterId: string, health: ConnectionHealth, nc: NatsConnection) {
+	for await (const status of nc.status()) {
+		switch (status.type) {
+			case "disconnect":
+				health.state = "disconnected";
+				break;
+			case "reconnecting":
+				health.state = "reconnecting";
+				break;
+			case "reconnect":
+				health.state = "connected";
+				health.server = nc.getServer();
+				health.reconnects++;
+				console.log(`[ConnectionManager] Reconnected to cluster ${clusterId} via ${health.server}`);
+				break;
+			case "error":
+				health.lastError = String(status.data);
+				break;
+		}
+	}
+}
+
+// Connect with automatic reconnects, keeping health up to date
+async function establish(cluster: Cluster, health: ConnectionHealth): Promise<NatsConnection> {
+	const opts: ClusterConnectionOptions = {
+		...buildConnectionOptions(cluster.urls, cluster),
+		reconnect: true,
+		maxReconnectAttempts: -1,
+		reconnectTimeWait: 2000,
+	};
+
+	try {
+		console.log(`[ConnectionManager] Connecting to cluster "${cluster.name}": ${cluster.urls.join(", ")}`);
+		const nc = await connect(opts);
+		health.state = "connected";
+		health.server = nc.getServer();
+		health.connectedAt = Date.now();
+		health.lastError = undefined;
+
+		watchStatus(cluster.id, health, nc).catch(() => {});
+		nc.closed().then((err) => {
+			// Marked as failed so the next request opens a fresh connection
+			health.state = "error";
+			health.lastError = err?.message ?? "Connection closed";
+			if (err) {
+				console.error(`[ConnectionManager] Connection to cluster "${cluster.name}" closed: ${err.message}`);
+			}
+		});
+
+		return nc;
+	} catch (error) {
+		health.state = "error";
+		health.lastError = error instanceof Error ? error.message : "Connection failed";
+		throw error;
+	}
+}
+
+// Get the shared connection for a cluster, connecting on first use
+export async function getConnection(
+	clusterId: string,
+): Promise<{ nc: NatsConnection; cluster: Cluster } | { error: string }> {
+	const cluster = getCluster(clusterId);
+	if (!cluster) {
+		invalidate(clusterId);
+		return { error: "Cluster not found" };
+	}
+
+	let entry = pool.get(clusterId);
+	// Reconnect when credentials/URLs changed or the previous attempt failed
+	if (entry && (entry.fingerprint !== connectionFingerprint(cluster) || entry.health.state === "error")) {
+		invalidate(clusterId);
+		entry = undefined;
+	}
+	if (!entry) {
+		const health: ConnectionHealth = { clusterId, state: "connecting", reconnects: 0 };
+		entry = {
+			fingerprint: connectionFingerprint(cluster),
+			connection: establish(cluster, health),
+			health,
+		};
+		pool.set(clusterId, entry);
+	}
+
+	try {
+		const nc = await entry.connection;
+		return { nc, cluster };
+	} catch (error) {
+		const msg = error instanceof Error ? error.message : "Connection failed";
+		return { error: `Failed to connect to NATS cluster "${cluster.name}": ${msg}` };
+	}
+}
+
+// Close and forget the pooled connection for a cluster
+export function invalidate(clusterId: string): void {
+	const entry = pool.get(clusterId);
+	if (!entry) return;
+
+	pool.delete(clusterId);
+	entry.connection
+		.then((nc) => nc.close())
+		.catch(() => {});
+	console.log(`[ConnectionManager] Invalidated connection for cluster ${clusterId}`);
+}
+
+// Get connection health for a single cluster
+export function getHealth(clusterId: string): ConnectionHealth {
+	const entry = pool.get(clusterId);
+	if (!entry) {
+		return { clusterId, state: "disconnected", reconnects: 0 };
+	}
+	return { ...entry.health };
+}
+
+// Get connection health for all registered clusters
+export function getAllHealth(): ConnectionHealth[] {
+	return getAllClusters().map((cluster) => getHealth(cluster.id));
+}
@@ -0,0 +1,109 @@
+import { AckPolicy, type ConsumerInfo, type JetStreamManager, type MsgRequest, type StoredMsg } from "nats.ws";
+
+export interface PeekedMessage {
+	seq: number;
+	subject: string;
+	data: string;
+	time: string;
+	headers?: Record<string, string[]>;
+	// unacked: delivered at least once and still above the ack floor; pending: not delivered yet
+	state: "unacked" | "pending";
+}
+
+export interface ConsumerPeek {
+	unacked: PeekedMessage[];
+	pending: PeekedMessage[];
+	hasMoreUnacked: boolean;
+	hasMorePending: boolean;
+}
+
+function formatPeekedMessage(msg: StoredMsg, state: PeekedMessage["state"]): PeekedMessage {
+	return {
+		seq: msg.seq,
+		subject: msg.subject,
+		data: new TextDecoder().decode(msg.data),
+		time: msg.time.toISOString(),
+		headers: msg.header
+			? Object.fromEntries(Array.from(msg.header.keys()).map((k) => [k, msg.header!.values(k)]))
+			: undefined,
+		state,
+	};
+}
+
+// Walk the stream from a sequence in order, yielding only messages that match one of the filters.
+// Each filter keeps its own next match, so only the filter that produced the last message is queried again.
+async function* walkFiltered(
+	jsm: JetStreamManager,
+	stream: string,
+	filters: string[],
+	fromSeq: number,
+): AsyncGenerator<StoredMsg> {
+	const next = new Map<string, StoredMsg | null>();
+	let seq = fromSeq;
+
+	while (true) {
+		for (const filter of filters) {
+			const cached = next.get(filter);
+			if (cached === null || (cached && cached.seq >= seq)) continue;
+			try {
+				next.set(filter, await jsm.streams.getMessage(stream, { seq, next_by_subj: filter } as unknown as MsgRequest));
+			} catch {
+				// Nothing left that matches this filter
+				next.set(filter, null);
+			}
+		}
+
+		let earliest: StoredMsg | undefined;
+		for (const msg of next.values()) {
+			if (msg && (!earliest || msg.seq < earliest.seq)) earliest = msg;
+		}
+		if (!earliest) return;
+
+		yield earliest;
+		seq = earliest.seq + 1;
+	}
+}
+
+// Read a consumer's outstanding messages straight from the stream, without delivering or acking anything.
+// With explicit acks, messages acked out of order above the ack floor cannot be told apart and show as unacked.
+export async function peekConsumerMessages(
+	jsm: JetStreamManager,
+	info: ConsumerInfo,
+	limit: number,
+): Promise<ConsumerPeek> {
+	const { config } = info;
+	const filters = config.filter_subjects?.length
+		? config.filter_subjects
+		: [config.filter_subject || ">"];
+	const ackFloor = info.ack_floor.stream_seq;
+	const delivered = info.delivered.stream_seq;
+
+	const unacked: PeekedMessage[] = [];
+	let hasMoreUnacked = false;
+	if (config.ack_policy !== AckPolicy.None && delivered > ackFloor) {
+		for await (const msg of walkFiltered(jsm, info.stream_name, filters, ackFloor + 1)) {
+			if (msg.seq > delivered) break;
+			if (unacked.length === limit) {
+				hasMoreUnacked = true;
+				break;
+			}
+			unacked.push(formatPeekedMessage(msg, "unacked"));
+		}
+	}
+
+	const pending: PeekedMessage[] = [];
+	const wanted = Math.min(limit, info.num_pending);
+	if (wanted > 0) {
+		for await (const msg of walkFiltered(jsm, info.stream_name, filters, delivered + 1)) {
+			pending.push(formatPeekedMessage(msg, "pending"));
+			if (pending.length === wanted) break;
+		}
+	}
+
+	return {
+		unacked,
+		pending,
+		hasMoreUnacked,
+		hasMorePending: pending.length === wanted && info.num_pending > wanted,
+	};
+}
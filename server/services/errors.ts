@@ -0,0 +1,6 @@
+import { NatsError } from "nats.ws";
+
+// JetStream rejections (e.g. changing an immutable field or a failed publish expectation) are client errors
+export function isJetStreamApiError(error: unknown): error is NatsError {
+	return error instanceof NatsError && error.isJetStreamError();
+}
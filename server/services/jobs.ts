@@ -0,0 +1,70 @@
+import { randomUUID } from "node:crypto";
+
+// Finished jobs are kept this long so the UI can pick up the final state
+const JOB_RETENTION_MS = 60 * 60 * 1000;
+
+// Long-running stream operations that the UI polls for progress
+export interface Job {
+	id: string;
+	kind: "backup" | "restore" | "copy" | "move";
+	clusterId: string;
+	stream: string;
+	status: "running" | "completed" | "failed";
+	processed: number;
+	total: number;
+	// Copies the target dropped as duplicates of a message it already held; a move keeps these in the source
+	skipped?: number;
+	error?: string;
+	// Set when a backup completes
+	backupId?: string;
+	startedAt: string;
+	finishedAt?: string;
+}
+
+const jobs = new Map<string, Job>();
+
+export function createJob(kind: Job["kind"], clusterId: string, stream: string, total: number): Job {
+	const now = Date.now();
+	for (const [id, job] of jobs) {
+		if (job.finishedAt && now - new Date(job.finishedAt).getTime() > JOB_RETENTION_MS) {
+			jobs.delete(id);
+		}
+	}
+
+	const job: Job = {
+		id: randomUUID(),
+		kind,
+		clusterId,
+		stream,
+		status: "running",
+		processed: 0,
+		total,
+		startedAt: new Date(now).toISOString(),
+	};
+	jobs.set(job.id, job);
+	return job;
+}
+
+export function finishJob(job: Job, error?: unknown) {
+	job.status = error ? "failed" : "completed";
+	if (error) {
+		job.error = error instanceof Error ? error.message : String(error);
+	}
+	job.finishedAt = new Date().toISOString();
+}
+
+// Run a job in the background and record how it ended
+export function runJob(job: Job, task: () => Promise<void>, onError?: (error: unknown) => Promise<void> | void) {
+	task().then(
+		() => finishJob(job),
+		async (error) => {
+			console.error(`[Jobs] ${job.kind} of stream "${job.stream}" failed:`, error);
+			await onError?.(error);
+			finishJob(job, error);
+		},
+	);
+}
+
+export function getJob(id: string): Job | undefined {
+	return jobs.get(id);
+}
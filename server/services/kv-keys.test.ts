@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { toKeyFilter } from "./kv-keys";
+
+describe("toKeyFilter", () => {
+	it("matches every key without a search", () => {
+		expect(toKeyFilter()).toEqual({ filter: ">" });
+		expect(toKeyFilter("")).toEqual({ filter: ">" });
+	});
+
+	it("uses searches with wildcards as the filter", () => {
+		expect(toKeyFilter("config.*.db")).toEqual({ filter: "config.*.db" });
+		expect(toKeyFilter("config.>")).toEqual({ filter: "config.>" });
+	});
+
+	it("narrows a plain search to the keys starting with it", () => {
+		expect(toKeyFilter("config.ten")).toEqual({ filter: "config.>", prefix: "config.ten" });
+		expect(toKeyFilter("config.tenant42.")).toEqual({ filter: "config.tenant42.>", prefix: "config.tenant42." });
+	});
+
+	it("scans the whole bucket for a prefix of the first token", () => {
+		expect(toKeyFilter("conf")).toEqual({ filter: ">", prefix: "conf" });
+	});
+});
@@ -0,0 +1,104 @@
+import type { KV, KvEntry } from "nats.ws";
+import type { TtlReader } from "./kv-ttl";
+
+// How long a key snapshot serves follow-up pages before it is rebuilt
+const SNAPSHOT_TTL_MS = 30_000;
+
+interface KeySnapshot {
+	keys: string[];
+	expires: number;
+}
+
+export interface KeyPageOptions {
+	// Subject-style filter such as config.tenant42.>, or a plain key prefix
+	search?: string;
+	// Last key of the previous page
+	cursor?: string;
+	limit: number;
+	includeValues: boolean;
+}
+
+export interface KeyPage {
+	keys: Array<{ key: string; entry?: KvEntry }>;
+	nextCursor?: string;
+	total: number;
+}
+
+// Sorted key lists per bucket and search, so paging through a large bucket scans it once
+const snapshots = new Map<string, KeySnapshot>();
+
+// Turn a search into a subject filter for bucket.keys() plus a prefix for the partial last token.
+// Searches with wildcards are used as is; config.ten becomes config.> narrowed to keys starting with config.ten
+export function toKeyFilter(search?: string): { filter: string; prefix?: string } {
+	if (!search) return { filter: ">" };
+	if (search.includes("*") || search.includes(">")) return { filter: search };
+
+	const tokens = search.split(".");
+	tokens.pop();
+	return {
+		filter: tokens.length ? `${tokens.join(".")}.>` : ">",
+		prefix: search,
+	};
+}
+
+async function loadKeys(bucket: KV, search?: string): Promise<string[]> {
+	const { filter, prefix } = toKeyFilter(search);
+	const keys: string[] = [];
+	// keys() reads only the latest revision headers of each key and skips deleted ones
+	for await (const key of await bucket.keys(filter)) {
+		if (!prefix || key.startsWith(prefix)) keys.push(key);
+	}
+	return keys.sort();
+}
+
+// Index of the first key after the cursor in a sorted list
+function indexAfter(keys: string[], cursor: string): number {
+	let low = 0;
+	let high = keys.length;
+	while (low < high) {
+		const mid = (low + high) >>> 1;
+		if (keys[mid] <= cursor) low = mid + 1;
+		else high = mid;
+	}
+	return low;
+}
+
+// List one page of keys in key order. The first page takes a fresh snapshot of the bucket's keys;
+// later pages reuse it while it is fresh, so keys added in between show up on the next first page
+export async function listKeyPage(
+	bucket: KV,
+	ttlReader: TtlReader,
+	snapshotId: string,
+	opts: KeyPageOptions,
+): Promise<KeyPage> {
+	const now = Date.now();
+	for (const [id, snapshot] of snapshots) {
+		if (snapshot.expires <= now) snapshots.delete(id);
+	}
+
+	const id = `${snapshotId}:${opts.search ?? ""}`;
+	let snapshot = opts.cursor ? snapshots.get(id) : undefined;
+	if (!snapshot) {
+		snapshot = { keys: await loadKeys(bucket, opts.search), expires: now + SNAPSHOT_TTL_MS };
+		snapshots.set(id, snapshot);
+	}
+
+	const start = opts.cursor ? indexAfter(snapshot.keys, opts.cursor) : 0;
+	const pageKeys = snapshot.keys.slice(start, start + opts.limit);
+	const nextCursor = start + opts.limit < snapshot.keys.length ? pageKeys[pageKeys.length - 1] : undefined;
+
+	if (!opts.includeValues) {
+		return { keys: pageKeys.map((key) => ({ key })), nextCursor, total: snapshot.keys.length };
+	}
+
+	const entries = await Promise.all(
+		pageKeys.map(async (key) => {
+			const entry = await bucket.get(key);
+			// Keys deleted since the snapshot was taken are left out
+			return entry && (await ttlReader.operation(entry)) === "PUT" ? { key, entry } : undefined;
+		}),
+	);
+	const keys: KeyPage["keys"] = entries.filter((entry) => entry !== undefined);
+
+	return { keys, nextCursor, total: snapshot.keys.length };
+}
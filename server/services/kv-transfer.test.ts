@@ -0,0 +1,77 @@
+import type { KV, KvEntry, KvWatchOptions } from "nats.ws";
+import { describe, expect, it } from "vitest";
+import { exportBucket } from "./kv-transfer";
+import type { TtlReader } from "./kv-ttl";
+
+// Entries of a bucket without per-key TTL are taken as they are
+const ttlReader: TtlReader = {
+	operation: async (entry) => entry.operation,
+	expiry: async () => undefined,
+};
+
+function entry(key: string, value: string, revision: number, operation: KvEntry["operation"] = "PUT"): KvEntry {
+	return {
+		bucket: "config",
+		key,
+		value: new TextEncoder().encode(value),
+		created: new Date("2025-01-01T00:00:00Z"),
+		revision,
+		delta: 0,
+		operation,
+		length: value.length,
+		json: () => JSON.parse(value),
+		string: () => value,
+	};
+}
+
+// Mimics a nats.ws watcher over the latest entry of each key: it reports being caught up after
+// the last existing entry it delivers, then waits for live updates until it is stopped
+function fakeBucket(history: KvEntry[]): KV {
+	const watch = async (opts: KvWatchOptions = {}) => {
+		const delivered = history.filter((e) => !(opts.ignoreDeletes && e.operation !== "PUT"));
+		let stopped = false;
+		const iter = {
+			stop: () => {
+				stopped = true;
+			},
+			async *[Symbol.asyncIterator]() {
+				yield* delivered;
+				while (!stopped) await new Promise((resolve) => setTimeout(resolve, 10));
+			},
+		};
+		if (delivered.at(-1) === history.at(-1)) opts.initializedFn?.();
+		return iter;
+	};
+	return { watch } as unknown as KV;
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+	return new Response(stream).text();
+}
+
+describe("exportBucket", () => {
+	it("exports the current value of each key as ndjson", async () => {
+		const bucket = fakeBucket([entry("b", "2", 2), entry("a", "3", 3)]);
+		const lines = (await readAll(exportBucket(bucket, ttlReader, "config", "ndjson"))).trim().split("\n");
+
+		expect(lines.map((line) => JSON.parse(line))).toEqual([
+			{ key: "b", value: "2", revision: 2, created: "2025-01-01T00:00:00.000Z" },
+			{ key: "a", value: "3", revision: 3, created: "2025-01-01T00:00:00.000Z" },
+		]);
+	});
+
+	it("finishes when the last operation in the bucket is a delete", async () => {
+		const bucket = fakeBucket([entry("a", "1", 1), entry("b", "", 3, "DEL")]);
+		const document = JSON.parse(await readAll(exportBucket(bucket, ttlReader, "config", "json")));
+
+		expect(document.bucket).toBe("config");
+		expect(document.entries.map((e: { key: string }) => e.key)).toEqual(["a"]);
+	});
+
+	it("keeps non UTF-8 values as base64", async () => {
+		const binary = { ...entry("bin", "", 1), value: new Uint8Array([0xff, 0xfe]) };
+		const [line] = (await readAll(exportBucket(fakeBucket([binary]), ttlReader, "config", "ndjson"))).trim().split("\n");
+
+		expect(JSON.parse(line)).toMatchObject({ key: "bin", value: "//4=", encoding: "base64" });
+	});
+});
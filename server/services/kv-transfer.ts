@@ -0,0 +1,184 @@
+import type { KV, KvEntry, QueuedIterator } from "nats.ws";
+import { toKeyFilter } from "./kv-keys";
+import type { TtlReader } from "./kv-ttl";
+
+export type ExportFormat = "json" | "ndjson";
+
+export type ImportMode = "overwrite" | "skip" | "revision";
+
+// One key as written to and read from export files
+export interface TransferEntry {
+	key: string;
+	value: string;
+	// Values that are not valid UTF-8 are exported as base64
+	encoding?: "base64";
+	revision?: number;
+	created?: string;
+}
+
+export interface ImportPlanItem {
+	key: string;
+	action: "create" | "update" | "unchanged" | "skip" | "conflict";
+	currentRevision?: number;
+	reason?: string;
+	apply?: () => Promise<number>;
+}
+
+// Gets issued at once while planning an import
+const PLAN_CONCURRENCY = 50;
+
+const utf8 = new TextDecoder("utf-8", { fatal: true });
+
+function toTransferEntry(entry: KvEntry): TransferEntry {
+	const meta = { revision: entry.revision, created: entry.created.toISOString() };
+	try {
+		return { key: entry.key, value: utf8.decode(entry.value), ...meta };
+	} catch {
+		return { key: entry.key, value: Buffer.from(entry.value).toString("base64"), encoding: "base64", ...meta };
+	}
+}
+
+function toBytes(entry: TransferEntry): Uint8Array {
+	return entry.encoding === "base64"
+		? new Uint8Array(Buffer.from(entry.value, "base64"))
+		: new TextEncoder().encode(entry.value);
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+	return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+// Current value of every key matching the search, read through one watcher instead of a get per key
+async function* currentEntries(bucket: KV, ttlReader: TtlReader, search?: string): AsyncGenerator<KvEntry> {
+	const { filter, prefix } = toKeyFilter(search);
+	let iter: QueuedIterator<KvEntry> | undefined;
+	let caughtUp = false;
+	iter = await bucket.watch({
+		key: filter,
+		// Runs once the existing values are queued; anything after it is a live update
+		initializedFn: () => {
+			caughtUp = true;
+			iter?.stop();
+		},
+	});
+	// Caught up before watch() returned: everything queued so far is an existing value
+	const drainQueued = caughtUp;
+	if (drainQueued) iter.stop();
+
+	for await (const entry of iter) {
+		if (caughtUp && !drainQueued) break;
+		if ((await ttlReader.operation(entry)) !== "PUT") continue;
+		if (!prefix || entry.key.startsWith(prefix)) yield entry;
+	}
+}
+
+// Stream the matching keys as a JSON document or as one JSON object per line
+export function exportBucket(
+	bucket: KV,
+	ttlReader: TtlReader,
+	bucketName: string,
+	format: ExportFormat,
+	search?: string,
+): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	const entries = currentEntries(bucket, ttlReader, search);
+	let first = true;
+
+	return new ReadableStream({
+		async start(controller) {
+			if (format === "json") {
+				const header = JSON.stringify({ bucket: bucketName, filter: search ?? ">", exportedAt: new Date().toISOString() });
+				controller.enqueue(encoder.encode(`${header.slice(0, -1)},"entries":[\n`));
+			}
+		},
+		async pull(controller) {
+			try {
+				const { value, done } = await entries.next();
+				if (done) {
+					if (format === "json") controller.enqueue(encoder.encode("\n]}\n"));
+					controller.close();
+					return;
+				}
+				const line = JSON.stringify(toTransferEntry(value));
+				const separator = format === "json" && !first ? ",\n" : "";
+				controller.enqueue(encoder.encode(format === "json" ? `${separator}${line}` : `${line}\n`));
+				first = false;
+			} catch (error) {
+				controller.error(error);
+			}
+		},
+		async cancel() {
+			await entries.return(undefined);
+		},
+	});
+}
+
+async function planEntry(bucket: KV, ttlReader: TtlReader, entry: TransferEntry, mode: ImportMode): Promise<ImportPlanItem> {
+	const value = toBytes(entry);
+	const current = await bucket.get(entry.key);
+	const exists = current !== null && (await ttlReader.operation(current)) === "PUT";
+	const currentRevision = current?.revision;
+
+	if (exists && sameBytes(current.value, value)) {
+		return { key: entry.key, action: "unchanged", currentRevision };
+	}
+
+	switch (mode) {
+		case "overwrite":
+			return {
+				key: entry.key,
+				action: exists ? "update" : "create",
+				currentRevision,
+				apply: () => bucket.put(entry.key, value),
+			};
+		case "skip":
+			if (exists) {
+				return { key: entry.key, action: "skip", currentRevision, reason: "Key already exists" };
+			}
+			return { key: entry.key, action: "create", currentRevision, apply: () => bucket.create(entry.key, value) };
+		case "revision": {
+			if (entry.revision === undefined) {
+				return { key: entry.key, action: "conflict", currentRevision, reason: "No revision in the file" };
+			}
+			if ((currentRevision ?? 0) !== entry.revision) {
+				return {
+					key: entry.key,
+					action: "conflict",
+					currentRevision,
+					reason: `Revision is ${currentRevision ?? "missing"}, file has ${entry.revision}`,
+				};
+			}
+			const revision = entry.revision;
+			return {
+				key: entry.key,
+				action: exists ? "update" : "create",
+				currentRevision,
+				// The server rejects the write if the key changed since it was checked
+				apply: () => bucket.update(entry.key, value, revision),
+			};
+		}
+	}
+}
+
+// Work out what importing the entries would do, in file order; items with apply change the bucket
+export async function planImport(
+	bucket: KV,
+	ttlReader: TtlReader,
+	entries: TransferEntry[],
+	mode: ImportMode,
+): Promise<ImportPlanItem[]> {
+	const plan: ImportPlanItem[] = [];
+	for (let i = 0; i < entries.length; i += PLAN_CONCURRENCY) {
+		const chunk = entries.slice(i, i + PLAN_CONCURRENCY);
+		const items = chunk.map((entry) =>
+			// An invalid key fails only its own entry
+			planEntry(bucket, ttlReader, entry, mode).catch((error): ImportPlanItem => ({
+				key: entry.key,
+				action: "conflict",
+				reason: error instanceof Error ? error.message : "Failed to read key",
+			})),
+		);
+		plan.push(...(await Promise.all(items)));
+	}
+	return plan;
+}
@@ -0,0 +1,81 @@
+import { headers, type JetStreamManager, type KvEntry } from "nats.ws";
+import { describe, expect, it, vi } from "vitest";
+import { createTtlReader, parseTtl } from "./kv-ttl";
+
+describe("parseTtl", () => {
+	it("reads whole seconds", () => {
+		expect(parseTtl("30")).toBe(30_000);
+	});
+
+	it("reads Go durations", () => {
+		expect(parseTtl("1h30m")).toBe(5_400_000);
+		expect(parseTtl("1.5s")).toBe(1500);
+		expect(parseTtl("500ms")).toBe(500);
+		expect(parseTtl("2us")).toBeCloseTo(0.002);
+	});
+
+	it("rejects anything else", () => {
+		expect(parseTtl("")).toBeUndefined();
+		expect(parseTtl("never")).toBeUndefined();
+		expect(parseTtl("1h x")).toBeUndefined();
+		expect(parseTtl("-5s")).toBeUndefined();
+	});
+});
+
+function entry(value: string, revision: number): KvEntry {
+	return {
+		bucket: "config",
+		key: "a",
+		value: new TextEncoder().encode(value),
+		created: new Date("2025-01-01T00:00:00Z"),
+		revision,
+		delta: 0,
+		operation: "PUT",
+		length: value.length,
+		json: () => JSON.parse(value),
+		string: () => value,
+	};
+}
+
+// Serves the stream config and the headers stored with each sequence
+function fakeManager(allowMsgTtl: boolean, stored: Record<number, Record<string, string>>) {
+	const getMessage = vi.fn(async (_stream: string, { seq }: { seq: number }) => {
+		const header = headers();
+		for (const [name, value] of Object.entries(stored[seq] ?? {})) header.set(name, value);
+		return { header };
+	});
+	const jsm = {
+		streams: {
+			info: async () => ({ config: { allow_msg_ttl: allowMsgTtl } }),
+			getMessage,
+		},
+	} as unknown as JetStreamManager;
+	return { jsm, getMessage };
+}
+
+describe("createTtlReader", () => {
+	it("reads an empty put carrying a marker reason as a purge", async () => {
+		const { jsm } = fakeManager(true, { 2: { "Nats-Marker-Reason": "MaxAge" } });
+		const reader = await createTtlReader(jsm, "config");
+
+		expect(await reader.operation(entry("", 2))).toBe("PURGE");
+		expect(await reader.operation(entry("", 3))).toBe("PUT");
+	});
+
+	it("adds the key's TTL to its creation time", async () => {
+		const { jsm, getMessage } = fakeManager(true, { 4: { "Nats-TTL": "1m" } });
+		const reader = await createTtlReader(jsm, "config");
+
+		expect(await reader.expiry(entry("v", 4))).toEqual(new Date("2025-01-01T00:01:00Z"));
+		expect(getMessage).toHaveBeenCalledWith("KV_config", { seq: 4 });
+	});
+
+	it("skips the lookup for buckets without per-key TTL", async () => {
+		const { jsm, getMessage } = fakeManager(false, { 2: { "Nats-Marker-Reason": "MaxAge", "Nats-TTL": "1m" } });
+		const reader = await createTtlReader(jsm, "config");
+
+		expect(await reader.operation(entry("", 2))).toBe("PUT");
+		expect(await reader.expiry(entry("", 2))).toBeUndefined();
+		expect(getMessage).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,144 @@
+import {
+	headers,
+	type JetStreamClient,
+	type JetStreamManager,
+	type KV,
+	type KvEntry,
+	type MsgHdrs,
+	type NatsConnection,
+	NatsError,
+	type StreamConfig,
+} from "nats.ws";
+
+// Stream settings for per-message TTLs and limit markers (NATS Server 2.11+), not typed by nats.ws yet
+export interface MessageTtlConfig {
+	allow_msg_ttl?: boolean;
+	// Nanoseconds a marker is kept after a key is removed by a limit or its own TTL
+	subject_delete_marker_ttl?: number;
+}
+
+const TTL_HEADER = "Nats-TTL";
+const MARKER_REASON_HEADER = "Nats-Marker-Reason";
+
+const DURATION_UNITS: Record<string, number> = {
+	h: 3_600_000,
+	m: 60_000,
+	s: 1000,
+	ms: 1,
+	us: 0.001,
+	µs: 0.001,
+	ns: 0.000_001,
+};
+
+// Allow per-key TTLs on the backing stream of a bucket, optionally with limit markers
+export async function enableMessageTtl(jsm: JetStreamManager, bucketName: string, markerTtl: number): Promise<void> {
+	const info = await jsm.streams.info(`KV_${bucketName}`);
+	const config: StreamConfig & MessageTtlConfig = { ...info.config, allow_msg_ttl: true };
+	if (markerTtl > 0) {
+		config.subject_delete_marker_ttl = markerTtl;
+	}
+
+	const updated = await jsm.streams.update(config.name, config);
+	// Older servers drop settings they do not know instead of rejecting them
+	if (!(updated.config as MessageTtlConfig).allow_msg_ttl) {
+		throw new Error("Per-key TTL needs NATS Server 2.11 or later");
+	}
+}
+
+// Whether the server knows per-message TTLs, like supportsPause() for consumers
+export function supportsMessageTtl(nc: NatsConnection): boolean {
+	const [major = 0, minor = 0] = (nc.info?.version ?? "").split(".").map(Number);
+	return major > 2 || (major === 2 && minor >= 11);
+}
+
+// Nats-TTL holds whole seconds or a Go duration such as 1h30m; returns milliseconds
+export function parseTtl(value: string): number | undefined {
+	if (/^\d+$/.test(value)) return Number(value) * 1000;
+
+	const parts = [...value.matchAll(/(\d+(?:\.\d+)?)(h|ms|m|s|us|µs|ns)/g)];
+	if (parts.length === 0 || parts.map((part) => part[0]).join("") !== value) return undefined;
+	return parts.reduce((total, [, amount, unit]) => total + Number(amount) * DURATION_UNITS[unit], 0);
+}
+
+// Reads the per-key TTL and limit marker of entries, whose headers nats.ws does not expose on KvEntry
+export interface TtlReader {
+	// Limit markers carry no KV operation header, so nats.ws reads them as puts of an empty value
+	operation(entry: KvEntry): Promise<KvEntry["operation"]>;
+	// When the key's own TTL removes it; undefined for keys that only follow the bucket's limits
+	expiry(entry: KvEntry): Promise<Date | undefined>;
+}
+
+// Headers are read back by revision through the stream API. Only buckets that allow per-key TTL can hold
+// either header, so entries of other buckets are taken as they are without a lookup
+export async function createTtlReader(jsm: JetStreamManager, bucketName: string): Promise<TtlReader> {
+	const stream = `KV_${bucketName}`;
+	const info = await jsm.streams.info(stream);
+	const allowed = !!(info.config as MessageTtlConfig).allow_msg_ttl;
+
+	const headersOf = (entry: KvEntry): Promise<MsgHdrs | undefined> =>
+		jsm.streams.getMessage(stream, { seq: entry.revision }).then(
+			(msg) => msg.header,
+			// Removed since it was read, e.g. by its own TTL
+			() => undefined,
+		);
+
+	return {
+		async operation(entry) {
+			if (!allowed || entry.operation !== "PUT" || entry.value.length > 0) return entry.operation;
+			return (await headersOf(entry))?.get(MARKER_REASON_HEADER) ? "PURGE" : entry.operation;
+		},
+		async expiry(entry) {
+			if (!allowed || entry.operation !== "PUT") return undefined;
+			const ttl = parseTtl((await headersOf(entry))?.get(TTL_HEADER) ?? "");
+			return ttl ? new Date(entry.created.getTime() + ttl) : undefined;
+		},
+	};
+}
+
+// Put a key that the server removes after ttl nanoseconds. bucket.put() cannot set headers,
+// so this publishes to the key's subject with the same expectations create() and update() use
+export async function putWithTtl(
+	js: JetStreamClient,
+	bucket: KV,
+	ttlReader: TtlReader,
+	bucketName: string,
+	key: string,
+	value: Uint8Array,
+	ttl: number,
+	opts: { revision?: number; create?: boolean } = {},
+): Promise<number> {
+	if (!/^[-/=\w]+(\.[-/=\w]+)*$/.test(key)) {
+		throw new Error(`Invalid key "${key}"`);
+	}
+
+	const publish = async (lastSubjectSequence?: number) => {
+		const h = headers();
+		h.set(TTL_HEADER, `${Math.max(1, Math.round(ttl / 1_000_000_000))}s`);
+		try {
+			const ack = await js.publish(`$KV.${bucketName}.${key}`, value, {
+				headers: h,
+				expect: lastSubjectSequence === undefined ? undefined : { lastSubjectSequence },
+			});
+			return ack.seq;
+		} catch (error) {
+			// Report the server's description like bucket.put() does
+			if (error instanceof NatsError && error.api_error) {
+				error.message = error.api_error.description;
+			}
+			throw error;
+		}
+	};
+
+	if (!opts.create) {
+		return publish(opts.revision);
+	}
+
+	try {
+		return await publish(0);
+	} catch (error) {
+		// Like create(), a deleted or purged key can be written again
+		const current = await bucket.get(key);
+		if (!current || (await ttlReader.operation(current)) === "PUT") throw error;
+		return publish(current.revision);
+	}
+}
@@ -0,0 +1,93 @@
+import { headers, type JsMsg, type MsgHdrs, type NatsConnection, type PubAck } from "nats.ws";
+import { describe, expect, it, vi } from "vitest";
+import { rewriteSubject, startCopy } from "./message-copy";
+
+describe("rewriteSubject", () => {
+	const rewrite = { from: "dlq", to: "retry" };
+
+	it("keeps the subject without a rewrite", () => {
+		expect(rewriteSubject("dlq.orders.created")).toBe("dlq.orders.created");
+	});
+
+	it("replaces the leading tokens", () => {
+		expect(rewriteSubject("dlq.orders.created", rewrite)).toBe("retry.orders.created");
+		expect(rewriteSubject("dlq", rewrite)).toBe("retry");
+		expect(rewriteSubject("a.b.c", { from: "a.b", to: "x" })).toBe("x.c");
+	});
+
+	it("only matches whole tokens", () => {
+		expect(rewriteSubject("dlqx.orders", rewrite)).toBe("dlqx.orders");
+		expect(rewriteSubject("orders.dlq", rewrite)).toBe("orders.dlq");
+	});
+
+	it("drops the prefix when rewriting to nothing", () => {
+		expect(rewriteSubject("dlq.orders.created", { from: "dlq", to: "" })).toBe("orders.created");
+	});
+});
+
+// One connection serving as both source and target: the stream holds msgs and publish answers with acks
+function fakeConnection(msgs: JsMsg[], acks: Partial<PubAck>[]) {
+	const published: { subject: string; headers?: MsgHdrs }[] = [];
+	const deleteMessage = vi.fn(async () => true);
+	const nc = {
+		jetstreamManager: async () => ({
+			streams: {
+				info: async () => ({ config: {}, state: { messages: msgs.length, last_seq: msgs.at(-1)?.seq ?? 0 } }),
+				deleteMessage,
+			},
+		}),
+		jetstream: () => ({
+			consumers: { get: async () => ({ fetch: async () => msgs }) },
+			publish: async (subject: string, _data: Uint8Array, opts?: { headers?: MsgHdrs }) => {
+				published.push({ subject, headers: opts?.headers });
+				return { stream: "TARGET", seq: published.length, duplicate: false, ...acks[published.length - 1] };
+			},
+		}),
+	} as unknown as NatsConnection;
+	return { nc, published, deleteMessage };
+}
+
+function message(seq: number, pending: number, msgId: string): JsMsg {
+	const h = headers();
+	h.set("Nats-Msg-Id", msgId);
+	return {
+		seq,
+		subject: `dlq.orders.${seq}`,
+		data: new Uint8Array(),
+		headers: h,
+		info: { pending, timestampNanos: 0 },
+	} as unknown as JsMsg;
+}
+
+describe("startCopy", () => {
+	const msgs = [message(1, 1, "order-1"), message(2, 0, "order-2")];
+
+	async function run(acks: Partial<PubAck>[], target: { move?: boolean; keepMsgId?: boolean }) {
+		const fake = fakeConnection(msgs, acks);
+		const job = await startCopy({ nc: fake.nc, clusterId: "c1" }, "DLQ", {}, {
+			nc: fake.nc,
+			clusterId: "c1",
+			rewrite: { from: "dlq", to: "retry" },
+			...target,
+		});
+		await vi.waitFor(() => expect(job.status).not.toBe("running"));
+		return { job, ...fake };
+	}
+
+	it("drops the message ID from copies unless asked to keep it", async () => {
+		const dropped = await run([], {});
+		const kept = await run([], { keepMsgId: true });
+
+		expect(dropped.published.map((p) => p.headers?.get("Nats-Msg-Id"))).toEqual(["", ""]);
+		expect(kept.published.map((p) => p.headers?.get("Nats-Msg-Id"))).toEqual(["order-1", "order-2"]);
+		expect(kept.published.map((p) => p.subject)).toEqual(["retry.orders.1", "retry.orders.2"]);
+	});
+
+	it("leaves a moved message in the source when the target acks it as a duplicate", async () => {
+		const { job, deleteMessage } = await run([{ duplicate: true }, {}], { move: true, keepMsgId: true });
+
+		expect(job).toMatchObject({ status: "completed", processed: 2, skipped: 1 });
+		expect(deleteMessage).toHaveBeenCalledTimes(1);
+		expect(deleteMessage).toHaveBeenCalledWith("DLQ", 2, false);
+	});
+});
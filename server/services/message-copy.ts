@@ -0,0 +1,162 @@
+import {
+	type Consumer,
+	DeliverPolicy,
+	delay,
+	headers as createHeaders,
+	type JsMsg,
+	type NatsConnection,
+	type OrderedConsumerOptions,
+} from "nats.ws";
+import { createJob, type Job, runJob } from "./jobs";
+
+// Messages read from the source per fetch
+const FETCH_BATCH_SIZE = 256;
+
+// How long a fetch waits for messages before the selection counts as exhausted
+const FETCH_EXPIRES_MS = 2000;
+
+const MSG_ID_HEADER = "Nats-Msg-Id";
+
+export interface MessageSelection {
+	startSeq?: number;
+	endSeq?: number;
+	startTime?: Date;
+	endTime?: Date;
+	subjectFilter?: string;
+}
+
+export interface CopyTarget {
+	nc: NatsConnection;
+	clusterId: string;
+	// Publish every message to this subject instead of its own
+	subject?: string;
+	// Replace the leading subject tokens `from` with `to`
+	rewrite?: { from: string; to: string };
+	// Messages per second, unlimited when unset
+	rateLimit?: number;
+	// Delete each message from the source once the target has acknowledged it
+	move?: boolean;
+	// Keep Nats-Msg-Id, so the target drops messages it already holds within its duplicate window
+	keepMsgId?: boolean;
+}
+
+export interface SelectionCount {
+	matched: number;
+	firstSeq?: number;
+	lastSeq?: number;
+}
+
+// Rewrite a subject on token boundaries, e.g. dlq.orders.created with dlq → retry gives retry.orders.created
+export function rewriteSubject(subject: string, rewrite?: { from: string; to: string }): string {
+	if (!rewrite) return subject;
+	const { from, to } = rewrite;
+	if (subject !== from && !subject.startsWith(`${from}.`)) return subject;
+	const rest = subject.slice(from.length).replace(/^\./, "");
+	return [to, rest].filter(Boolean).join(".");
+}
+
+// Walk the selected messages in sequence order, stopping at the last message that existed when the walk started
+async function* selectMessages(
+	nc: NatsConnection,
+	stream: string,
+	selection: MessageSelection,
+): AsyncGenerator<{ msg: JsMsg; remaining: number }> {
+	const jsm = await nc.jetstreamManager();
+	const info = await jsm.streams.info(stream);
+	const lastSeq = Math.min(selection.endSeq ?? info.state.last_seq, info.state.last_seq);
+	if (info.state.messages === 0 || lastSeq < (selection.startSeq ?? 0)) return;
+
+	const opts: Partial<OrderedConsumerOptions> = {};
+	if (selection.subjectFilter) {
+		opts.filterSubjects = selection.subjectFilter;
+	}
+	if (selection.startSeq) {
+		opts.deliver_policy = DeliverPolicy.StartSequence;
+		opts.opt_start_seq = selection.startSeq;
+	} else if (selection.startTime) {
+		opts.deliver_policy = DeliverPolicy.StartTime;
+		opts.opt_start_time = selection.startTime.toISOString();
+	}
+
+	const consumer: Consumer = await nc.jetstream().consumers.get(stream, opts);
+	const endTime = selection.endTime?.getTime();
+
+	while (true) {
+		const batch = await consumer.fetch({ max_messages: FETCH_BATCH_SIZE, expires: FETCH_EXPIRES_MS });
+		let received = 0;
+		for await (const msg of batch) {
+			received++;
+			if (msg.seq > lastSeq) return;
+			if (endTime !== undefined && msg.info.timestampNanos / 1_000_000 > endTime) return;
+			yield { msg, remaining: Math.min(msg.info.pending, lastSeq - msg.seq) };
+			if (msg.seq >= lastSeq || msg.info.pending === 0) return;
+		}
+		if (received === 0) return;
+	}
+}
+
+// Count the messages a copy would pick up, without publishing anything
+export async function countSelection(
+	nc: NatsConnection,
+	stream: string,
+	selection: MessageSelection,
+): Promise<SelectionCount> {
+	const count: SelectionCount = { matched: 0 };
+	for await (const { msg } of selectMessages(nc, stream, selection)) {
+		count.matched++;
+		count.firstSeq ??= msg.seq;
+		count.lastSeq = msg.seq;
+	}
+	return count;
+}
+
+// Start republishing the selected messages to the target; poll the returned job for progress
+export async function startCopy(
+	source: { nc: NatsConnection; clusterId: string },
+	stream: string,
+	selection: MessageSelection,
+	target: CopyTarget,
+): Promise<Job> {
+	const jsm = await source.nc.jetstreamManager();
+	const info = await jsm.streams.info(stream);
+	if (target.move && info.config.deny_delete) {
+		throw new Error(`Stream "${stream}" does not allow deleting messages, copy them instead`);
+	}
+
+	const job = createJob(target.move ? "move" : "copy", source.clusterId, stream, 0);
+
+	runJob(job, async () => {
+		const js = target.nc.jetstream();
+		const started = Date.now();
+
+		for await (const { msg, remaining } of selectMessages(source.nc, stream, selection)) {
+			job.total = job.processed + remaining + 1;
+
+			const headers = createHeaders();
+			for (const key of msg.headers?.keys() ?? []) {
+				// Expectations held for the original publish, not for the copy
+				if (key.startsWith("Nats-Expected-")) continue;
+				if (key === MSG_ID_HEADER && !target.keepMsgId) continue;
+				for (const value of msg.headers?.values(key) ?? []) headers.append(key, value);
+			}
+
+			const ack = await js.publish(target.subject || rewriteSubject(msg.subject, target.rewrite), msg.data, { headers });
+			// The target dropped the copy, so the source message is the only one left
+			if (ack.duplicate) {
+				job.skipped = (job.skipped ?? 0) + 1;
+			} else if (target.move) {
+				await jsm.streams.deleteMessage(stream, msg.seq, false);
+			}
+			job.processed++;
+
+			if (target.rateLimit) {
+				const due = started + (job.processed * 1000) / target.rateLimit;
+				if (due > Date.now()) await delay(due - Date.now());
+			}
+		}
+
+		job.total = job.processed;
+	});
+
+	return job;
+}
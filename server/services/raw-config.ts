@@ -0,0 +1,6 @@
+// nats.ws applies an update by merging it onto the current config, so a key the raw editor removed
+// would keep its old value. Setting it to undefined leaves it out of the request, which the server reads as unset
+export function withRemovedKeys<T extends object>(current: T, submitted: object): Partial<T> {
+	const removed = Object.keys(current).filter((key) => !(key in submitted));
+	return { ...Object.fromEntries(removed.map((key) => [key, undefined])), ...submitted } as Partial<T>;
+}
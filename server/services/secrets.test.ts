@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+// The loaded key is cached per module, so each test gets a fresh copy
+async function loadSecrets() {
+	vi.resetModules();
+	return import("./secrets");
+}
+
+afterEach(() => {
+	vi.unstubAllEnvs();
+});
+
+describe("loadMasterKey", () => {
+	it("refuses to generate a key in production", async () => {
+		vi.stubEnv("NODE_ENV", "production");
+		vi.stubEnv("MASTER_KEY", "");
+		vi.stubEnv("MASTER_KEY_FILE", "");
+		const { loadMasterKey } = await loadSecrets();
+
+		expect(() => loadMasterKey()).toThrow(/MASTER_KEY or MASTER_KEY_FILE must be set in production/);
+	});
+
+	it("uses MASTER_KEY in production", async () => {
+		vi.stubEnv("NODE_ENV", "production");
+		vi.stubEnv("MASTER_KEY", `base64:${Buffer.alloc(32, 1).toString("base64")}`);
+		const { loadMasterKey } = await loadSecrets();
+
+		expect(loadMasterKey().source).toEqual({ type: "env" });
+	});
+});
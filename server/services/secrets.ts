@@ -0,0 +1,192 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from "node:crypto";
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+
+// Encrypted values look like enc:v1:<key id>:<wrapped data key>:<iv>:<ciphertext>
+const PREFIX = "enc:v1:";
+// Development only; kept out of ./data so the key never sits next to the database it protects
+const DEFAULT_KEY_FILE = "./master.key";
+
+// Raw keys are written as base64:<32 bytes>; any other material is a passphrase
+const RAW_KEY_PREFIX = "base64:";
+
+// scrypt cost for passphrases; N=2^15 needs 32 MiB, so maxmem leaves some headroom
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+export interface MasterKey {
+	id: string;
+	key: Buffer;
+}
+
+export type MasterKeySource = { type: "env" } | { type: "file"; path: string };
+
+let _masterKey: { key: MasterKey; source: MasterKeySource } | null = null;
+let _passphraseSalt: Buffer | null = null;
+
+// Set the salt passphrases are derived with; the database stores it so the key stays stable
+export function setPassphraseSalt(salt: Buffer): void {
+	_passphraseSalt = salt;
+}
+
+// Accept a raw key as base64:<32 bytes>, otherwise derive one from the passphrase with scrypt
+export function parseMasterKey(material: string, salt: Buffer | null = _passphraseSalt): MasterKey {
+	const trimmed = material.trim();
+	if (!trimmed) {
+		throw new Error("Master key is empty");
+	}
+
+	let key: Buffer;
+	if (trimmed.startsWith(RAW_KEY_PREFIX)) {
+		key = Buffer.from(trimmed.slice(RAW_KEY_PREFIX.length), "base64");
+		if (key.length !== 32) {
+			throw new Error(`Raw master keys must be 32 bytes of base64 after "${RAW_KEY_PREFIX}"`);
+		}
+	} else {
+		if (!salt) {
+			throw new Error("No salt set for deriving the master key from a passphrase");
+		}
+		key = scryptSync(trimmed, salt, 32, SCRYPT_OPTIONS);
+	}
+
+	const id = createHash("sha256").update(key).digest("hex").slice(0, 8);
+	return { id, key };
+}
+
+// Generate new raw key material
+export function generateMasterKey(): string {
+	return `${RAW_KEY_PREFIX}${randomBytes(32).toString("base64")}`;
+}
+
+// Write key material readable only by the current user
+export function writeKeyFile(path: string, material: string): void {
+	const dir = dirname(path);
+	if (!existsSync(dir)) {
+		mkdirSync(dir, { recursive: true });
+	}
+	writeFileSync(path, `${material}\n`, { mode: 0o600 });
+	chmodSync(path, 0o600);
+}
+
+// Load the master key from MASTER_KEY, MASTER_KEY_FILE or, outside production, the default key file
+export function loadMasterKey(): { key: MasterKey; source: MasterKeySource } {
+	if (_masterKey) return _masterKey;
+
+	if (process.env.MASTER_KEY) {
+		_masterKey = { key: parseMasterKey(process.env.MASTER_KEY), source: { type: "env" } };
+		return _masterKey;
+	}
+
+	if (process.env.NODE_ENV === "production" && !process.env.MASTER_KEY_FILE) {
+		throw new Error(
+			"MASTER_KEY or MASTER_KEY_FILE must be set in production. Generate a key with " +
+				'`echo "base64:$(openssl rand -base64 32)"` and keep it outside the data directory.',
+		);
+	}
+
+	const path = process.env.MASTER_KEY_FILE || DEFAULT_KEY_FILE;
+	if (existsSync(path)) {
+		_masterKey = {
+			key: parseMasterKey(readFileSync(path, "utf8")),
+			source: { type: "file", path },
+		};
+		return _masterKey;
+	}
+
+	if (process.env.MASTER_KEY_FILE) {
+		throw new Error(`Master key file not found: ${path}`);
+	}
+
+	// First development start without a configured key - generate one so secrets are never stored in plaintext
+	writeKeyFile(path, generateMasterKey());
+	console.warn(
+		"[Secrets] ************************************************************\n" +
+			`[Secrets] No MASTER_KEY or MASTER_KEY_FILE set, generated a new master key at ${path}.\n` +
+			"[Secrets] Anyone with this file and the database can read the stored credentials.\n" +
+			"[Secrets] Set MASTER_KEY or MASTER_KEY_FILE before running in production.\n" +
+			"[Secrets] ************************************************************",
+	);
+	_masterKey = {
+		key: parseMasterKey(readFileSync(path, "utf8")),
+		source: { type: "file", path },
+	};
+	return _masterKey;
+}
+
+// Check whether a stored value is already encrypted
+export function isEncrypted(value: string): boolean {
+	return value.startsWith(PREFIX);
+}
+
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; data: Buffer } {
+	const iv = randomBytes(12);
+	const cipher = createCipheriv("aes-256-gcm", key, iv);
+	const data = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+	return { iv, data };
+}
+
+function open(key: Buffer, iv: Buffer, data: Buffer): Buffer {
+	const decipher = createDecipheriv("aes-256-gcm", key, iv);
+	decipher.setAuthTag(data.subarray(data.length - 16));
+	return Buffer.concat([decipher.update(data.subarray(0, data.length - 16)), decipher.final()]);
+}
+
+// Wrap a data key with the master key; the wrapped key carries its own IV
+function wrapDataKey(masterKey: MasterKey, dataKey: Buffer): string {
+	const { iv, data } = seal(masterKey.key, dataKey);
+	return Buffer.concat([iv, data]).toString("base64");
+}
+
+function unwrapDataKey(masterKey: MasterKey, wrapped: string): Buffer {
+	const raw = Buffer.from(wrapped, "base64");
+	return open(masterKey.key, raw.subarray(0, 12), raw.subarray(12));
+}
+
+function parse(value: string) {
+	const [keyId, wrappedKey, iv, data] = value.slice(PREFIX.length).split(":");
+	if (!keyId || !wrappedKey || !iv || !data) {
+		throw new Error("Malformed encrypted value");
+	}
+	return { keyId, wrappedKey, iv, data };
+}
+
+// Encrypt a value with a fresh data key wrapped by the master key
+export function encryptSecret(plaintext: string, masterKey: MasterKey = loadMasterKey().key): string {
+	const dataKey = randomBytes(32);
+	const { iv, data } = seal(dataKey, Buffer.from(plaintext, "utf8"));
+	return `${PREFIX}${masterKey.id}:${wrapDataKey(masterKey, dataKey)}:${iv.toString("base64")}:${data.toString("base64")}`;
+}
+
+// Decrypt a stored value; plaintext values from before encryption are returned as-is
+export function decryptSecret(value: string, masterKey: MasterKey = loadMasterKey().key): string {
+	if (!isEncrypted(value)) return value;
+
+	const parts = parse(value);
+	if (parts.keyId !== masterKey.id) {
+		throw new Error(`Secret was encrypted with a different master key (${parts.keyId})`);
+	}
+
+	const dataKey = unwrapDataKey(masterKey, parts.wrappedKey);
+	return open(dataKey, Buffer.from(parts.iv, "base64"), Buffer.from(parts.data, "base64")).toString("utf8");
+}
+
+// Re-wrap the data key under a new master key without touching the ciphertext
+export function rewrapSecret(value: string, from: MasterKey, to: MasterKey): string {
+	if (!isEncrypted(value)) return encryptSecret(value, to);
+
+	const parts = parse(value);
+	if (parts.keyId !== from.id) {
+		throw new Error(`Secret was encrypted with a different master key (${parts.keyId})`);
+	}
+
+	const dataKey = unwrapDataKey(from, parts.wrappedKey);
+	return `${PREFIX}${to.id}:${wrapDataKey(to, dataKey)}:${parts.iv}:${parts.data}`;
+}
+
+// Helpers for nullable columns
+export function encryptNullable(value: string | null | undefined): string | null {
+	return value == null ? null : encryptSecret(value);
+}
+
+export function decryptNullable(value: string | null): string | null {
+	return value == null ? null : decryptSecret(value);
+}
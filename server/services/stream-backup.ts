@@ -0,0 +1,350 @@
+import { randomUUID } from "node:crypto";
+import { once } from "node:events";
+import { createReadStream, createWriteStream, existsSync, mkdirSync, statSync } from "node:fs";
+import { readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { createInterface } from "node:readline";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { createGunzip, createGzip } from "node:zlib";
+import { headers as createHeaders, type MsgHdrs, type NatsConnection, type StreamConfig } from "nats.ws";
+import { createJob, type Job, runJob } from "./jobs";
+
+// Archives live next to the database
+const BACKUP_DIR = "./data/backups";
+
+// Bump when the archive layout changes
+const ARCHIVE_VERSION = 1;
+
+// Publishes in flight while restoring; acks still arrive in order
+const RESTORE_BATCH_SIZE = 256;
+
+// First line of an archive
+interface ArchiveHeader {
+	type: "stream";
+	version: number;
+	cluster: string;
+	createdAt: string;
+	config: StreamConfig;
+	messages: number;
+	bytes: number;
+}
+
+// Every following line holds one message
+interface ArchivedMessage {
+	seq: number;
+	subject: string;
+	time: string;
+	headers?: Record<string, string[]>;
+	data: string; // base64
+}
+
+export interface BackupInfo {
+	id: string;
+	stream: string;
+	clusterId?: string;
+	clusterName: string;
+	messages: number;
+	bytes: number;
+	size: number; // compressed archive size
+	createdAt: string;
+	uploaded: boolean;
+}
+
+export interface RestoreOptions {
+	// Restore under a different stream name
+	name?: string;
+	// Prepended to every subject, so a copy can live next to the original stream
+	subjectPrefix?: string;
+}
+
+function ensureBackupDir() {
+	if (!existsSync(BACKUP_DIR)) {
+		mkdirSync(BACKUP_DIR, { recursive: true });
+	}
+}
+
+const archivePath = (id: string) => join(BACKUP_DIR, `${id}.jsonl.gz`);
+const infoPath = (id: string) => join(BACKUP_DIR, `${id}.json`);
+
+// Backup IDs are generated UUIDs; anything else never touches the filesystem
+const isBackupId = (id: string) => /^[0-9a-f-]{36}$/.test(id);
+
+function headersToObject(headers?: MsgHdrs): Record<string, string[]> | undefined {
+	if (!headers) return undefined;
+	return Object.fromEntries(Array.from(headers.keys()).map((k) => [k, headers.values(k)]));
+}
+
+// Read an archive line by line, header first
+async function* readArchive(id: string): AsyncGenerator<ArchiveHeader | ArchivedMessage> {
+	const lines = createInterface({
+		input: createReadStream(archivePath(id)).pipe(createGunzip()),
+		crlfDelay: Number.POSITIVE_INFINITY,
+	});
+
+	let first = true;
+	for await (const line of lines) {
+		if (!line.trim()) continue;
+		const value = JSON.parse(line);
+		if (first) {
+			if (value.type !== "stream" || value.version !== ARCHIVE_VERSION || !value.config?.name) {
+				throw new Error("Not a NATS Eye stream archive");
+			}
+			first = false;
+		}
+		yield value;
+	}
+
+	if (first) {
+		throw new Error("The archive is empty");
+	}
+}
+
+async function readHeader(id: string): Promise<ArchiveHeader> {
+	for await (const entry of readArchive(id)) {
+		return entry as ArchiveHeader;
+	}
+	throw new Error("The archive is empty");
+}
+
+export async function listBackups(): Promise<BackupInfo[]> {
+	ensureBackupDir();
+	const backups: BackupInfo[] = [];
+	for (const file of await readdir(BACKUP_DIR)) {
+		if (!file.endsWith(".json")) continue;
+		try {
+			backups.push(JSON.parse(await readFile(join(BACKUP_DIR, file), "utf8")));
+		} catch {
+			// Skip sidecars that are being written or were damaged
+		}
+	}
+	return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getBackup(id: string): Promise<BackupInfo | null> {
+	if (!isBackupId(id) || !existsSync(infoPath(id))) return null;
+	return JSON.parse(await readFile(infoPath(id), "utf8"));
+}
+
+// Open an archive for download
+export function openArchive(id: string): { body: ReadableStream; size: number } | null {
+	if (!isBackupId(id) || !existsSync(archivePath(id))) return null;
+	return {
+		body: Readable.toWeb(createReadStream(archivePath(id))) as ReadableStream,
+		size: statSync(archivePath(id)).size,
+	};
+}
+
+export async function deleteBackup(id: string): Promise<boolean> {
+	if (!isBackupId(id) || !existsSync(infoPath(id))) return false;
+	await rm(archivePath(id), { force: true });
+	await rm(infoPath(id), { force: true });
+	return true;
+}
+
+// Start writing every message of a stream, with its config, to a gzipped archive
+export async function startBackup(
+	nc: NatsConnection,
+	clusterId: string,
+	clusterName: string,
+	streamName: string,
+): Promise<Job> {
+	const jsm = await nc.jetstreamManager();
+	const info = await jsm.streams.info(streamName);
+	const job = createJob("backup", clusterId, streamName, info.state.messages);
+	const backupId = randomUUID();
+
+	const run = async () => {
+		ensureBackupDir();
+		const gzip = createGzip();
+		const done = pipeline(gzip, createWriteStream(archivePath(backupId)));
+		const write = async (value: unknown) => {
+			if (!gzip.write(`${JSON.stringify(value)}\n`)) {
+				await once(gzip, "drain");
+			}
+		};
+
+		const header: ArchiveHeader = {
+			type: "stream",
+			version: ARCHIVE_VERSION,
+			cluster: clusterName,
+			createdAt: new Date().toISOString(),
+			config: info.config,
+			messages: info.state.messages,
+			bytes: info.state.bytes,
+		};
+		await write(header);
+
+		// Messages published after the backup started are left out
+		const lastSeq = info.state.last_seq;
+		if (info.state.messages > 0) {
+			const consumer = await nc.jetstream().consumers.get(streamName);
+			const messages = await consumer.consume();
+			try {
+				for await (const msg of messages) {
+					if (msg.seq > lastSeq) break;
+					const entry: ArchivedMessage = {
+						seq: msg.seq,
+						subject: msg.subject,
+						time: new Date(Math.floor(msg.info.timestampNanos / 1_000_000)).toISOString(),
+						headers: headersToObject(msg.headers),
+						data: Buffer.from(msg.data).toString("base64"),
+					};
+					await write(entry);
+					job.processed++;
+					if (msg.seq >= lastSeq || msg.info.pending === 0) break;
+				}
+			} finally {
+				await messages.close().catch(() => {});
+			}
+		}
+
+		gzip.end();
+		await done;
+
+		const backup: BackupInfo = {
+			id: backupId,
+			stream: streamName,
+			clusterId,
+			clusterName,
+			messages: job.processed,
+			bytes: info.state.bytes,
+			size: (await stat(archivePath(backupId))).size,
+			createdAt: header.createdAt,
+			uploaded: false,
+		};
+		await writeFile(infoPath(backupId), JSON.stringify(backup, null, 2));
+		job.backupId = backupId;
+	};
+
+	runJob(job, run, async () => {
+		await rm(archivePath(backupId), { force: true }).catch(() => {});
+	});
+
+	return job;
+}
+
+// Store an uploaded archive so it can be restored like a local backup
+export async function importArchive(body: ReadableStream<Uint8Array>): Promise<BackupInfo> {
+	ensureBackupDir();
+	const id = randomUUID();
+	await pipeline(Readable.fromWeb(body as import("node:stream/web").ReadableStream), createWriteStream(archivePath(id)));
+
+	try {
+		const header = await readHeader(id);
+		const backup: BackupInfo = {
+			id,
+			stream: header.config.name,
+			clusterName: header.cluster,
+			messages: header.messages,
+			bytes: header.bytes,
+			size: (await stat(archivePath(id))).size,
+			createdAt: header.createdAt,
+			uploaded: true,
+		};
+		await writeFile(infoPath(id), JSON.stringify(backup, null, 2));
+		return backup;
+	} catch (error) {
+		await rm(archivePath(id), { force: true });
+		throw error instanceof SyntaxError || (error as { code?: string }).code === "Z_DATA_ERROR"
+			? new Error("Not a NATS Eye stream archive")
+			: error;
+	}
+}
+
+// Recreate a stream from an archive and republish its messages in order
+export async function startRestore(
+	nc: NatsConnection,
+	clusterId: string,
+	backupId: string,
+	options: RestoreOptions,
+): Promise<Job> {
+	const header = await readHeader(backupId);
+	const name = options.name || header.config.name;
+	const prefix = options.subjectPrefix;
+
+	// The restored stream stands on its own, mirrors and sources are not recreated
+	const { mirror, sources, ...original } = header.config;
+	const config: Partial<StreamConfig> = {
+		...original,
+		name,
+		sealed: false,
+		metadata: Object.fromEntries(
+			Object.entries(original.metadata ?? {}).filter(([key]) => !key.startsWith("_nats.")),
+		),
+	};
+	if (prefix) {
+		config.subjects = (original.subjects?.length ? original.subjects : [">"]).map((s) => `${prefix}.${s}`);
+	}
+	if (!config.subjects?.length) {
+		throw new Error("The archived stream has no subjects of its own, set a subject prefix to restore it");
+	}
+
+	const jsm = await nc.jetstreamManager();
+	await jsm.streams.add(config);
+
+	const job = createJob("restore", clusterId, name, header.messages);
+
+	const run = async () => {
+		const js = nc.jetstream();
+		let batch: Promise<unknown>[] = [];
+		// Publishes settle in batches, so the first rejection is kept until the batch is awaited
+		let failure: unknown;
+		const flush = async () => {
+			await Promise.all(batch);
+			batch = [];
+			if (failure) throw failure;
+		};
+
+		let first = true;
+		for await (const entry of readArchive(backupId)) {
+			if (first) {
+				first = false;
+				continue;
+			}
+
+			if (failure) break;
+
+			const msg = entry as ArchivedMessage;
+			const headers = createHeaders();
+			for (const [key, values] of Object.entries(msg.headers ?? {})) {
+				// Expectations held for the original publish, not for the restore
+				if (key.startsWith("Nats-Expected-")) continue;
+				// The source kept every message even where ids repeat, the new stream's duplicate window would not
+				if (key === "Nats-Msg-Id") continue;
+				for (const value of values) headers.append(key, value);
+			}
+
+			batch.push(
+				js.publish(prefix ? `${prefix}.${msg.subject}` : msg.subject, Buffer.from(msg.data, "base64"), {
+					headers,
+					expect: { streamName: name },
+				}).then(
+					() => {
+						job.processed++;
+					},
+					(error) => {
+						failure ??= error;
+					},
+				),
+			);
+			if (batch.length >= RESTORE_BATCH_SIZE) await flush();
+		}
+		await flush();
+
+		if (header.config.sealed) {
+			const info = await jsm.streams.info(name);
+			const sealed: Partial<StreamConfig> = { ...info.config, sealed: true };
+			await jsm.streams.update(name, sealed);
+		}
+	};
+
+	runJob(job, run);
+
+	return job;
+}
+
+// A readable file name for downloads
+export function archiveFilename(backup: BackupInfo): string {
+	return `${backup.stream}-${backup.createdAt.replace(/[:.]/g, "-")}.jsonl.gz`;
+}
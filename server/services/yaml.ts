@@ -0,0 +1,16 @@
+// Bun's built-in YAML support. The server is type-checked without the Bun type definitions,
+// so the part of the API used here is declared locally
+declare const Bun: {
+	YAML: {
+		parse(input: string): unknown;
+		stringify(input: unknown, replacer?: null, space?: string | number): string;
+	};
+};
+
+export function parseYaml(content: string): unknown {
+	return Bun.YAML.parse(content);
+}
+
+export function stringifyYaml(value: unknown): string {
+	return Bun.YAML.stringify(value, null, 2);
+}
@@ -20,9 +20,8 @@ import {
 	SelectTrigger,
 	SelectValue,
 } from "@/components/ui/select";
-import { clustersApi, type TestConnectionResult, type TestMonitoringResult } from "@/lib/api";
-
-type AuthType = "none" | "token" | "userpass";
+import { type AuthType, clustersApi, type TestConnectionResult, type TestMonitoringResult } from "@/lib/api";
+import { AuthFileFields, type AuthFiles, emptyAuthFiles, getAuthFilesConfig } from "./auth-file-fields";
 
 interface AddClusterDialogProps {
 	trigger?: React.ReactNode;
@@ -45,6 +44,7 @@ export function AddClusterDialog({ trigger, onSuccess }: AddClusterDialogProps)
 	const [token, setToken] = useState("");
 	const [username, setUsername] = useState("");
 	const [password, setPassword] = useState("");
+	const [authFiles, setAuthFiles] = useState<AuthFiles>(emptyAuthFiles);
 	const [error, setError] = useState("");
 	const [isLoading, setIsLoading] = useState(false);
 	const [isTestingWs, setIsTestingWs] = useState(false);
@@ -63,6 +63,7 @@ export function AddClusterDialog({ trigger, onSuccess }: AddClusterDialogProps)
 		setToken("");
 		setUsername("");
 		setPassword("");
+		setAuthFiles(emptyAuthFiles);
 		setError("");
 		setWsTestResult(null);
 		setNatsTestResult(null);
@@ -196,7 +197,7 @@ export function AddClusterDialog({ trigger, onSuccess }: AddClusterDialogProps)
 			case "userpass":
 				return { username: username || undefined, password: password || undefined };
 			default:
-				return {};
+				return { authType, ...getAuthFilesConfig(authType, authFiles) };
 		}
 	};
 
@@ -299,6 +300,21 @@ export function AddClusterDialog({ trigger, onSuccess }: AddClusterDialogProps)
 			return;
 		}
 
+		if (authType === "nkey" && !authFiles.nkeySeed.trim()) {
+			setError("NKey seed is required");
+			return;
+		}
+
+		if (authType === "creds" && !authFiles.creds.trim()) {
+			setError("Credentials file is required");
+			return;
+		}
+
+		if (authType === "tls" && (!authFiles.tlsCert.trim() || !authFiles.tlsKey.trim())) {
+			setError("Client certificate and key are required");
+			return;
+		}
+
 		setIsLoading(true);
 		try {
 			await clustersApi.create({
@@ -618,6 +634,9 @@ export function AddClusterDialog({ trigger, onSuccess }: AddClusterDialogProps)
 									<SelectItem value="none">No Authentication</SelectItem>
 									<SelectItem value="token">Token</SelectItem>
 									<SelectItem value="userpass">Username & Password</SelectItem>
+									<SelectItem value="nkey">NKey</SelectItem>
+									<SelectItem value="creds">Credentials File (JWT)</SelectItem>
+									<SelectItem value="tls">TLS Client Certificate</SelectItem>
 								</SelectContent>
 							</Select>
 						</div>
@@ -674,6 +693,17 @@ export function AddClusterDialog({ trigger, onSuccess }: AddClusterDialogProps)
 								</div>
 							</>
 						)}
+
+						<AuthFileFields
+							authType={authType}
+							value={authFiles}
+							onChange={(value) => {
+								setAuthFiles(value);
+								setWsTestResult(null);
+								setNatsTestResult(null);
+							}}
+							disabled={isLoading}
+						/>
 					</div>
 					<DialogFooter>
 						<Button type="submit" disabled={isLoading}>
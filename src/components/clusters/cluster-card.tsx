@@ -1,11 +1,13 @@
 import { useQueryClient } from "@tanstack/react-query";
 import {
 	CheckCircle2,
+	Download,
 	Loader2,
 	MoreVertical,
 	Pencil,
 	Server,
 	Trash2,
+	Upload,
 	Wifi,
 	WifiOff,
 	XCircle,
@@ -21,8 +23,9 @@ import {
 	DropdownMenuSeparator,
 	DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { clustersApi, type ClusterData } from "@/lib/api";
+import { clustersApi, type ClusterData, topologyApi } from "@/lib/api";
 import { EditClusterDialog } from "./edit-cluster-dialog";
+import { ImportTopologyDialog } from "./import-topology-dialog";
 
 interface ClusterCardProps {
 	cluster: ClusterData;
@@ -41,6 +44,7 @@ export function ClusterCard({ cluster }: ClusterCardProps) {
 	const [errorMessage, setErrorMessage] = useState<string | null>(null);
 	const [isDeleting, setIsDeleting] = useState(false);
 	const [showEditDialog, setShowEditDialog] = useState(false);
+	const [showImportDialog, setShowImportDialog] = useState(false);
 
 	const handleTestConnection = async () => {
 		setStatus("testing");
@@ -78,6 +82,16 @@ export function ClusterCard({ cluster }: ClusterCardProps) {
 		}
 	};
 
+	const handleExport = (format: "json" | "yaml") => {
+		// The backend returns the bundle as an attachment
+		const link = document.createElement("a");
+		link.href = topologyApi.getExportUrl(cluster.id, format);
+		link.download = `${cluster.name}-topology.${format}`;
+		document.body.appendChild(link);
+		link.click();
+		document.body.removeChild(link);
+	};
+
 	const statusIcon = () => {
 		switch (status) {
 			case "testing":
@@ -121,6 +135,19 @@ export function ClusterCard({ cluster }: ClusterCardProps) {
 									Edit
 								</DropdownMenuItem>
 								<DropdownMenuSeparator />
+								<DropdownMenuItem onClick={() => handleExport("yaml")}>
+									<Download className="mr-2 h-4 w-4" />
+									Export Topology (YAML)
+								</DropdownMenuItem>
+								<DropdownMenuItem onClick={() => handleExport("json")}>
+									<Download className="mr-2 h-4 w-4" />
+									Export Topology (JSON)
+								</DropdownMenuItem>
+								<DropdownMenuItem onClick={() => setShowImportDialog(true)}>
+									<Upload className="mr-2 h-4 w-4" />
+									Import Topology
+								</DropdownMenuItem>
+								<DropdownMenuSeparator />
 								<DropdownMenuItem
 									onClick={handleDelete}
 									className="text-destructive focus:text-destructive"
@@ -190,6 +217,13 @@ export function ClusterCard({ cluster }: ClusterCardProps) {
 				open={showEditDialog}
 				onOpenChange={setShowEditDialog}
 			/>
+
+			<ImportTopologyDialog
+				clusterId={cluster.id}
+				clusterName={cluster.name}
+				open={showImportDialog}
+				onOpenChange={setShowImportDialog}
+			/>
 		</>
 	);
 }
@@ -20,6 +20,7 @@ import {
 	SelectValue,
 } from "@/components/ui/select";
 import { clustersApi, type AuthType, type ClusterData, type TestConnectionResult, type TestMonitoringResult } from "@/lib/api";
+import { AuthFileFields, type AuthFiles, emptyAuthFiles, getAuthFilesConfig } from "./auth-file-fields";
 
 interface EditClusterDialogProps {
 	cluster: ClusterData;
@@ -46,6 +47,7 @@ export function EditClusterDialog({
 	const [token, setToken] = useState("");
 	const [username, setUsername] = useState("");
 	const [password, setPassword] = useState("");
+	const [authFiles, setAuthFiles] = useState<AuthFiles>(emptyAuthFiles);
 	const [error, setError] = useState("");
 	const [isLoading, setIsLoading] = useState(false);
 	const [isTestingWs, setIsTestingWs] = useState(false);
@@ -66,6 +68,7 @@ export function EditClusterDialog({
 			setToken("");
 			setUsername("");
 			setPassword("");
+			setAuthFiles(emptyAuthFiles);
 			setError("");
 			setWsTestResult(null);
 			setNatsTestResult(null);
@@ -81,7 +84,7 @@ export function EditClusterDialog({
 			case "userpass":
 				return { username: username || undefined, password: password || undefined };
 			default:
-				return {};
+				return { authType, ...getAuthFilesConfig(authType, authFiles) };
 		}
 	};
 
@@ -98,7 +101,11 @@ export function EditClusterDialog({
 		setIsTestingWs(true);
 		try {
 			// If auth hasn't been changed and cluster has existing creds, use testExisting
-			const authChanged = (authType === "token" && token) || (authType === "userpass" && (username || password));
+			const authChanged =
+				authType !== cluster.authType ||
+				(authType === "token" && token) ||
+				(authType === "userpass" && (username || password)) ||
+				Object.values(getAuthFilesConfig(authType, authFiles)).some(Boolean);
 			const urlsChanged = JSON.stringify(validUrls) !== JSON.stringify(cluster.urls);
 
 			if (!authChanged && !urlsChanged) {
@@ -291,6 +298,21 @@ export function EditClusterDialog({
 			return;
 		}
 
+		// New auth types need credentials unless the cluster already has them stored
+		const authFilesConfig = getAuthFilesConfig(authType, authFiles);
+		if (authType === "nkey" && !authFilesConfig.nkeySeed && !cluster.hasNkey) {
+			setError("NKey seed is required");
+			return;
+		}
+		if (authType === "creds" && !authFilesConfig.creds && !cluster.hasCreds) {
+			setError("Credentials file is required");
+			return;
+		}
+		if (authType === "tls" && !cluster.hasTlsCert && (!authFilesConfig.tlsCert || !authFilesConfig.tlsKey)) {
+			setError("Client certificate and key are required");
+			return;
+		}
+
 		setIsLoading(true);
 		try {
 			const updateData: Parameters<typeof clustersApi.update>[1] = {
@@ -309,6 +331,7 @@ export function EditClusterDialog({
 				if (username) updateData.username = username;
 				if (password) updateData.password = password;
 			}
+			Object.assign(updateData, authFilesConfig);
 
 			await clustersApi.update(cluster.id, updateData);
 			await queryClient.invalidateQueries({ queryKey: ["clusters"] });
@@ -323,6 +346,9 @@ export function EditClusterDialog({
 	const hasExistingAuth = () => {
 		if (authType === "token") return cluster.hasToken;
 		if (authType === "userpass") return cluster.hasUserPass;
+		if (authType === "nkey") return cluster.hasNkey;
+		if (authType === "creds") return cluster.hasCreds;
+		if (authType === "tls") return cluster.hasTlsCert;
 		return false;
 	};
 
@@ -610,6 +636,9 @@ export function EditClusterDialog({
 									<SelectItem value="none">No Authentication</SelectItem>
 									<SelectItem value="token">Token</SelectItem>
 									<SelectItem value="userpass">Username & Password</SelectItem>
+									<SelectItem value="nkey">NKey</SelectItem>
+									<SelectItem value="creds">Credentials File (JWT)</SelectItem>
+									<SelectItem value="tls">TLS Client Certificate</SelectItem>
 								</SelectContent>
 							</Select>
 						</div>
@@ -664,6 +693,14 @@ export function EditClusterDialog({
 								)}
 							</>
 						)}
+
+						<AuthFileFields
+							authType={authType}
+							value={authFiles}
+							onChange={setAuthFiles}
+							disabled={isLoading}
+							hasExisting={hasExistingAuth()}
+						/>
 					</div>
 					<DialogFooter>
 						<Button
@@ -0,0 +1,308 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ArrowRight, FileUp } from "lucide-react";
+import { useEffect, useId, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import {
+	ApiError,
+	type TopologyApplyResult,
+	type TopologyAssetKind,
+	type TopologyPlan,
+	type TopologyPlanConflict,
+	type TopologyPlanItem,
+	topologyApi,
+} from "@/lib/api";
+
+interface ImportTopologyDialogProps {
+	clusterId: string;
+	clusterName: string;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+const kindLabels: Record<TopologyAssetKind, string> = {
+	stream: "Stream",
+	consumer: "Consumer",
+	kv: "KV Bucket",
+	objectStore: "Object Store",
+};
+
+const actionVariants: Record<TopologyPlanItem["action"], "default" | "secondary" | "outline" | "destructive"> = {
+	create: "default",
+	update: "secondary",
+	unchanged: "outline",
+	conflict: "destructive",
+};
+
+// A plan item, with its outcome once the import has been applied
+type PlanRow = TopologyPlanItem & Partial<Pick<TopologyApplyResult["results"][number], "status" | "error">>;
+
+function formatValue(value: unknown): string {
+	if (value === undefined || value === null) return "—";
+	return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function itemKey(item: TopologyPlanItem): string {
+	return `${item.kind}:${item.stream ?? ""}:${item.name}`;
+}
+
+function PlanDetails({ item }: { item: TopologyPlanItem }) {
+	return (
+		<div className="space-y-1">
+			{item.reason && <div className="text-xs text-destructive">{item.reason}</div>}
+			{item.changes.map((change) => (
+				<div key={change.field} className="flex flex-wrap items-center gap-1 font-mono text-xs">
+					<span className="font-medium">{change.field}</span>
+					<span className="text-muted-foreground break-all">{formatValue(change.from)}</span>
+					<ArrowRight className="h-3 w-3 shrink-0" />
+					<span className="break-all">{formatValue(change.to)}</span>
+				</div>
+			))}
+		</div>
+	);
+}
+
+export function ImportTopologyDialog({ clusterId, clusterName, open, onOpenChange }: ImportTopologyDialogProps) {
+	const queryClient = useQueryClient();
+	const id = useId();
+	const [content, setContent] = useState("");
+	const [fileName, setFileName] = useState("");
+	const [plan, setPlan] = useState<TopologyPlan | null>(null);
+	const [applyResult, setApplyResult] = useState<TopologyApplyResult | null>(null);
+	const [showUnchanged, setShowUnchanged] = useState(false);
+	const [error, setError] = useState("");
+
+	useEffect(() => {
+		if (open) {
+			setContent("");
+			setFileName("");
+			setPlan(null);
+			setApplyResult(null);
+			setShowUnchanged(false);
+			setError("");
+		}
+	}, [open]);
+
+	const planMutation = useMutation({
+		mutationFn: () => topologyApi.plan(clusterId, content),
+		onSuccess: (result) => {
+			setPlan(result);
+			setError("");
+		},
+		onError: (err) => {
+			setError(err instanceof Error ? err.message : "Failed to compute the import plan");
+		},
+	});
+
+	const applyMutation = useMutation({
+		mutationFn: (planHash: string) => topologyApi.apply(clusterId, content, planHash),
+		onSuccess: (result) => {
+			setApplyResult(result);
+			// Streams, consumers and buckets may all have changed
+			queryClient.invalidateQueries();
+			if (result.failed > 0) {
+				toast.error(`Applied ${result.applied} change(s), ${result.failed} failed`);
+			} else {
+				toast.success(`Applied ${result.applied} change(s) to "${clusterName}"`);
+			}
+		},
+		onError: (err) => {
+			// The cluster changed since the review: show the plan as it would run now
+			if (err instanceof ApiError && err.status === 409) {
+				setPlan((err.body as TopologyPlanConflict).plan);
+			}
+			setError(err instanceof Error ? err.message : "Failed to apply the import");
+		},
+	});
+
+	const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		if (!file) return;
+		setFileName(file.name);
+		setContent(await file.text());
+		setError("");
+	};
+
+	const rows: PlanRow[] = applyResult?.results ?? plan?.items ?? [];
+	const visibleRows = showUnchanged ? rows : rows.filter((item) => item.action !== "unchanged");
+	const pendingChanges = plan ? plan.summary.create + plan.summary.update : 0;
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>Import Topology</DialogTitle>
+					<DialogDescription>
+						Create or update streams, consumers and buckets on "{clusterName}" from an exported bundle.
+						Nothing is changed until you confirm the plan.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-4">
+					{error && (
+						<div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive whitespace-pre-line">
+							{error}
+						</div>
+					)}
+
+					{!plan ? (
+						<>
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-file`}>Bundle File</Label>
+								<Input
+									id={`${id}-file`}
+									type="file"
+									accept=".json,.yaml,.yml,application/json,application/yaml"
+									onChange={handleFile}
+								/>
+								{fileName && (
+									<p className="text-xs text-muted-foreground">Loaded {fileName}</p>
+								)}
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-content`}>Or paste JSON / YAML</Label>
+								<Textarea
+									id={`${id}-content`}
+									value={content}
+									onChange={(e) => setContent(e.target.value)}
+									className="min-h-[200px] font-mono text-xs"
+									placeholder={"version: 1\nstreams:\n  - name: ORDERS\n    subjects: [orders.>]"}
+									spellCheck={false}
+								/>
+							</div>
+						</>
+					) : (
+						<>
+							<div className="flex flex-wrap items-center justify-between gap-2">
+								<div className="flex flex-wrap gap-2">
+									{plan.source && (
+										<Badge variant="outline">From {plan.source}</Badge>
+									)}
+									<Badge>{plan.summary.create} create</Badge>
+									<Badge variant="secondary">{plan.summary.update} update</Badge>
+									<Badge variant="outline">{plan.summary.unchanged} unchanged</Badge>
+									{plan.summary.conflict > 0 && (
+										<Badge variant="destructive">{plan.summary.conflict} conflict</Badge>
+									)}
+								</div>
+								<div className="flex items-center gap-2">
+									<Switch id={`${id}-unchanged`} checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+									<Label htmlFor={`${id}-unchanged`} className="text-xs font-normal">
+										Show unchanged
+									</Label>
+								</div>
+							</div>
+
+							{plan.summary.conflict > 0 && !applyResult && (
+								<div className="rounded-md bg-muted p-3 text-sm text-muted-foreground">
+									Conflicting items cannot be applied in place and will be skipped.
+								</div>
+							)}
+
+							{visibleRows.length === 0 ? (
+								<div className="rounded-md border p-6 text-center text-sm text-muted-foreground">
+									The cluster already matches the bundle.
+								</div>
+							) : (
+								<div className="rounded-md border">
+									<Table>
+										<TableHeader>
+											<TableRow>
+												<TableHead className="w-[120px]">Type</TableHead>
+												<TableHead>Name</TableHead>
+												<TableHead className="w-[100px]">Action</TableHead>
+												<TableHead>Details</TableHead>
+											</TableRow>
+										</TableHeader>
+										<TableBody>
+											{visibleRows.map((item) => (
+												<TableRow key={itemKey(item)}>
+													<TableCell className="text-sm">{kindLabels[item.kind]}</TableCell>
+													<TableCell className="font-mono text-xs">
+														{item.stream ? `${item.stream} / ${item.name}` : item.name}
+													</TableCell>
+													<TableCell>
+														<Badge variant={actionVariants[item.action]} className="capitalize">
+															{item.action}
+														</Badge>
+													</TableCell>
+													<TableCell>
+														{item.status && item.status !== "skipped" && (
+															<div
+																className={`text-xs font-medium ${item.status === "failed" ? "text-destructive" : "text-green-600"}`}
+															>
+																{item.status === "failed" ? `Failed: ${item.error}` : "Applied"}
+															</div>
+														)}
+														<PlanDetails item={item} />
+													</TableCell>
+												</TableRow>
+											))}
+										</TableBody>
+									</Table>
+								</div>
+							)}
+						</>
+					)}
+				</div>
+
+				<DialogFooter>
+					{!plan ? (
+						<>
+							<Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+								Cancel
+							</Button>
+							<Button
+								onClick={() => planMutation.mutate()}
+								disabled={!content.trim() || planMutation.isPending}
+							>
+								<FileUp className="h-4 w-4 mr-2" />
+								{planMutation.isPending ? "Comparing..." : "Review Plan"}
+							</Button>
+						</>
+					) : applyResult ? (
+						<Button onClick={() => onOpenChange(false)}>Done</Button>
+					) : (
+						<>
+							<Button
+								type="button"
+								variant="outline"
+								onClick={() => setPlan(null)}
+								disabled={applyMutation.isPending}
+							>
+								Back
+							</Button>
+							<Button
+								onClick={() => applyMutation.mutate(plan.planHash)}
+								disabled={pendingChanges === 0 || applyMutation.isPending}
+							>
+								{applyMutation.isPending ? "Applying..." : `Apply ${pendingChanges} Change(s)`}
+							</Button>
+						</>
+					)}
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,170 @@
+import { useQuery } from "@tanstack/react-query";
+import { RefreshCw } from "lucide-react";
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { type ConsumerInfo, consumersApi, type PeekedConsumerMessage } from "@/lib/api";
+
+interface ConsumerMessagesTabProps {
+	clusterId: string;
+	consumer: ConsumerInfo;
+}
+
+function MessageTable({ messages, empty }: { messages: PeekedConsumerMessage[]; empty: string }) {
+	if (messages.length === 0) {
+		return <div className="py-6 text-center text-sm text-muted-foreground">{empty}</div>;
+	}
+
+	return (
+		<Table>
+			<TableHeader>
+				<TableRow>
+					<TableHead className="w-[80px]">Seq</TableHead>
+					<TableHead className="w-[200px]">Subject</TableHead>
+					<TableHead className="w-[180px]">Time</TableHead>
+					<TableHead className="w-[150px]">State</TableHead>
+					<TableHead>Data</TableHead>
+				</TableRow>
+			</TableHeader>
+			<TableBody>
+				{messages.map((msg) => (
+					<TableRow key={msg.seq}>
+						<TableCell className="font-mono text-sm">{msg.seq}</TableCell>
+						<TableCell>
+							<Badge variant="outline" className="font-mono text-xs">
+								{msg.subject}
+							</Badge>
+						</TableCell>
+						<TableCell className="text-xs text-muted-foreground">
+							{new Date(msg.time).toLocaleString()}
+						</TableCell>
+						<TableCell>
+							{msg.state === "unacked" ? (
+								<Badge variant="secondary">Awaiting ack</Badge>
+							) : (
+								<Badge variant="outline">Not delivered</Badge>
+							)}
+						</TableCell>
+						<TableCell className="font-mono text-xs max-w-[400px] truncate">{msg.data}</TableCell>
+					</TableRow>
+				))}
+			</TableBody>
+		</Table>
+	);
+}
+
+export function ConsumerMessagesTab({ clusterId, consumer }: ConsumerMessagesTabProps) {
+	const [limit, setLimit] = useState("25");
+
+	const { data, isLoading, isFetching, refetch, error } = useQuery({
+		queryKey: ["consumer-messages", clusterId, consumer.stream, consumer.name, limit],
+		queryFn: () => consumersApi.peekMessages(clusterId, consumer.stream, consumer.name, Number(limit)),
+	});
+
+	return (
+		<Card>
+			<CardHeader className="flex flex-row items-start justify-between space-y-0">
+				<div className="space-y-1.5">
+					<CardTitle>Outstanding Messages</CardTitle>
+					<CardDescription>
+						Read directly from the stream using the consumer's filters; nothing is delivered or acknowledged
+					</CardDescription>
+				</div>
+				<div className="flex items-center gap-2">
+					<Select value={limit} onValueChange={setLimit}>
+						<SelectTrigger className="h-8 w-[110px]" aria-label="Messages per list">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="10">10 each</SelectItem>
+							<SelectItem value="25">25 each</SelectItem>
+							<SelectItem value="50">50 each</SelectItem>
+							<SelectItem value="100">100 each</SelectItem>
+						</SelectContent>
+					</Select>
+					<Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+						<RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+						Refresh
+					</Button>
+				</div>
+			</CardHeader>
+			<CardContent className="space-y-6">
+				{isLoading ? (
+					<div className="space-y-2">
+						<Skeleton className="h-8 w-full" />
+						<Skeleton className="h-8 w-full" />
+						<Skeleton className="h-8 w-full" />
+					</div>
+				) : error ? (
+					<div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+						{error instanceof Error ? error.message : "Failed to read consumer messages"}
+					</div>
+				) : data ? (
+					<>
+						<div className="space-y-2">
+							<div className="flex items-center justify-between">
+								<div className="text-sm font-medium">
+									Awaiting Acknowledgement
+									<span className="ml-2 font-normal text-muted-foreground">
+										stream seq {data.ackFloor + 1} to {data.delivered}, {data.numAckPending} ack pending
+									</span>
+								</div>
+								{data.numRedelivered > 0 && (
+									<Badge variant="secondary">{data.numRedelivered} redelivered</Badge>
+								)}
+							</div>
+							{consumer.config.ackPolicy === "explicit" && data.unacked.length > data.numAckPending && (
+								<p className="text-xs text-muted-foreground">
+									Some of these were acknowledged out of order; the server only reports the ack floor
+									and the number still pending.
+								</p>
+							)}
+							<MessageTable messages={data.unacked} empty="No delivered messages are waiting for an ack" />
+							{data.hasMoreUnacked && (
+								<p className="text-xs text-muted-foreground">Showing the first {data.unacked.length}</p>
+							)}
+						</div>
+
+						<div className="space-y-2">
+							<div className="text-sm font-medium">
+								Next Pending
+								<span className="ml-2 font-normal text-muted-foreground">
+									{data.numPending} not yet delivered
+								</span>
+							</div>
+							<MessageTable messages={data.pending} empty="No messages are waiting to be delivered" />
+							{data.hasMorePending && (
+								<p className="text-xs text-muted-foreground">
+									Showing the next {data.pending.length} of {data.numPending}
+								</p>
+							)}
+						</div>
+					</>
+				) : null}
+			</CardContent>
+		</Card>
+	);
+}
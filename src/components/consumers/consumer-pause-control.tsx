@@ -0,0 +1,130 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Pause, Play } from "lucide-react";
+import { useId, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { type ConsumerInfo, consumersApi } from "@/lib/api";
+
+interface ConsumerPauseControlProps {
+	clusterId: string;
+	consumer: ConsumerInfo;
+}
+
+// Pause durations offered in the picker, in minutes
+const PAUSE_PRESETS = [
+	{ value: "15", label: "15 minutes" },
+	{ value: "60", label: "1 hour" },
+	{ value: "240", label: "4 hours" },
+	{ value: "1440", label: "1 day" },
+	{ value: "10080", label: "1 week" },
+	{ value: "custom", label: "Until..." },
+];
+
+function formatRemaining(until: Date): string {
+	const minutes = Math.max(0, Math.round((until.getTime() - Date.now()) / 60_000));
+	if (minutes < 60) return `${minutes}m`;
+	const hours = Math.floor(minutes / 60);
+	if (hours < 48) return `${hours}h ${minutes % 60}m`;
+	return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+export function ConsumerPauseControl({ clusterId, consumer }: ConsumerPauseControlProps) {
+	const queryClient = useQueryClient();
+	const id = useId();
+	const [preset, setPreset] = useState("60");
+	const [customUntil, setCustomUntil] = useState("");
+
+	const onSuccess = (message: string) => () => {
+		queryClient.invalidateQueries({ queryKey: ["consumer", clusterId, consumer.stream, consumer.name] });
+		queryClient.invalidateQueries({ queryKey: ["consumers", clusterId] });
+		toast.success(message);
+	};
+	const onError = (fallback: string) => (err: unknown) => {
+		toast.error(err instanceof Error ? err.message : fallback);
+	};
+
+	const pauseMutation = useMutation({
+		mutationFn: (until: string) => consumersApi.pause(clusterId, consumer.stream, consumer.name, until),
+		onSuccess: onSuccess(`Consumer "${consumer.name}" paused`),
+		onError: onError("Failed to pause consumer"),
+	});
+
+	const resumeMutation = useMutation({
+		mutationFn: () => consumersApi.resume(clusterId, consumer.stream, consumer.name),
+		onSuccess: onSuccess(`Consumer "${consumer.name}" resumed`),
+		onError: onError("Failed to resume consumer"),
+	});
+
+	const handlePause = () => {
+		const until =
+			preset === "custom" ? new Date(customUntil) : new Date(Date.now() + Number(preset) * 60_000);
+		if (Number.isNaN(until.getTime()) || until.getTime() <= Date.now()) {
+			toast.error("Choose a pause deadline in the future");
+			return;
+		}
+		pauseMutation.mutate(until.toISOString());
+	};
+
+	if (consumer.pauseSupported === false) {
+		return <div className="text-xs text-muted-foreground">Pausing requires nats-server 2.11 or later</div>;
+	}
+
+	if (consumer.paused && consumer.config.pauseUntil) {
+		const until = new Date(consumer.config.pauseUntil);
+		return (
+			<div className="flex items-center gap-2">
+				<Badge variant="secondary" title={until.toLocaleString()}>
+					Paused until {until.toLocaleString()} ({formatRemaining(until)} left)
+				</Badge>
+				<Button size="sm" onClick={() => resumeMutation.mutate()} disabled={resumeMutation.isPending}>
+					<Play className="h-4 w-4 mr-2" />
+					{resumeMutation.isPending ? "Resuming..." : "Resume"}
+				</Button>
+			</div>
+		);
+	}
+
+	return (
+		<div className="flex items-center gap-2">
+			<Label htmlFor={`${id}-preset`} className="sr-only">
+				Pause duration
+			</Label>
+			<Select value={preset} onValueChange={setPreset}>
+				<SelectTrigger id={`${id}-preset`} className="h-8 w-[130px]">
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					{PAUSE_PRESETS.map((option) => (
+						<SelectItem key={option.value} value={option.value}>
+							{option.label}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+			{preset === "custom" && (
+				<Input
+					aria-label="Pause until"
+					type="datetime-local"
+					step="1"
+					value={customUntil}
+					onChange={(e) => setCustomUntil(e.target.value)}
+					className="h-8 w-[200px]"
+				/>
+			)}
+			<Button variant="outline" size="sm" onClick={handlePause} disabled={pauseMutation.isPending}>
+				<Pause className="h-4 w-4 mr-2" />
+				{pauseMutation.isPending ? "Pausing..." : "Pause"}
+			</Button>
+		</div>
+	);
+}
@@ -1,5 +1,7 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { useId, useState } from "react";
+import { parseDuration } from "@/components/streams/stream-options-fields";
 import { Button } from "@/components/ui/button";
 import {
 	Dialog,
@@ -18,9 +20,38 @@ import {
 	SelectTrigger,
 	SelectValue,
 } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import { consumersApi, type CreateConsumerData } from "@/lib/api";
 
+type ConsumerKind = "pull" | "push";
+
+interface MetadataRow {
+	id: number;
+	key: string;
+	value: string;
+}
+
+let nextId = 0;
+const newId = () => {
+	nextId += 1;
+	return nextId;
+};
+
+// Parse an optional duration input; NaN marks an invalid value
+function parseOptionalDuration(value: string): number | undefined {
+	if (!value.trim()) return undefined;
+	const nanos = parseDuration(value);
+	return nanos > 0 ? nanos : Number.NaN;
+}
+
+// Parse an optional non-negative integer input; NaN marks an invalid value
+function parseOptionalInt(value: string): number | undefined {
+	if (!value.trim()) return undefined;
+	const num = Number(value.trim());
+	return Number.isInteger(num) && num >= 0 ? num : Number.NaN;
+}
+
 interface CreateConsumerDialogProps {
 	clusterId: string;
 	streamName: string;
@@ -35,12 +66,28 @@ export function CreateConsumerDialog({
 	onOpenChange,
 }: CreateConsumerDialogProps) {
 	const queryClient = useQueryClient();
+	const id = useId();
 	const [name, setName] = useState("");
 	const [description, setDescription] = useState("");
 	const [filterSubject, setFilterSubject] = useState("");
 	const [deliverPolicy, setDeliverPolicy] = useState<CreateConsumerData["deliverPolicy"]>("all");
 	const [ackPolicy, setAckPolicy] = useState<CreateConsumerData["ackPolicy"]>("explicit");
 	const [maxDeliver, setMaxDeliver] = useState("-1");
+	const [kind, setKind] = useState<ConsumerKind>("pull");
+	const [ephemeral, setEphemeral] = useState(false);
+	const [inactiveThreshold, setInactiveThreshold] = useState("");
+	const [ackWait, setAckWait] = useState("");
+	const [backoff, setBackoff] = useState("");
+	const [maxAckPending, setMaxAckPending] = useState("");
+	const [deliverSubject, setDeliverSubject] = useState("");
+	const [deliverGroup, setDeliverGroup] = useState("");
+	const [idleHeartbeat, setIdleHeartbeat] = useState("");
+	const [flowControl, setFlowControl] = useState(false);
+	const [rateLimit, setRateLimit] = useState("");
+	const [sampleFreq, setSampleFreq] = useState("");
+	const [replicas, setReplicas] = useState("");
+	const [memStorage, setMemStorage] = useState(false);
+	const [metadata, setMetadata] = useState<MetadataRow[]>([]);
 	const [error, setError] = useState("");
 
 	const resetForm = () => {
@@ -50,9 +97,28 @@ export function CreateConsumerDialog({
 		setDeliverPolicy("all");
 		setAckPolicy("explicit");
 		setMaxDeliver("-1");
+		setKind("pull");
+		setEphemeral(false);
+		setInactiveThreshold("");
+		setAckWait("");
+		setBackoff("");
+		setMaxAckPending("");
+		setDeliverSubject("");
+		setDeliverGroup("");
+		setIdleHeartbeat("");
+		setFlowControl(false);
+		setRateLimit("");
+		setSampleFreq("");
+		setReplicas("");
+		setMemStorage(false);
+		setMetadata([]);
 		setError("");
 	};
 
+	const updateMetadata = (rowId: number, field: "key" | "value", value: string) => {
+		setMetadata((rows) => rows.map((row) => (row.id === rowId ? { ...row, [field]: value } : row)));
+	};
+
 	const mutation = useMutation({
 		mutationFn: (data: CreateConsumerData) =>
 			consumersApi.create(clusterId, streamName, data),
@@ -81,6 +147,52 @@ export function CreateConsumerDialog({
 			return;
 		}
 
+		if (kind === "push" && !deliverSubject.trim()) {
+			setError("Push consumers need a deliver subject");
+			return;
+		}
+
+		const backoffSteps = backoff
+			.split(",")
+			.map((step) => step.trim())
+			.filter(Boolean)
+			.map(parseDuration);
+		if (backoffSteps.some((step) => step <= 0)) {
+			setError("Backoff steps must be durations such as 1s, 30s or 5m");
+			return;
+		}
+
+		const durations = {
+			inactiveThreshold: parseOptionalDuration(inactiveThreshold),
+			ackWait: parseOptionalDuration(ackWait),
+			idleHeartbeat: kind === "push" ? parseOptionalDuration(idleHeartbeat) : undefined,
+		};
+		if (Object.values(durations).some(Number.isNaN)) {
+			setError("Durations must look like 1s, 30s, 5m or 1h");
+			return;
+		}
+
+		const counts = {
+			maxAckPending: parseOptionalInt(maxAckPending),
+			rateLimitBps: kind === "push" ? parseOptionalInt(rateLimit) : undefined,
+			numReplicas: parseOptionalInt(replicas),
+		};
+		if (Object.values(counts).some(Number.isNaN)) {
+			setError("Max ack pending, rate limit and replicas must be whole numbers");
+			return;
+		}
+
+		const meta: Record<string, string> = {};
+		for (const row of metadata) {
+			const key = row.key.trim();
+			if (!key) continue;
+			if (key in meta) {
+				setError(`Duplicate metadata key "${key}"`);
+				return;
+			}
+			meta[key] = row.value;
+		}
+
 		const data: CreateConsumerData = {
 			name: name.trim(),
 			description: description.trim() || undefined,
@@ -88,7 +200,19 @@ export function CreateConsumerDialog({
 			deliverPolicy,
 			ackPolicy,
 			maxDeliver: Number.parseInt(maxDeliver) || -1,
+			ephemeral: ephemeral || undefined,
+			backoff: backoffSteps.length ? backoffSteps : undefined,
+			sampleFreq: sampleFreq.trim() || undefined,
+			memStorage: memStorage || undefined,
+			metadata: Object.keys(meta).length ? meta : undefined,
+			...durations,
+			...counts,
 		};
+		if (kind === "push") {
+			data.deliverSubject = deliverSubject.trim();
+			data.deliverGroup = deliverGroup.trim() || undefined;
+			data.flowControl = flowControl || undefined;
+		}
 
 		mutation.mutate(data);
 	};
@@ -101,7 +225,7 @@ export function CreateConsumerDialog({
 				onOpenChange(o);
 			}}
 		>
-			<DialogContent className="sm:max-w-[500px]">
+			<DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
 				<DialogHeader>
 					<DialogTitle>Create Consumer</DialogTitle>
 					<DialogDescription>
@@ -117,9 +241,9 @@ export function CreateConsumerDialog({
 					)}
 
 					<div className="space-y-2">
-						<Label htmlFor="name">Name *</Label>
+						<Label htmlFor={`${id}-name`}>Name *</Label>
 						<Input
-							id="name"
+							id={`${id}-name`}
 							value={name}
 							onChange={(e) => setName(e.target.value)}
 							placeholder="my-consumer"
@@ -130,9 +254,9 @@ export function CreateConsumerDialog({
 					</div>
 
 					<div className="space-y-2">
-						<Label htmlFor="description">Description</Label>
+						<Label htmlFor={`${id}-description`}>Description</Label>
 						<Textarea
-							id="description"
+							id={`${id}-description`}
 							value={description}
 							onChange={(e) => setDescription(e.target.value)}
 							placeholder="Optional description..."
@@ -141,9 +265,9 @@ export function CreateConsumerDialog({
 					</div>
 
 					<div className="space-y-2">
-						<Label htmlFor="filterSubject">Filter Subject</Label>
+						<Label htmlFor={`${id}-filter-subject`}>Filter Subject</Label>
 						<Input
-							id="filterSubject"
+							id={`${id}-filter-subject`}
 							value={filterSubject}
 							onChange={(e) => setFilterSubject(e.target.value)}
 							placeholder="orders.* or leave empty for all"
@@ -185,9 +309,9 @@ export function CreateConsumerDialog({
 					</div>
 
 					<div className="space-y-2">
-						<Label htmlFor="maxDeliver">Max Deliver</Label>
+						<Label htmlFor={`${id}-max-deliver`}>Max Deliver</Label>
 						<Input
-							id="maxDeliver"
+							id={`${id}-max-deliver`}
 							type="number"
 							value={maxDeliver}
 							onChange={(e) => setMaxDeliver(e.target.value)}
@@ -198,6 +322,182 @@ export function CreateConsumerDialog({
 						</p>
 					</div>
 
+					<div className="grid grid-cols-2 gap-4">
+						<div className="space-y-2">
+							<Label>Type</Label>
+							<Select value={kind} onValueChange={(v) => setKind(v as ConsumerKind)}>
+								<SelectTrigger>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="pull">Pull</SelectItem>
+									<SelectItem value="push">Push</SelectItem>
+								</SelectContent>
+							</Select>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor={`${id}-inactive-threshold`}>Inactive Threshold</Label>
+							<Input
+								id={`${id}-inactive-threshold`}
+								value={inactiveThreshold}
+								onChange={(e) => setInactiveThreshold(e.target.value)}
+								placeholder={ephemeral ? "5s (server default)" : "Never"}
+							/>
+						</div>
+					</div>
+
+					<div className="flex items-center gap-2">
+						<Switch id={`${id}-ephemeral`} checked={ephemeral} onCheckedChange={setEphemeral} />
+						<Label htmlFor={`${id}-ephemeral`} className="text-sm font-normal">
+							Ephemeral — removed by the server after the inactive threshold without activity
+						</Label>
+					</div>
+
+					{kind === "push" && (
+						<div className="space-y-4 rounded-lg border p-3">
+							<div className="grid grid-cols-2 gap-4">
+								<div className="space-y-2">
+									<Label htmlFor={`${id}-deliver-subject`}>Deliver Subject *</Label>
+									<Input
+										id={`${id}-deliver-subject`}
+										value={deliverSubject}
+										onChange={(e) => setDeliverSubject(e.target.value)}
+										placeholder="deliver.orders"
+									/>
+								</div>
+								<div className="space-y-2">
+									<Label htmlFor={`${id}-deliver-group`}>Deliver Group</Label>
+									<Input
+										id={`${id}-deliver-group`}
+										value={deliverGroup}
+										onChange={(e) => setDeliverGroup(e.target.value)}
+										placeholder="Queue group"
+									/>
+								</div>
+								<div className="space-y-2">
+									<Label htmlFor={`${id}-idle-heartbeat`}>Idle Heartbeat</Label>
+									<Input
+										id={`${id}-idle-heartbeat`}
+										value={idleHeartbeat}
+										onChange={(e) => setIdleHeartbeat(e.target.value)}
+										placeholder="e.g. 5s"
+									/>
+								</div>
+								<div className="space-y-2">
+									<Label htmlFor={`${id}-rate-limit`}>Rate Limit (bits/s)</Label>
+									<Input
+										id={`${id}-rate-limit`}
+										value={rateLimit}
+										onChange={(e) => setRateLimit(e.target.value)}
+										placeholder="Unlimited"
+									/>
+								</div>
+							</div>
+							<div className="flex items-center gap-2">
+								<Switch id={`${id}-flow-control`} checked={flowControl} onCheckedChange={setFlowControl} />
+								<Label htmlFor={`${id}-flow-control`} className="text-sm font-normal">
+									Flow control (requires an idle heartbeat)
+								</Label>
+							</div>
+						</div>
+					)}
+
+					<div className="grid grid-cols-2 gap-4">
+						<div className="space-y-2">
+							<Label htmlFor={`${id}-ack-wait`}>Ack Wait</Label>
+							<Input
+								id={`${id}-ack-wait`}
+								value={ackWait}
+								onChange={(e) => setAckWait(e.target.value)}
+								placeholder="30s (server default)"
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor={`${id}-backoff`}>Backoff</Label>
+							<Input
+								id={`${id}-backoff`}
+								value={backoff}
+								onChange={(e) => setBackoff(e.target.value)}
+								placeholder="e.g. 1s, 10s, 1m"
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor={`${id}-max-ack-pending`}>Max Ack Pending</Label>
+							<Input
+								id={`${id}-max-ack-pending`}
+								value={maxAckPending}
+								onChange={(e) => setMaxAckPending(e.target.value)}
+								placeholder="Server default"
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor={`${id}-sample-freq`}>Sample Frequency</Label>
+							<Input
+								id={`${id}-sample-freq`}
+								value={sampleFreq}
+								onChange={(e) => setSampleFreq(e.target.value)}
+								placeholder="e.g. 100%"
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor={`${id}-replicas`}>Replicas</Label>
+							<Input
+								id={`${id}-replicas`}
+								value={replicas}
+								onChange={(e) => setReplicas(e.target.value)}
+								placeholder="Same as stream"
+							/>
+						</div>
+						<div className="flex items-end gap-2 pb-2">
+							<Switch id={`${id}-mem-storage`} checked={memStorage} onCheckedChange={setMemStorage} />
+							<Label htmlFor={`${id}-mem-storage`} className="text-sm font-normal">
+								Memory storage
+							</Label>
+						</div>
+					</div>
+
+					<div className="space-y-2">
+						<div className="flex items-center justify-between">
+							<Label>Metadata</Label>
+							<Button
+								type="button"
+								variant="ghost"
+								size="sm"
+								onClick={() => setMetadata((rows) => [...rows, { id: newId(), key: "", value: "" }])}
+							>
+								<Plus className="mr-2 h-3 w-3" />
+								Add
+							</Button>
+						</div>
+						{metadata.map((row) => (
+							<div key={row.id} className="flex gap-2">
+								<Input
+									aria-label="Metadata key"
+									value={row.key}
+									onChange={(e) => updateMetadata(row.id, "key", e.target.value)}
+									placeholder="Key"
+									className="font-mono text-xs"
+								/>
+								<Input
+									aria-label="Metadata value"
+									value={row.value}
+									onChange={(e) => updateMetadata(row.id, "value", e.target.value)}
+									placeholder="Value"
+									className="font-mono text-xs"
+								/>
+								<Button
+									type="button"
+									variant="ghost"
+									size="icon"
+									className="shrink-0"
+									onClick={() => setMetadata((rows) => rows.filter((r) => r.id !== row.id))}
+								>
+									<X className="h-4 w-4" />
+								</Button>
+							</div>
+						))}
+					</div>
+
 					<DialogFooter>
 						<Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
 							Cancel
@@ -0,0 +1,241 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useId, useState } from "react";
+import { toast } from "sonner";
+import { formatDurationInput, parseDuration } from "@/components/streams/stream-options-fields";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { type ConsumerInfo, consumersApi, type UpdateConsumerData } from "@/lib/api";
+
+interface EditConsumerDialogProps {
+	clusterId: string;
+	consumer: ConsumerInfo;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+function ReadOnlyField({ label, value }: { label: string; value: React.ReactNode }) {
+	return (
+		<div>
+			<div className="text-xs text-muted-foreground">{label}</div>
+			<div className="text-sm font-medium capitalize">{value}</div>
+		</div>
+	);
+}
+
+function parseCount(value: string): number | undefined {
+	const trimmed = value.trim();
+	if (!trimmed) return undefined;
+	const num = Number(trimmed);
+	return Number.isInteger(num) && num >= -1 ? num : Number.NaN;
+}
+
+export function EditConsumerDialog({ clusterId, consumer, open, onOpenChange }: EditConsumerDialogProps) {
+	const queryClient = useQueryClient();
+	const id = useId();
+	const [description, setDescription] = useState("");
+	const [filterSubjects, setFilterSubjects] = useState("");
+	const [ackWait, setAckWait] = useState("");
+	const [maxDeliver, setMaxDeliver] = useState("");
+	const [maxAckPending, setMaxAckPending] = useState("");
+	const [backoff, setBackoff] = useState("");
+	const [inactiveThreshold, setInactiveThreshold] = useState("");
+	const [sampleFreq, setSampleFreq] = useState("");
+	const [error, setError] = useState("");
+
+	// The page polls consumer stats; structural sharing keeps config stable, so edits survive refreshes
+	const { config } = consumer;
+	useEffect(() => {
+		if (open) {
+			setDescription(config.description ?? "");
+			setFilterSubjects(
+				(config.filterSubjects?.length ? config.filterSubjects : config.filterSubject ? [config.filterSubject] : []).join("\n"),
+			);
+			setAckWait(formatDurationInput(config.ackWait ?? 0));
+			setMaxDeliver(String(config.maxDeliver ?? -1));
+			setMaxAckPending(config.maxAckPending !== undefined ? String(config.maxAckPending) : "");
+			setBackoff((config.backoff ?? []).map(formatDurationInput).join(", "));
+			setInactiveThreshold(formatDurationInput(config.inactiveThreshold ?? 0));
+			setSampleFreq(config.sampleFreq ?? "");
+			setError("");
+		}
+	}, [open, config]);
+
+	const mutation = useMutation({
+		mutationFn: (data: UpdateConsumerData) => consumersApi.update(clusterId, consumer.stream, consumer.name, data),
+		onSuccess: (updated) => {
+			queryClient.setQueryData(["consumer", clusterId, consumer.stream, consumer.name], updated);
+			queryClient.invalidateQueries({ queryKey: ["consumers", clusterId] });
+			queryClient.invalidateQueries({ queryKey: ["consumer-raw", clusterId, consumer.stream, consumer.name] });
+			toast.success(`Consumer "${consumer.name}" updated`);
+			onOpenChange(false);
+		},
+		onError: (err) => {
+			setError(err instanceof Error ? err.message : "Failed to update consumer");
+		},
+	});
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		setError("");
+
+		const maxDeliverValue = parseCount(maxDeliver);
+		const maxAckPendingValue = parseCount(maxAckPending);
+		if (Number.isNaN(maxDeliverValue) || Number.isNaN(maxAckPendingValue)) {
+			setError("Max Deliver and Max Ack Pending must be whole numbers, or -1 for unlimited");
+			return;
+		}
+
+		const backoffSteps = backoff
+			.split(",")
+			.map((step) => step.trim())
+			.filter(Boolean)
+			.map(parseDuration);
+		if (backoffSteps.some((step) => step <= 0)) {
+			setError("Backoff steps must be durations such as 1s, 30s or 5m");
+			return;
+		}
+
+		mutation.mutate({
+			description: description.trim(),
+			filterSubjects: filterSubjects
+				.split("\n")
+				.map((s) => s.trim())
+				.filter(Boolean),
+			ackWait: ackWait.trim() ? parseDuration(ackWait) : undefined,
+			maxDeliver: maxDeliverValue,
+			maxAckPending: maxAckPendingValue,
+			backoff: backoffSteps,
+			inactiveThreshold: inactiveThreshold.trim() ? parseDuration(inactiveThreshold) : undefined,
+			sampleFreq: sampleFreq.trim() || undefined,
+		});
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+				<form onSubmit={handleSubmit}>
+					<DialogHeader>
+						<DialogTitle>Edit Consumer</DialogTitle>
+						<DialogDescription>
+							Change the settings of "{consumer.name}" that can be updated without recreating it.
+						</DialogDescription>
+					</DialogHeader>
+
+					<div className="space-y-4 py-4">
+						{error && (
+							<div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">{error}</div>
+						)}
+
+						<div className="grid grid-cols-3 gap-4 rounded-lg border p-3">
+							<ReadOnlyField label="Name" value={consumer.name} />
+							<ReadOnlyField label="Deliver Policy" value={consumer.config.deliverPolicy?.replace(/_/g, " ")} />
+							<ReadOnlyField label="Ack Policy" value={consumer.config.ackPolicy} />
+						</div>
+
+						<div className="space-y-2">
+							<Label htmlFor={`${id}-description`}>Description</Label>
+							<Textarea
+								id={`${id}-description`}
+								value={description}
+								onChange={(e) => setDescription(e.target.value)}
+								rows={2}
+							/>
+						</div>
+
+						<div className="space-y-2">
+							<Label htmlFor={`${id}-filters`}>Filter Subjects</Label>
+							<Textarea
+								id={`${id}-filters`}
+								value={filterSubjects}
+								onChange={(e) => setFilterSubjects(e.target.value)}
+								placeholder="One subject per line, empty for all subjects"
+								className="font-mono text-sm"
+								rows={3}
+							/>
+						</div>
+
+						<div className="grid grid-cols-2 gap-4">
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-ack-wait`}>Ack Wait</Label>
+								<Input
+									id={`${id}-ack-wait`}
+									value={ackWait}
+									onChange={(e) => setAckWait(e.target.value)}
+									placeholder="e.g. 30s"
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-max-deliver`}>Max Deliver</Label>
+								<Input
+									id={`${id}-max-deliver`}
+									value={maxDeliver}
+									onChange={(e) => setMaxDeliver(e.target.value)}
+									placeholder="-1 (unlimited)"
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-max-ack-pending`}>Max Ack Pending</Label>
+								<Input
+									id={`${id}-max-ack-pending`}
+									value={maxAckPending}
+									onChange={(e) => setMaxAckPending(e.target.value)}
+									placeholder="Server default"
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-inactive`}>Inactive Threshold</Label>
+								<Input
+									id={`${id}-inactive`}
+									value={inactiveThreshold}
+									onChange={(e) => setInactiveThreshold(e.target.value)}
+									placeholder="e.g. 5m"
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-backoff`}>Backoff</Label>
+								<Input
+									id={`${id}-backoff`}
+									value={backoff}
+									onChange={(e) => setBackoff(e.target.value)}
+									placeholder="e.g. 1s, 10s, 1m"
+								/>
+								<p className="text-xs text-muted-foreground">
+									Redelivery delays; replaces Ack Wait when set
+								</p>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-sample`}>Sample Frequency</Label>
+								<Input
+									id={`${id}-sample`}
+									value={sampleFreq}
+									onChange={(e) => setSampleFreq(e.target.value)}
+									placeholder="e.g. 100%"
+								/>
+								<p className="text-xs text-muted-foreground">Share of acks reported as advisories</p>
+							</div>
+						</div>
+					</div>
+
+					<DialogFooter>
+						<Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={mutation.isPending}>
+							{mutation.isPending ? "Saving..." : "Save Changes"}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
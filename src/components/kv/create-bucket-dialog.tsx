@@ -1,5 +1,5 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { useState } from "react";
+import { useId, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
 	Dialog,
@@ -18,6 +18,7 @@ import {
 	SelectTrigger,
 	SelectValue,
 } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import { kvApi, type CreateKvBucketData } from "@/lib/api";
 
@@ -33,6 +34,7 @@ export function CreateKvBucketDialog({
 	onOpenChange,
 }: CreateKvBucketDialogProps) {
 	const queryClient = useQueryClient();
+	const id = useId();
 	const [name, setName] = useState("");
 	const [description, setDescription] = useState("");
 	const [storage, setStorage] = useState<"file" | "memory">("file");
@@ -41,6 +43,8 @@ export function CreateKvBucketDialog({
 	const [maxBytes, setMaxBytes] = useState("");
 	const [maxValueSize, setMaxValueSize] = useState("");
 	const [replicas, setReplicas] = useState("1");
+	const [allowMsgTtl, setAllowMsgTtl] = useState(false);
+	const [limitMarkerTtl, setLimitMarkerTtl] = useState("");
 	const [error, setError] = useState("");
 
 	const createMutation = useMutation({
@@ -64,6 +68,8 @@ export function CreateKvBucketDialog({
 		setMaxBytes("");
 		setMaxValueSize("");
 		setReplicas("1");
+		setAllowMsgTtl(false);
+		setLimitMarkerTtl("");
 		setError("");
 	};
 
@@ -140,6 +146,17 @@ export function CreateKvBucketDialog({
 			data.maxValueSize = parseBytes(maxValueSize);
 		}
 
+		if (allowMsgTtl) {
+			data.allowMsgTtl = true;
+			if (limitMarkerTtl.trim()) {
+				data.limitMarkerTtl = parseDuration(limitMarkerTtl);
+				if (data.limitMarkerTtl < 1_000_000_000) {
+					setError("Limit markers must be kept for at least 1s");
+					return;
+				}
+			}
+		}
+
 		createMutation.mutate(data);
 	};
 
@@ -161,9 +178,9 @@ export function CreateKvBucketDialog({
 					)}
 
 					<div className="space-y-2">
-						<Label htmlFor="name">Name *</Label>
+						<Label htmlFor={`${id}-name`}>Name *</Label>
 						<Input
-							id="name"
+							id={`${id}-name`}
 							value={name}
 							onChange={(e) => setName(e.target.value)}
 							placeholder="my-bucket"
@@ -175,9 +192,9 @@ export function CreateKvBucketDialog({
 					</div>
 
 					<div className="space-y-2">
-						<Label htmlFor="description">Description</Label>
+						<Label htmlFor={`${id}-description`}>Description</Label>
 						<Textarea
-							id="description"
+							id={`${id}-description`}
 							value={description}
 							onChange={(e) => setDescription(e.target.value)}
 							placeholder="Optional description..."
@@ -217,9 +234,9 @@ export function CreateKvBucketDialog({
 
 					<div className="grid grid-cols-2 gap-4">
 						<div className="space-y-2">
-							<Label htmlFor="ttl">TTL</Label>
+							<Label htmlFor={`${id}-ttl`}>TTL</Label>
 							<Input
-								id="ttl"
+								id={`${id}-ttl`}
 								value={ttl}
 								onChange={(e) => setTtl(e.target.value)}
 								placeholder="e.g. 1h, 7d"
@@ -243,9 +260,9 @@ export function CreateKvBucketDialog({
 
 					<div className="grid grid-cols-2 gap-4">
 						<div className="space-y-2">
-							<Label htmlFor="maxBytes">Max Size</Label>
+							<Label htmlFor={`${id}-max-bytes`}>Max Size</Label>
 							<Input
-								id="maxBytes"
+								id={`${id}-max-bytes`}
 								value={maxBytes}
 								onChange={(e) => setMaxBytes(e.target.value)}
 								placeholder="e.g. 1GB"
@@ -253,9 +270,9 @@ export function CreateKvBucketDialog({
 						</div>
 
 						<div className="space-y-2">
-							<Label htmlFor="maxValueSize">Max Value Size</Label>
+							<Label htmlFor={`${id}-max-value-size`}>Max Value Size</Label>
 							<Input
-								id="maxValueSize"
+								id={`${id}-max-value-size`}
 								value={maxValueSize}
 								onChange={(e) => setMaxValueSize(e.target.value)}
 								placeholder="e.g. 1MB"
@@ -263,6 +280,29 @@ export function CreateKvBucketDialog({
 						</div>
 					</div>
 
+					<div className="space-y-3 rounded-lg border p-3">
+						<div className="flex items-center gap-2">
+							<Switch id={`${id}-allow-msg-ttl`} checked={allowMsgTtl} onCheckedChange={setAllowMsgTtl} />
+							<Label htmlFor={`${id}-allow-msg-ttl`} className="text-sm font-normal">
+								Allow per-key TTL (NATS Server 2.11+)
+							</Label>
+						</div>
+						{allowMsgTtl && (
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-limit-marker-ttl`}>Limit Markers</Label>
+								<Input
+									id={`${id}-limit-marker-ttl`}
+									value={limitMarkerTtl}
+									onChange={(e) => setLimitMarkerTtl(e.target.value)}
+									placeholder="Off, or how long to keep them, e.g. 15m"
+								/>
+								<p className="text-xs text-muted-foreground">
+									Leaves a marker when a key expires or is removed by a limit, so watchers see it go
+								</p>
+							</div>
+						)}
+					</div>
+
 					<DialogFooter>
 						<Button
 							type="button"
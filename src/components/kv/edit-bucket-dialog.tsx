@@ -0,0 +1,294 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useId, useState } from "react";
+import { toast } from "sonner";
+import { diffConfigs, StreamConfigDiff } from "@/components/streams/stream-config-diff";
+import {
+	formatBytesInput,
+	formatDurationInput,
+	parseBytes,
+	parseDuration,
+} from "@/components/streams/stream-options-fields";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { type KvBucketInfo, kvApi, type UpdateKvBucketData } from "@/lib/api";
+
+interface EditKvBucketDialogProps {
+	clusterId: string;
+	bucket: KvBucketInfo;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+export function EditKvBucketDialog({ clusterId, bucket, open, onOpenChange }: EditKvBucketDialogProps) {
+	const queryClient = useQueryClient();
+	const id = useId();
+	const [description, setDescription] = useState("");
+	const [history, setHistory] = useState("1");
+	const [ttl, setTtl] = useState("");
+	const [maxBytes, setMaxBytes] = useState("");
+	const [maxValueSize, setMaxValueSize] = useState("");
+	const [replicas, setReplicas] = useState("1");
+	const [allowMsgTtl, setAllowMsgTtl] = useState(false);
+	const [limitMarkerTtl, setLimitMarkerTtl] = useState("");
+	const [error, setError] = useState("");
+	const [pending, setPending] = useState<UpdateKvBucketData | null>(null);
+	const [applyError, setApplyError] = useState("");
+
+	// Prefill from the current config each time the dialog opens
+	useEffect(() => {
+		if (!open) return;
+		setDescription(bucket.description ?? "");
+		setHistory(String(bucket.history));
+		setTtl(formatDurationInput(bucket.ttl));
+		setMaxBytes(formatBytesInput(bucket.maxBytes));
+		setMaxValueSize(formatBytesInput(bucket.maxValueSize));
+		setReplicas(String(bucket.replicas));
+		setAllowMsgTtl(!!bucket.allowMsgTtl);
+		setLimitMarkerTtl(formatDurationInput(bucket.limitMarkerTtl ?? 0));
+		setError("");
+		setPending(null);
+		setApplyError("");
+	}, [open, bucket]);
+
+	// Resolve the change against the live config so the diff shows what the server will receive
+	const previewMutation = useMutation({
+		mutationFn: (data: UpdateKvBucketData) => kvApi.previewUpdate(clusterId, bucket.name, data),
+		onSuccess: (_, data) => {
+			setPending(data);
+			setApplyError("");
+		},
+		onError: (err) => {
+			setError(err instanceof Error ? err.message : "Failed to preview changes");
+		},
+	});
+
+	const updateMutation = useMutation({
+		mutationFn: (data: UpdateKvBucketData) => kvApi.updateBucket(clusterId, bucket.name, data),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["kv-bucket", clusterId, bucket.name] });
+			queryClient.invalidateQueries({ queryKey: ["kv-buckets", clusterId] });
+			toast.success(`Bucket "${bucket.name}" updated`);
+			onOpenChange(false);
+		},
+		onError: (err) => {
+			setApplyError(err instanceof Error ? err.message : "Failed to update bucket");
+		},
+	});
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		setError("");
+
+		const historyValue = Number(history);
+		if (!Number.isInteger(historyValue) || historyValue < 1 || historyValue > 64) {
+			setError("History must be between 1 and 64 revisions");
+			return;
+		}
+
+		const data: UpdateKvBucketData = {
+			description: description.trim(),
+			history: historyValue,
+			ttl: parseDuration(ttl),
+			maxBytes: parseBytes(maxBytes),
+			maxValueSize: parseBytes(maxValueSize),
+			replicas: Number.parseInt(replicas, 10) || 1,
+		};
+
+		if (allowMsgTtl) {
+			if (!bucket.allowMsgTtl) {
+				data.allowMsgTtl = true;
+			}
+			data.limitMarkerTtl = parseDuration(limitMarkerTtl);
+			if (data.limitMarkerTtl > 0 && data.limitMarkerTtl < 1_000_000_000) {
+				setError("Limit markers must be kept for at least 1s");
+				return;
+			}
+		}
+
+		previewMutation.mutate(data);
+	};
+
+	const diffRows = previewMutation.data
+		? diffConfigs(previewMutation.data.current, previewMutation.data.proposed)
+		: [];
+	const hasChanges = diffRows.some((row) => row.changed);
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>{pending ? "Review Changes" : "Edit Bucket"}</DialogTitle>
+					<DialogDescription>
+						{pending
+							? `Compare the current and new configuration of the KV_${bucket.name} stream before applying.`
+							: `Update the configuration of "${bucket.name}". The name and storage type are fixed.`}
+					</DialogDescription>
+				</DialogHeader>
+
+				{pending ? (
+					<div className="space-y-4">
+						<StreamConfigDiff rows={diffRows} error={applyError} />
+
+						<DialogFooter>
+							<Button
+								type="button"
+								variant="outline"
+								onClick={() => setPending(null)}
+								disabled={updateMutation.isPending}
+							>
+								Back
+							</Button>
+							<Button
+								onClick={() => updateMutation.mutate(pending)}
+								disabled={updateMutation.isPending || !hasChanges}
+							>
+								{updateMutation.isPending ? "Applying..." : "Apply Changes"}
+							</Button>
+						</DialogFooter>
+					</div>
+				) : (
+					<form onSubmit={handleSubmit} className="space-y-4">
+						{error && (
+							<div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+								{error}
+							</div>
+						)}
+
+						<div className="grid grid-cols-2 gap-4 rounded-lg border p-3">
+							<div>
+								<div className="text-xs text-muted-foreground">Name</div>
+								<div className="text-sm font-medium">{bucket.name}</div>
+							</div>
+							<div>
+								<div className="text-xs text-muted-foreground">Storage</div>
+								<div className="text-sm font-medium capitalize">{bucket.storage}</div>
+							</div>
+						</div>
+
+						<div className="space-y-2">
+							<Label htmlFor={`${id}-description`}>Description</Label>
+							<Textarea
+								id={`${id}-description`}
+								value={description}
+								onChange={(e) => setDescription(e.target.value)}
+								placeholder="Optional description..."
+								rows={2}
+							/>
+						</div>
+
+						<div className="grid grid-cols-2 gap-4">
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-history`}>History</Label>
+								<Input
+									id={`${id}-history`}
+									type="number"
+									min={1}
+									max={64}
+									value={history}
+									onChange={(e) => setHistory(e.target.value)}
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-ttl`}>TTL</Label>
+								<Input
+									id={`${id}-ttl`}
+									value={ttl}
+									onChange={(e) => setTtl(e.target.value)}
+									placeholder="None, or e.g. 1h, 7d"
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-max-bytes`}>Max Size</Label>
+								<Input
+									id={`${id}-max-bytes`}
+									value={maxBytes}
+									onChange={(e) => setMaxBytes(e.target.value)}
+									placeholder="Unlimited, or e.g. 1GB"
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-max-value-size`}>Max Value Size</Label>
+								<Input
+									id={`${id}-max-value-size`}
+									value={maxValueSize}
+									onChange={(e) => setMaxValueSize(e.target.value)}
+									placeholder="Unlimited, or e.g. 1MB"
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label>Replicas</Label>
+								<Select value={replicas} onValueChange={setReplicas}>
+									<SelectTrigger>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value="1">1</SelectItem>
+										<SelectItem value="3">3</SelectItem>
+										<SelectItem value="5">5</SelectItem>
+									</SelectContent>
+								</Select>
+							</div>
+						</div>
+						<p className="text-xs text-muted-foreground">
+							Lowering the history, TTL or max size removes the revisions and keys that no longer fit.
+						</p>
+
+						<div className="space-y-3 rounded-lg border p-3">
+							<div className="flex items-center gap-2">
+								<Switch
+									id={`${id}-allow-msg-ttl`}
+									checked={allowMsgTtl}
+									onCheckedChange={setAllowMsgTtl}
+									disabled={bucket.allowMsgTtl}
+								/>
+								<Label htmlFor={`${id}-allow-msg-ttl`} className="text-sm font-normal">
+									{bucket.allowMsgTtl
+										? "Per-key TTL is allowed and cannot be turned off"
+										: "Allow per-key TTL (NATS Server 2.11+, cannot be turned off again)"}
+								</Label>
+							</div>
+							{allowMsgTtl && (
+								<div className="space-y-2">
+									<Label htmlFor={`${id}-limit-marker-ttl`}>Limit Markers</Label>
+									<Input
+										id={`${id}-limit-marker-ttl`}
+										value={limitMarkerTtl}
+										onChange={(e) => setLimitMarkerTtl(e.target.value)}
+										placeholder="Off, or how long to keep them, e.g. 15m"
+									/>
+								</div>
+							)}
+						</div>
+
+						<DialogFooter>
+							<Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+								Cancel
+							</Button>
+							<Button type="submit" disabled={previewMutation.isPending}>
+								{previewMutation.isPending ? "Loading..." : "Review Changes"}
+							</Button>
+						</DialogFooter>
+					</form>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+}
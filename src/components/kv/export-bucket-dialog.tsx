@@ -0,0 +1,101 @@
+import { Download } from "lucide-react";
+import { useEffect, useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { kvApi } from "@/lib/api";
+
+interface ExportBucketDialogProps {
+	clusterId: string;
+	bucket: string;
+	// Prefills the filter, e.g. with the search on the bucket page
+	initialFilter?: string;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+export function ExportBucketDialog({ clusterId, bucket, initialFilter, open, onOpenChange }: ExportBucketDialogProps) {
+	const id = useId();
+	const [format, setFormat] = useState<"json" | "ndjson">("json");
+	const [filter, setFilter] = useState("");
+
+	useEffect(() => {
+		if (open) {
+			setFilter(initialFilter ?? "");
+		}
+	}, [open, initialFilter]);
+
+	const handleExport = () => {
+		// The backend streams the export as an attachment
+		const link = document.createElement("a");
+		link.href = kvApi.getExportUrl(clusterId, bucket, format, filter.trim() || undefined);
+		link.download = `${bucket}.${format}`;
+		document.body.appendChild(link);
+		link.click();
+		document.body.removeChild(link);
+		onOpenChange(false);
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>Export Keys</DialogTitle>
+					<DialogDescription>
+						Download the current value, revision and timestamp of each key in "{bucket}".
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-4">
+					<div className="space-y-2">
+						<Label htmlFor={`${id}-format`}>Format</Label>
+						<Select value={format} onValueChange={(v) => setFormat(v as "json" | "ndjson")}>
+							<SelectTrigger id={`${id}-format`}>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="json">JSON document</SelectItem>
+								<SelectItem value="ndjson">NDJSON (one key per line)</SelectItem>
+							</SelectContent>
+						</Select>
+					</div>
+					<div className="space-y-2">
+						<Label htmlFor={`${id}-filter`}>Keys</Label>
+						<Input
+							id={`${id}-filter`}
+							value={filter}
+							onChange={(e) => setFilter(e.target.value)}
+							placeholder="All keys, or a prefix / filter such as config.tenant42.>"
+							className="font-mono text-sm"
+						/>
+					</div>
+				</div>
+
+				<DialogFooter>
+					<Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+						Cancel
+					</Button>
+					<Button onClick={handleExport}>
+						<Download className="h-4 w-4 mr-2" />
+						Export
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,364 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { FileUp } from "lucide-react";
+import { useEffect, useId, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import {
+	type KvImportMode,
+	type KvImportPlan,
+	type KvImportPlanItem,
+	type KvImportResult,
+	type KvTransferEntry,
+	kvApi,
+} from "@/lib/api";
+
+interface ImportBucketDialogProps {
+	clusterId: string;
+	bucket: string;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	onImported?: () => void;
+}
+
+// Entries sent per request, matching the server's limit
+const BATCH_SIZE = 1000;
+
+// Rows listed in the preview and report; the counts always cover the whole file
+const MAX_ROWS = 500;
+
+const modeDescriptions: Record<KvImportMode, string> = {
+	overwrite: "Write every key, replacing existing values",
+	skip: "Only create keys that do not exist yet",
+	revision: "Only write keys whose current revision matches the file, e.g. to restore an export of this bucket",
+};
+
+const actionVariants: Record<KvImportPlanItem["action"], "default" | "secondary" | "outline" | "destructive"> = {
+	create: "default",
+	update: "secondary",
+	unchanged: "outline",
+	skip: "outline",
+	conflict: "destructive",
+};
+
+type ImportReport = Omit<KvImportResult, "results"> & { failures: KvImportResult["results"] };
+
+function isTransferEntry(value: unknown): value is KvTransferEntry {
+	const entry = value as KvTransferEntry;
+	return typeof entry?.key === "string" && typeof entry.value === "string";
+}
+
+// Accept an export document, a plain array of entries, or NDJSON
+function parseImportFile(content: string): KvTransferEntry[] {
+	const trimmed = content.trim();
+	let entries: unknown[];
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(trimmed);
+	} catch {
+		// Not a single JSON value, so read it as one entry per line
+		parsed = undefined;
+	}
+
+	if (parsed === undefined) {
+		entries = trimmed
+			.split("\n")
+			.filter((line) => line.trim())
+			.map((line, i) => {
+				try {
+					return JSON.parse(line);
+				} catch {
+					throw new Error(`Line ${i + 1} is not valid JSON`);
+				}
+			});
+	} else if (Array.isArray(parsed)) {
+		entries = parsed;
+	} else if (Array.isArray((parsed as { entries?: unknown } | null)?.entries)) {
+		entries = (parsed as { entries: unknown[] }).entries;
+	} else if (isTransferEntry(parsed)) {
+		entries = [parsed];
+	} else {
+		throw new Error('Expected an export file, an array of entries or one entry per line');
+	}
+
+	const invalid = entries.findIndex((entry) => !isTransferEntry(entry));
+	if (invalid !== -1) {
+		throw new Error(`Entry ${invalid + 1} needs a string "key" and "value"`);
+	}
+	return entries as KvTransferEntry[];
+}
+
+export function ImportBucketDialog({ clusterId, bucket, open, onOpenChange, onImported }: ImportBucketDialogProps) {
+	const queryClient = useQueryClient();
+	const id = useId();
+	const [fileName, setFileName] = useState("");
+	const [entries, setEntries] = useState<KvTransferEntry[]>([]);
+	const [mode, setMode] = useState<KvImportMode>("overwrite");
+	const [plan, setPlan] = useState<KvImportPlan | null>(null);
+	const [report, setReport] = useState<ImportReport | null>(null);
+	const [progress, setProgress] = useState(0);
+	const [error, setError] = useState("");
+
+	useEffect(() => {
+		if (open) {
+			setFileName("");
+			setEntries([]);
+			setMode("overwrite");
+			setPlan(null);
+			setReport(null);
+			setProgress(0);
+			setError("");
+		}
+	}, [open]);
+
+	const planMutation = useMutation({
+		mutationFn: async () => {
+			const combined: KvImportPlan = {
+				items: [],
+				summary: { create: 0, update: 0, unchanged: 0, skip: 0, conflict: 0 },
+			};
+			setProgress(0);
+			for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+				const batch = await kvApi.planImport(clusterId, bucket, mode, entries.slice(i, i + BATCH_SIZE));
+				for (const [action, count] of Object.entries(batch.summary)) {
+					combined.summary[action as KvImportPlanItem["action"]] += count;
+				}
+				const rows = batch.items.filter((item) => item.action !== "unchanged");
+				combined.items.push(...rows.slice(0, MAX_ROWS - combined.items.length));
+				setProgress(Math.min(i + BATCH_SIZE, entries.length));
+			}
+			return combined;
+		},
+		onSuccess: (result) => {
+			setPlan(result);
+			setError("");
+		},
+		onError: (err) => {
+			setError(err instanceof Error ? err.message : "Failed to preview the import");
+		},
+	});
+
+	const applyMutation = useMutation({
+		mutationFn: async () => {
+			const combined: ImportReport = { applied: 0, skipped: 0, failed: 0, failures: [] };
+			setProgress(0);
+			for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+				const batch = await kvApi.applyImport(clusterId, bucket, mode, entries.slice(i, i + BATCH_SIZE));
+				combined.applied += batch.applied;
+				combined.skipped += batch.skipped;
+				combined.failed += batch.failed;
+				const failures = batch.results.filter((r) => r.status === "failed");
+				combined.failures.push(...failures.slice(0, MAX_ROWS - combined.failures.length));
+				setProgress(Math.min(i + BATCH_SIZE, entries.length));
+			}
+			return combined;
+		},
+		onSuccess: (result) => {
+			setReport(result);
+			queryClient.invalidateQueries({ queryKey: ["kv-bucket", clusterId, bucket] });
+			onImported?.();
+			if (result.failed > 0) {
+				toast.error(`Imported ${result.applied} key(s), ${result.failed} failed`);
+			} else {
+				toast.success(`Imported ${result.applied} key(s) into "${bucket}"`);
+			}
+		},
+		onError: (err) => {
+			setError(err instanceof Error ? err.message : "Failed to import keys");
+			// Earlier batches may have been written already
+			onImported?.();
+		},
+	});
+
+	const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		if (!file) return;
+		setFileName(file.name);
+		setPlan(null);
+		try {
+			setEntries(parseImportFile(await file.text()));
+			setError("");
+		} catch (err) {
+			setEntries([]);
+			setError(err instanceof Error ? `Could not read ${file.name}: ${err.message}` : "Could not read the file");
+		}
+	};
+
+	const busy = planMutation.isPending || applyMutation.isPending;
+	const pendingWrites = plan ? plan.summary.create + plan.summary.update : 0;
+	// The preview lists what will change; the report lists what failed
+	const rows: Array<KvImportPlanItem & { error?: string }> = report ? report.failures : (plan?.items ?? []);
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>Import Keys</DialogTitle>
+					<DialogDescription>
+						Upsert keys into "{bucket}" from a JSON or NDJSON export. Nothing is written until you confirm
+						the preview.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-4">
+					{error && (
+						<div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive whitespace-pre-line">
+							{error}
+						</div>
+					)}
+
+					{!plan ? (
+						<>
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-file`}>Export File</Label>
+								<Input
+									id={`${id}-file`}
+									type="file"
+									accept=".json,.ndjson,.jsonl,application/json,application/x-ndjson"
+									onChange={handleFile}
+								/>
+								{fileName && entries.length > 0 && (
+									<p className="text-xs text-muted-foreground">
+										{entries.length} key(s) in {fileName}
+									</p>
+								)}
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-mode`}>Existing Keys</Label>
+								<Select value={mode} onValueChange={(v) => setMode(v as KvImportMode)}>
+									<SelectTrigger id={`${id}-mode`}>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value="overwrite">Overwrite</SelectItem>
+										<SelectItem value="skip">Skip existing</SelectItem>
+										<SelectItem value="revision">Only if the revision matches</SelectItem>
+									</SelectContent>
+								</Select>
+								<p className="text-xs text-muted-foreground">{modeDescriptions[mode]}</p>
+							</div>
+						</>
+					) : (
+						<>
+							<div className="flex flex-wrap gap-2">
+								<Badge>{plan.summary.create} create</Badge>
+								<Badge variant="secondary">{plan.summary.update} update</Badge>
+								<Badge variant="outline">{plan.summary.unchanged} unchanged</Badge>
+								{plan.summary.skip > 0 && <Badge variant="outline">{plan.summary.skip} skip</Badge>}
+								{plan.summary.conflict > 0 && (
+									<Badge variant="destructive">{plan.summary.conflict} conflict</Badge>
+								)}
+							</div>
+
+							{report && (
+								<div className="rounded-md bg-muted p-3 text-sm">
+									Imported {report.applied} key(s), skipped {report.skipped}
+									{report.failed > 0 && <span className="text-destructive">, {report.failed} failed</span>}
+								</div>
+							)}
+
+							{rows.length > 0 && (
+								<div className="rounded-md border">
+									<Table>
+										<TableHeader>
+											<TableRow>
+												<TableHead>Key</TableHead>
+												<TableHead className="w-[110px]">Action</TableHead>
+												<TableHead>Details</TableHead>
+											</TableRow>
+										</TableHeader>
+										<TableBody>
+											{rows.map((item, i) => (
+												<TableRow key={`${item.key}-${i}`}>
+													<TableCell className="font-mono text-xs break-all">{item.key}</TableCell>
+													<TableCell>
+														<Badge variant={actionVariants[item.action]} className="capitalize">
+															{item.action}
+														</Badge>
+													</TableCell>
+													<TableCell className="text-xs">
+														{item.error ? (
+															<span className="text-destructive">Failed: {item.error}</span>
+														) : (
+															<span className="text-muted-foreground">
+																{item.reason ??
+																	(item.currentRevision ? `Current revision ${item.currentRevision}` : "New key")}
+															</span>
+														)}
+													</TableCell>
+												</TableRow>
+											))}
+										</TableBody>
+									</Table>
+								</div>
+							)}
+							{rows.length === MAX_ROWS && (
+								<p className="text-xs text-muted-foreground">Showing the first {MAX_ROWS} rows</p>
+							)}
+						</>
+					)}
+
+					{busy && entries.length > BATCH_SIZE && (
+						<div className="space-y-1">
+							<Progress value={progress} max={entries.length} />
+							<p className="text-xs text-muted-foreground">
+								{progress} of {entries.length} key(s) {applyMutation.isPending ? "imported" : "checked"}
+							</p>
+						</div>
+					)}
+				</div>
+
+				<DialogFooter>
+					{!plan ? (
+						<>
+							<Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+								Cancel
+							</Button>
+							<Button onClick={() => planMutation.mutate()} disabled={entries.length === 0 || busy}>
+								<FileUp className="h-4 w-4 mr-2" />
+								{planMutation.isPending ? "Checking..." : "Preview"}
+							</Button>
+						</>
+					) : report ? (
+						<Button onClick={() => onOpenChange(false)}>Done</Button>
+					) : (
+						<>
+							<Button type="button" variant="outline" onClick={() => setPlan(null)} disabled={busy}>
+								Back
+							</Button>
+							<Button onClick={() => applyMutation.mutate()} disabled={pendingWrites === 0 || busy}>
+								{applyMutation.isPending ? "Importing..." : `Import ${pendingWrites} Key(s)`}
+							</Button>
+						</>
+					)}
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
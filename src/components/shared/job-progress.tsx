@@ -0,0 +1,68 @@
+import { useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { Progress } from "@/components/ui/progress";
+import { type Job, jobsApi } from "@/lib/api";
+
+interface JobProgressProps {
+	jobId: string;
+	onFinished?: (job: Job) => void;
+}
+
+const verbs: Record<Job["kind"], string> = {
+	backup: "Backed up",
+	restore: "Restored",
+	copy: "Copied",
+	move: "Moved",
+};
+
+// Polls a job until it completes or fails
+export function JobProgress({ jobId, onFinished }: JobProgressProps) {
+	const { data: job, error } = useQuery({
+		queryKey: ["job", jobId],
+		queryFn: () => jobsApi.get(jobId),
+		refetchInterval: (query) => (query.state.data?.status === "running" ? 500 : false),
+	});
+
+	const status = job?.status;
+	// biome-ignore lint/correctness/useExhaustiveDependencies: Fire once when the job leaves the running state
+	useEffect(() => {
+		if (job && status !== "running") {
+			onFinished?.(job);
+		}
+	}, [status]);
+
+	if (error) {
+		return (
+			<div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+				{error instanceof Error ? error.message : "Failed to load progress"}
+			</div>
+		);
+	}
+
+	const processed = job?.processed ?? 0;
+	const total = job?.total ?? 0;
+	const verb = job ? verbs[job.kind] : "Processed";
+
+	return (
+		<div className="space-y-2">
+			<Progress value={status === "completed" ? 1 : processed} max={status === "completed" ? 1 : Math.max(total, 1)} />
+			<div className="flex justify-between text-xs text-muted-foreground">
+				<span>
+					{verb} {processed.toLocaleString()} of {total.toLocaleString()} messages
+				</span>
+				<span className={status === "failed" ? "text-destructive" : undefined}>
+					{status === "completed" ? "Done" : status === "failed" ? "Failed" : "Running..."}
+				</span>
+			</div>
+			{!!job?.skipped && (
+				<div className="text-xs text-muted-foreground">
+					{job.skipped.toLocaleString()} already held by the target under the same message ID
+					{job.kind === "move" ? " and left in the source" : " and not copied"}
+				</div>
+			)}
+			{job?.error && (
+				<div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">{job.error}</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,203 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Copy, Pencil, RefreshCw } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import type { RawJetStreamInfo } from "@/lib/api";
+
+interface RawJsonTabProps {
+	// "Stream" or "Consumer", used in titles and messages
+	kind: string;
+	queryKey: unknown[];
+	fetchInfo: () => Promise<RawJetStreamInfo>;
+	applyConfig: (config: Record<string, unknown>) => Promise<RawJetStreamInfo>;
+	// Queries to refresh once a config is applied
+	invalidateKeys?: unknown[][];
+}
+
+export function RawJsonTab({ kind, queryKey, fetchInfo, applyConfig, invalidateKeys = [] }: RawJsonTabProps) {
+	const queryClient = useQueryClient();
+	const [draft, setDraft] = useState<string | null>(null);
+	const [error, setError] = useState("");
+
+	const { data: info, isLoading, isFetching, refetch, error: loadError } = useQuery({
+		queryKey,
+		queryFn: fetchInfo,
+	});
+
+	const applyMutation = useMutation({
+		mutationFn: (config: Record<string, unknown>) => applyConfig(config),
+		onSuccess: (updated) => {
+			queryClient.setQueryData(queryKey, updated);
+			for (const key of invalidateKeys) {
+				queryClient.invalidateQueries({ queryKey: key });
+			}
+			toast.success(`${kind} configuration applied`);
+			setDraft(null);
+		},
+		onError: (err) => {
+			setError(err instanceof Error ? err.message : `Failed to update ${kind.toLowerCase()}`);
+		},
+	});
+
+	const startEditing = () => {
+		if (!info) return;
+		setDraft(JSON.stringify(info.config, null, 2));
+		setError("");
+	};
+
+	const handleApply = () => {
+		if (draft === null) return;
+
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(draft);
+		} catch (err) {
+			setError(`Invalid JSON: ${err instanceof Error ? err.message : "parse error"}`);
+			return;
+		}
+		if (parsed === null || typeof parsed !== "object" || Array.isArray(parsed)) {
+			setError("The config must be a JSON object");
+			return;
+		}
+
+		setError("");
+		applyMutation.mutate(parsed as Record<string, unknown>);
+	};
+
+	const copyJson = (value: unknown) => {
+		navigator.clipboard.writeText(JSON.stringify(value, null, 2));
+		toast.success("Copied to clipboard");
+	};
+
+	if (isLoading) {
+		return (
+			<Card>
+				<CardHeader>
+					<Skeleton className="h-6 w-32" />
+				</CardHeader>
+				<CardContent>
+					<Skeleton className="h-64 w-full" />
+				</CardContent>
+			</Card>
+		);
+	}
+
+	if (loadError || !info) {
+		return (
+			<Card>
+				<CardHeader>
+					<CardTitle>{kind} JSON</CardTitle>
+					<CardDescription className="text-destructive">
+						{loadError instanceof Error ? loadError.message : `Failed to load ${kind.toLowerCase()} info`}
+					</CardDescription>
+				</CardHeader>
+			</Card>
+		);
+	}
+
+	return (
+		<>
+			<Card>
+				<CardHeader className="flex flex-row items-start justify-between space-y-0">
+					<div className="space-y-1.5">
+						<CardTitle>{kind}Config</CardTitle>
+						<CardDescription>
+							{draft === null
+								? "The configuration as stored by the server"
+								: "Edit the configuration and apply it. The server rejects changes to fields that are fixed after creation."}
+						</CardDescription>
+					</div>
+					{draft === null && (
+						<div className="flex gap-2">
+							<Button variant="outline" size="sm" onClick={() => copyJson(info.config)}>
+								<Copy className="h-4 w-4 mr-2" />
+								Copy
+							</Button>
+							<Button size="sm" onClick={startEditing}>
+								<Pencil className="h-4 w-4 mr-2" />
+								Edit
+							</Button>
+						</div>
+					)}
+				</CardHeader>
+				<CardContent className="space-y-4">
+					{draft === null ? (
+						<pre className="max-h-[480px] overflow-auto rounded-md bg-muted p-4 font-mono text-xs">
+							{JSON.stringify(info.config, null, 2)}
+						</pre>
+					) : (
+						<>
+							{error && (
+								<div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive whitespace-pre-line">
+									{error}
+								</div>
+							)}
+							<Textarea
+								aria-label={`${kind} config JSON`}
+								value={draft}
+								onChange={(e) => setDraft(e.target.value)}
+								className="min-h-[420px] font-mono text-xs"
+								spellCheck={false}
+							/>
+							<div className="flex justify-end gap-2">
+								<Button
+									variant="outline"
+									onClick={() => setDraft(null)}
+									disabled={applyMutation.isPending}
+								>
+									Cancel
+								</Button>
+								<Button
+									variant="outline"
+									onClick={startEditing}
+									disabled={applyMutation.isPending}
+								>
+									Reset
+								</Button>
+								<Button onClick={handleApply} disabled={applyMutation.isPending}>
+									{applyMutation.isPending ? "Applying..." : "Apply"}
+								</Button>
+							</div>
+						</>
+					)}
+				</CardContent>
+			</Card>
+
+			<Card>
+				<CardHeader className="flex flex-row items-start justify-between space-y-0">
+					<div className="space-y-1.5">
+						<CardTitle>{kind}Info</CardTitle>
+						<CardDescription>
+							The full response from the JetStream API, as shown by <code>nats {kind.toLowerCase()} info --json</code>
+						</CardDescription>
+					</div>
+					<div className="flex gap-2">
+						<Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+							<RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+							Refresh
+						</Button>
+						<Button variant="outline" size="sm" onClick={() => copyJson(info)}>
+							<Copy className="h-4 w-4 mr-2" />
+							Copy
+						</Button>
+					</div>
+				</CardHeader>
+				<CardContent>
+					<pre className="max-h-[480px] overflow-auto rounded-md bg-muted p-4 font-mono text-xs">
+						{JSON.stringify(info, null, 2)}
+					</pre>
+				</CardContent>
+			</Card>
+		</>
+	);
+}
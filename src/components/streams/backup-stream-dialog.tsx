@@ -0,0 +1,108 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Archive, Download } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { JobProgress } from "@/components/shared/job-progress";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { backupsApi, type Job, type StreamInfo } from "@/lib/api";
+
+interface BackupStreamDialogProps {
+	clusterId: string;
+	stream: StreamInfo;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+function downloadBackup(backupId: string) {
+	const link = document.createElement("a");
+	link.href = backupsApi.getDownloadUrl(backupId);
+	document.body.appendChild(link);
+	link.click();
+	document.body.removeChild(link);
+}
+
+export function BackupStreamDialog({ clusterId, stream, open, onOpenChange }: BackupStreamDialogProps) {
+	const queryClient = useQueryClient();
+	const [jobId, setJobId] = useState<string | null>(null);
+	const [finished, setFinished] = useState<Job | null>(null);
+
+	useEffect(() => {
+		if (open) {
+			setJobId(null);
+			setFinished(null);
+		}
+	}, [open]);
+
+	const startMutation = useMutation({
+		mutationFn: () => backupsApi.start(clusterId, stream.name),
+		onSuccess: (job) => {
+			setFinished(null);
+			setJobId(job.id);
+		},
+		onError: (err) => {
+			toast.error(err instanceof Error ? err.message : "Failed to start backup");
+		},
+	});
+
+	const handleFinished = (job: Job) => {
+		setFinished(job);
+		if (job.status === "completed") {
+			queryClient.invalidateQueries({ queryKey: ["backups"] });
+			toast.success(`Backed up ${job.processed.toLocaleString()} messages from "${stream.name}"`);
+		}
+	};
+
+	const running = !!jobId && !finished;
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-lg">
+				<DialogHeader>
+					<DialogTitle>Backup Stream</DialogTitle>
+					<DialogDescription>
+						Save the configuration and all {stream.state.messages.toLocaleString()} messages of "{stream.name}",
+						including headers and timestamps, to an archive on the server. Restore it from the Backups
+						list on the Streams page.
+					</DialogDescription>
+				</DialogHeader>
+
+				{jobId && <JobProgress jobId={jobId} onFinished={handleFinished} />}
+
+				<DialogFooter>
+					{finished?.status === "completed" && finished.backupId ? (
+						<>
+							<Button variant="outline" onClick={() => onOpenChange(false)}>
+								Close
+							</Button>
+							<Button onClick={() => downloadBackup(finished.backupId as string)}>
+								<Download className="h-4 w-4 mr-2" />
+								Download
+							</Button>
+						</>
+					) : (
+						<>
+							<Button variant="outline" onClick={() => onOpenChange(false)}>
+								{running ? "Run in Background" : "Cancel"}
+							</Button>
+							<Button
+								onClick={() => startMutation.mutate()}
+								disabled={running || startMutation.isPending}
+							>
+								<Archive className="h-4 w-4 mr-2" />
+								{running ? "Backing up..." : finished ? "Retry" : "Start Backup"}
+							</Button>
+						</>
+					)}
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,386 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Copy, Search } from "lucide-react";
+import { useEffect, useId, useState } from "react";
+import { toast } from "sonner";
+import { JobProgress } from "@/components/shared/job-progress";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+	type CopyMessagesData,
+	type CopySelectionCount,
+	clustersApi,
+	type Job,
+	type StreamInfo,
+	streamsApi,
+} from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+interface CopyMessagesDialogProps {
+	clusterId: string;
+	stream: StreamInfo;
+	// Prefilled sequence range, e.g. from the selected messages
+	initialRange?: { startSeq: number; endSeq: number };
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+type RangeMode = "seq" | "time";
+
+function parseSeq(value: string): number | undefined {
+	const num = Number(value.trim());
+	return value.trim() && Number.isInteger(num) && num >= 1 ? num : undefined;
+}
+
+function parseTime(value: string): string | undefined {
+	if (!value) return undefined;
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+export function CopyMessagesDialog({ clusterId, stream, initialRange, open, onOpenChange }: CopyMessagesDialogProps) {
+	const queryClient = useQueryClient();
+	const id = useId();
+	const [mode, setMode] = useState<RangeMode>("seq");
+	const [startSeq, setStartSeq] = useState("");
+	const [endSeq, setEndSeq] = useState("");
+	const [startTime, setStartTime] = useState("");
+	const [endTime, setEndTime] = useState("");
+	const [subjectFilter, setSubjectFilter] = useState("");
+	const [targetClusterId, setTargetClusterId] = useState(clusterId);
+	const [targetSubject, setTargetSubject] = useState("");
+	const [rewriteFrom, setRewriteFrom] = useState("");
+	const [rewriteTo, setRewriteTo] = useState("");
+	const [rateLimit, setRateLimit] = useState("");
+	const [move, setMove] = useState(false);
+	const [keepMsgId, setKeepMsgId] = useState(false);
+	const [count, setCount] = useState<CopySelectionCount | null>(null);
+	const [jobId, setJobId] = useState<string | null>(null);
+	const [finished, setFinished] = useState<Job | null>(null);
+	const [error, setError] = useState("");
+
+	useEffect(() => {
+		if (open) {
+			setMode("seq");
+			setStartSeq(initialRange ? String(initialRange.startSeq) : "");
+			setEndSeq(initialRange ? String(initialRange.endSeq) : "");
+			setStartTime("");
+			setEndTime("");
+			setSubjectFilter("");
+			setTargetClusterId(clusterId);
+			setTargetSubject("");
+			setRewriteFrom("");
+			setRewriteTo("");
+			setRateLimit("");
+			setMove(false);
+			setKeepMsgId(false);
+			setCount(null);
+			setJobId(null);
+			setFinished(null);
+			setError("");
+		}
+	}, [open, clusterId, initialRange]);
+
+	const { data: clusters } = useQuery({
+		queryKey: ["clusters"],
+		queryFn: () => clustersApi.getAll(),
+		enabled: open,
+	});
+
+	const buildRequest = (): CopyMessagesData => ({
+		startSeq: mode === "seq" ? parseSeq(startSeq) : undefined,
+		endSeq: mode === "seq" ? parseSeq(endSeq) : undefined,
+		startTime: mode === "time" ? parseTime(startTime) : undefined,
+		endTime: mode === "time" ? parseTime(endTime) : undefined,
+		subjectFilter: subjectFilter.trim() || undefined,
+		targetClusterId,
+		targetSubject: targetSubject.trim() || undefined,
+		rewrite: rewriteFrom.trim() ? { from: rewriteFrom.trim(), to: rewriteTo.trim() } : undefined,
+		rateLimit: parseSeq(rateLimit),
+		move,
+		keepMsgId,
+	});
+
+	const countMutation = useMutation({
+		mutationFn: () => streamsApi.countCopy(clusterId, stream.name, buildRequest()),
+		onSuccess: (result) => {
+			setCount(result);
+			setError("");
+		},
+		onError: (err) => {
+			setError(err instanceof Error ? err.message : "Failed to count messages");
+		},
+	});
+
+	const copyMutation = useMutation({
+		mutationFn: () => streamsApi.copyMessages(clusterId, stream.name, buildRequest()),
+		onSuccess: (job) => {
+			setError("");
+			setFinished(null);
+			setJobId(job.id);
+		},
+		onError: (err) => {
+			setError(err instanceof Error ? err.message : "Failed to start copy");
+		},
+	});
+
+	const handleFinished = (job: Job) => {
+		setFinished(job);
+		queryClient.invalidateQueries({ queryKey: ["stream", clusterId, stream.name] });
+		queryClient.invalidateQueries({ queryKey: ["stream-messages", clusterId, stream.name] });
+		queryClient.invalidateQueries({ queryKey: ["streams", targetClusterId] });
+		if (job.status === "completed") {
+			toast.success(`${job.kind === "move" ? "Moved" : "Copied"} ${job.processed.toLocaleString()} messages`);
+		}
+	};
+
+	// Any change to the selection makes a previous count stale
+	const resetCount = <T,>(setter: (value: T) => void) => (value: T) => {
+		setter(value);
+		setCount(null);
+	};
+
+	const running = !!jobId && !finished;
+	const locked = !!jobId;
+	const verb = move ? "Move" : "Copy";
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>Copy or Move Messages</DialogTitle>
+					<DialogDescription>
+						Republish messages from "{stream.name}" to a subject in any cluster. Moving deletes each
+						message from this stream once the target has acknowledged it.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-4">
+					{error && (
+						<div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive whitespace-pre-line">
+							{error}
+						</div>
+					)}
+
+					<div className="space-y-3 rounded-lg border p-3">
+						<div className="flex items-center justify-between">
+							<div className="text-sm font-medium">Selection</div>
+							<div className="flex rounded-md border p-0.5">
+								{(["seq", "time"] as const).map((value) => (
+									<button
+										key={value}
+										type="button"
+										onClick={() => resetCount(setMode)(value)}
+										disabled={locked}
+										className={cn(
+											"rounded px-2 py-0.5 text-xs",
+											mode === value ? "bg-primary text-primary-foreground" : "text-muted-foreground",
+										)}
+									>
+										{value === "seq" ? "Sequence" : "Time"}
+									</button>
+								))}
+							</div>
+						</div>
+						<div className="grid grid-cols-2 gap-3">
+							{mode === "seq" ? (
+								<>
+									<div className="space-y-1">
+										<Label htmlFor={`${id}-start-seq`} className="text-xs">From Sequence</Label>
+										<Input
+											id={`${id}-start-seq`}
+											value={startSeq}
+											onChange={(e) => resetCount(setStartSeq)(e.target.value)}
+											placeholder={`${stream.state.firstSeq}`}
+											disabled={locked}
+										/>
+									</div>
+									<div className="space-y-1">
+										<Label htmlFor={`${id}-end-seq`} className="text-xs">To Sequence</Label>
+										<Input
+											id={`${id}-end-seq`}
+											value={endSeq}
+											onChange={(e) => resetCount(setEndSeq)(e.target.value)}
+											placeholder={`${stream.state.lastSeq}`}
+											disabled={locked}
+										/>
+									</div>
+								</>
+							) : (
+								<>
+									<div className="space-y-1">
+										<Label htmlFor={`${id}-start-time`} className="text-xs">From</Label>
+										<Input
+											id={`${id}-start-time`}
+											type="datetime-local"
+											step="1"
+											value={startTime}
+											onChange={(e) => resetCount(setStartTime)(e.target.value)}
+											disabled={locked}
+										/>
+									</div>
+									<div className="space-y-1">
+										<Label htmlFor={`${id}-end-time`} className="text-xs">To</Label>
+										<Input
+											id={`${id}-end-time`}
+											type="datetime-local"
+											step="1"
+											value={endTime}
+											onChange={(e) => resetCount(setEndTime)(e.target.value)}
+											disabled={locked}
+										/>
+									</div>
+								</>
+							)}
+						</div>
+						<div className="space-y-1">
+							<Label htmlFor={`${id}-filter`} className="text-xs">Subject Filter</Label>
+							<Input
+								id={`${id}-filter`}
+								value={subjectFilter}
+								onChange={(e) => resetCount(setSubjectFilter)(e.target.value)}
+								placeholder="All subjects"
+								disabled={locked}
+							/>
+						</div>
+						<div className="flex items-center justify-between gap-2">
+							<div className="text-sm text-muted-foreground">
+								{count
+									? count.matched === 0
+										? "No messages match"
+										: `${count.matched.toLocaleString()} message(s) match, sequence ${count.firstSeq} to ${count.lastSeq}`
+									: "Count the matching messages before starting"}
+							</div>
+							<Button
+								variant="outline"
+								size="sm"
+								onClick={() => countMutation.mutate()}
+								disabled={locked || countMutation.isPending}
+							>
+								<Search className="h-4 w-4 mr-2" />
+								{countMutation.isPending ? "Counting..." : "Count"}
+							</Button>
+						</div>
+					</div>
+
+					<div className="space-y-3 rounded-lg border p-3">
+						<div className="text-sm font-medium">Target</div>
+						<div className="grid grid-cols-2 gap-3">
+							<div className="space-y-1">
+								<Label htmlFor={`${id}-cluster`} className="text-xs">Cluster</Label>
+								<Select value={targetClusterId} onValueChange={setTargetClusterId} disabled={locked}>
+									<SelectTrigger id={`${id}-cluster`}>
+										<SelectValue placeholder="Select a cluster" />
+									</SelectTrigger>
+									<SelectContent>
+										{clusters?.map((cluster) => (
+											<SelectItem key={cluster.id} value={cluster.id}>
+												{cluster.name}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							</div>
+							<div className="space-y-1">
+								<Label htmlFor={`${id}-subject`} className="text-xs">Subject</Label>
+								<Input
+									id={`${id}-subject`}
+									value={targetSubject}
+									onChange={(e) => setTargetSubject(e.target.value)}
+									placeholder="Keep each message's subject"
+									disabled={locked}
+								/>
+							</div>
+							<div className="space-y-1">
+								<Label htmlFor={`${id}-rewrite-from`} className="text-xs">Rewrite Prefix</Label>
+								<Input
+									id={`${id}-rewrite-from`}
+									value={rewriteFrom}
+									onChange={(e) => setRewriteFrom(e.target.value)}
+									placeholder="e.g. dlq"
+									disabled={locked || !!targetSubject.trim()}
+								/>
+							</div>
+							<div className="space-y-1">
+								<Label htmlFor={`${id}-rewrite-to`} className="text-xs">Replace With</Label>
+								<Input
+									id={`${id}-rewrite-to`}
+									value={rewriteTo}
+									onChange={(e) => setRewriteTo(e.target.value)}
+									placeholder="e.g. orders"
+									disabled={locked || !!targetSubject.trim() || !rewriteFrom.trim()}
+								/>
+							</div>
+							<div className="space-y-1">
+								<Label htmlFor={`${id}-rate`} className="text-xs">Throttle (msgs/s)</Label>
+								<Input
+									id={`${id}-rate`}
+									value={rateLimit}
+									onChange={(e) => setRateLimit(e.target.value)}
+									placeholder="Unlimited"
+									disabled={locked}
+								/>
+							</div>
+							<div className="flex items-end gap-2 pb-2">
+								<Switch
+									id={`${id}-move`}
+									checked={move}
+									onCheckedChange={setMove}
+									disabled={locked || stream.denyDelete}
+								/>
+								<Label htmlFor={`${id}-move`} className="text-sm font-normal">
+									Move (delete from source)
+								</Label>
+							</div>
+						</div>
+						<div className="flex items-center gap-2">
+							<Switch
+								id={`${id}-keep-msg-id`}
+								checked={keepMsgId}
+								onCheckedChange={setKeepMsgId}
+								disabled={locked}
+							/>
+							<Label htmlFor={`${id}-keep-msg-id`} className="text-sm font-normal">
+								Keep message IDs (the target skips messages it already holds; a move leaves those in the source)
+							</Label>
+						</div>
+					</div>
+
+					{jobId && <JobProgress jobId={jobId} onFinished={handleFinished} />}
+				</div>
+
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)}>
+						{running ? "Run in Background" : finished ? "Close" : "Cancel"}
+					</Button>
+					{!finished && (
+						<Button
+							variant={move ? "destructive" : "default"}
+							onClick={() => copyMutation.mutate()}
+							disabled={running || copyMutation.isPending || count?.matched === 0}
+						>
+							<Copy className="h-4 w-4 mr-2" />
+							{running ? `${verb === "Move" ? "Moving" : "Copying"}...` : `${verb} Messages`}
+						</Button>
+					)}
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -1,6 +1,6 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { Plus, X } from "lucide-react";
-import { useState } from "react";
+import { ChevronDown, ChevronRight, Plus, X } from "lucide-react";
+import { useId, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
 	Dialog,
@@ -20,8 +20,23 @@ import {
 	SelectValue,
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import { streamsApi, type CreateStreamData } from "@/lib/api";
+import {
+	emptyStreamSource,
+	StreamSourceFields,
+	type StreamSourceForm,
+	toStreamSourceConfig,
+} from "./stream-source-fields";
+import {
+	emptyStreamOptions,
+	parseBytes,
+	parseDuration,
+	StreamOptionsFields,
+	type StreamOptionsForm,
+	toStreamOptions,
+} from "./stream-options-fields";
 
 interface CreateStreamDialogProps {
 	clusterId: string;
@@ -47,6 +62,14 @@ export function CreateStreamDialog({
 	const [maxAge, setMaxAge] = useState("");
 	const [maxMsgSize, setMaxMsgSize] = useState("");
 	const [replicas, setReplicas] = useState("1");
+	const [replication, setReplication] = useState<"none" | "mirror" | "sources">("none");
+	const [mirror, setMirror] = useState<StreamSourceForm>(emptyStreamSource);
+	const [sources, setSources] = useState<StreamSourceForm[]>([]);
+	const advancedId = useId();
+	const [showAdvanced, setShowAdvanced] = useState(false);
+	const [options, setOptions] = useState<StreamOptionsForm>(emptyStreamOptions);
+	const [sealed, setSealed] = useState(false);
+	const [firstSeq, setFirstSeq] = useState("");
 	const [error, setError] = useState("");
 
 	const createMutation = useMutation({
@@ -74,6 +97,13 @@ export function CreateStreamDialog({
 		setMaxAge("");
 		setMaxMsgSize("");
 		setReplicas("1");
+		setReplication("none");
+		setMirror(emptyStreamSource());
+		setSources([]);
+		setShowAdvanced(false);
+		setOptions(emptyStreamOptions());
+		setSealed(false);
+		setFirstSeq("");
 		setError("");
 	};
 
@@ -96,47 +126,6 @@ export function CreateStreamDialog({
 		}
 	};
 
-	const parseBytes = (value: string): number => {
-		const trimmed = value.trim().toUpperCase();
-		if (!trimmed) return -1;
-
-		const match = trimmed.match(/^(\d+(?:\.\d+)?)\s*(B|KB|MB|GB|TB)?$/);
-		if (!match) return Number(trimmed) || -1;
-
-		const num = parseFloat(match[1]);
-		const unit = match[2] || "B";
-
-		const multipliers: Record<string, number> = {
-			B: 1,
-			KB: 1024,
-			MB: 1024 * 1024,
-			GB: 1024 * 1024 * 1024,
-			TB: 1024 * 1024 * 1024 * 1024,
-		};
-
-		return Math.floor(num * multipliers[unit]);
-	};
-
-	const parseDuration = (value: string): number => {
-		const trimmed = value.trim().toLowerCase();
-		if (!trimmed) return 0;
-
-		const match = trimmed.match(/^(\d+(?:\.\d+)?)\s*(s|m|h|d)?$/);
-		if (!match) return Number(trimmed) * 1_000_000_000 || 0; // Assume seconds if no unit
-
-		const num = parseFloat(match[1]);
-		const unit = match[2] || "s";
-
-		const multipliers: Record<string, number> = {
-			s: 1_000_000_000, // nanoseconds
-			m: 60 * 1_000_000_000,
-			h: 60 * 60 * 1_000_000_000,
-			d: 24 * 60 * 60 * 1_000_000_000,
-		};
-
-		return Math.floor(num * multipliers[unit]);
-	};
-
 	const handleSubmit = (e: React.FormEvent) => {
 		e.preventDefault();
 		setError("");
@@ -146,14 +135,15 @@ export function CreateStreamDialog({
 			return;
 		}
 
-		if (subjects.length === 0) {
+		if (replication === "none" && subjects.length === 0) {
 			setError("At least one subject is required");
 			return;
 		}
 
 		const data: CreateStreamData = {
 			name: name.trim(),
-			subjects,
+			// Mirrors only receive messages from their origin
+			subjects: replication === "mirror" ? [] : subjects,
 			retention,
 			storage,
 			discard,
@@ -180,6 +170,52 @@ export function CreateStreamDialog({
 			data.maxMsgSize = parseBytes(maxMsgSize);
 		}
 
+		const streamOptions = toStreamOptions(options, false);
+		if (typeof streamOptions === "string") {
+			setError(streamOptions);
+			return;
+		}
+		Object.assign(data, streamOptions);
+
+		if (firstSeq.trim()) {
+			const seq = Number(firstSeq.trim());
+			if (!Number.isInteger(seq) || seq < 1) {
+				setError("First sequence must be a positive integer");
+				return;
+			}
+			data.firstSeq = seq;
+		}
+
+		if (sealed) {
+			data.sealed = true;
+		}
+
+		if (replication === "mirror") {
+			const config = toStreamSourceConfig(mirror, "Mirror");
+			if (typeof config === "string") {
+				setError(config);
+				return;
+			}
+			data.mirror = config;
+		}
+
+		if (replication === "sources") {
+			if (sources.length === 0) {
+				setError("Add at least one source");
+				return;
+			}
+			const configs = [];
+			for (const [i, source] of sources.entries()) {
+				const config = toStreamSourceConfig(source, `Source ${i + 1}`);
+				if (typeof config === "string") {
+					setError(config);
+					return;
+				}
+				configs.push(config);
+			}
+			data.sources = configs;
+		}
+
 		createMutation.mutate(data);
 	};
 
@@ -226,38 +262,87 @@ export function CreateStreamDialog({
 					</div>
 
 					<div className="space-y-2">
-						<Label>Subjects *</Label>
-						<div className="flex gap-2">
-							<Input
-								value={subjectInput}
-								onChange={(e) => setSubjectInput(e.target.value)}
-								onKeyDown={handleSubjectKeyDown}
-								placeholder="orders.>"
-							/>
-							<Button type="button" variant="outline" size="icon" onClick={handleAddSubject}>
-								<Plus className="h-4 w-4" />
+						<Label>Replication</Label>
+						<Select
+							value={replication}
+							onValueChange={(v) => {
+								setReplication(v as typeof replication);
+								if (v === "sources" && sources.length === 0) setSources([emptyStreamSource()]);
+							}}
+						>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="none">None</SelectItem>
+								<SelectItem value="mirror">Mirror another stream</SelectItem>
+								<SelectItem value="sources">Source from other streams</SelectItem>
+							</SelectContent>
+						</Select>
+					</div>
+
+					{replication === "mirror" && (
+						<StreamSourceFields title="Mirror" value={mirror} onChange={setMirror} />
+					)}
+
+					{replication === "sources" && (
+						<div className="space-y-2">
+							{sources.map((source, i) => (
+								<StreamSourceFields
+									key={source.id}
+									title={`Source ${i + 1}`}
+									value={source}
+									onChange={(updated) => setSources(sources.map((s) => (s.id === source.id ? updated : s)))}
+									onRemove={() => setSources(sources.filter((s) => s.id !== source.id))}
+								/>
+							))}
+							<Button
+								type="button"
+								variant="outline"
+								size="sm"
+								onClick={() => setSources([...sources, emptyStreamSource()])}
+							>
+								<Plus className="mr-2 h-3 w-3" />
+								Add Source
 							</Button>
 						</div>
-						{subjects.length > 0 && (
-							<div className="flex flex-wrap gap-1 mt-2">
-								{subjects.map((subject) => (
-									<Badge key={subject} variant="secondary" className="gap-1">
-										{subject}
-										<button
-											type="button"
-											onClick={() => handleRemoveSubject(subject)}
-											className="ml-1 hover:text-destructive"
-										>
-											<X className="h-3 w-3" />
-										</button>
-									</Badge>
-								))}
+					)}
+
+					{replication !== "mirror" && (
+						<div className="space-y-2">
+							<Label>Subjects{replication === "none" ? " *" : ""}</Label>
+							<div className="flex gap-2">
+								<Input
+									value={subjectInput}
+									onChange={(e) => setSubjectInput(e.target.value)}
+									onKeyDown={handleSubjectKeyDown}
+									placeholder="orders.>"
+								/>
+								<Button type="button" variant="outline" size="icon" onClick={handleAddSubject}>
+									<Plus className="h-4 w-4" />
+								</Button>
 							</div>
-						)}
-						<p className="text-xs text-muted-foreground">
-							Use wildcards: * (single token) or {">"} (multiple tokens)
-						</p>
-					</div>
+							{subjects.length > 0 && (
+								<div className="flex flex-wrap gap-1 mt-2">
+									{subjects.map((subject) => (
+										<Badge key={subject} variant="secondary" className="gap-1">
+											{subject}
+											<button
+												type="button"
+												onClick={() => handleRemoveSubject(subject)}
+												className="ml-1 hover:text-destructive"
+											>
+												<X className="h-3 w-3" />
+											</button>
+										</Badge>
+									))}
+								</div>
+							)}
+							<p className="text-xs text-muted-foreground">
+								Use wildcards: * (single token) or {">"} (multiple tokens)
+							</p>
+						</div>
+					)}
 
 					<div className="grid grid-cols-2 gap-4">
 						<div className="space-y-2">
@@ -361,6 +446,50 @@ export function CreateStreamDialog({
 						</div>
 					</div>
 
+					<div className="space-y-4">
+						<Button
+							type="button"
+							variant="ghost"
+							size="sm"
+							className="px-0"
+							onClick={() => setShowAdvanced(!showAdvanced)}
+						>
+							{showAdvanced ? (
+								<ChevronDown className="mr-2 h-4 w-4" />
+							) : (
+								<ChevronRight className="mr-2 h-4 w-4" />
+							)}
+							Advanced Settings
+						</Button>
+
+						{showAdvanced && (
+							<>
+								<StreamOptionsFields
+									value={options}
+									onChange={setOptions}
+									isMirror={replication === "mirror"}
+								/>
+
+								<div className="grid grid-cols-2 gap-4">
+									<div className="space-y-2">
+										<Label htmlFor={`${advancedId}-first-seq`}>First Sequence</Label>
+										<Input
+											id={`${advancedId}-first-seq`}
+											value={firstSeq}
+											onChange={(e) => setFirstSeq(e.target.value)}
+											placeholder="1"
+										/>
+									</div>
+
+									<div className="flex items-end gap-2 pb-2">
+										<Switch id={`${advancedId}-sealed`} checked={sealed} onCheckedChange={setSealed} />
+										<Label htmlFor={`${advancedId}-sealed`}>Sealed (read-only, permanent)</Label>
+									</div>
+								</div>
+							</>
+						)}
+					</div>
+
 					<DialogFooter>
 						<Button
 							type="button"
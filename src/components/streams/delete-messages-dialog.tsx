@@ -0,0 +1,127 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useId, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { type DeleteMessagesResult, streamsApi } from "@/lib/api";
+
+interface DeleteMessagesDialogProps {
+	clusterId: string;
+	streamName: string;
+	seqs: number[];
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	onDeleted?: (deleted: number[]) => void;
+}
+
+export function DeleteMessagesDialog({
+	clusterId,
+	streamName,
+	seqs,
+	open,
+	onOpenChange,
+	onDeleted,
+}: DeleteMessagesDialogProps) {
+	const queryClient = useQueryClient();
+	const eraseId = useId();
+	const [erase, setErase] = useState(false);
+	const [error, setError] = useState("");
+
+	useEffect(() => {
+		if (open) {
+			setErase(false);
+			setError("");
+		}
+	}, [open]);
+
+	const deleteMutation = useMutation({
+		mutationFn: async (): Promise<DeleteMessagesResult> => {
+			if (seqs.length === 1) {
+				await streamsApi.deleteMessage(clusterId, streamName, seqs[0], erase);
+				return { success: true, deleted: seqs, failed: [] };
+			}
+			return streamsApi.deleteMessages(clusterId, streamName, seqs, erase);
+		},
+		onSuccess: (result) => {
+			queryClient.invalidateQueries({ queryKey: ["stream", clusterId, streamName] });
+			queryClient.invalidateQueries({ queryKey: ["stream-messages", clusterId, streamName] });
+			queryClient.invalidateQueries({ queryKey: ["stream-subjects", clusterId, streamName] });
+			onDeleted?.(result.deleted);
+
+			if (result.failed.length > 0) {
+				setError(
+					`Deleted ${result.deleted.length} message(s), ${result.failed.length} failed:\n` +
+						result.failed.map((f) => `#${f.seq}: ${f.error}`).join("\n"),
+				);
+				return;
+			}
+
+			toast.success(`${erase ? "Erased" : "Deleted"} ${result.deleted.length} message(s)`);
+			onOpenChange(false);
+		},
+		onError: (err) => {
+			setError(err instanceof Error ? err.message : "Failed to delete messages");
+		},
+	});
+
+	const label = seqs.length === 1 ? `message #${seqs[0]}` : `${seqs.length} messages`;
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-md">
+				<DialogHeader>
+					<DialogTitle>Delete {seqs.length === 1 ? "Message" : "Messages"}</DialogTitle>
+					<DialogDescription>
+						Remove {label} from stream "{streamName}". This action cannot be undone.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-4">
+					{error && (
+						<div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive whitespace-pre-line">
+							{error}
+						</div>
+					)}
+
+					{seqs.length > 1 && (
+						<div className="max-h-24 overflow-y-auto rounded-md border p-2 font-mono text-xs text-muted-foreground">
+							{[...seqs].sort((a, b) => a - b).join(", ")}
+						</div>
+					)}
+
+					<div className="flex items-start gap-3 rounded-lg border p-3">
+						<Switch id={eraseId} checked={erase} onCheckedChange={setErase} />
+						<div className="space-y-1">
+							<Label htmlFor={eraseId}>Secure erase</Label>
+							<p className="text-xs text-muted-foreground">
+								Overwrite the message data on disk instead of only marking it deleted. Slower, use it when removing sensitive data.
+							</p>
+						</div>
+					</div>
+				</div>
+
+				<DialogFooter>
+					<Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+						Cancel
+					</Button>
+					<Button
+						variant="destructive"
+						onClick={() => deleteMutation.mutate()}
+						disabled={deleteMutation.isPending || seqs.length === 0}
+					>
+						{deleteMutation.isPending ? "Deleting..." : erase ? "Erase" : "Delete"}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,434 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, X } from "lucide-react";
+import { useEffect, useId, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { type StreamInfo, streamsApi, type UpdateStreamData } from "@/lib/api";
+import { diffConfigs, StreamConfigDiff } from "./stream-config-diff";
+import {
+	formatBytesInput,
+	formatDurationInput,
+	parseBytes,
+	parseDuration,
+	StreamOptionsFields,
+	type StreamOptionsForm,
+	streamOptionsFromStream,
+	toStreamOptions,
+} from "./stream-options-fields";
+import {
+	emptyStreamSource,
+	fromStreamSourceConfig,
+	StreamSourceFields,
+	type StreamSourceForm,
+	toStreamSourceConfig,
+} from "./stream-source-fields";
+
+interface EditStreamDialogProps {
+	clusterId: string;
+	stream: StreamInfo;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+function ReadOnlyField({ label, value }: { label: string; value: React.ReactNode }) {
+	return (
+		<div>
+			<div className="text-xs text-muted-foreground">{label}</div>
+			<div className="text-sm font-medium capitalize">{value}</div>
+		</div>
+	);
+}
+
+export function EditStreamDialog({ clusterId, stream, open, onOpenChange }: EditStreamDialogProps) {
+	const queryClient = useQueryClient();
+	const id = useId();
+	const isMirror = !!stream.mirror;
+	const [description, setDescription] = useState("");
+	const [subjects, setSubjects] = useState<string[]>([]);
+	const [subjectInput, setSubjectInput] = useState("");
+	const [sources, setSources] = useState<StreamSourceForm[]>([]);
+	const [maxMsgs, setMaxMsgs] = useState("");
+	const [maxBytes, setMaxBytes] = useState("");
+	const [maxAge, setMaxAge] = useState("");
+	const [maxMsgSize, setMaxMsgSize] = useState("");
+	const [discard, setDiscard] = useState<"old" | "new">("old");
+	const [retention, setRetention] = useState<"limits" | "interest" | "workqueue">("limits");
+	const [replicas, setReplicas] = useState("1");
+	const [options, setOptions] = useState<StreamOptionsForm>(() => streamOptionsFromStream(stream));
+	const [seal, setSeal] = useState(false);
+	const [error, setError] = useState("");
+	const [pending, setPending] = useState<UpdateStreamData | null>(null);
+	const [applyError, setApplyError] = useState("");
+
+	// Prefill from the current config each time the dialog opens
+	useEffect(() => {
+		if (!open) return;
+		setDescription(stream.description ?? "");
+		setSubjects(stream.subjects);
+		setSubjectInput("");
+		setSources((stream.sources ?? []).map(fromStreamSourceConfig));
+		setMaxMsgs(stream.maxMsgs > 0 ? String(stream.maxMsgs) : "");
+		setMaxBytes(formatBytesInput(stream.maxBytes));
+		setMaxAge(formatDurationInput(stream.maxAge));
+		setMaxMsgSize(formatBytesInput(stream.maxMsgSize));
+		setDiscard(stream.discard === "new" ? "new" : "old");
+		setRetention(stream.retention as typeof retention);
+		setReplicas(String(stream.replicas));
+		setOptions(streamOptionsFromStream(stream));
+		setSeal(false);
+		setError("");
+		setPending(null);
+		setApplyError("");
+	}, [open, stream]);
+
+	// Resolve the change against the live config so the diff shows what the server will receive
+	const previewMutation = useMutation({
+		mutationFn: (data: UpdateStreamData) => streamsApi.previewUpdate(clusterId, stream.name, data),
+		onSuccess: (_, data) => {
+			setPending(data);
+			setApplyError("");
+		},
+		onError: (err) => {
+			setError(err instanceof Error ? err.message : "Failed to preview changes");
+		},
+	});
+
+	const updateMutation = useMutation({
+		mutationFn: (data: UpdateStreamData) => streamsApi.update(clusterId, stream.name, data),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["stream", clusterId, stream.name] });
+			queryClient.invalidateQueries({ queryKey: ["streams", clusterId] });
+			toast.success(`Stream "${stream.name}" updated`);
+			onOpenChange(false);
+		},
+		onError: (err) => {
+			setApplyError(err instanceof Error ? err.message : "Failed to update stream");
+		},
+	});
+
+	const handleAddSubject = () => {
+		const trimmed = subjectInput.trim();
+		if (trimmed && !subjects.includes(trimmed)) {
+			setSubjects([...subjects, trimmed]);
+			setSubjectInput("");
+		}
+	};
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		setError("");
+
+		if (!isMirror && subjects.length === 0 && sources.length === 0) {
+			setError("At least one subject or source is required");
+			return;
+		}
+
+		const streamOptions = toStreamOptions(options, true);
+		if (typeof streamOptions === "string") {
+			setError(streamOptions);
+			return;
+		}
+
+		const data: UpdateStreamData = {
+			...streamOptions,
+			description: description.trim(),
+			maxMsgs: maxMsgs.trim() ? Number.parseInt(maxMsgs, 10) || -1 : -1,
+			maxBytes: parseBytes(maxBytes),
+			maxAge: parseDuration(maxAge),
+			maxMsgSize: parseBytes(maxMsgSize),
+			discard,
+			retention,
+			replicas: Number.parseInt(replicas, 10) || 1,
+		};
+
+		if (!isMirror) {
+			data.subjects = subjects;
+
+			const configs = [];
+			for (const [i, source] of sources.entries()) {
+				const config = toStreamSourceConfig(source, `Source ${i + 1}`);
+				if (typeof config === "string") {
+					setError(config);
+					return;
+				}
+				configs.push(config);
+			}
+			data.sources = configs;
+		}
+
+		if (seal) {
+			data.sealed = true;
+		}
+
+		previewMutation.mutate(data);
+	};
+
+	const diffRows = previewMutation.data
+		? diffConfigs(previewMutation.data.current, previewMutation.data.proposed)
+		: [];
+	const hasChanges = diffRows.some((row) => row.changed);
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>{pending ? "Review Changes" : "Edit Stream"}</DialogTitle>
+					<DialogDescription>
+						{pending
+							? `Compare the current and new configuration of "${stream.name}" before applying.`
+							: `Update the configuration of "${stream.name}". Some settings are fixed once a stream is created.`}
+					</DialogDescription>
+				</DialogHeader>
+
+				{pending ? (
+					<div className="space-y-4">
+						<StreamConfigDiff rows={diffRows} error={applyError} />
+
+						<DialogFooter>
+							<Button
+								type="button"
+								variant="outline"
+								onClick={() => setPending(null)}
+								disabled={updateMutation.isPending}
+							>
+								Back
+							</Button>
+							<Button
+								onClick={() => updateMutation.mutate(pending)}
+								disabled={updateMutation.isPending || !hasChanges}
+							>
+								{updateMutation.isPending ? "Applying..." : "Apply Changes"}
+							</Button>
+						</DialogFooter>
+					</div>
+				) : (
+					<form onSubmit={handleSubmit} className="space-y-4">
+						{error && (
+							<div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+								{error}
+							</div>
+						)}
+
+						{stream.sealed && (
+							<div className="rounded-md bg-muted p-3 text-sm text-muted-foreground">
+								This stream is sealed. Messages can no longer be added, deleted or purged.
+							</div>
+						)}
+
+						<div className="grid grid-cols-3 gap-4 rounded-lg border p-3">
+							<ReadOnlyField label="Name" value={<span className="normal-case">{stream.name}</span>} />
+							<ReadOnlyField label="Storage" value={stream.storage} />
+							<ReadOnlyField
+								label="Max Consumers"
+								value={stream.maxConsumers === -1 ? "Unlimited" : stream.maxConsumers}
+							/>
+							<ReadOnlyField label="First Sequence" value={stream.firstSeq ?? 1} />
+							{isMirror && <ReadOnlyField label="Mirror Of" value={stream.mirror?.name} />}
+						</div>
+
+						<div className="space-y-2">
+							<Label htmlFor={`${id}-description`}>Description</Label>
+							<Textarea
+								id={`${id}-description`}
+								value={description}
+								onChange={(e) => setDescription(e.target.value)}
+								placeholder="Optional description..."
+								rows={2}
+							/>
+						</div>
+
+						{!isMirror && (
+							<div className="space-y-2">
+								<Label>Subjects</Label>
+								<div className="flex gap-2">
+									<Input
+										value={subjectInput}
+										onChange={(e) => setSubjectInput(e.target.value)}
+										onKeyDown={(e) => {
+											if (e.key === "Enter") {
+												e.preventDefault();
+												handleAddSubject();
+											}
+										}}
+										placeholder="orders.>"
+									/>
+									<Button type="button" variant="outline" size="icon" onClick={handleAddSubject}>
+										<Plus className="h-4 w-4" />
+									</Button>
+								</div>
+								{subjects.length > 0 && (
+									<div className="flex flex-wrap gap-1 mt-2">
+										{subjects.map((subject) => (
+											<Badge key={subject} variant="secondary" className="gap-1">
+												{subject}
+												<button
+													type="button"
+													onClick={() => setSubjects(subjects.filter((s) => s !== subject))}
+													className="ml-1 hover:text-destructive"
+												>
+													<X className="h-3 w-3" />
+												</button>
+											</Badge>
+										))}
+									</div>
+								)}
+							</div>
+						)}
+
+						{!isMirror && (
+							<div className="space-y-2">
+								<div className="flex items-center justify-between">
+									<Label>Sources</Label>
+									<Button
+										type="button"
+										variant="ghost"
+										size="sm"
+										onClick={() => setSources([...sources, emptyStreamSource()])}
+									>
+										<Plus className="mr-2 h-3 w-3" />
+										Add Source
+									</Button>
+								</div>
+								{sources.map((source, i) => (
+									<StreamSourceFields
+										key={source.id}
+										title={`Source ${i + 1}`}
+										value={source}
+										onChange={(updated) => setSources(sources.map((s) => (s.id === source.id ? updated : s)))}
+										onRemove={() => setSources(sources.filter((s) => s.id !== source.id))}
+									/>
+								))}
+							</div>
+						)}
+
+						<div className="grid grid-cols-2 gap-4">
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-max-msgs`}>Max Messages</Label>
+								<Input
+									id={`${id}-max-msgs`}
+									value={maxMsgs}
+									onChange={(e) => setMaxMsgs(e.target.value)}
+									placeholder="-1 (unlimited)"
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-max-bytes`}>Max Bytes</Label>
+								<Input
+									id={`${id}-max-bytes`}
+									value={maxBytes}
+									onChange={(e) => setMaxBytes(e.target.value)}
+									placeholder="e.g. 1GB"
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-max-age`}>Max Age</Label>
+								<Input
+									id={`${id}-max-age`}
+									value={maxAge}
+									onChange={(e) => setMaxAge(e.target.value)}
+									placeholder="e.g. 7d, 24h"
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-max-msg-size`}>Max Message Size</Label>
+								<Input
+									id={`${id}-max-msg-size`}
+									value={maxMsgSize}
+									onChange={(e) => setMaxMsgSize(e.target.value)}
+									placeholder="e.g. 1MB"
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label>Discard Policy</Label>
+								<Select value={discard} onValueChange={(v) => setDiscard(v as typeof discard)}>
+									<SelectTrigger>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value="old">Old</SelectItem>
+										<SelectItem value="new">New</SelectItem>
+									</SelectContent>
+								</Select>
+							</div>
+							<div className="space-y-2">
+								<Label>Retention Policy</Label>
+								<Select value={retention} onValueChange={(v) => setRetention(v as typeof retention)}>
+									<SelectTrigger>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value="limits">Limits</SelectItem>
+										<SelectItem value="interest">Interest</SelectItem>
+										<SelectItem value="workqueue">Work Queue</SelectItem>
+									</SelectContent>
+								</Select>
+							</div>
+							<div className="space-y-2">
+								<Label>Replicas</Label>
+								<Select value={replicas} onValueChange={setReplicas}>
+									<SelectTrigger>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value="1">1</SelectItem>
+										<SelectItem value="3">3</SelectItem>
+										<SelectItem value="5">5</SelectItem>
+									</SelectContent>
+								</Select>
+							</div>
+						</div>
+
+						<StreamOptionsFields
+							value={options}
+							onChange={setOptions}
+							isMirror={isMirror}
+							lockedDenyDelete={stream.denyDelete}
+							lockedDenyPurge={stream.denyPurge}
+						/>
+
+						{!stream.sealed && (
+							<div className="flex items-start justify-between gap-4 rounded-lg border border-destructive/50 p-3">
+								<div className="space-y-0.5">
+									<Label htmlFor={`${id}-seal`}>Seal Stream</Label>
+									<p className="text-xs text-muted-foreground">
+										Make the stream permanently read-only. This cannot be undone.
+									</p>
+								</div>
+								<Switch id={`${id}-seal`} checked={seal} onCheckedChange={setSeal} />
+							</div>
+						)}
+
+						<DialogFooter>
+							<Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+								Cancel
+							</Button>
+							<Button type="submit" disabled={previewMutation.isPending}>
+								{previewMutation.isPending ? "Loading..." : "Review Changes"}
+							</Button>
+						</DialogFooter>
+					</form>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,356 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, X } from "lucide-react";
+import { useEffect, useId, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { type PublishMessageData, type StreamMessage, streamsApi } from "@/lib/api";
+
+interface PublishMessageDialogProps {
+	clusterId: string;
+	streamName: string;
+	subjects: string[];
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	// Message to prefill when republishing from the message browser
+	message?: StreamMessage | null;
+}
+
+interface HeaderRow {
+	id: number;
+	key: string;
+	value: string;
+}
+
+// Headers set by the server that should not be copied when republishing
+const RESERVED_HEADERS = [
+	"Nats-Msg-Id",
+	"Nats-Expected-Stream",
+	"Nats-Expected-Last-Sequence",
+	"Nats-Expected-Last-Subject-Sequence",
+	"Nats-Expected-Last-Msg-Id",
+];
+
+// Suggest a concrete subject from the first stream subject
+function defaultSubject(subjects: string[]): string {
+	const first = subjects[0] ?? "";
+	return first.includes("*") || first.includes(">") ? "" : first;
+}
+
+let nextHeaderRowId = 0;
+
+function newHeaderRow(key = "", value = ""): HeaderRow {
+	nextHeaderRowId += 1;
+	return { id: nextHeaderRowId, key, value };
+}
+
+function headersToRows(headers?: Record<string, string[]>): HeaderRow[] {
+	if (!headers) return [];
+	return Object.entries(headers)
+		.filter(([key]) => !RESERVED_HEADERS.includes(key))
+		.flatMap(([key, values]) => values.map((value) => newHeaderRow(key, value)));
+}
+
+export function PublishMessageDialog({
+	clusterId,
+	streamName,
+	subjects,
+	open,
+	onOpenChange,
+	message,
+}: PublishMessageDialogProps) {
+	const queryClient = useQueryClient();
+	const id = useId();
+	const [subject, setSubject] = useState("");
+	const [payload, setPayload] = useState("");
+	const [validateJson, setValidateJson] = useState(false);
+	const [headerRows, setHeaderRows] = useState<HeaderRow[]>([]);
+	const [msgId, setMsgId] = useState("");
+	const [expectedLastSeq, setExpectedLastSeq] = useState("");
+	const [expectedLastSubjectSeq, setExpectedLastSubjectSeq] = useState("");
+	const [error, setError] = useState("");
+
+	// Reset the form whenever the dialog opens
+	useEffect(() => {
+		if (!open) return;
+		setSubject(message?.subject ?? defaultSubject(subjects));
+		setPayload(message?.data ?? "");
+		setValidateJson(false);
+		setHeaderRows(headersToRows(message?.headers));
+		setMsgId("");
+		setExpectedLastSeq("");
+		setExpectedLastSubjectSeq("");
+		setError("");
+	}, [open, message, subjects]);
+
+	const publishMutation = useMutation({
+		mutationFn: (data: PublishMessageData) => streamsApi.publish(clusterId, data),
+		onSuccess: (ack) => {
+			queryClient.invalidateQueries({ queryKey: ["stream", clusterId, streamName] });
+			queryClient.invalidateQueries({ queryKey: ["stream-messages", clusterId, streamName] });
+			queryClient.invalidateQueries({ queryKey: ["stream-subjects", clusterId, streamName] });
+			if (ack.duplicate) {
+				toast.warning(`Duplicate message, already stored at seq ${ack.seq}`);
+			} else {
+				toast.success(`Published to ${ack.stream} at seq ${ack.seq}`);
+			}
+			onOpenChange(false);
+		},
+		onError: (err) => {
+			setError(err instanceof Error ? err.message : "Failed to publish message");
+		},
+	});
+
+	const jsonError = (() => {
+		if (!validateJson || !payload.trim()) return "";
+		try {
+			JSON.parse(payload);
+			return "";
+		} catch (err) {
+			return err instanceof Error ? err.message : "Invalid JSON";
+		}
+	})();
+
+	const handleFormatJson = () => {
+		try {
+			setPayload(JSON.stringify(JSON.parse(payload), null, 2));
+		} catch {
+			setValidateJson(true);
+		}
+	};
+
+	const updateHeaderRow = (rowId: number, field: "key" | "value", value: string) => {
+		setHeaderRows(headerRows.map((row) => (row.id === rowId ? { ...row, [field]: value } : row)));
+	};
+
+	const parseSeq = (value: string): number | undefined => {
+		const trimmed = value.trim();
+		if (!trimmed) return undefined;
+		const num = Number(trimmed);
+		return Number.isInteger(num) && num >= 0 ? num : Number.NaN;
+	};
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		setError("");
+
+		const trimmedSubject = subject.trim();
+		if (!trimmedSubject) {
+			setError("Subject is required");
+			return;
+		}
+
+		if (/[\s*>]/.test(trimmedSubject)) {
+			setError("Subject cannot contain spaces or wildcards");
+			return;
+		}
+
+		if (jsonError) {
+			setError("Payload is not valid JSON");
+			return;
+		}
+
+		const lastSeq = parseSeq(expectedLastSeq);
+		const lastSubjectSeq = parseSeq(expectedLastSubjectSeq);
+		if (Number.isNaN(lastSeq) || Number.isNaN(lastSubjectSeq)) {
+			setError("Expected sequences must be non-negative integers");
+			return;
+		}
+
+		const headers: Record<string, string[]> = {};
+		for (const row of headerRows) {
+			const key = row.key.trim();
+			if (!key) continue;
+			headers[key] = [...(headers[key] ?? []), row.value];
+		}
+
+		const data: PublishMessageData = {
+			subject: trimmedSubject,
+			payload,
+			// Fail instead of silently landing in another stream
+			expectedStream: streamName,
+		};
+
+		if (Object.keys(headers).length > 0) data.headers = headers;
+		if (msgId.trim()) data.msgId = msgId.trim();
+		if (lastSeq !== undefined) data.expectedLastSeq = lastSeq;
+		if (lastSubjectSeq !== undefined) data.expectedLastSubjectSeq = lastSubjectSeq;
+
+		publishMutation.mutate(data);
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>{message ? `Republish Message #${message.seq}` : "Publish Message"}</DialogTitle>
+					<DialogDescription>
+						Publish a message to stream "{streamName}" ({subjects.join(", ")})
+					</DialogDescription>
+				</DialogHeader>
+
+				<form onSubmit={handleSubmit} className="space-y-4">
+					{error && (
+						<div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+							{error}
+						</div>
+					)}
+
+					<div className="space-y-2">
+						<Label htmlFor={`${id}-subject`}>Subject *</Label>
+						<Input
+							id={`${id}-subject`}
+							value={subject}
+							onChange={(e) => setSubject(e.target.value)}
+							placeholder={subjects[0]?.replace(/[*>]/g, "example") || "orders.new"}
+							className="font-mono"
+							list={`${id}-subject-options`}
+						/>
+						<datalist id={`${id}-subject-options`}>
+							{subjects.map((s) => (
+								<option key={s} value={s} />
+							))}
+						</datalist>
+					</div>
+
+					<div className="space-y-2">
+						<div className="flex items-center justify-between">
+							<Label htmlFor={`${id}-payload`}>Payload</Label>
+							<div className="flex items-center gap-3">
+								<div className="flex items-center gap-2">
+									<Switch
+										id={`${id}-validate-json`}
+										checked={validateJson}
+										onCheckedChange={setValidateJson}
+									/>
+									<Label htmlFor={`${id}-validate-json`} className="text-xs font-normal">
+										Validate JSON
+									</Label>
+								</div>
+								<Button
+									type="button"
+									variant="ghost"
+									size="sm"
+									onClick={handleFormatJson}
+									disabled={!payload.trim()}
+								>
+									Format
+								</Button>
+							</div>
+						</div>
+						<Textarea
+							id={`${id}-payload`}
+							value={payload}
+							onChange={(e) => setPayload(e.target.value)}
+							placeholder='{"hello": "world"}'
+							className="font-mono text-xs min-h-[160px]"
+						/>
+						{jsonError && <p className="text-xs text-destructive">{jsonError}</p>}
+					</div>
+
+					<div className="space-y-2">
+						<div className="flex items-center justify-between">
+							<Label>Headers</Label>
+							<Button
+								type="button"
+								variant="ghost"
+								size="sm"
+								onClick={() => setHeaderRows([...headerRows, newHeaderRow()])}
+							>
+								<Plus className="mr-2 h-3 w-3" />
+								Add Header
+							</Button>
+						</div>
+						{headerRows.length > 0 ? (
+							<div className="space-y-2">
+								{headerRows.map((row) => (
+									<div key={row.id} className="flex gap-2">
+										<Input
+											value={row.key}
+											onChange={(e) => updateHeaderRow(row.id, "key", e.target.value)}
+											placeholder="Header name"
+											className="font-mono text-xs"
+										/>
+										<Input
+											value={row.value}
+											onChange={(e) => updateHeaderRow(row.id, "value", e.target.value)}
+											placeholder="Value"
+											className="font-mono text-xs"
+										/>
+										<Button
+											type="button"
+											variant="ghost"
+											size="icon"
+											onClick={() => setHeaderRows(headerRows.filter((r) => r.id !== row.id))}
+										>
+											<X className="h-4 w-4" />
+										</Button>
+									</div>
+								))}
+							</div>
+						) : (
+							<p className="text-xs text-muted-foreground">No headers</p>
+						)}
+					</div>
+
+					<div className="space-y-2">
+						<Label htmlFor={`${id}-msg-id`}>Message ID (Nats-Msg-Id)</Label>
+						<Input
+							id={`${id}-msg-id`}
+							value={msgId}
+							onChange={(e) => setMsgId(e.target.value)}
+							placeholder="Optional, used for de-duplication"
+							className="font-mono"
+						/>
+					</div>
+
+					<div className="grid grid-cols-2 gap-4">
+						<div className="space-y-2">
+							<Label htmlFor={`${id}-expected-seq`}>Expected Last Sequence</Label>
+							<Input
+								id={`${id}-expected-seq`}
+								value={expectedLastSeq}
+								onChange={(e) => setExpectedLastSeq(e.target.value)}
+								placeholder="Optional"
+							/>
+						</div>
+
+						<div className="space-y-2">
+							<Label htmlFor={`${id}-expected-subject-seq`}>Expected Last Subject Sequence</Label>
+							<Input
+								id={`${id}-expected-subject-seq`}
+								value={expectedLastSubjectSeq}
+								onChange={(e) => setExpectedLastSubjectSeq(e.target.value)}
+								placeholder="Optional"
+							/>
+						</div>
+					</div>
+
+					<DialogFooter>
+						<Button
+							type="button"
+							variant="outline"
+							onClick={() => onOpenChange(false)}
+						>
+							Cancel
+						</Button>
+						<Button type="submit" disabled={publishMutation.isPending}>
+							{publishMutation.isPending ? "Publishing..." : "Publish"}
+						</Button>
+					</DialogFooter>
+				</form>
+			</DialogContent>
+		</Dialog>
+	);
+}
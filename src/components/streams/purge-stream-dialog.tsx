@@ -0,0 +1,276 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useId, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { type PurgeStreamOptions, streamsApi } from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+interface PurgeStreamDialogProps {
+	clusterId: string;
+	streamName: string;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+type PurgeMode = "all" | "keep" | "seq";
+
+function parseCount(value: string, min: number): number | undefined {
+	const trimmed = value.trim();
+	if (!trimmed) return undefined;
+	const num = Number(trimmed);
+	return Number.isInteger(num) && num >= min ? num : undefined;
+}
+
+function PurgeOption({
+	name,
+	selected,
+	onSelect,
+	title,
+	description,
+	options,
+	clusterId,
+	streamName,
+	enabled,
+	children,
+}: {
+	name: string;
+	selected: boolean;
+	onSelect: () => void;
+	title: string;
+	description: string;
+	options: PurgeStreamOptions | null;
+	clusterId: string;
+	streamName: string;
+	enabled: boolean;
+	children?: React.ReactNode;
+}) {
+	const { data: preview, isLoading, error } = useQuery({
+		queryKey: ["stream-purge-preview", clusterId, streamName, options],
+		queryFn: () => streamsApi.previewPurge(clusterId, streamName, options ?? {}),
+		enabled: enabled && options !== null,
+	});
+
+	return (
+		<label
+			className={cn(
+				"block rounded-lg border p-3 space-y-2 cursor-pointer transition-colors",
+				selected ? "border-destructive bg-destructive/5" : "hover:bg-muted/50",
+			)}
+		>
+			<div className="flex items-start justify-between gap-4">
+				<div className="flex items-start gap-3">
+					<input
+						type="radio"
+						name={name}
+						checked={selected}
+						onChange={onSelect}
+						className="mt-1 accent-destructive"
+					/>
+					<div>
+						<div className="font-medium text-sm">{title}</div>
+						<div className="text-xs text-muted-foreground">{description}</div>
+					</div>
+				</div>
+				<div className="text-right shrink-0">
+					{options === null ? (
+						<span className="text-xs text-muted-foreground">-</span>
+					) : isLoading ? (
+						<Skeleton className="h-5 w-16" />
+					) : error ? (
+						<span className="text-xs text-destructive">Unavailable</span>
+					) : preview ? (
+						<>
+							<div className="font-mono text-sm font-semibold">
+								{preview.exact ? "" : "up to "}
+								{preview.count.toLocaleString()}
+							</div>
+							<div className="text-xs text-muted-foreground">messages removed</div>
+						</>
+					) : null}
+				</div>
+			</div>
+			{children}
+		</label>
+	);
+}
+
+export function PurgeStreamDialog({
+	clusterId,
+	streamName,
+	open,
+	onOpenChange,
+}: PurgeStreamDialogProps) {
+	const queryClient = useQueryClient();
+	const id = useId();
+	const [mode, setMode] = useState<PurgeMode>("all");
+	const [filter, setFilter] = useState("");
+	const [keep, setKeep] = useState("");
+	const [seq, setSeq] = useState("");
+	const [debouncedFilter, setDebouncedFilter] = useState("");
+	const [error, setError] = useState("");
+
+	useEffect(() => {
+		if (open) {
+			setMode("all");
+			setFilter("");
+			setDebouncedFilter("");
+			setKeep("");
+			setSeq("");
+			setError("");
+		}
+	}, [open]);
+
+	// Avoid a preview request for every keystroke
+	useEffect(() => {
+		const timer = setTimeout(() => setDebouncedFilter(filter), 300);
+		return () => clearTimeout(timer);
+	}, [filter]);
+
+	const trimmedFilter = debouncedFilter.trim() || undefined;
+	const keepValue = parseCount(keep, 0);
+	const seqValue = parseCount(seq, 1);
+
+	const optionsByMode: Record<PurgeMode, PurgeStreamOptions | null> = {
+		all: { filter: trimmedFilter },
+		keep: keepValue !== undefined ? { filter: trimmedFilter, keep: keepValue } : null,
+		seq: seqValue !== undefined ? { filter: trimmedFilter, seq: seqValue } : null,
+	};
+
+	const purgeMutation = useMutation({
+		mutationFn: (options: PurgeStreamOptions) => streamsApi.purge(clusterId, streamName, options),
+		onSuccess: (result) => {
+			queryClient.invalidateQueries({ queryKey: ["stream", clusterId, streamName] });
+			queryClient.invalidateQueries({ queryKey: ["stream-messages", clusterId, streamName] });
+			queryClient.invalidateQueries({ queryKey: ["stream-subjects", clusterId, streamName] });
+			queryClient.invalidateQueries({ queryKey: ["stream-purge-preview", clusterId, streamName] });
+			toast.success(`Purged ${result.purged} messages`);
+			onOpenChange(false);
+		},
+		onError: (err) => {
+			setError(err instanceof Error ? err.message : "Failed to purge stream");
+		},
+	});
+
+	const handlePurge = () => {
+		setError("");
+		const options = optionsByMode[mode];
+		if (!options) {
+			setError(mode === "keep" ? "Enter how many messages to keep" : "Enter a sequence number");
+			return;
+		}
+		// Use the filter as typed, the preview may still be debouncing
+		purgeMutation.mutate({ ...options, filter: filter.trim() || undefined });
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-lg">
+				<DialogHeader>
+					<DialogTitle>Purge Stream</DialogTitle>
+					<DialogDescription>
+						Remove messages from stream "{streamName}". The stream configuration will be preserved.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-4">
+					{error && (
+						<div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+							{error}
+						</div>
+					)}
+
+					<div className="space-y-2">
+						<Label htmlFor={`${id}-filter`}>Subject Filter</Label>
+						<Input
+							id={`${id}-filter`}
+							value={filter}
+							onChange={(e) => setFilter(e.target.value)}
+							placeholder="All subjects (e.g. orders.test.>)"
+							className="font-mono"
+						/>
+					</div>
+
+					<div className="space-y-2">
+						<PurgeOption
+							name={`${id}-mode`}
+							selected={mode === "all"}
+							onSelect={() => setMode("all")}
+							title={trimmedFilter ? "All matching messages" : "All messages"}
+							description={trimmedFilter ? `Every message on ${trimmedFilter}` : "Empty the stream"}
+							options={optionsByMode.all}
+							clusterId={clusterId}
+							streamName={streamName}
+							enabled={open}
+						/>
+
+						<PurgeOption
+							name={`${id}-mode`}
+							selected={mode === "keep"}
+							onSelect={() => setMode("keep")}
+							title="Keep the latest messages"
+							description="Remove everything except the newest N messages"
+							options={optionsByMode.keep}
+							clusterId={clusterId}
+							streamName={streamName}
+							enabled={open}
+						>
+							<Input
+								aria-label="Messages to keep"
+								value={keep}
+								onChange={(e) => setKeep(e.target.value)}
+								onFocus={() => setMode("keep")}
+								placeholder="Number of messages to keep"
+								className="h-8"
+							/>
+						</PurgeOption>
+
+						<PurgeOption
+							name={`${id}-mode`}
+							selected={mode === "seq"}
+							onSelect={() => setMode("seq")}
+							title="Up to a sequence"
+							description="Remove messages before (not including) this sequence"
+							options={optionsByMode.seq}
+							clusterId={clusterId}
+							streamName={streamName}
+							enabled={open}
+						>
+							<Input
+								aria-label="Purge up to sequence"
+								value={seq}
+								onChange={(e) => setSeq(e.target.value)}
+								onFocus={() => setMode("seq")}
+								placeholder="Sequence number"
+								className="h-8"
+							/>
+						</PurgeOption>
+					</div>
+				</div>
+
+				<DialogFooter>
+					<Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+						Cancel
+					</Button>
+					<Button
+						variant="destructive"
+						onClick={handlePurge}
+						disabled={purgeMutation.isPending}
+					>
+						{purgeMutation.isPending ? "Purging..." : "Purge"}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
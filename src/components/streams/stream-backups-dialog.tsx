@@ -0,0 +1,346 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Download, RotateCcw, Trash2, Upload } from "lucide-react";
+import { useEffect, useId, useRef, useState } from "react";
+import { toast } from "sonner";
+import { JobProgress } from "@/components/shared/job-progress";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import { backupsApi, clustersApi, type Job, type StreamBackup } from "@/lib/api";
+
+interface StreamBackupsDialogProps {
+	// Preselected restore target
+	clusterId: string;
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+}
+
+function formatBytes(bytes: number): string {
+	if (bytes === 0) return "0 B";
+	const k = 1024;
+	const sizes = ["B", "KB", "MB", "GB", "TB"];
+	const i = Math.floor(Math.log(bytes) / Math.log(k));
+	return `${Number.parseFloat((bytes / k ** i).toFixed(1))} ${sizes[i]}`;
+}
+
+function RestoreForm({
+	backup,
+	defaultClusterId,
+	onBack,
+}: {
+	backup: StreamBackup;
+	defaultClusterId: string;
+	onBack: () => void;
+}) {
+	const queryClient = useQueryClient();
+	const id = useId();
+	const [targetClusterId, setTargetClusterId] = useState(defaultClusterId);
+	const [name, setName] = useState(backup.stream);
+	const [subjectPrefix, setSubjectPrefix] = useState("");
+	const [jobId, setJobId] = useState<string | null>(null);
+	const [finished, setFinished] = useState<Job | null>(null);
+	const [error, setError] = useState("");
+
+	const { data: clusters } = useQuery({
+		queryKey: ["clusters"],
+		queryFn: () => clustersApi.getAll(),
+	});
+
+	const restoreMutation = useMutation({
+		mutationFn: () =>
+			backupsApi.restore({
+				backupId: backup.id,
+				targetClusterId,
+				name: name.trim() || undefined,
+				subjectPrefix: subjectPrefix.trim() || undefined,
+			}),
+		onSuccess: (job) => {
+			setError("");
+			setFinished(null);
+			setJobId(job.id);
+		},
+		onError: (err) => {
+			setError(err instanceof Error ? err.message : "Failed to start restore");
+		},
+	});
+
+	const handleFinished = (job: Job) => {
+		setFinished(job);
+		queryClient.invalidateQueries({ queryKey: ["streams", job.clusterId] });
+		if (job.status === "completed") {
+			toast.success(`Restored ${job.processed.toLocaleString()} messages to "${job.stream}"`);
+		}
+	};
+
+	const running = !!jobId && !finished;
+
+	return (
+		<div className="space-y-4">
+			<div className="rounded-md border p-3 text-sm">
+				<div className="font-medium">{backup.stream}</div>
+				<div className="text-muted-foreground">
+					{backup.messages.toLocaleString()} messages from {backup.clusterName}, taken{" "}
+					{new Date(backup.createdAt).toLocaleString()}
+				</div>
+			</div>
+
+			{error && (
+				<div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive whitespace-pre-line">
+					{error}
+				</div>
+			)}
+
+			<div className="space-y-2">
+				<Label htmlFor={`${id}-cluster`}>Target Cluster</Label>
+				<Select value={targetClusterId} onValueChange={setTargetClusterId} disabled={!!jobId}>
+					<SelectTrigger id={`${id}-cluster`}>
+						<SelectValue placeholder="Select a cluster" />
+					</SelectTrigger>
+					<SelectContent>
+						{clusters?.map((cluster) => (
+							<SelectItem key={cluster.id} value={cluster.id}>
+								{cluster.name}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			</div>
+			<div className="grid grid-cols-2 gap-4">
+				<div className="space-y-2">
+					<Label htmlFor={`${id}-name`}>Stream Name</Label>
+					<Input
+						id={`${id}-name`}
+						value={name}
+						onChange={(e) => setName(e.target.value)}
+						disabled={!!jobId}
+					/>
+				</div>
+				<div className="space-y-2">
+					<Label htmlFor={`${id}-prefix`}>Subject Prefix</Label>
+					<Input
+						id={`${id}-prefix`}
+						value={subjectPrefix}
+						onChange={(e) => setSubjectPrefix(e.target.value)}
+						placeholder="e.g. restored"
+						disabled={!!jobId}
+					/>
+				</div>
+			</div>
+			<p className="text-xs text-muted-foreground">
+				The stream must not exist yet. Use a prefix to restore next to a stream that still owns the
+				original subjects; every subject becomes <code>prefix.subject</code>.
+			</p>
+
+			{jobId && <JobProgress jobId={jobId} onFinished={handleFinished} />}
+
+			<div className="flex justify-end gap-2">
+				<Button variant="outline" onClick={onBack} disabled={running}>
+					Back
+				</Button>
+				<Button
+					onClick={() => restoreMutation.mutate()}
+					disabled={!targetClusterId || running || finished?.status === "completed" || restoreMutation.isPending}
+				>
+					<RotateCcw className="h-4 w-4 mr-2" />
+					{running ? "Restoring..." : "Restore"}
+				</Button>
+			</div>
+		</div>
+	);
+}
+
+export function StreamBackupsDialog({ clusterId, open, onOpenChange }: StreamBackupsDialogProps) {
+	const queryClient = useQueryClient();
+	const fileInputRef = useRef<HTMLInputElement>(null);
+	const [restoring, setRestoring] = useState<StreamBackup | null>(null);
+
+	useEffect(() => {
+		if (open) {
+			setRestoring(null);
+		}
+	}, [open]);
+
+	const { data, isLoading, error } = useQuery({
+		queryKey: ["backups"],
+		queryFn: () => backupsApi.list(),
+		enabled: open,
+	});
+
+	const uploadMutation = useMutation({
+		mutationFn: (file: File) => backupsApi.upload(file),
+		onSuccess: (backup) => {
+			queryClient.invalidateQueries({ queryKey: ["backups"] });
+			toast.success(`Uploaded backup of "${backup.stream}"`);
+		},
+		onError: (err) => {
+			toast.error(err instanceof Error ? err.message : "Failed to upload backup");
+		},
+	});
+
+	const deleteMutation = useMutation({
+		mutationFn: (backupId: string) => backupsApi.delete(backupId),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ["backups"] });
+			toast.success("Backup deleted");
+		},
+		onError: (err) => {
+			toast.error(err instanceof Error ? err.message : "Failed to delete backup");
+		},
+	});
+
+	const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		if (file) uploadMutation.mutate(file);
+		e.target.value = "";
+	};
+
+	const handleDownload = (backupId: string) => {
+		const link = document.createElement("a");
+		link.href = backupsApi.getDownloadUrl(backupId);
+		document.body.appendChild(link);
+		link.click();
+		document.body.removeChild(link);
+	};
+
+	const handleDelete = (backup: StreamBackup) => {
+		if (!confirm(`Are you sure you want to delete the backup of "${backup.stream}"?`)) {
+			return;
+		}
+		deleteMutation.mutate(backup.id);
+	};
+
+	const backups = data?.backups ?? [];
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>{restoring ? "Restore Stream" : "Stream Backups"}</DialogTitle>
+					<DialogDescription>
+						{restoring
+							? "Recreate the stream with its configuration and republish every message."
+							: "Archives taken from the stream pages or uploaded from another NATS Eye instance."}
+					</DialogDescription>
+				</DialogHeader>
+
+				{restoring ? (
+					<RestoreForm backup={restoring} defaultClusterId={clusterId} onBack={() => setRestoring(null)} />
+				) : isLoading ? (
+					<div className="space-y-2">
+						<Skeleton className="h-10 w-full" />
+						<Skeleton className="h-10 w-full" />
+						<Skeleton className="h-10 w-full" />
+					</div>
+				) : error ? (
+					<div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+						{error instanceof Error ? error.message : "Failed to load backups"}
+					</div>
+				) : backups.length === 0 ? (
+					<div className="rounded-md border p-6 text-center text-sm text-muted-foreground">
+						No backups yet. Open a stream and choose Backup, or upload an archive.
+					</div>
+				) : (
+					<div className="rounded-md border">
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Stream</TableHead>
+									<TableHead>Source</TableHead>
+									<TableHead className="text-right">Messages</TableHead>
+									<TableHead className="text-right">Size</TableHead>
+									<TableHead>Created</TableHead>
+									<TableHead className="w-[120px]" />
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{backups.map((backup) => (
+									<TableRow key={backup.id}>
+										<TableCell className="font-medium">{backup.stream}</TableCell>
+										<TableCell className="text-sm">
+											{backup.clusterName}
+											{backup.uploaded && (
+												<Badge variant="outline" className="ml-2">
+													Uploaded
+												</Badge>
+											)}
+										</TableCell>
+										<TableCell className="text-right">{backup.messages.toLocaleString()}</TableCell>
+										<TableCell className="text-right">{formatBytes(backup.size)}</TableCell>
+										<TableCell className="text-sm text-muted-foreground">
+											{new Date(backup.createdAt).toLocaleString()}
+										</TableCell>
+										<TableCell>
+											<div className="flex justify-end gap-1">
+												<Button variant="ghost" size="icon" title="Restore" onClick={() => setRestoring(backup)}>
+													<RotateCcw className="h-4 w-4" />
+												</Button>
+												<Button variant="ghost" size="icon" title="Download" onClick={() => handleDownload(backup.id)}>
+													<Download className="h-4 w-4" />
+												</Button>
+												<Button
+													variant="ghost"
+													size="icon"
+													title="Delete"
+													onClick={() => handleDelete(backup)}
+													disabled={deleteMutation.isPending}
+												>
+													<Trash2 className="h-4 w-4" />
+												</Button>
+											</div>
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					</div>
+				)}
+
+				{!restoring && (
+					<DialogFooter>
+						<input
+							ref={fileInputRef}
+							type="file"
+							accept=".gz,application/gzip"
+							className="hidden"
+							onChange={handleUpload}
+						/>
+						<Button
+							variant="outline"
+							onClick={() => fileInputRef.current?.click()}
+							disabled={uploadMutation.isPending}
+						>
+							<Upload className="h-4 w-4 mr-2" />
+							{uploadMutation.isPending ? "Uploading..." : "Upload Archive"}
+						</Button>
+						<Button onClick={() => onOpenChange(false)}>Close</Button>
+					</DialogFooter>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,127 @@
+import { useId, useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+
+interface DiffRow {
+	path: string;
+	before?: string;
+	after?: string;
+	changed: boolean;
+}
+
+// Flatten nested objects to dotted paths; arrays are compared as a whole
+function flatten(value: unknown, prefix: string, out: Map<string, string>) {
+	if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+		for (const [key, child] of Object.entries(value)) {
+			flatten(child, prefix ? `${prefix}.${key}` : key, out);
+		}
+		return;
+	}
+	if (value !== undefined && prefix) {
+		out.set(prefix, JSON.stringify(value));
+	}
+}
+
+export function diffConfigs(current: Record<string, unknown>, proposed: Record<string, unknown>): DiffRow[] {
+	const before = new Map<string, string>();
+	const after = new Map<string, string>();
+	flatten(current, "", before);
+	flatten(proposed, "", after);
+
+	const paths = [...new Set([...before.keys(), ...after.keys()])].sort();
+	return paths.map((path) => ({
+		path,
+		before: before.get(path),
+		after: after.get(path),
+		changed: before.get(path) !== after.get(path),
+	}));
+}
+
+// Config paths named in a server error, e.g. "can not change retention" → retention
+export function pathsInError(rows: DiffRow[], error: string): Set<string> {
+	const text = error.toLowerCase();
+	const matches = new Set<string>();
+	for (const row of rows) {
+		if (!row.changed) continue;
+		const key = row.path.split(".").pop() ?? row.path;
+		if (text.includes(key) || text.includes(key.replace(/_/g, " "))) {
+			matches.add(row.path);
+		}
+	}
+	return matches;
+}
+
+interface StreamConfigDiffProps {
+	rows: DiffRow[];
+	error?: string;
+}
+
+export function StreamConfigDiff({ rows, error }: StreamConfigDiffProps) {
+	const id = useId();
+	const [showUnchanged, setShowUnchanged] = useState(false);
+	const errorPaths = error ? pathsInError(rows, error) : new Set<string>();
+	const changedCount = rows.filter((row) => row.changed).length;
+	const visible = showUnchanged ? rows : rows.filter((row) => row.changed);
+
+	return (
+		<div className="space-y-3">
+			{error && errorPaths.size === 0 && (
+				<div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">{error}</div>
+			)}
+
+			<div className="flex items-center justify-between">
+				<div className="text-sm text-muted-foreground">
+					{changedCount === 0 ? "No changes" : `${changedCount} field(s) changed`}
+				</div>
+				<div className="flex items-center gap-2">
+					<Switch id={`${id}-unchanged`} checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+					<Label htmlFor={`${id}-unchanged`} className="text-xs font-normal">
+						Show unchanged
+					</Label>
+				</div>
+			</div>
+
+			{visible.length > 0 && (
+				<div className="rounded-lg border font-mono text-xs">
+					<div className="grid grid-cols-[minmax(0,1fr)_minmax(0,1.5fr)_minmax(0,1.5fr)] border-b bg-muted/50 font-sans font-medium">
+						<div className="px-3 py-2">Field</div>
+						<div className="px-3 py-2">Current</div>
+						<div className="px-3 py-2">New</div>
+					</div>
+					{visible.map((row) => (
+						<div key={row.path} className="border-b last:border-b-0">
+							<div
+								className={cn(
+									"grid grid-cols-[minmax(0,1fr)_minmax(0,1.5fr)_minmax(0,1.5fr)]",
+									errorPaths.has(row.path) && "bg-destructive/10",
+								)}
+							>
+								<div className="px-3 py-1.5 break-all">{row.path}</div>
+								<div
+									className={cn(
+										"px-3 py-1.5 break-all",
+										row.changed && "bg-red-500/10 text-red-700 dark:text-red-400",
+									)}
+								>
+									{row.before ?? <span className="text-muted-foreground">—</span>}
+								</div>
+								<div
+									className={cn(
+										"px-3 py-1.5 break-all",
+										row.changed && "bg-green-500/10 text-green-700 dark:text-green-400",
+									)}
+								>
+									{row.after ?? <span className="text-muted-foreground">—</span>}
+								</div>
+							</div>
+							{errorPaths.has(row.path) && (
+								<div className="px-3 pb-1.5 font-sans text-destructive">{error}</div>
+							)}
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
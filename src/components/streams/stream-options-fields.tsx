@@ -0,0 +1,447 @@
+import { Plus, X } from "lucide-react";
+import { useId } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import type { StreamInfo, StreamOptions } from "@/lib/api";
+
+const BYTE_UNITS: Record<string, number> = {
+	B: 1,
+	KB: 1024,
+	MB: 1024 * 1024,
+	GB: 1024 * 1024 * 1024,
+	TB: 1024 * 1024 * 1024 * 1024,
+};
+
+const DURATION_UNITS: Record<string, number> = {
+	s: 1_000_000_000, // nanoseconds
+	m: 60 * 1_000_000_000,
+	h: 60 * 60 * 1_000_000_000,
+	d: 24 * 60 * 60 * 1_000_000_000,
+};
+
+// Parse "1GB", "512MB" or a plain number of bytes; empty means unlimited
+export function parseBytes(value: string): number {
+	const trimmed = value.trim().toUpperCase();
+	if (!trimmed) return -1;
+
+	const match = trimmed.match(/^(\d+(?:\.\d+)?)\s*(B|KB|MB|GB|TB)?$/);
+	if (!match) return Number(trimmed) || -1;
+
+	return Math.floor(parseFloat(match[1]) * BYTE_UNITS[match[2] || "B"]);
+}
+
+// Parse "7d", "24h", "2m" or a plain number of seconds into nanoseconds
+export function parseDuration(value: string): number {
+	const trimmed = value.trim().toLowerCase();
+	if (!trimmed) return 0;
+
+	const match = trimmed.match(/^(\d+(?:\.\d+)?)\s*(s|m|h|d)?$/);
+	if (!match) return Number(trimmed) * 1_000_000_000 || 0; // Assume seconds if no unit
+
+	return Math.floor(parseFloat(match[1]) * DURATION_UNITS[match[2] || "s"]);
+}
+
+// Format bytes for an input, using the largest unit that divides evenly
+export function formatBytesInput(bytes: number): string {
+	if (bytes < 0) return "";
+	for (const unit of ["TB", "GB", "MB", "KB"]) {
+		if (bytes >= BYTE_UNITS[unit] && bytes % BYTE_UNITS[unit] === 0) {
+			return `${bytes / BYTE_UNITS[unit]}${unit}`;
+		}
+	}
+	return String(bytes);
+}
+
+// Format nanoseconds for an input, using the largest unit that divides evenly
+export function formatDurationInput(nanos: number): string {
+	if (nanos <= 0) return "";
+	for (const unit of ["d", "h", "m", "s"]) {
+		if (nanos % DURATION_UNITS[unit] === 0) {
+			return `${nanos / DURATION_UNITS[unit]}${unit}`;
+		}
+	}
+	return `${nanos / 1_000_000_000}s`;
+}
+
+let nextId = 0;
+const newId = () => {
+	nextId += 1;
+	return nextId;
+};
+
+// Form state for the settings shared by the create and edit dialogs
+export interface StreamOptionsForm {
+	maxMsgsPerSubject: string;
+	duplicateWindow: string;
+	discardNewPerSubject: boolean;
+	allowRollupHdrs: boolean;
+	denyDelete: boolean;
+	denyPurge: boolean;
+	allowDirect: boolean;
+	mirrorDirect: boolean;
+	compression: "none" | "s2";
+	republishSrc: string;
+	republishDest: string;
+	republishHeadersOnly: boolean;
+	transformSrc: string;
+	transformDest: string;
+	metadata: { id: number; key: string; value: string }[];
+}
+
+export function emptyStreamOptions(): StreamOptionsForm {
+	return {
+		maxMsgsPerSubject: "",
+		duplicateWindow: "",
+		discardNewPerSubject: false,
+		allowRollupHdrs: false,
+		denyDelete: false,
+		denyPurge: false,
+		allowDirect: false,
+		mirrorDirect: false,
+		compression: "none",
+		republishSrc: "",
+		republishDest: "",
+		republishHeadersOnly: false,
+		transformSrc: "",
+		transformDest: "",
+		metadata: [],
+	};
+}
+
+export function streamOptionsFromStream(stream: StreamInfo): StreamOptionsForm {
+	return {
+		maxMsgsPerSubject: stream.maxMsgsPerSubject > 0 ? String(stream.maxMsgsPerSubject) : "",
+		duplicateWindow: formatDurationInput(stream.duplicateWindow),
+		discardNewPerSubject: stream.discardNewPerSubject,
+		allowRollupHdrs: stream.allowRollupHdrs,
+		denyDelete: stream.denyDelete,
+		denyPurge: stream.denyPurge,
+		allowDirect: stream.allowDirect,
+		mirrorDirect: stream.mirrorDirect,
+		compression: stream.compression,
+		republishSrc: stream.republish?.src ?? "",
+		republishDest: stream.republish?.dest ?? "",
+		republishHeadersOnly: stream.republish?.headersOnly ?? false,
+		transformSrc: stream.subjectTransform?.src ?? "",
+		transformDest: stream.subjectTransform?.dest ?? "",
+		// Keys under _nats. are maintained by the server
+		metadata: Object.entries(stream.metadata ?? {})
+			.filter(([key]) => !key.startsWith("_nats."))
+			.map(([key, value]) => ({ id: newId(), key, value })),
+	};
+}
+
+// Convert the form to API options, returning an error message when invalid.
+// On update, cleared republish and transform settings are sent as null to remove them.
+export function toStreamOptions(form: StreamOptionsForm, forUpdate: boolean): StreamOptions | string {
+	const options: StreamOptions = {
+		discardNewPerSubject: form.discardNewPerSubject,
+		allowRollupHdrs: form.allowRollupHdrs,
+		denyDelete: form.denyDelete,
+		denyPurge: form.denyPurge,
+		allowDirect: form.allowDirect,
+		mirrorDirect: form.mirrorDirect,
+		compression: form.compression,
+	};
+
+	if (form.maxMsgsPerSubject.trim()) {
+		const max = Number(form.maxMsgsPerSubject.trim());
+		if (!Number.isInteger(max) || max < -1) return "Max messages per subject must be a whole number";
+		options.maxMsgsPerSubject = max;
+	} else if (forUpdate) {
+		options.maxMsgsPerSubject = -1;
+	}
+
+	if (form.duplicateWindow.trim()) {
+		options.duplicateWindow = parseDuration(form.duplicateWindow);
+	}
+
+	const republishSrc = form.republishSrc.trim();
+	const republishDest = form.republishDest.trim();
+	if (republishSrc || republishDest) {
+		if (!republishSrc || !republishDest) return "Republish needs both a source and a destination";
+		options.republish = { src: republishSrc, dest: republishDest, headersOnly: form.republishHeadersOnly };
+	} else if (forUpdate) {
+		options.republish = null;
+	}
+
+	const transformSrc = form.transformSrc.trim();
+	const transformDest = form.transformDest.trim();
+	if (transformSrc || transformDest) {
+		if (!transformSrc || !transformDest) return "Subject transform needs both a source and a destination";
+		options.subjectTransform = { src: transformSrc, dest: transformDest };
+	} else if (forUpdate) {
+		options.subjectTransform = null;
+	}
+
+	const metadata: Record<string, string> = {};
+	for (const row of form.metadata) {
+		const key = row.key.trim();
+		if (!key) continue;
+		if (key in metadata) return `Duplicate metadata key "${key}"`;
+		metadata[key] = row.value;
+	}
+	if (Object.keys(metadata).length > 0 || forUpdate) {
+		options.metadata = metadata;
+	}
+
+	return options;
+}
+
+interface StreamOptionsFieldsProps {
+	value: StreamOptionsForm;
+	onChange: (value: StreamOptionsForm) => void;
+	isMirror?: boolean;
+	// Settings the server will not let us turn off again once enabled
+	lockedDenyDelete?: boolean;
+	lockedDenyPurge?: boolean;
+	disabled?: boolean;
+}
+
+function ToggleField({
+	label,
+	description,
+	checked,
+	onCheckedChange,
+	disabled,
+}: {
+	label: string;
+	description: string;
+	checked: boolean;
+	onCheckedChange: (checked: boolean) => void;
+	disabled?: boolean;
+}) {
+	const id = useId();
+	return (
+		<div className="flex items-start justify-between gap-4">
+			<div className="space-y-0.5">
+				<Label htmlFor={id}>{label}</Label>
+				<p className="text-xs text-muted-foreground">{description}</p>
+			</div>
+			<Switch id={id} checked={checked} onCheckedChange={onCheckedChange} disabled={disabled} />
+		</div>
+	);
+}
+
+export function StreamOptionsFields({
+	value,
+	onChange,
+	isMirror,
+	lockedDenyDelete,
+	lockedDenyPurge,
+	disabled,
+}: StreamOptionsFieldsProps) {
+	const id = useId();
+	const set = <K extends keyof StreamOptionsForm>(field: K, fieldValue: StreamOptionsForm[K]) =>
+		onChange({ ...value, [field]: fieldValue });
+
+	const updateMetadata = (rowId: number, field: "key" | "value", fieldValue: string) => {
+		set("metadata", value.metadata.map((row) => (row.id === rowId ? { ...row, [field]: fieldValue } : row)));
+	};
+
+	return (
+		<div className="space-y-4">
+			<div className="grid grid-cols-3 gap-4">
+				<div className="space-y-2">
+					<Label htmlFor={`${id}-per-subject`}>Max Msgs / Subject</Label>
+					<Input
+						id={`${id}-per-subject`}
+						value={value.maxMsgsPerSubject}
+						onChange={(e) => set("maxMsgsPerSubject", e.target.value)}
+						placeholder="-1 (unlimited)"
+						disabled={disabled}
+					/>
+				</div>
+				<div className="space-y-2">
+					<Label htmlFor={`${id}-dupe-window`}>Duplicate Window</Label>
+					<Input
+						id={`${id}-dupe-window`}
+						value={value.duplicateWindow}
+						onChange={(e) => set("duplicateWindow", e.target.value)}
+						placeholder="2m (default)"
+						disabled={disabled}
+					/>
+				</div>
+				<div className="space-y-2">
+					<Label>Compression</Label>
+					<Select
+						value={value.compression}
+						onValueChange={(v) => set("compression", v as StreamOptionsForm["compression"])}
+						disabled={disabled}
+					>
+						<SelectTrigger>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="none">None</SelectItem>
+							<SelectItem value="s2">S2</SelectItem>
+						</SelectContent>
+					</Select>
+				</div>
+			</div>
+
+			<div className="space-y-3 rounded-lg border p-3">
+				<ToggleField
+					label="Discard New Per Subject"
+					description="With discard new, reject messages once a subject reaches its limit"
+					checked={value.discardNewPerSubject}
+					onCheckedChange={(v) => set("discardNewPerSubject", v)}
+					disabled={disabled}
+				/>
+				<ToggleField
+					label="Allow Rollups"
+					description="Allow the Nats-Rollup header to replace a subject or the whole stream"
+					checked={value.allowRollupHdrs}
+					onCheckedChange={(v) => set("allowRollupHdrs", v)}
+					disabled={disabled}
+				/>
+				<ToggleField
+					label="Deny Delete"
+					description={
+						lockedDenyDelete ? "Cannot be turned off once enabled" : "Prevent deleting individual messages"
+					}
+					checked={value.denyDelete}
+					onCheckedChange={(v) => set("denyDelete", v)}
+					disabled={disabled || lockedDenyDelete}
+				/>
+				<ToggleField
+					label="Deny Purge"
+					description={lockedDenyPurge ? "Cannot be turned off once enabled" : "Prevent purging the stream"}
+					checked={value.denyPurge}
+					onCheckedChange={(v) => set("denyPurge", v)}
+					disabled={disabled || lockedDenyPurge}
+				/>
+				<ToggleField
+					label="Allow Direct Get"
+					description="Let any replica answer direct get requests"
+					checked={value.allowDirect}
+					onCheckedChange={(v) => set("allowDirect", v)}
+					disabled={disabled}
+				/>
+				{isMirror && (
+					<ToggleField
+						label="Mirror Direct"
+						description="Let this mirror answer direct gets for the origin stream"
+						checked={value.mirrorDirect}
+						onCheckedChange={(v) => set("mirrorDirect", v)}
+						disabled={disabled}
+					/>
+				)}
+			</div>
+
+			{!isMirror && (
+				<div className="space-y-2">
+					<Label>Subject Transform</Label>
+					<div className="flex items-center gap-2">
+						<Input
+							aria-label="Subject transform source"
+							value={value.transformSrc}
+							onChange={(e) => set("transformSrc", e.target.value)}
+							placeholder="orders.*"
+							className="font-mono text-xs"
+							disabled={disabled}
+						/>
+						<span className="text-muted-foreground">→</span>
+						<Input
+							aria-label="Subject transform destination"
+							value={value.transformDest}
+							onChange={(e) => set("transformDest", e.target.value)}
+							placeholder="orders.{{wildcard(1)}}.v2"
+							className="font-mono text-xs"
+							disabled={disabled}
+						/>
+					</div>
+				</div>
+			)}
+
+			<div className="space-y-2">
+				<Label>Republish</Label>
+				<div className="flex items-center gap-2">
+					<Input
+						aria-label="Republish source"
+						value={value.republishSrc}
+						onChange={(e) => set("republishSrc", e.target.value)}
+						placeholder="orders.>"
+						className="font-mono text-xs"
+						disabled={disabled}
+					/>
+					<span className="text-muted-foreground">→</span>
+					<Input
+						aria-label="Republish destination"
+						value={value.republishDest}
+						onChange={(e) => set("republishDest", e.target.value)}
+						placeholder="events.orders.>"
+						className="font-mono text-xs"
+						disabled={disabled}
+					/>
+				</div>
+				<div className="flex items-center gap-2">
+					<Switch
+						id={`${id}-headers-only`}
+						checked={value.republishHeadersOnly}
+						onCheckedChange={(v) => set("republishHeadersOnly", v)}
+						disabled={disabled}
+					/>
+					<Label htmlFor={`${id}-headers-only`} className="text-xs font-normal">
+						Headers only
+					</Label>
+				</div>
+			</div>
+
+			<div className="space-y-2">
+				<div className="flex items-center justify-between">
+					<Label>Metadata</Label>
+					<Button
+						type="button"
+						variant="ghost"
+						size="sm"
+						onClick={() => set("metadata", [...value.metadata, { id: newId(), key: "", value: "" }])}
+						disabled={disabled}
+					>
+						<Plus className="mr-2 h-3 w-3" />
+						Add
+					</Button>
+				</div>
+				{value.metadata.map((row) => (
+					<div key={row.id} className="flex gap-2">
+						<Input
+							aria-label="Metadata key"
+							value={row.key}
+							onChange={(e) => updateMetadata(row.id, "key", e.target.value)}
+							placeholder="Key"
+							className="font-mono text-xs"
+							disabled={disabled}
+						/>
+						<Input
+							aria-label="Metadata value"
+							value={row.value}
+							onChange={(e) => updateMetadata(row.id, "value", e.target.value)}
+							placeholder="Value"
+							className="font-mono text-xs"
+							disabled={disabled}
+						/>
+						<Button
+							type="button"
+							variant="ghost"
+							size="icon"
+							className="shrink-0"
+							onClick={() => set("metadata", value.metadata.filter((r) => r.id !== row.id))}
+							disabled={disabled}
+						>
+							<X className="h-4 w-4" />
+						</Button>
+					</div>
+				))}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,244 @@
+import { Plus, X } from "lucide-react";
+import { useId } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { StreamSourceConfig } from "@/lib/api";
+
+// Form state for a mirror or source, kept as strings for the inputs
+export interface StreamSourceForm {
+	id: number;
+	name: string;
+	filterSubject: string;
+	optStartSeq: string;
+	optStartTime: string;
+	externalApi: string;
+	externalDeliver: string;
+	transforms: { id: number; src: string; dest: string }[];
+}
+
+let nextId = 0;
+const newId = () => {
+	nextId += 1;
+	return nextId;
+};
+
+export function emptyStreamSource(): StreamSourceForm {
+	return {
+		id: newId(),
+		name: "",
+		filterSubject: "",
+		optStartSeq: "",
+		optStartTime: "",
+		externalApi: "",
+		externalDeliver: "",
+		transforms: [],
+	};
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Prefill the form from an existing mirror or source
+export function fromStreamSourceConfig(config: StreamSourceConfig): StreamSourceForm {
+	let optStartTime = "";
+	if (config.optStartTime) {
+		const d = new Date(config.optStartTime);
+		optStartTime = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+	}
+
+	return {
+		id: newId(),
+		name: config.name,
+		filterSubject: config.filterSubject ?? "",
+		optStartSeq: config.optStartSeq ? String(config.optStartSeq) : "",
+		optStartTime,
+		externalApi: config.external?.api ?? "",
+		externalDeliver: config.external?.deliver ?? "",
+		transforms: (config.subjectTransforms ?? []).map((t) => ({ id: newId(), src: t.src, dest: t.dest })),
+	};
+}
+
+// Convert the form to the API shape, returning an error message when invalid
+export function toStreamSourceConfig(form: StreamSourceForm, label: string): StreamSourceConfig | string {
+	const name = form.name.trim();
+	if (!name) return `${label}: stream name is required`;
+
+	const config: StreamSourceConfig = { name };
+
+	if (form.filterSubject.trim()) config.filterSubject = form.filterSubject.trim();
+
+	if (form.optStartSeq.trim()) {
+		const seq = Number(form.optStartSeq.trim());
+		if (!Number.isInteger(seq) || seq < 1) return `${label}: start sequence must be a positive integer`;
+		config.optStartSeq = seq;
+	}
+
+	if (form.optStartTime) {
+		const time = new Date(form.optStartTime);
+		if (Number.isNaN(time.getTime())) return `${label}: invalid start time`;
+		config.optStartTime = time.toISOString();
+	}
+
+	if (config.optStartSeq && config.optStartTime) {
+		return `${label}: set either a start sequence or a start time, not both`;
+	}
+
+	if (form.externalApi.trim()) {
+		config.external = { api: form.externalApi.trim() };
+		if (form.externalDeliver.trim()) config.external.deliver = form.externalDeliver.trim();
+	} else if (form.externalDeliver.trim()) {
+		return `${label}: a deliver prefix requires an API prefix`;
+	}
+
+	const transforms = form.transforms
+		.filter((t) => t.src.trim() || t.dest.trim())
+		.map((t) => ({ src: t.src.trim(), dest: t.dest.trim() }));
+	if (transforms.some((t) => !t.src || !t.dest)) {
+		return `${label}: subject transforms need both a source and a destination`;
+	}
+	if (transforms.length > 0) {
+		if (config.filterSubject) return `${label}: use either a filter subject or subject transforms, not both`;
+		config.subjectTransforms = transforms;
+	}
+
+	return config;
+}
+
+interface StreamSourceFieldsProps {
+	title: string;
+	value: StreamSourceForm;
+	onChange: (value: StreamSourceForm) => void;
+	onRemove?: () => void;
+	disabled?: boolean;
+}
+
+export function StreamSourceFields({ title, value, onChange, onRemove, disabled }: StreamSourceFieldsProps) {
+	const id = useId();
+	const update = (field: keyof Omit<StreamSourceForm, "id" | "transforms">) =>
+		(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...value, [field]: e.target.value });
+
+	const updateTransform = (transformId: number, field: "src" | "dest", fieldValue: string) => {
+		onChange({
+			...value,
+			transforms: value.transforms.map((t) => (t.id === transformId ? { ...t, [field]: fieldValue } : t)),
+		});
+	};
+
+	return (
+		<div className="rounded-lg border p-3 space-y-3">
+			<div className="flex items-center justify-between">
+				<div className="text-sm font-medium">{title}</div>
+				{onRemove && (
+					<Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={onRemove} disabled={disabled}>
+						<X className="h-4 w-4" />
+					</Button>
+				)}
+			</div>
+
+			<div className="grid grid-cols-2 gap-3">
+				<div className="space-y-1">
+					<Label htmlFor={`${id}-name`} className="text-xs">Stream *</Label>
+					<Input id={`${id}-name`} value={value.name} onChange={update("name")} placeholder="ORDERS" disabled={disabled} />
+				</div>
+				<div className="space-y-1">
+					<Label htmlFor={`${id}-filter`} className="text-xs">Filter Subject</Label>
+					<Input
+						id={`${id}-filter`}
+						value={value.filterSubject}
+						onChange={update("filterSubject")}
+						placeholder="orders.eu.>"
+						disabled={disabled}
+					/>
+				</div>
+				<div className="space-y-1">
+					<Label htmlFor={`${id}-seq`} className="text-xs">Start Sequence</Label>
+					<Input
+						id={`${id}-seq`}
+						value={value.optStartSeq}
+						onChange={update("optStartSeq")}
+						placeholder="From the beginning"
+						disabled={disabled}
+					/>
+				</div>
+				<div className="space-y-1">
+					<Label htmlFor={`${id}-time`} className="text-xs">Start Time</Label>
+					<Input
+						id={`${id}-time`}
+						type="datetime-local"
+						step="1"
+						value={value.optStartTime}
+						onChange={update("optStartTime")}
+						disabled={disabled}
+					/>
+				</div>
+				<div className="space-y-1">
+					<Label htmlFor={`${id}-api`} className="text-xs">External API Prefix</Label>
+					<Input
+						id={`${id}-api`}
+						value={value.externalApi}
+						onChange={update("externalApi")}
+						placeholder="$JS.hub.API"
+						disabled={disabled}
+					/>
+				</div>
+				<div className="space-y-1">
+					<Label htmlFor={`${id}-deliver`} className="text-xs">External Deliver Prefix</Label>
+					<Input
+						id={`${id}-deliver`}
+						value={value.externalDeliver}
+						onChange={update("externalDeliver")}
+						placeholder="Optional"
+						disabled={disabled}
+					/>
+				</div>
+			</div>
+
+			<div className="space-y-2">
+				<div className="flex items-center justify-between">
+					<Label className="text-xs">Subject Transforms</Label>
+					<Button
+						type="button"
+						variant="ghost"
+						size="sm"
+						onClick={() => onChange({ ...value, transforms: [...value.transforms, { id: newId(), src: "", dest: "" }] })}
+						disabled={disabled}
+					>
+						<Plus className="mr-2 h-3 w-3" />
+						Add
+					</Button>
+				</div>
+				{value.transforms.map((t) => (
+					<div key={t.id} className="flex items-center gap-2">
+						<Input
+							aria-label="Transform source"
+							value={t.src}
+							onChange={(e) => updateTransform(t.id, "src", e.target.value)}
+							placeholder="orders.*"
+							className="font-mono text-xs"
+							disabled={disabled}
+						/>
+						<span className="text-muted-foreground">→</span>
+						<Input
+							aria-label="Transform destination"
+							value={t.dest}
+							onChange={(e) => updateTransform(t.id, "dest", e.target.value)}
+							placeholder="eu.orders.{{wildcard(1)}}"
+							className="font-mono text-xs"
+							disabled={disabled}
+						/>
+						<Button
+							type="button"
+							variant="ghost"
+							size="icon"
+							className="h-8 w-8 shrink-0"
+							onClick={() => onChange({ ...value, transforms: value.transforms.filter((x) => x.id !== t.id) })}
+							disabled={disabled}
+						>
+							<X className="h-4 w-4" />
+						</Button>
+					</div>
+				))}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,235 @@
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { StreamSubjectCount } from "@/lib/api";
+
+interface SubjectNode {
+	token: string;
+	path: string;
+	// Messages stored on exactly this subject
+	own: number;
+	// Messages on this subject and everything below it
+	total: number;
+	children: SubjectNode[];
+}
+
+interface SubjectTreeProps {
+	subjects: StreamSubjectCount[];
+	// Average message size, used to estimate bytes per subject
+	avgMessageSize: number;
+	onSelect: (filter: string) => void;
+}
+
+function formatBytes(bytes: number): string {
+	if (bytes === 0) return "0 B";
+	const k = 1024;
+	const sizes = ["B", "KB", "MB", "GB", "TB"];
+	const i = Math.floor(Math.log(bytes) / Math.log(k));
+	return `${Number.parseFloat((bytes / k ** i).toFixed(1))} ${sizes[i]}`;
+}
+
+// Build a token tree (orders -> eu -> created) from flat subject counts
+function buildTree(subjects: StreamSubjectCount[]): SubjectNode[] {
+	const root: SubjectNode = { token: "", path: "", own: 0, total: 0, children: [] };
+	const byPath = new Map<string, SubjectNode>();
+
+	for (const { subject, messages } of subjects) {
+		let node = root;
+		node.total += messages;
+		for (const token of subject.split(".")) {
+			const path = node.path ? `${node.path}.${token}` : token;
+			let child = byPath.get(path);
+			if (!child) {
+				child = { token, path, own: 0, total: 0, children: [] };
+				byPath.set(path, child);
+				node.children.push(child);
+			}
+			child.total += messages;
+			node = child;
+		}
+		node.own += messages;
+	}
+
+	const sort = (nodes: SubjectNode[]) => {
+		nodes.sort((a, b) => b.total - a.total || a.token.localeCompare(b.token));
+		for (const n of nodes) sort(n.children);
+	};
+	sort(root.children);
+	return root.children;
+}
+
+function SubjectTreeNode({
+	node,
+	depth,
+	maxTotal,
+	avgMessageSize,
+	expanded,
+	onToggle,
+	onSelect,
+}: {
+	node: SubjectNode;
+	depth: number;
+	maxTotal: number;
+	avgMessageSize: number;
+	expanded: Set<string>;
+	onToggle: (path: string) => void;
+	onSelect: (filter: string) => void;
+}) {
+	const isOpen = expanded.has(node.path);
+	const hasChildren = node.children.length > 0;
+	// Branches select everything below them, leaves select the exact subject
+	const filter = hasChildren ? `${node.path}.>` : node.path;
+
+	return (
+		<>
+			<div
+				className="group flex items-center gap-2 rounded-md py-1 pr-2 hover:bg-muted/50"
+				style={{ paddingLeft: `${depth * 16 + 4}px` }}
+			>
+				{hasChildren ? (
+					<button
+						type="button"
+						onClick={() => onToggle(node.path)}
+						className="text-muted-foreground hover:text-foreground"
+						aria-label={isOpen ? `Collapse ${node.path}` : `Expand ${node.path}`}
+					>
+						{isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+					</button>
+				) : (
+					<span className="w-4" />
+				)}
+				<button
+					type="button"
+					onClick={() => onSelect(filter)}
+					className="font-mono text-sm hover:underline truncate text-left"
+					title={`Browse ${filter}`}
+				>
+					{node.token}
+				</button>
+				{hasChildren && (
+					<Badge variant="outline" className="text-xs">
+						{node.children.length}
+					</Badge>
+				)}
+				<div className="ml-auto flex items-center gap-4 shrink-0">
+					<div className="hidden md:block w-32 h-1.5 rounded-full bg-muted overflow-hidden">
+						<div
+							className="h-full bg-primary/60"
+							style={{ width: `${maxTotal > 0 ? (node.total / maxTotal) * 100 : 0}%` }}
+						/>
+					</div>
+					<span className="font-mono text-sm w-24 text-right">{node.total.toLocaleString()}</span>
+					<span
+						className="text-xs text-muted-foreground w-20 text-right"
+						title="Estimated from the stream's average message size"
+					>
+						~{formatBytes(Math.round(node.total * avgMessageSize))}
+					</span>
+				</div>
+			</div>
+			{isOpen && hasChildren && (
+				<div>
+					{node.own > 0 && (
+						<div
+							className="flex items-center gap-2 py-1 pr-2 text-xs text-muted-foreground"
+							style={{ paddingLeft: `${(depth + 1) * 16 + 28}px` }}
+						>
+							<button
+								type="button"
+								onClick={() => onSelect(node.path)}
+								className="font-mono hover:underline"
+							>
+								{node.path} (exact)
+							</button>
+							<span className="ml-auto font-mono">{node.own.toLocaleString()}</span>
+						</div>
+					)}
+					{node.children.map((child) => (
+						<SubjectTreeNode
+							key={child.path}
+							node={child}
+							depth={depth + 1}
+							maxTotal={maxTotal}
+							avgMessageSize={avgMessageSize}
+							expanded={expanded}
+							onToggle={onToggle}
+							onSelect={onSelect}
+						/>
+					))}
+				</div>
+			)}
+		</>
+	);
+}
+
+export function SubjectTree({ subjects, avgMessageSize, onSelect }: SubjectTreeProps) {
+	const tree = useMemo(() => buildTree(subjects), [subjects]);
+	const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+	const maxTotal = tree.reduce((max, node) => Math.max(max, node.total), 0);
+
+	const toggle = (path: string) => {
+		setExpanded((prev) => {
+			const next = new Set(prev);
+			if (next.has(path)) {
+				next.delete(path);
+			} else {
+				next.add(path);
+			}
+			return next;
+		});
+	};
+
+	const expandAll = () => {
+		const paths: string[] = [];
+		const walk = (nodes: SubjectNode[]) => {
+			for (const n of nodes) {
+				if (n.children.length > 0) {
+					paths.push(n.path);
+					walk(n.children);
+				}
+			}
+		};
+		walk(tree);
+		setExpanded(new Set(paths));
+	};
+
+	if (tree.length === 0) {
+		return (
+			<div className="text-center py-8 text-muted-foreground">
+				No subjects with messages
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-2">
+			<div className="flex items-center justify-between text-xs text-muted-foreground">
+				<span>{subjects.length.toLocaleString()} subjects</span>
+				<div className="flex gap-1">
+					<Button variant="ghost" size="sm" onClick={expandAll}>
+						Expand all
+					</Button>
+					<Button variant="ghost" size="sm" onClick={() => setExpanded(new Set())}>
+						Collapse all
+					</Button>
+				</div>
+			</div>
+			<div className="max-h-[500px] overflow-y-auto">
+				{tree.map((node) => (
+					<SubjectTreeNode
+						key={node.path}
+						node={node}
+						depth={0}
+						maxTotal={maxTotal}
+						avgMessageSize={avgMessageSize}
+						expanded={expanded}
+						onToggle={toggle}
+						onSelect={onSelect}
+					/>
+				))}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,191 @@
+import { Clock } from "lucide-react";
+import { useId, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+interface TimeSeekBarProps {
+	firstTs: string;
+	lastTs: string;
+	firstSeq: number;
+	lastSeq: number;
+	// Time range of the page currently shown in the browser
+	pageStart?: string;
+	pageEnd?: string;
+	disabled?: boolean;
+	onSeek: (time: Date) => void;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Format a date for a datetime-local input, in UTC or the browser's timezone
+function toInputValue(date: Date, utc: boolean): string {
+	if (utc) {
+		return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}T${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+	}
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function fromInputValue(value: string, utc: boolean): Date | null {
+	if (!value) return null;
+	const date = new Date(utc ? `${value}Z` : value);
+	return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function formatTick(date: Date, utc: boolean, spanMs: number): string {
+	const opts: Intl.DateTimeFormatOptions =
+		spanMs > 2 * 24 * 60 * 60 * 1000
+			? { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }
+			: { hour: "2-digit", minute: "2-digit", second: "2-digit" };
+	return date.toLocaleString(undefined, { ...opts, timeZone: utc ? "UTC" : undefined });
+}
+
+export function TimeSeekBar({
+	firstTs,
+	lastTs,
+	firstSeq,
+	lastSeq,
+	pageStart,
+	pageEnd,
+	disabled,
+	onSeek,
+}: TimeSeekBarProps) {
+	const id = useId();
+	const axisRef = useRef<HTMLDivElement>(null);
+	const [utc, setUtc] = useState(true);
+	const [value, setValue] = useState("");
+	const [hover, setHover] = useState<{ x: number; time: Date } | null>(null);
+
+	const start = new Date(firstTs).getTime();
+	const end = new Date(lastTs).getTime();
+	const span = Math.max(end - start, 1);
+	const hasRange = firstSeq > 0 && !Number.isNaN(start) && !Number.isNaN(end);
+
+	const fraction = (time?: string) => {
+		if (!time) return 0;
+		return Math.min(Math.max((new Date(time).getTime() - start) / span, 0), 1);
+	};
+
+	const timeAt = (clientX: number) => {
+		const rect = axisRef.current?.getBoundingClientRect();
+		if (!rect) return null;
+		const x = Math.min(Math.max(clientX - rect.left, 0), rect.width);
+		return { x, time: new Date(start + (x / rect.width) * span) };
+	};
+
+	const seek = (time: Date) => {
+		setValue(toInputValue(time, utc));
+		onSeek(time);
+	};
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		const time = fromInputValue(value, utc);
+		if (time) onSeek(time);
+	};
+
+	const handleUtcChange = (checked: boolean) => {
+		// Keep the same instant when switching timezones
+		const time = fromInputValue(value, utc);
+		setUtc(checked);
+		if (time) setValue(toInputValue(time, checked));
+	};
+
+	return (
+		<div className="space-y-3">
+			<form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2">
+				<div className="relative">
+					<Clock className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+					<Input
+						type="datetime-local"
+						step="1"
+						aria-label="Seek to time"
+						value={value}
+						onChange={(e) => setValue(e.target.value)}
+						className="pl-9 h-9 w-[230px]"
+						disabled={disabled || !hasRange}
+					/>
+				</div>
+				<div className="flex items-center gap-2">
+					<Switch id={`${id}-utc`} checked={utc} onCheckedChange={handleUtcChange} />
+					<Label htmlFor={`${id}-utc`} className="text-xs font-normal">
+						UTC
+					</Label>
+				</div>
+				<Button
+					type="submit"
+					variant="outline"
+					size="sm"
+					className="h-9"
+					disabled={disabled || !hasRange || !fromInputValue(value, utc)}
+				>
+					Seek
+				</Button>
+			</form>
+
+			{hasRange && (
+				<div className="space-y-1">
+					<div
+						ref={axisRef}
+						role="slider"
+						tabIndex={0}
+						aria-label="Stream time axis"
+						aria-valuemin={start}
+						aria-valuemax={end}
+						aria-valuenow={pageStart ? new Date(pageStart).getTime() : end}
+						aria-valuetext={pageStart ? new Date(pageStart).toISOString() : lastTs}
+						className="relative h-6 rounded-md bg-muted cursor-pointer"
+						onMouseMove={(e) => setHover(timeAt(e.clientX))}
+						onMouseLeave={() => setHover(null)}
+						onClick={(e) => {
+							if (disabled) return;
+							const hit = timeAt(e.clientX);
+							if (hit) seek(hit.time);
+						}}
+						onKeyDown={(e) => {
+							if (disabled) return;
+							// Step through the stream in 5% increments
+							const current = pageStart ? new Date(pageStart).getTime() : end;
+							if (e.key === "ArrowLeft") seek(new Date(Math.max(start, current - span / 20)));
+							if (e.key === "ArrowRight") seek(new Date(Math.min(end, current + span / 20)));
+						}}
+					>
+						{pageStart && (
+							<div
+								className="absolute inset-y-0 rounded-md bg-primary/40 min-w-[3px]"
+								style={{
+									left: `${fraction(pageStart) * 100}%`,
+									width: `${(fraction(pageEnd ?? pageStart) - fraction(pageStart)) * 100}%`,
+								}}
+							/>
+						)}
+						{hover && (
+							<>
+								<div
+									className="absolute inset-y-0 w-px bg-foreground/60 pointer-events-none"
+									style={{ left: hover.x }}
+								/>
+								<div
+									className="absolute -top-7 -translate-x-1/2 whitespace-nowrap rounded bg-popover border px-2 py-0.5 text-xs shadow pointer-events-none"
+									style={{ left: hover.x }}
+								>
+									{formatTick(hover.time, utc, span)}
+								</div>
+							</>
+						)}
+					</div>
+					<div className="flex justify-between text-xs text-muted-foreground">
+						<span>
+							#{firstSeq} · {formatTick(new Date(start), utc, span)}
+						</span>
+						<span>{formatTick(new Date(start + span / 2), utc, span)}</span>
+						<span>
+							{formatTick(new Date(end), utc, span)} · #{lastSeq}
+						</span>
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -1,5 +1,18 @@
 const API_BASE = "/api";
 
+// Error from the backend, keeping the status and body for callers that handle specific failures
+export class ApiError extends Error {
+	status: number;
+	body: unknown;
+
+	constructor(message: string, status: number, body: unknown) {
+		super(message);
+		this.name = "ApiError";
+		this.status = status;
+		this.body = body;
+	}
+}
+
 async function request<T>(
 	endpoint: string,
 	options?: RequestInit,
@@ -13,9 +26,14 @@ async function request<T>(
 		},
 	});
 
+	// Session expired or missing - send the user back to the login page
+	if (res.status === 401 && !endpoint.startsWith("/auth/")) {
+		window.location.href = "/login";
+	}
+
 	if (!res.ok) {
 		const error = await res.json().catch(() => ({ error: "Request failed" }));
-		throw new Error(error.error || `HTTP ${res.status}`);
+		throw new ApiError(error.error || `HTTP ${res.status}`, res.status, error);
 	}
 
 	return res.json();
@@ -61,7 +79,7 @@ export const authApi = {
 };
 
 // Cluster types
-export type AuthType = "none" | "token" | "userpass";
+export type AuthType = "none" | "token" | "userpass" | "nkey" | "creds" | "tls";
 
 export interface ClusterData {
 	id: string;
@@ -71,15 +89,25 @@ export interface ClusterData {
 	authType: AuthType;
 	hasToken: boolean;
 	hasUserPass: boolean;
+	hasNkey: boolean;
+	hasCreds: boolean;
+	hasTlsCert: boolean;
+	hasTlsCa: boolean;
 	monitoringUrls: string[] | null;
 	createdAt: number;
 	updatedAt: number;
 }
 
 export interface ClusterAuthConfig {
+	authType?: AuthType;
 	token?: string;
 	username?: string;
 	password?: string;
+	nkeySeed?: string;
+	creds?: string;
+	tlsCert?: string;
+	tlsKey?: string;
+	tlsCa?: string;
 }
 
 export interface TestConnectionResult {
@@ -92,6 +120,15 @@ export interface TestConnectionResult {
 	error?: string;
 }
 
+export interface ClusterConnectionHealth {
+	clusterId: string;
+	state: "connecting" | "connected" | "reconnecting" | "disconnected" | "error";
+	server?: string;
+	connectedAt?: number;
+	lastError?: string;
+	reconnects: number;
+}
+
 export interface TestMonitoringUrlResult {
 	url: string;
 	success: boolean;
@@ -111,14 +148,11 @@ export const clustersApi = {
 
 	getById: (id: string) => request<ClusterData>(`/clusters/${id}`),
 
-	create: (data: {
+	create: (data: Omit<ClusterAuthConfig, "authType"> & {
 		name: string;
 		urls: string[];
 		natsUrls?: string[];
 		authType: AuthType;
-		token?: string;
-		username?: string;
-		password?: string;
 		monitoringUrls?: string[];
 	}) =>
 		request<ClusterData>("/clusters", {
@@ -128,14 +162,11 @@ export const clustersApi = {
 
 	update: (
 		id: string,
-		data: {
+		data: Omit<ClusterAuthConfig, "tlsCa"> & {
 			name?: string;
 			urls?: string[];
 			natsUrls?: string[] | null;
-			authType?: AuthType;
-			token?: string;
-			username?: string;
-			password?: string;
+			tlsCa?: string | null;
 			monitoringUrls?: string[] | null;
 		},
 	) =>
@@ -168,14 +199,10 @@ export const clustersApi = {
 	testExisting: (id: string) =>
 		request<TestConnectionResult>(`/clusters/${id}/test`, { method: "POST" }),
 
-	getConnectionInfo: (id: string) =>
-		request<{
-			urls: string[];
-			authType: AuthType;
-			token?: string;
-			username?: string;
-			password?: string;
-		}>(`/clusters/${id}/connect`),
+	getAllHealth: () => request<ClusterConnectionHealth[]>("/clusters/health"),
+
+	getHealth: (id: string) =>
+		request<ClusterConnectionHealth>(`/clusters/${id}/health`),
 };
 
 // Stats types
@@ -238,6 +265,52 @@ export interface StreamState {
 	lastTs: string;
 }
 
+export interface StreamSourceConfig {
+	name: string;
+	filterSubject?: string;
+	subjectTransforms?: { src: string; dest: string }[];
+	optStartSeq?: number;
+	optStartTime?: string;
+	// Reach a stream in another account or domain through its JetStream API prefix
+	external?: { api: string; deliver?: string };
+}
+
+export interface StreamSourceStatus {
+	name: string;
+	lag: number;
+	// Nanoseconds since the source was last active
+	active: number;
+	error?: string;
+}
+
+export interface StreamRepublish {
+	src: string;
+	dest: string;
+	headersOnly: boolean;
+}
+
+export interface SubjectTransform {
+	src: string;
+	dest: string;
+}
+
+// Settings accepted both when creating and updating a stream
+export interface StreamOptions {
+	maxMsgsPerSubject?: number;
+	discardNewPerSubject?: boolean;
+	duplicateWindow?: number;
+	allowRollupHdrs?: boolean;
+	denyDelete?: boolean;
+	denyPurge?: boolean;
+	allowDirect?: boolean;
+	mirrorDirect?: boolean;
+	// null removes the setting on update
+	republish?: StreamRepublish | null;
+	subjectTransform?: SubjectTransform | null;
+	compression?: "none" | "s2";
+	metadata?: Record<string, string>;
+}
+
 export interface StreamInfo {
 	name: string;
 	description?: string;
@@ -251,7 +324,24 @@ export interface StreamInfo {
 	storage: string;
 	replicas: number;
 	discard: string;
+	discardNewPerSubject: boolean;
+	maxMsgsPerSubject: number;
 	duplicateWindow: number;
+	allowRollupHdrs: boolean;
+	denyDelete: boolean;
+	denyPurge: boolean;
+	allowDirect: boolean;
+	mirrorDirect: boolean;
+	republish?: StreamRepublish;
+	subjectTransform?: SubjectTransform;
+	compression: "none" | "s2";
+	sealed: boolean;
+	firstSeq?: number;
+	metadata?: Record<string, string>;
+	mirror?: StreamSourceConfig;
+	sources?: StreamSourceConfig[];
+	mirrorStatus?: StreamSourceStatus;
+	sourcesStatus?: StreamSourceStatus[];
 	state: StreamState;
 	created: string;
 }
@@ -269,9 +359,11 @@ export interface StreamMessagesResponse {
 	firstSeq: number;
 	lastSeq: number;
 	hasMore: boolean;
+	// Sequence resolved from startTime, when seeking by time
+	startSeq?: number;
 }
 
-export interface CreateStreamData {
+export interface CreateStreamData extends StreamOptions {
 	name: string;
 	description?: string;
 	subjects: string[];
@@ -284,9 +376,13 @@ export interface CreateStreamData {
 	maxMsgSize?: number;
 	replicas?: number;
 	discard?: "old" | "new";
+	mirror?: StreamSourceConfig;
+	sources?: StreamSourceConfig[];
+	sealed?: boolean;
+	firstSeq?: number;
 }
 
-export interface UpdateStreamData {
+export interface UpdateStreamData extends StreamOptions {
 	description?: string;
 	subjects?: string[];
 	maxConsumers?: number;
@@ -295,6 +391,92 @@ export interface UpdateStreamData {
 	maxAge?: number;
 	maxMsgSize?: number;
 	discard?: "old" | "new";
+	retention?: "limits" | "interest" | "workqueue";
+	sources?: StreamSourceConfig[];
+	replicas?: number;
+	sealed?: true;
+}
+
+// Untransformed JetStream StreamInfo/ConsumerInfo, as returned by the NATS API
+export interface RawJetStreamInfo {
+	config: Record<string, unknown>;
+	[key: string]: unknown;
+}
+
+// Raw NATS StreamConfig before and after an update
+export interface StreamUpdatePreview {
+	current: Record<string, unknown>;
+	proposed: Record<string, unknown>;
+}
+
+export interface PublishMessageData {
+	subject: string;
+	payload: string;
+	headers?: Record<string, string | string[]>;
+	msgId?: string;
+	expectedStream?: string;
+	expectedLastSeq?: number;
+	expectedLastSubjectSeq?: number;
+	expectedLastMsgId?: string;
+}
+
+export interface StreamSubjectCount {
+	subject: string;
+	messages: number;
+}
+
+export interface StreamSubjectsResponse {
+	subjects: StreamSubjectCount[];
+	filter: string;
+	totalMessages: number;
+	totalBytes: number;
+}
+
+export interface PurgeStreamOptions {
+	filter?: string;
+	keep?: number;
+	seq?: number;
+}
+
+export interface PurgePreview {
+	count: number;
+	// False when the count is an upper bound (e.g. sequence purges on streams with gaps)
+	exact: boolean;
+}
+
+export interface DeleteMessagesResult {
+	success: boolean;
+	deleted: number[];
+	failed: { seq: number; error: string }[];
+}
+
+export interface CopyMessagesData {
+	startSeq?: number;
+	endSeq?: number;
+	startTime?: string;
+	endTime?: string;
+	subjectFilter?: string;
+	targetClusterId: string;
+	targetSubject?: string;
+	rewrite?: { from: string; to: string };
+	// Messages per second
+	rateLimit?: number;
+	move?: boolean;
+	// Copy Nats-Msg-Id, so the target skips messages it already holds
+	keepMsgId?: boolean;
+}
+
+export interface CopySelectionCount {
+	matched: number;
+	firstSeq?: number;
+	lastSeq?: number;
+}
+
+export interface PubAck {
+	stream: string;
+	seq: number;
+	duplicate: boolean;
+	domain?: string;
 }
 
 // Streams API
@@ -317,20 +499,80 @@ export const streamsApi = {
 			body: JSON.stringify(data),
 		}),
 
+	getRaw: (clusterId: string, name: string) =>
+		request<RawJetStreamInfo>(`/streams/cluster/${clusterId}/stream/${name}/raw`),
+
+	updateRaw: (clusterId: string, name: string, config: Record<string, unknown>) =>
+		request<RawJetStreamInfo>(`/streams/cluster/${clusterId}/stream/${name}/raw`, {
+			method: "PUT",
+			body: JSON.stringify(config),
+		}),
+
+	previewUpdate: (clusterId: string, name: string, data: UpdateStreamData) =>
+		request<StreamUpdatePreview>(`/streams/cluster/${clusterId}/stream/${name}/update/preview`, {
+			method: "POST",
+			body: JSON.stringify(data),
+		}),
+
 	delete: (clusterId: string, name: string) =>
 		request<{ success: boolean }>(`/streams/cluster/${clusterId}/stream/${name}`, {
 			method: "DELETE",
 		}),
 
-	purge: (clusterId: string, name: string) =>
+	purge: (clusterId: string, name: string, options: PurgeStreamOptions = {}) =>
 		request<{ success: boolean; purged: number }>(
 			`/streams/cluster/${clusterId}/stream/${name}/purge`,
-			{ method: "POST" },
+			{ method: "POST", body: JSON.stringify(options) },
+		),
+
+	previewPurge: (clusterId: string, name: string, options: PurgeStreamOptions = {}) =>
+		request<PurgePreview>(
+			`/streams/cluster/${clusterId}/stream/${name}/purge/preview`,
+			{ method: "POST", body: JSON.stringify(options) },
+		),
+
+	deleteMessage: (clusterId: string, name: string, seq: number, erase = false) =>
+		request<{ success: boolean }>(
+			`/streams/cluster/${clusterId}/stream/${name}/message/${seq}${erase ? "?erase=true" : ""}`,
+			{ method: "DELETE" },
 		),
 
-	getMessages: (clusterId: string, name: string, startSeq?: number, limit?: number, direction: "forward" | "backward" = "backward", subject?: string) => {
+	deleteMessages: (clusterId: string, name: string, seqs: number[], erase = false) =>
+		request<DeleteMessagesResult>(`/streams/cluster/${clusterId}/stream/${name}/messages/delete`, {
+			method: "POST",
+			body: JSON.stringify({ seqs, erase }),
+		}),
+
+	countCopy: (clusterId: string, name: string, data: CopyMessagesData) =>
+		request<CopySelectionCount>(`/streams/cluster/${clusterId}/stream/${name}/copy`, {
+			method: "POST",
+			body: JSON.stringify({ ...data, dryRun: true }),
+		}),
+
+	copyMessages: (clusterId: string, name: string, data: CopyMessagesData) =>
+		request<Job>(`/streams/cluster/${clusterId}/stream/${name}/copy`, {
+			method: "POST",
+			body: JSON.stringify(data),
+		}),
+
+	publish: (clusterId: string, data: PublishMessageData) =>
+		request<PubAck>(`/streams/cluster/${clusterId}/publish`, {
+			method: "POST",
+			body: JSON.stringify(data),
+		}),
+
+	getSubjects: (clusterId: string, name: string, filter?: string) => {
+		const params = new URLSearchParams();
+		if (filter) params.set("filter", filter);
+		return request<StreamSubjectsResponse>(
+			`/streams/cluster/${clusterId}/stream/${name}/subjects?${params.toString()}`,
+		);
+	},
+
+	getMessages: (clusterId: string, name: string, startSeq?: number, limit?: number, direction: "forward" | "backward" = "backward", subject?: string, startTime?: string) => {
 		const params = new URLSearchParams();
 		if (startSeq !== undefined) params.set("startSeq", String(startSeq));
+		if (startTime) params.set("startTime", startTime);
 		params.set("limit", String(limit ?? 50));
 		params.set("direction", direction);
 		if (subject) params.set("subject", subject);
@@ -368,6 +610,13 @@ export interface ConsumerConfig {
 	maxBytes?: number;
 	numReplicas?: number;
 	memStorage?: boolean;
+	backoff?: number[];
+	inactiveThreshold?: number;
+	pauseUntil?: string;
+	deliverSubject?: string;
+	deliverGroup?: string;
+	rateLimitBps?: number;
+	metadata?: Record<string, string>;
 }
 
 export interface ConsumerInfo {
@@ -382,6 +631,45 @@ export interface ConsumerInfo {
 	numWaiting: number;
 	numPending: number;
 	pushBound?: boolean;
+	paused: boolean;
+	// Nanoseconds until a paused consumer resumes
+	pauseRemaining?: number;
+	// Only reported for a single consumer
+	pauseSupported?: boolean;
+}
+
+// Mutable consumer fields; durations are in nanoseconds
+export interface UpdateConsumerData {
+	description?: string;
+	ackWait?: number;
+	maxDeliver?: number;
+	maxAckPending?: number;
+	filterSubjects?: string[];
+	backoff?: number[];
+	inactiveThreshold?: number;
+	sampleFreq?: string;
+}
+
+export interface PeekedConsumerMessage extends StreamMessage {
+	// unacked: delivered and above the ack floor; pending: not delivered yet
+	state: "unacked" | "pending";
+}
+
+export interface ConsumerMessagesPeek {
+	unacked: PeekedConsumerMessage[];
+	pending: PeekedConsumerMessage[];
+	hasMoreUnacked: boolean;
+	hasMorePending: boolean;
+	ackFloor: number;
+	delivered: number;
+	numAckPending: number;
+	numPending: number;
+	numRedelivered: number;
+}
+
+export interface ConsumerPauseState {
+	paused: boolean;
+	pauseUntil?: string;
 }
 
 export interface CreateConsumerData {
@@ -403,6 +691,18 @@ export interface CreateConsumerData {
 	headersOnly?: boolean;
 	maxBatch?: number;
 	maxBytes?: number;
+	ephemeral?: boolean;
+	// Durations are in nanoseconds
+	backoff?: number[];
+	inactiveThreshold?: number;
+	deliverSubject?: string;
+	deliverGroup?: string;
+	idleHeartbeat?: number;
+	rateLimitBps?: number;
+	sampleFreq?: string;
+	memStorage?: boolean;
+	numReplicas?: number;
+	metadata?: Record<string, string>;
 }
 
 // Consumers API
@@ -422,6 +722,37 @@ export const consumersApi = {
 			body: JSON.stringify(data),
 		}),
 
+	update: (clusterId: string, streamName: string, consumerName: string, data: UpdateConsumerData) =>
+		request<ConsumerInfo>(`/consumers/cluster/${clusterId}/stream/${streamName}/consumer/${consumerName}`, {
+			method: "PATCH",
+			body: JSON.stringify(data),
+		}),
+
+	pause: (clusterId: string, streamName: string, consumerName: string, until: string) =>
+		request<ConsumerPauseState>(`/consumers/cluster/${clusterId}/stream/${streamName}/consumer/${consumerName}/pause`, {
+			method: "POST",
+			body: JSON.stringify({ until }),
+		}),
+
+	resume: (clusterId: string, streamName: string, consumerName: string) =>
+		request<ConsumerPauseState>(`/consumers/cluster/${clusterId}/stream/${streamName}/consumer/${consumerName}/resume`, {
+			method: "POST",
+		}),
+
+	peekMessages: (clusterId: string, streamName: string, consumerName: string, limit?: number) =>
+		request<ConsumerMessagesPeek>(
+			`/consumers/cluster/${clusterId}/stream/${streamName}/consumer/${consumerName}/messages${limit ? `?limit=${limit}` : ""}`,
+		),
+
+	getRaw: (clusterId: string, streamName: string, consumerName: string) =>
+		request<RawJetStreamInfo>(`/consumers/cluster/${clusterId}/stream/${streamName}/consumer/${consumerName}/raw`),
+
+	updateRaw: (clusterId: string, streamName: string, consumerName: string, config: Record<string, unknown>) =>
+		request<RawJetStreamInfo>(`/consumers/cluster/${clusterId}/stream/${streamName}/consumer/${consumerName}/raw`, {
+			method: "PUT",
+			body: JSON.stringify(config),
+		}),
+
 	delete: (clusterId: string, streamName: string, consumerName: string) =>
 		request<{ success: boolean }>(`/consumers/cluster/${clusterId}/stream/${streamName}/consumer/${consumerName}`, {
 			method: "DELETE",
@@ -439,11 +770,50 @@ export interface ObjectStoreBucketInfo {
 	ttl: number;
 }
 
+export interface ObjectStoreObjectInfo {
+	name: string;
+	description?: string;
+	size: number;
+	chunks: number;
+	digest: string;
+	mtime: string;
+	nuid: string;
+}
+
+export interface CreateObjectStoreBucketData {
+	name: string;
+	description?: string;
+	storage?: "file" | "memory";
+	replicas?: number;
+	ttl?: number;
+	maxBucketSize?: number;
+}
+
 // Object Store API
 export const objectStoreApi = {
 	listBuckets: (clusterId: string) =>
 		request<ObjectStoreBucketInfo[]>(`/objectstore/cluster/${clusterId}`),
 
+	getBucket: (clusterId: string, name: string) =>
+		request<ObjectStoreBucketInfo>(`/objectstore/cluster/${clusterId}/bucket/${name}`),
+
+	createBucket: (clusterId: string, data: CreateObjectStoreBucketData) =>
+		request<ObjectStoreBucketInfo>(`/objectstore/cluster/${clusterId}`, {
+			method: "POST",
+			body: JSON.stringify(data),
+		}),
+
+	listObjects: (clusterId: string, bucketName: string) =>
+		request<ObjectStoreObjectInfo[]>(`/objectstore/cluster/${clusterId}/bucket/${bucketName}/objects`),
+
+	deleteObject: (clusterId: string, bucketName: string, objectName: string) =>
+		request<{ success: boolean }>(`/objectstore/cluster/${clusterId}/bucket/${bucketName}/object/${encodeURIComponent(objectName)}`, {
+			method: "DELETE",
+		}),
+
+	getDownloadUrl: (clusterId: string, bucketName: string, objectName: string) =>
+		`${API_BASE}/objectstore/cluster/${clusterId}/bucket/${bucketName}/object/${encodeURIComponent(objectName)}`,
+
 	deleteBucket: (clusterId: string, name: string) =>
 		request<{ success: boolean }>(`/objectstore/cluster/${clusterId}/bucket/${name}`, {
 			method: "DELETE",
@@ -460,6 +830,10 @@ export interface KvBucketInfo {
 	maxValueSize: number;
 	storage: string;
 	replicas: number;
+	// Whether keys can be put with their own TTL
+	allowMsgTtl?: boolean;
+	// Nanoseconds a marker is kept for keys removed by a limit or TTL; 0 when markers are off
+	limitMarkerTtl?: number;
 	size: number;
 	values: number;
 }
@@ -470,6 +844,71 @@ export interface KvEntry {
 	revision: number;
 	created: string;
 	operation?: string;
+	// When the key's own TTL removes it
+	expiresAt?: string;
+}
+
+export interface KvKeyPage {
+	// Entries carry only the key when values are skipped
+	keys: Array<Partial<KvEntry> & { key: string }>;
+	// Pass back as cursor for the next page; absent on the last page
+	nextCursor?: string;
+	total: number;
+}
+
+export interface ListKvKeysOptions {
+	// Subject-style filter such as config.tenant42.>, or a plain key prefix
+	filter?: string;
+	cursor?: string;
+	limit?: number;
+	values?: boolean;
+}
+
+export interface PutKvKeyOptions {
+	// Fail with a conflict unless the key is still at this revision
+	revision?: number;
+	// Fail with a conflict if the key already exists
+	create?: boolean;
+	// Remove the key after this many nanoseconds
+	ttl?: number;
+}
+
+// Body of the 409 returned when a conditional write loses a race
+export interface KvWriteConflict {
+	error: string;
+	// What is stored now, or null when the key no longer exists
+	current: KvEntry | null;
+}
+
+// One key in a KV export file
+export interface KvTransferEntry {
+	key: string;
+	value: string;
+	// Set when the value is not valid UTF-8
+	encoding?: "base64";
+	revision?: number;
+	created?: string;
+}
+
+export type KvImportMode = "overwrite" | "skip" | "revision";
+
+export interface KvImportPlanItem {
+	key: string;
+	action: "create" | "update" | "unchanged" | "skip" | "conflict";
+	currentRevision?: number;
+	reason?: string;
+}
+
+export interface KvImportPlan {
+	items: KvImportPlanItem[];
+	summary: Record<KvImportPlanItem["action"], number>;
+}
+
+export interface KvImportResult {
+	results: (KvImportPlanItem & { status: "applied" | "skipped" | "failed"; revision?: number; error?: string })[];
+	applied: number;
+	skipped: number;
+	failed: number;
 }
 
 export interface CreateKvBucketData {
@@ -481,6 +920,21 @@ export interface CreateKvBucketData {
 	maxBytes?: number;
 	storage?: "file" | "memory";
 	replicas?: number;
+	allowMsgTtl?: boolean;
+	limitMarkerTtl?: number;
+}
+
+// The name and storage type of a bucket are fixed after creation
+export interface UpdateKvBucketData {
+	description?: string;
+	maxValueSize?: number;
+	history?: number;
+	ttl?: number;
+	maxBytes?: number;
+	replicas?: number;
+	// Cannot be turned off again once allowed
+	allowMsgTtl?: true;
+	limitMarkerTtl?: number;
 }
 
 // KV API
@@ -497,13 +951,46 @@ export const kvApi = {
 			body: JSON.stringify(data),
 		}),
 
+	updateBucket: (clusterId: string, name: string, data: UpdateKvBucketData) =>
+		request<KvBucketInfo>(`/kv/cluster/${clusterId}/bucket/${name}`, {
+			method: "PATCH",
+			body: JSON.stringify(data),
+		}),
+
+	previewUpdate: (clusterId: string, name: string, data: UpdateKvBucketData) =>
+		request<StreamUpdatePreview>(`/kv/cluster/${clusterId}/bucket/${name}/update/preview`, {
+			method: "POST",
+			body: JSON.stringify(data),
+		}),
+
 	deleteBucket: (clusterId: string, name: string) =>
 		request<{ success: boolean }>(`/kv/cluster/${clusterId}/bucket/${name}`, {
 			method: "DELETE",
 		}),
 
-	listKeys: (clusterId: string, bucketName: string) =>
-		request<KvEntry[]>(`/kv/cluster/${clusterId}/bucket/${bucketName}/keys`),
+	listKeys: (clusterId: string, bucketName: string, opts: ListKvKeysOptions = {}) => {
+		const params = new URLSearchParams();
+		if (opts.filter) params.set("filter", opts.filter);
+		if (opts.cursor) params.set("cursor", opts.cursor);
+		if (opts.limit) params.set("limit", String(opts.limit));
+		if (opts.values === false) params.set("values", "false");
+		return request<KvKeyPage>(`/kv/cluster/${clusterId}/bucket/${bucketName}/keys?${params.toString()}`);
+	},
+
+	getExportUrl: (clusterId: string, bucketName: string, format: "json" | "ndjson", filter?: string) =>
+		`${API_BASE}/kv/cluster/${clusterId}/bucket/${bucketName}/export?format=${format}${filter ? `&filter=${encodeURIComponent(filter)}` : ""}`,
+
+	planImport: (clusterId: string, bucketName: string, mode: KvImportMode, entries: KvTransferEntry[]) =>
+		request<KvImportPlan>(`/kv/cluster/${clusterId}/bucket/${bucketName}/import/plan`, {
+			method: "POST",
+			body: JSON.stringify({ mode, entries }),
+		}),
+
+	applyImport: (clusterId: string, bucketName: string, mode: KvImportMode, entries: KvTransferEntry[]) =>
+		request<KvImportResult>(`/kv/cluster/${clusterId}/bucket/${bucketName}/import/apply`, {
+			method: "POST",
+			body: JSON.stringify({ mode, entries }),
+		}),
 
 	getKey: (clusterId: string, bucketName: string, key: string) =>
 		request<KvEntry>(`/kv/cluster/${clusterId}/bucket/${bucketName}/key/${encodeURIComponent(key)}`),
@@ -511,10 +998,10 @@ export const kvApi = {
 	getKeyHistory: (clusterId: string, bucketName: string, key: string) =>
 		request<KvEntry[]>(`/kv/cluster/${clusterId}/bucket/${bucketName}/key/${encodeURIComponent(key)}/history`),
 
-	putKey: (clusterId: string, bucketName: string, key: string, value: string) =>
+	putKey: (clusterId: string, bucketName: string, key: string, value: string, opts: PutKvKeyOptions = {}) =>
 		request<KvEntry>(`/kv/cluster/${clusterId}/bucket/${bucketName}/key`, {
 			method: "PUT",
-			body: JSON.stringify({ key, value }),
+			body: JSON.stringify({ key, value, ...opts }),
 		}),
 
 	deleteKey: (clusterId: string, bucketName: string, key: string) =>
@@ -528,6 +1015,167 @@ export const kvApi = {
 		}),
 };
 
+// Topology types
+export type TopologyAssetKind = "stream" | "consumer" | "kv" | "objectStore";
+
+export interface TopologyFieldChange {
+	field: string;
+	from: unknown;
+	to: unknown;
+}
+
+export interface TopologyPlanItem {
+	kind: TopologyAssetKind;
+	name: string;
+	stream?: string;
+	action: "create" | "update" | "unchanged" | "conflict";
+	changes: TopologyFieldChange[];
+	reason?: string;
+}
+
+export interface TopologyPlan {
+	source?: string;
+	items: TopologyPlanItem[];
+	summary: { create: number; update: number; unchanged: number; conflict: number };
+	// Sent back on apply so the server can refuse a plan that changed since it was reviewed
+	planHash: string;
+}
+
+// Body of a 409 from apply: the plan as it would run now
+export interface TopologyPlanConflict {
+	error: string;
+	plan: TopologyPlan;
+}
+
+export interface TopologyApplyResult {
+	results: (TopologyPlanItem & { status: "applied" | "skipped" | "failed"; error?: string })[];
+	applied: number;
+	failed: number;
+}
+
+// Topology API - export and import of stream, consumer and bucket definitions
+export const topologyApi = {
+	getExportUrl: (clusterId: string, format: "json" | "yaml") =>
+		`${API_BASE}/topology/cluster/${clusterId}/export?format=${format}`,
+
+	plan: (clusterId: string, content: string) =>
+		request<TopologyPlan>(`/topology/cluster/${clusterId}/import/plan`, {
+			method: "POST",
+			body: JSON.stringify({ content }),
+		}),
+
+	apply: (clusterId: string, content: string, planHash: string) =>
+		request<TopologyApplyResult>(`/topology/cluster/${clusterId}/import/apply`, {
+			method: "POST",
+			body: JSON.stringify({ content, planHash }),
+		}),
+};
+
+// Job types
+export interface Job {
+	id: string;
+	kind: "backup" | "restore" | "copy" | "move";
+	clusterId: string;
+	stream: string;
+	status: "running" | "completed" | "failed";
+	processed: number;
+	total: number;
+	// Copies the target dropped as duplicates; a move leaves these in the source
+	skipped?: number;
+	error?: string;
+	backupId?: string;
+	startedAt: string;
+	finishedAt?: string;
+}
+
+// Jobs API - progress of long-running stream operations
+export const jobsApi = {
+	get: (jobId: string) => request<Job>(`/jobs/${jobId}`),
+};
+
+// Backup types
+export interface StreamBackup {
+	id: string;
+	stream: string;
+	clusterId?: string;
+	clusterName: string;
+	messages: number;
+	bytes: number;
+	size: number;
+	createdAt: string;
+	uploaded: boolean;
+}
+
+export interface RestoreBackupData {
+	backupId: string;
+	targetClusterId: string;
+	name?: string;
+	subjectPrefix?: string;
+}
+
+// Backups API - stream archives stored on the server
+export const backupsApi = {
+	list: () => request<{ backups: StreamBackup[] }>("/backups"),
+
+	start: (clusterId: string, streamName: string) =>
+		request<Job>(`/backups/cluster/${clusterId}/stream/${streamName}`, {
+			method: "POST",
+		}),
+
+	restore: (data: RestoreBackupData) =>
+		request<Job>("/backups/restore", {
+			method: "POST",
+			body: JSON.stringify(data),
+		}),
+
+	// Multipart upload, so it bypasses the JSON request helper
+	upload: async (file: File) => {
+		const formData = new FormData();
+		formData.append("file", file);
+		const res = await fetch(`${API_BASE}/backups/upload`, {
+			method: "POST",
+			body: formData,
+			credentials: "include",
+		});
+		if (!res.ok) {
+			const error = await res.json().catch(() => ({ error: "Upload failed" }));
+			throw new Error(error.error || `HTTP ${res.status}`);
+		}
+		return res.json() as Promise<StreamBackup>;
+	},
+
+	getDownloadUrl: (backupId: string) => `${API_BASE}/backups/${backupId}/download`,
+
+	delete: (backupId: string) =>
+		request<{ success: boolean }>(`/backups/${backupId}`, {
+			method: "DELETE",
+		}),
+};
+
+// Live types
+export interface LiveStreamMessage {
+	seq: number;
+	subject: string;
+	data: string;
+	time: string;
+	headers?: Record<string, string[]>;
+}
+
+// Live API - server-sent event streams proxied through the backend
+export const liveApi = {
+	tailStream: (clusterId: string, streamName: string, subject?: string) => {
+		const query = subject ? `?subject=${encodeURIComponent(subject)}` : "";
+		return new EventSource(`${API_BASE}/live/cluster/${clusterId}/stream/${streamName}/tail${query}`, {
+			withCredentials: true,
+		});
+	},
+
+	watchKv: (clusterId: string, bucketName: string) =>
+		new EventSource(`${API_BASE}/live/cluster/${clusterId}/kv/${bucketName}/watch`, {
+			withCredentials: true,
+		}),
+};
+
 // Monitoring types - Aggregated responses from multiple servers
 
 export interface ServerVarz {
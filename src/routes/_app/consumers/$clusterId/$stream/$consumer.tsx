@@ -7,11 +7,17 @@ import {
 	Clock,
 	Filter,
 	Layers,
+	Pencil,
 	RefreshCw,
 	Trash2,
 	Users,
 } from "lucide-react";
+import { useState } from "react";
+import { ConsumerMessagesTab } from "@/components/consumers/consumer-messages-tab";
+import { ConsumerPauseControl } from "@/components/consumers/consumer-pause-control";
+import { EditConsumerDialog } from "@/components/consumers/edit-consumer-dialog";
 import { AppHeader } from "@/components/layout/app-header";
+import { RawJsonTab } from "@/components/shared/raw-json-tab";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -57,6 +63,7 @@ function ConsumerDetailPage() {
 	const { clusterId, stream, consumer: consumerName } = Route.useParams();
 	const queryClient = useQueryClient();
 	const navigate = useNavigate();
+	const [editOpen, setEditOpen] = useState(false);
 
 	const { data: cluster } = useQuery({
 		queryKey: ["cluster", clusterId],
@@ -143,6 +150,10 @@ function ConsumerDetailPage() {
 					<RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
 					Refresh
 				</Button>
+				<Button variant="outline" size="sm" onClick={() => setEditOpen(true)} disabled={!consumer}>
+					<Pencil className="h-4 w-4 mr-2" />
+					Edit
+				</Button>
 			</AppHeader>
 
 			<div className="page-content">
@@ -237,11 +248,14 @@ function ConsumerDetailPage() {
 
 						{/* Delivery Progress */}
 						<Card>
-							<CardHeader>
-								<CardTitle>Delivery Progress</CardTitle>
-								<CardDescription>
-									Current position in the stream
-								</CardDescription>
+							<CardHeader className="flex flex-row items-start justify-between space-y-0">
+								<div className="space-y-1.5">
+									<CardTitle>Delivery Progress</CardTitle>
+									<CardDescription>
+										Current position in the stream
+									</CardDescription>
+								</div>
+								<ConsumerPauseControl clusterId={clusterId} consumer={consumer} />
 							</CardHeader>
 							<CardContent>
 								<div className="grid gap-4 md:grid-cols-2">
@@ -279,6 +293,8 @@ function ConsumerDetailPage() {
 						<Tabs defaultValue="config" className="space-y-4">
 							<TabsList>
 								<TabsTrigger value="config">Configuration</TabsTrigger>
+								<TabsTrigger value="messages">Messages</TabsTrigger>
+								<TabsTrigger value="json">JSON</TabsTrigger>
 								<TabsTrigger value="danger">Danger Zone</TabsTrigger>
 							</TabsList>
 
@@ -399,6 +415,20 @@ function ConsumerDetailPage() {
 								</Card>
 							</TabsContent>
 
+							<TabsContent value="messages" className="space-y-4">
+								<ConsumerMessagesTab clusterId={clusterId} consumer={consumer} />
+							</TabsContent>
+
+							<TabsContent value="json" className="space-y-4">
+								<RawJsonTab
+									kind="Consumer"
+									queryKey={["consumer-raw", clusterId, stream, consumerName]}
+									fetchInfo={() => consumersApi.getRaw(clusterId, stream, consumerName)}
+									applyConfig={(config) => consumersApi.updateRaw(clusterId, stream, consumerName, config)}
+									invalidateKeys={[["consumer", clusterId, stream, consumerName], ["consumers", clusterId]]}
+								/>
+							</TabsContent>
+
 							<TabsContent value="danger" className="space-y-4">
 								<Card className="border-destructive/50">
 									<CardHeader>
@@ -427,6 +457,15 @@ function ConsumerDetailPage() {
 					</>
 				) : null}
 			</div>
+
+			{consumer && (
+				<EditConsumerDialog
+					clusterId={clusterId}
+					consumer={consumer}
+					open={editOpen}
+					onOpenChange={setEditOpen}
+				/>
+			)}
 		</>
 	);
 }
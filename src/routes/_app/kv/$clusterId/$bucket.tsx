@@ -5,6 +5,7 @@ import {
 	ArrowLeft,
 	Copy,
 	Database,
+	Download,
 	Edit,
 	Eye,
 	EyeOff,
@@ -15,11 +16,17 @@ import {
 	Plus,
 	RefreshCw,
 	Search,
+	Settings,
+	Timer,
 	Trash2,
+	Upload,
 } from "lucide-react";
-import { connect, type NatsConnection, type KV, type KvEntry as NatsKvEntry } from "nats.ws";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useId, useRef, useState } from "react";
+import { EditKvBucketDialog } from "@/components/kv/edit-bucket-dialog";
+import { ExportBucketDialog } from "@/components/kv/export-bucket-dialog";
+import { ImportBucketDialog } from "@/components/kv/import-bucket-dialog";
 import { AppHeader } from "@/components/layout/app-header";
+import { parseDuration } from "@/components/streams/stream-options-fields";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -55,7 +62,16 @@ import {
 	TooltipProvider,
 	TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { clustersApi, kvApi, type KvEntry } from "@/lib/api";
+import {
+	ApiError,
+	clustersApi,
+	kvApi,
+	type KvEntry,
+	type KvKeyPage,
+	type KvWriteConflict,
+	liveApi,
+	type PutKvKeyOptions,
+} from "@/lib/api";
 import { cn } from "@/lib/utils";
 
 export const Route = createFileRoute("/_app/kv/$clusterId/$bucket")({
@@ -76,6 +92,62 @@ function formatBytes(bytes: number): string {
 	return `${Number.parseFloat((bytes / k ** i).toFixed(1))} ${sizes[i]}`;
 }
 
+// Two largest units of a remaining time, e.g. 4m 12s or 2d 3h
+function formatRemaining(ms: number): string {
+	const seconds = Math.ceil(ms / 1000);
+	const parts = [
+		[Math.floor(seconds / 86400), "d"],
+		[Math.floor(seconds / 3600) % 24, "h"],
+		[Math.floor(seconds / 60) % 60, "m"],
+		[seconds % 60, "s"],
+	] as const;
+	const first = parts.findIndex(([value]) => value > 0);
+	return parts
+		.slice(first, first + 2)
+		.filter(([value]) => value > 0)
+		.map(([value, unit]) => `${value}${unit}`)
+		.join(" ");
+}
+
+// Counts down to the key's own TTL; the server removes the key when it runs out
+function ExpiresIn({ at }: { at: string }) {
+	const [now, setNow] = useState(Date.now());
+
+	useEffect(() => {
+		const timer = setInterval(() => setNow(Date.now()), 1000);
+		return () => clearInterval(timer);
+	}, []);
+
+	const remaining = new Date(at).getTime() - now;
+	return (
+		<Badge variant="outline" className="gap-1 text-xs font-normal" title={`Expires ${formatDate(at)}`}>
+			<Timer className="h-3 w-3" />
+			{remaining > 0 ? formatRemaining(remaining) : "expiring"}
+		</Badge>
+	);
+}
+
+// Keys fetched per request, and the fixed row height the virtualized table relies on
+const PAGE_SIZE = 200;
+const ROW_HEIGHT = 49;
+const VIEWPORT_HEIGHT = 600;
+const OVERSCAN = 10;
+
+// Mirror of the server's key search: subject-style wildcards, otherwise a plain prefix
+function keyMatchesSearch(key: string, search: string): boolean {
+	if (!search) return true;
+	if (!search.includes("*") && !search.includes(">")) return key.startsWith(search);
+
+	const keyTokens = key.split(".");
+	const searchTokens = search.split(".");
+	for (let i = 0; i < searchTokens.length; i++) {
+		if (searchTokens[i] === ">") return true;
+		if (i >= keyTokens.length) return false;
+		if (searchTokens[i] !== "*" && searchTokens[i] !== keyTokens[i]) return false;
+	}
+	return keyTokens.length === searchTokens.length;
+}
+
 // Track recently changed keys for animation
 interface KeyChange {
 	key: string;
@@ -88,16 +160,31 @@ interface LocalKvEntry {
 	value: string;
 	revision: number;
 	created: string;
+	expiresAt?: string;
+}
+
+function toLocalEntry(entry: KvKeyPage["keys"][number]): LocalKvEntry {
+	return {
+		key: entry.key,
+		value: entry.value ?? "",
+		revision: entry.revision ?? 0,
+		created: entry.created ?? "",
+		expiresAt: entry.expiresAt,
+	};
 }
 
 function KvBucketPage() {
 	const { clusterId, bucket } = Route.useParams();
 
 	const [searchQuery, setSearchQuery] = useState("");
+	const [debouncedSearch, setDebouncedSearch] = useState("");
 	const [isWatching, setIsWatching] = useState(false);
 	const [natsConnected, setNatsConnected] = useState(false);
 	const [connectionError, setConnectionError] = useState<string | null>(null);
 	const [showAddDialog, setShowAddDialog] = useState(false);
+	const [showEdit, setShowEdit] = useState(false);
+	const [showExport, setShowExport] = useState(false);
+	const [showImport, setShowImport] = useState(false);
 	const [editingKey, setEditingKey] = useState<LocalKvEntry | null>(null);
 	const [viewingKey, setViewingKey] = useState<LocalKvEntry | null>(null);
 	const [showHistory, setShowHistory] = useState<string | null>(null);
@@ -105,12 +192,17 @@ function KvBucketPage() {
 	const [keys, setKeys] = useState<LocalKvEntry[]>([]);
 	const [keysError, setKeysError] = useState<string | null>(null);
 	const [isLoading, setIsLoading] = useState(true);
-
-	const ncRef = useRef<NatsConnection | null>(null);
-	const kvRef = useRef<KV | null>(null);
-	const watcherRef = useRef<AsyncIterable<NatsKvEntry> | null>(null);
-	const isWatchingRef = useRef(false);
-	const isMountedRef = useRef(true);
+	const [nextCursor, setNextCursor] = useState<string | undefined>();
+	const [totalKeys, setTotalKeys] = useState(0);
+	const [loadingMore, setLoadingMore] = useState(false);
+	const [scrollTop, setScrollTop] = useState(0);
+
+	// The watch handler outlives renders, so it reads the active search from a ref
+	const searchRef = useRef("");
+	searchRef.current = debouncedSearch;
+	// Read by loadKeys so that connecting does not recreate it and load the keys again
+	const connectedRef = useRef(false);
+	connectedRef.current = natsConnected;
 
 	const { data: cluster } = useQuery({
 		queryKey: ["cluster", clusterId],
@@ -128,217 +220,131 @@ function KvBucketPage() {
 		enabled: !!showHistory,
 	});
 
-	// Connect to NATS and load initial keys
-	const connectToNats = useCallback(async () => {
-		if (ncRef.current) return;
-
+	// Load the first page of keys matching the search through the backend
+	const loadKeys = useCallback(async () => {
 		setConnectionError(null);
 		setIsLoading(true);
 
 		try {
-			// Get connection info from API
-			const connInfo = await clustersApi.getConnectionInfo(clusterId);
-
-			// Check for mixed content issues (HTTP page trying to use WSS, or HTTPS page trying to use WS)
-			const pageProtocol = window.location.protocol;
-			const isSecurePage = pageProtocol === 'https:';
-			const hasSecureWs = connInfo.urls.some(url => url.startsWith('wss://'));
-			const hasInsecureWs = connInfo.urls.some(url => url.startsWith('ws://') && !url.startsWith('wss://'));
-
-			if (isSecurePage && hasInsecureWs && !hasSecureWs) {
-				throw new Error(
-					'Security Error: This page is served over HTTPS but the NATS server uses insecure WebSocket (ws://). ' +
-					'Please configure your NATS server to use secure WebSocket (wss://) or access this app over HTTP.'
-				);
-			}
-
-			// Build connection options
-			const opts: Parameters<typeof connect>[0] = {
-				servers: connInfo.urls,
-				timeout: 10000, // 10 second timeout
-			};
-
-			if (connInfo.authType === "token" && connInfo.token) {
-				opts.token = connInfo.token;
-			} else if (connInfo.authType === "userpass" && connInfo.username && connInfo.password) {
-				opts.user = connInfo.username;
-				opts.pass = connInfo.password;
-			}
-
-			// Connect to NATS
-			const nc = await connect(opts);
-			if (!isMountedRef.current) {
-				await nc.close();
-				return;
-			}
-
-			ncRef.current = nc;
+			const page = await kvApi.listKeys(clusterId, bucket, { filter: debouncedSearch, limit: PAGE_SIZE });
+			setKeys(page.keys.map(toLocalEntry));
+			setNextCursor(page.nextCursor);
+			setTotalKeys(page.total);
+			setScrollTop(0);
+			setKeysError(null);
 			setNatsConnected(true);
-
-			// Get JetStream and KV
-			const js = nc.jetstream();
-			const kv = await js.views.kv(bucket);
-			kvRef.current = kv;
-
-			// Load initial keys using the API (more reliable than iterating via NATS)
-			try {
-				const keysFromApi = await kvApi.listKeys(clusterId, bucket);
-				setKeys(keysFromApi.map(k => ({
-					key: k.key,
-					value: k.value,
-					revision: k.revision,
-					created: k.created,
-				})));
-				setKeysError(null);
-			} catch (err) {
-				console.error("Failed to load keys from API:", err);
-				const msg = err instanceof Error ? err.message : "Failed to load keys";
-				setKeysError(msg);
-				setKeys([]);
-			}
-
-			setIsLoading(false);
-
-			// Monitor connection status
-			(async () => {
-				for await (const status of nc.status()) {
-					if (!isMountedRef.current) break;
-					if (status.type === "disconnect" || status.type === "error") {
-						setNatsConnected(false);
-						if (status.type === "error") {
-							setConnectionError(`Connection error: ${status.data}`);
-						}
-					} else if (status.type === "reconnect") {
-						setNatsConnected(true);
-						setConnectionError(null);
-					}
-				}
-			})();
 		} catch (err) {
-			console.error("Failed to connect to NATS:", err);
-			let errorMessage = (err instanceof Error ? err.message : undefined) || "Connection failed";
-
-			// Add helpful hints for common issues
-			if (errorMessage.includes('WebSocket') || errorMessage.includes('connect')) {
-				const isSecurePage = window.location.protocol === 'https:';
-				if (isSecurePage) {
-					errorMessage += '\n\nNote: You are accessing this app over HTTPS. Make sure your NATS server supports secure WebSocket (wss://) connections.';
-				}
+			console.error("Failed to load keys from API:", err);
+			const msg = err instanceof Error ? err.message : "Failed to load keys";
+			// Without any keys loaded yet, treat the failure as a connection error
+			if (connectedRef.current) {
+				setKeysError(msg);
+			} else {
+				setConnectionError(msg);
 			}
-
-			setConnectionError(errorMessage);
-			setNatsConnected(false);
+		} finally {
 			setIsLoading(false);
 		}
-	}, [clusterId, bucket]);
-
-	// Start watching for changes
-	const startWatch = useCallback(async () => {
-		if (!kvRef.current || isWatchingRef.current) return;
-
-		isWatchingRef.current = true;
+	}, [clusterId, bucket, debouncedSearch]);
 
+	// Append the next page once the table is scrolled near the end of what is loaded
+	const loadMore = useCallback(async () => {
+		if (!nextCursor || loadingMore) return;
+		setLoadingMore(true);
 		try {
-			const watcher = await kvRef.current.watch({ key: ">" });
-			watcherRef.current = watcher;
-
-			// Skip initial values (we already have them)
-			let skipInitial = true;
-			const initialTimeout = setTimeout(() => { skipInitial = false; }, 500);
+			const page = await kvApi.listKeys(clusterId, bucket, {
+				filter: debouncedSearch,
+				cursor: nextCursor,
+				limit: PAGE_SIZE,
+			});
+			setKeys((prev) => {
+				// Keys added by the watch may already be present
+				const known = new Set(prev.map((k) => k.key));
+				return [...prev, ...page.keys.map(toLocalEntry).filter((k) => !known.has(k.key))];
+			});
+			setNextCursor(page.nextCursor);
+			setTotalKeys(page.total);
+		} catch (err) {
+			setKeysError(err instanceof Error ? err.message : "Failed to load keys");
+		} finally {
+			setLoadingMore(false);
+		}
+	}, [clusterId, bucket, debouncedSearch, nextCursor, loadingMore]);
+
+	// Apply a change from the watch (or our own writes) to the key list
+	const applyEntry = useCallback((entry: KvEntry) => {
+		const now = Date.now();
+
+		if (entry.operation === "DEL" || entry.operation === "PURGE") {
+			setKeys((prev) => {
+				if (!prev.some((k) => k.key === entry.key)) return prev;
+				setRecentChanges((rc) => [...rc, { key: entry.key, type: "deleted" as const, timestamp: now }].slice(-50));
+				return prev.filter((k) => k.key !== entry.key);
+			});
+			return;
+		}
 
-			for await (const entry of watcher) {
-				if (!isMountedRef.current || !isWatchingRef.current) break;
+		const newEntry: LocalKvEntry = {
+			key: entry.key,
+			value: entry.value,
+			revision: entry.revision,
+			created: entry.created,
+			expiresAt: entry.expiresAt,
+		};
 
-				// Skip the initial batch of existing values
-				if (skipInitial) {
-					continue;
+		setKeys((prev) => {
+			const exists = prev.find((k) => k.key === entry.key);
+			if (!exists && !keyMatchesSearch(entry.key, searchRef.current)) return prev;
+			if (exists) {
+				// Only mark as updated if revision changed
+				if (exists.revision !== entry.revision) {
+					setRecentChanges((rc) => [...rc, { key: entry.key, type: "updated" as const, timestamp: now }].slice(-50));
 				}
+				return prev.map((k) => (k.key === entry.key ? newEntry : k));
+			}
+			// Add new
+			setRecentChanges((rc) => [...rc, { key: entry.key, type: "added" as const, timestamp: now }].slice(-50));
+			return [...prev, newEntry];
+		});
+	}, []);
 
-				const now = Date.now();
-
-				if (entry.operation === "PUT") {
-					const newEntry: LocalKvEntry = {
-						key: entry.key,
-						value: entry.value ? new TextDecoder().decode(entry.value) : "",
-						revision: entry.revision,
-						created: entry.created.toISOString(),
-					};
-
-					setKeys((prev) => {
-						const exists = prev.find((k) => k.key === entry.key);
-						if (exists) {
-							// Only mark as updated if revision changed
-							if (exists.revision !== entry.revision) {
-								setRecentChanges((rc) => [...rc, { key: entry.key, type: "updated", timestamp: now }].slice(-50));
-							}
-							return prev.map((k) => (k.key === entry.key ? newEntry : k));
-						}
-						// Add new
-						setRecentChanges((rc) => [...rc, { key: entry.key, type: "added", timestamp: now }].slice(-50));
-						return [...prev, newEntry];
-					});
-				} else if (entry.operation === "DEL" || entry.operation === "PURGE") {
-					setRecentChanges((rc) => [...rc, { key: entry.key, type: "deleted", timestamp: now }].slice(-50));
-					setKeys((prev) => prev.filter((k) => k.key !== entry.key));
-				}
+	// Watch for changes via the backend event stream while watching is on. The cleanup closes
+	// the stream when watching stops, the bucket changes or the page unmounts
+	useEffect(() => {
+		if (!isWatching) return;
 
-				// Refresh bucket info
-				refetchBucket();
-			}
+		const source = liveApi.watchKv(clusterId, bucket);
 
-			clearTimeout(initialTimeout);
-		} catch (err) {
-			if (isMountedRef.current) {
-				console.error("Watch error:", err);
+		source.addEventListener("entry", (event) => {
+			applyEntry(JSON.parse((event as MessageEvent).data) as KvEntry);
+			// Refresh bucket info
+			refetchBucket();
+		});
+		source.addEventListener("error", (event) => {
+			// Server-sent error events carry a message; plain errors mean the browser is reconnecting
+			if (event instanceof MessageEvent && event.data) {
+				console.error("Watch error:", event.data);
 			}
-		} finally {
-			isWatchingRef.current = false;
-		}
-	}, [refetchBucket]);
+		});
 
-	// Stop watching
-	const stopWatch = useCallback(() => {
-		isWatchingRef.current = false;
-		if (watcherRef.current && 'stop' in watcherRef.current) {
-			(watcherRef.current as { stop: () => void }).stop();
-		}
-		watcherRef.current = null;
-	}, []);
+		return () => source.close();
+	}, [isWatching, clusterId, bucket, applyEntry, refetchBucket]);
 
 	// Toggle watching
 	const toggleWatching = useCallback(() => {
-		if (isWatching) {
-			stopWatch();
-			setIsWatching(false);
-		} else {
-			setIsWatching(true);
-			startWatch();
-		}
-	}, [isWatching, startWatch, stopWatch]);
-
-	// Disconnect from NATS
-	const disconnectFromNats = useCallback(() => {
-		stopWatch();
-		kvRef.current = null;
-
-		if (ncRef.current) {
-			ncRef.current.close().catch(() => {});
-			ncRef.current = null;
-		}
-		setNatsConnected(false);
-		setIsWatching(false);
-	}, [stopWatch]);
+		setIsWatching((watching) => !watching);
+	}, []);
 
-	// Connect on mount, disconnect on unmount
+	// Search on the server once typing pauses
 	useEffect(() => {
-		isMountedRef.current = true;
-		connectToNats();
+		const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+		return () => clearTimeout(timeout);
+	}, [searchQuery]);
 
-		return () => {
-			isMountedRef.current = false;
-			disconnectFromNats();
-		};
-	}, [clusterId, bucket]); // Only reconnect when cluster or bucket changes
+	// Load the first page on mount and whenever the search changes
+	useEffect(() => {
+		loadKeys();
+	}, [loadKeys]);
 
 	// Clean up old changes
 	useEffect(() => {
@@ -360,29 +366,40 @@ function KvBucketPage() {
 		[recentChanges]
 	);
 
-	const filteredKeys = keys?.filter(
-		(entry) =>
-			entry.key.toLowerCase().includes(searchQuery.toLowerCase()) ||
-			entry.value.toLowerCase().includes(searchQuery.toLowerCase())
-	);
+	// Only the rows in and around the viewport are rendered
+	const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+	const lastRow = Math.min(keys.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+	const visibleKeys = keys.slice(firstRow, lastRow);
+
+	const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+		const { scrollTop: top, clientHeight, scrollHeight } = e.currentTarget;
+		setScrollTop(top);
+		if (top + clientHeight > scrollHeight - ROW_HEIGHT * OVERSCAN * 2) {
+			loadMore();
+		}
+	};
 
 	const handleDelete = async (key: string) => {
 		if (!confirm(`Delete key "${key}"?`)) return;
 
 		try {
-			if (kvRef.current) {
-				await kvRef.current.delete(key);
-				// The watch will handle updating the UI
-			}
+			await kvApi.deleteKey(clusterId, bucket, key);
+			applyEntry({ key, value: "", revision: 0, created: "", operation: "DEL" });
 		} catch (err) {
 			alert(err instanceof Error ? err.message : "Failed to delete key");
 		}
 	};
 
-	const handlePutKey = async (key: string, value: string) => {
-		if (kvRef.current) {
-			const encoder = new TextEncoder();
-			await kvRef.current.put(key, encoder.encode(value));
+	const handlePutKey = async (key: string, value: string, opts: PutKvKeyOptions) => {
+		try {
+			applyEntry(await kvApi.putKey(clusterId, bucket, key, value, opts));
+		} catch (err) {
+			// Show whatever won the race in the list too
+			if (err instanceof ApiError && err.status === 409) {
+				const { current } = err.body as KvWriteConflict;
+				applyEntry(current ?? { key, value: "", revision: 0, created: "", operation: "DEL" });
+			}
+			throw err;
 		}
 	};
 
@@ -392,29 +409,8 @@ function KvBucketPage() {
 
 	// Refresh keys manually
 	const handleRefresh = async () => {
-		if (!ncRef.current) {
-			await connectToNats();
-			return;
-		}
-
-		setIsLoading(true);
-		setKeysError(null);
-		try {
-			const keysFromApi = await kvApi.listKeys(clusterId, bucket);
-			setKeys(keysFromApi.map(k => ({
-				key: k.key,
-				value: k.value,
-				revision: k.revision,
-				created: k.created,
-			})));
-			refetchBucket();
-		} catch (err) {
-			console.error("Failed to refresh keys:", err);
-			const msg = err instanceof Error ? err.message : "Failed to load keys";
-			setKeysError(msg);
-		} finally {
-			setIsLoading(false);
-		}
+		await loadKeys();
+		refetchBucket();
 	};
 
 	if (connectionError && !natsConnected) {
@@ -438,7 +434,7 @@ function KvBucketPage() {
 						<CardContent className="space-y-4">
 							<p className="text-sm text-muted-foreground whitespace-pre-wrap">{connectionError}</p>
 							<div className="flex gap-2">
-								<Button variant="outline" onClick={() => connectToNats()}>
+								<Button variant="outline" onClick={() => loadKeys()}>
 									<RefreshCw className="h-4 w-4 mr-2" />
 									Retry
 								</Button>
@@ -494,6 +490,19 @@ function KvBucketPage() {
 					</Tooltip>
 				</TooltipProvider>
 
+				<Button variant="outline" size="sm" onClick={() => setShowEdit(true)} disabled={!bucketInfo}>
+					<Settings className="h-4 w-4 mr-2" />
+					Edit
+				</Button>
+				<Button variant="outline" size="sm" onClick={() => setShowExport(true)} disabled={!natsConnected}>
+					<Download className="h-4 w-4 mr-2" />
+					Export
+				</Button>
+				<Button variant="outline" size="sm" onClick={() => setShowImport(true)} disabled={!natsConnected}>
+					<Upload className="h-4 w-4 mr-2" />
+					Import
+				</Button>
+
 				<Button variant="outline" size="sm" onClick={handleRefresh} disabled={isLoading}>
 					<RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
 				</Button>
@@ -549,9 +558,12 @@ function KvBucketPage() {
 								<Database className="h-4 w-4 text-muted-foreground" />
 							</CardHeader>
 							<CardContent>
-								<Badge variant={bucketInfo.storage === "file" ? "default" : "secondary"}>
-									{bucketInfo.storage}
-								</Badge>
+								<div className="flex flex-wrap gap-1">
+									<Badge variant={bucketInfo.storage === "file" ? "default" : "secondary"}>
+										{bucketInfo.storage}
+									</Badge>
+									{bucketInfo.allowMsgTtl && <Badge variant="outline">per-key TTL</Badge>}
+								</div>
 							</CardContent>
 						</Card>
 					</div>
@@ -591,10 +603,11 @@ function KvBucketPage() {
 								<div className="relative">
 									<Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
 									<Input
-										placeholder="Search keys..."
+										placeholder="Prefix or filter, e.g. config.*.>"
 										value={searchQuery}
 										onChange={(e) => setSearchQuery(e.target.value)}
-										className="pl-8 w-[200px]"
+										className="pl-8 w-[260px] font-mono text-sm"
+										aria-label="Search keys"
 									/>
 								</div>
 								<Button onClick={() => setShowAddDialog(true)} disabled={!natsConnected}>
@@ -625,133 +638,151 @@ function KvBucketPage() {
 								<Skeleton className="h-10 w-full" />
 								<Skeleton className="h-10 w-full" />
 							</div>
-						) : filteredKeys && filteredKeys.length > 0 ? (
-							<Table>
-								<TableHeader>
-									<TableRow>
-										<TableHead>Key</TableHead>
-										<TableHead>Value</TableHead>
-										<TableHead className="w-[100px]">Revision</TableHead>
-										<TableHead className="w-[180px]">Updated</TableHead>
-										<TableHead className="w-[120px]" />
-									</TableRow>
-								</TableHeader>
-								<TableBody>
-									{filteredKeys.map((entry) => {
-										const changeType = getChangeType(entry.key);
-										return (
-											<TableRow
-												key={entry.key}
-												className={cn(
-													"transition-colors duration-500",
-													changeType === "added" && "animate-pulse bg-green-500/10",
-													changeType === "updated" && "animate-pulse bg-blue-500/10"
-												)}
-											>
-												<TableCell className="font-mono text-sm">
-													<div className="flex items-center gap-2">
-														{entry.key}
-														{changeType && (
-															<Badge
-																variant={changeType === "added" ? "default" : "secondary"}
-																className={cn(
-																	"text-xs animate-in fade-in-0 zoom-in-95",
-																	changeType === "added" && "bg-green-500",
-																	changeType === "updated" && "bg-blue-500"
-																)}
-															>
-																{changeType}
-															</Badge>
+						) : keys.length > 0 ? (
+							<div className="space-y-2">
+								<div className="overflow-y-auto" style={{ maxHeight: VIEWPORT_HEIGHT }} onScroll={handleScroll}>
+									<Table>
+										<TableHeader>
+											<TableRow>
+												<TableHead>Key</TableHead>
+												<TableHead>Value</TableHead>
+												<TableHead className="w-[100px]">Revision</TableHead>
+												<TableHead className="w-[180px]">Updated</TableHead>
+												<TableHead className="w-[120px]" />
+											</TableRow>
+										</TableHeader>
+										<TableBody>
+											{firstRow > 0 && <tr style={{ height: firstRow * ROW_HEIGHT }} />}
+											{visibleKeys.map((entry) => {
+												const changeType = getChangeType(entry.key);
+												return (
+													<TableRow
+														key={entry.key}
+														style={{ height: ROW_HEIGHT }}
+														className={cn(
+															"transition-colors duration-500",
+															changeType === "added" && "animate-pulse bg-green-500/10",
+															changeType === "updated" && "animate-pulse bg-blue-500/10"
 														)}
-													</div>
-												</TableCell>
-												<TableCell className="font-mono text-sm max-w-[300px]">
-													<div className="truncate" title={entry.value}>
-														{entry.value.length > 100
-															? `${entry.value.slice(0, 100)}...`
-															: entry.value}
-													</div>
-												</TableCell>
-												<TableCell>
-													<Badge variant="outline">r{entry.revision}</Badge>
-												</TableCell>
-												<TableCell className="text-xs text-muted-foreground">
-													{formatDate(entry.created)}
-												</TableCell>
-												<TableCell>
-													<div className="flex items-center gap-1">
-														<TooltipProvider>
-															<Tooltip>
-																<TooltipTrigger asChild>
-																	<Button
-																		variant="ghost"
-																		size="icon"
-																		className="h-8 w-8"
-																		onClick={() => setViewingKey(entry)}
-																	>
-																		<Eye className="h-4 w-4" />
-																	</Button>
-																</TooltipTrigger>
-																<TooltipContent>View</TooltipContent>
-															</Tooltip>
-														</TooltipProvider>
-														<TooltipProvider>
-															<Tooltip>
-																<TooltipTrigger asChild>
-																	<Button
-																		variant="ghost"
-																		size="icon"
-																		className="h-8 w-8"
-																		onClick={() => setEditingKey(entry)}
-																		disabled={!natsConnected}
-																	>
-																		<Edit className="h-4 w-4" />
-																	</Button>
-																</TooltipTrigger>
-																<TooltipContent>Edit</TooltipContent>
-															</Tooltip>
-														</TooltipProvider>
-														<TooltipProvider>
-															<Tooltip>
-																<TooltipTrigger asChild>
-																	<Button
-																		variant="ghost"
-																		size="icon"
-																		className="h-8 w-8"
-																		onClick={() => setShowHistory(entry.key)}
-																	>
-																		<History className="h-4 w-4" />
-																	</Button>
-																</TooltipTrigger>
-																<TooltipContent>History</TooltipContent>
-															</Tooltip>
-														</TooltipProvider>
-														<TooltipProvider>
-															<Tooltip>
-																<TooltipTrigger asChild>
-																	<Button
-																		variant="ghost"
-																		size="icon"
-																		className="h-8 w-8 text-destructive hover:text-destructive"
-																		onClick={() => handleDelete(entry.key)}
-																		disabled={!natsConnected}
+													>
+														<TableCell className="font-mono text-sm">
+															<div className="flex items-center gap-2">
+																{entry.key}
+																{entry.expiresAt && <ExpiresIn at={entry.expiresAt} />}
+																{changeType && (
+																	<Badge
+																		variant={changeType === "added" ? "default" : "secondary"}
+																		className={cn(
+																			"text-xs animate-in fade-in-0 zoom-in-95",
+																			changeType === "added" && "bg-green-500",
+																			changeType === "updated" && "bg-blue-500"
+																		)}
 																	>
-																		<Trash2 className="h-4 w-4" />
-																	</Button>
-																</TooltipTrigger>
-																<TooltipContent>Delete</TooltipContent>
-															</Tooltip>
-														</TooltipProvider>
-													</div>
-												</TableCell>
-											</TableRow>
-										);
-									})}
-								</TableBody>
-							</Table>
+																		{changeType}
+																	</Badge>
+																)}
+															</div>
+														</TableCell>
+														<TableCell className="font-mono text-sm max-w-[300px]">
+															<div className="truncate" title={entry.value}>
+																{entry.value.length > 100
+																	? `${entry.value.slice(0, 100)}...`
+																	: entry.value}
+															</div>
+														</TableCell>
+														<TableCell>
+															<Badge variant="outline">r{entry.revision}</Badge>
+														</TableCell>
+														<TableCell className="text-xs text-muted-foreground">
+															{formatDate(entry.created)}
+														</TableCell>
+														<TableCell>
+															<div className="flex items-center gap-1">
+																<TooltipProvider>
+																	<Tooltip>
+																		<TooltipTrigger asChild>
+																			<Button
+																				variant="ghost"
+																				size="icon"
+																				className="h-8 w-8"
+																				onClick={() => setViewingKey(entry)}
+																			>
+																				<Eye className="h-4 w-4" />
+																			</Button>
+																		</TooltipTrigger>
+																		<TooltipContent>View</TooltipContent>
+																	</Tooltip>
+																</TooltipProvider>
+																<TooltipProvider>
+																	<Tooltip>
+																		<TooltipTrigger asChild>
+																			<Button
+																				variant="ghost"
+																				size="icon"
+																				className="h-8 w-8"
+																				onClick={() => setEditingKey(entry)}
+																				disabled={!natsConnected}
+																			>
+																				<Edit className="h-4 w-4" />
+																			</Button>
+																		</TooltipTrigger>
+																		<TooltipContent>Edit</TooltipContent>
+																	</Tooltip>
+																</TooltipProvider>
+																<TooltipProvider>
+																	<Tooltip>
+																		<TooltipTrigger asChild>
+																			<Button
+																				variant="ghost"
+																				size="icon"
+																				className="h-8 w-8"
+																				onClick={() => setShowHistory(entry.key)}
+																			>
+																				<History className="h-4 w-4" />
+																			</Button>
+																		</TooltipTrigger>
+																		<TooltipContent>History</TooltipContent>
+																	</Tooltip>
+																</TooltipProvider>
+																<TooltipProvider>
+																	<Tooltip>
+																		<TooltipTrigger asChild>
+																			<Button
+																				variant="ghost"
+																				size="icon"
+																				className="h-8 w-8 text-destructive hover:text-destructive"
+																				onClick={() => handleDelete(entry.key)}
+																				disabled={!natsConnected}
+																			>
+																				<Trash2 className="h-4 w-4" />
+																			</Button>
+																		</TooltipTrigger>
+																		<TooltipContent>Delete</TooltipContent>
+																	</Tooltip>
+																</TooltipProvider>
+															</div>
+														</TableCell>
+													</TableRow>
+												);
+											})}
+											{lastRow < keys.length && <tr style={{ height: (keys.length - lastRow) * ROW_HEIGHT }} />}
+										</TableBody>
+									</Table>
+								</div>
+								<div className="flex items-center justify-between text-xs text-muted-foreground">
+									<span>
+										{keys.length} of {totalKeys} {debouncedSearch ? "matching " : ""}keys loaded
+									</span>
+									{nextCursor && (
+										<Button variant="ghost" size="sm" onClick={loadMore} disabled={loadingMore}>
+											{loadingMore ? "Loading..." : "Load more"}
+										</Button>
+									)}
+								</div>
+							</div>
 						) : (
 							<div className="text-center py-8 text-muted-foreground">
-								{searchQuery ? "No keys match your search" : "No keys in this bucket"}
+								{debouncedSearch ? "No keys match your search" : "No keys in this bucket"}
 							</div>
 						)}
 					</CardContent>
@@ -769,6 +800,32 @@ function KvBucketPage() {
 					}
 				}}
 				onSave={handlePutKey}
+				allowTtl={!!bucketInfo?.allowMsgTtl}
+			/>
+
+			{bucketInfo && (
+				<EditKvBucketDialog
+					clusterId={clusterId}
+					bucket={bucketInfo}
+					open={showEdit}
+					onOpenChange={setShowEdit}
+				/>
+			)}
+
+			<ExportBucketDialog
+				clusterId={clusterId}
+				bucket={bucket}
+				initialFilter={debouncedSearch}
+				open={showExport}
+				onOpenChange={setShowExport}
+			/>
+
+			<ImportBucketDialog
+				clusterId={clusterId}
+				bucket={bucket}
+				open={showImport}
+				onOpenChange={setShowImport}
+				onImported={loadKeys}
 			/>
 
 			{/* View Key Dialog */}
@@ -790,20 +847,74 @@ function KvBucketPage() {
 	);
 }
 
+// Three-way compare shown when a save loses a race; lines missing from the loaded value are highlighted
+function ConflictCompare({
+	loaded,
+	current,
+	edited,
+}: {
+	loaded: LocalKvEntry | null;
+	current: KvEntry | null;
+	edited: string;
+}) {
+	const loadedLines = new Set((loaded?.value ?? "").split("\n"));
+	const panes = [
+		{ title: loaded ? `Loaded (r${loaded.revision})` : "Loaded (new key)", value: loaded?.value, highlight: "" },
+		{
+			title: current ? `Current (r${current.revision})` : "Current (deleted)",
+			value: current?.value,
+			highlight: "bg-yellow-500/20",
+		},
+		{ title: "Your edit", value: edited, highlight: "bg-blue-500/20" },
+	];
+
+	return (
+		<div className="grid gap-2 md:grid-cols-3">
+			{panes.map((pane) => (
+				<div key={pane.title} className="min-w-0 space-y-1">
+					<div className="text-xs font-medium text-muted-foreground">{pane.title}</div>
+					<pre className="bg-muted p-2 rounded-md overflow-auto max-h-64 text-xs font-mono whitespace-pre-wrap break-all">
+						{pane.value === undefined ? (
+							<span className="text-muted-foreground italic">No value</span>
+						) : (
+							pane.value.split("\n").map((line, i) => (
+								<div
+									// biome-ignore lint/suspicious/noArrayIndexKey: lines are positional
+									key={i}
+									className={cn(pane.highlight && !loadedLines.has(line) && pane.highlight)}
+								>
+									{line || " "}
+								</div>
+							))
+						)}
+					</pre>
+				</div>
+			))}
+		</div>
+	);
+}
+
 // Key Add/Edit Dialog Component
 function KeyDialog({
 	editingKey,
 	open,
 	onOpenChange,
 	onSave,
+	allowTtl,
 }: {
 	editingKey?: LocalKvEntry;
 	open: boolean;
 	onOpenChange: (open: boolean) => void;
-	onSave: (key: string, value: string) => Promise<void>;
+	onSave: (key: string, value: string, opts: PutKvKeyOptions) => Promise<void>;
+	allowTtl: boolean;
 }) {
+	const id = useId();
 	const [key, setKey] = useState("");
 	const [value, setValue] = useState("");
+	const [ttl, setTtl] = useState("");
+	// The entry the edit is based on; saving only succeeds while the key is still at its revision
+	const [base, setBase] = useState<LocalKvEntry | null>(null);
+	const [conflict, setConflict] = useState<KvWriteConflict | null>(null);
 	const [error, setError] = useState("");
 	const [isSaving, setIsSaving] = useState(false);
 
@@ -815,30 +926,71 @@ function KeyDialog({
 			setKey("");
 			setValue("");
 		}
+		setTtl("");
+		setBase(editingKey ?? null);
+		setConflict(null);
 		setError("");
 	}, [editingKey, open]);
 
-	const handleSubmit = async (e: React.FormEvent) => {
-		e.preventDefault();
-		if (!key.trim()) {
-			setError("Key is required");
-			return;
-		}
-
+	// Update from the base revision, or create when there is no base
+	const save = async (from: LocalKvEntry | null) => {
 		setIsSaving(true);
+		setError("");
 		try {
-			await onSave(key, value);
+			const opts: PutKvKeyOptions = from ? { revision: from.revision } : { create: true };
+			if (ttl.trim()) {
+				opts.ttl = parseDuration(ttl);
+			}
+			await onSave(key, value, opts);
 			onOpenChange(false);
 		} catch (err) {
-			setError(err instanceof Error ? err.message : "Failed to save key");
+			if (err instanceof ApiError && err.status === 409) {
+				setConflict(err.body as KvWriteConflict);
+			} else {
+				setError(err instanceof Error ? err.message : "Failed to save key");
+			}
 		} finally {
 			setIsSaving(false);
 		}
 	};
 
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!key.trim()) {
+			setError("Key is required");
+			return;
+		}
+		if (ttl.trim() && parseDuration(ttl) < 1_000_000_000) {
+			setError("TTL must be at least 1s, e.g. 30s, 5m or 1h");
+			return;
+		}
+		await save(base);
+	};
+
+	// Keep the edit but base it on what is stored now, so the next save checks against that revision
+	const rebase = () => {
+		if (!conflict) return;
+		setBase(conflict.current);
+		setConflict(null);
+	};
+
+	const discardEdit = () => {
+		if (!conflict) return;
+		setValue(conflict.current?.value ?? "");
+		rebase();
+	};
+
+	const overwrite = async () => {
+		if (!conflict) return;
+		const current = conflict.current;
+		setBase(current);
+		setConflict(null);
+		await save(current);
+	};
+
 	return (
 		<Dialog open={open} onOpenChange={onOpenChange}>
-			<DialogContent>
+			<DialogContent className={cn(conflict && "max-w-4xl max-h-[90vh] overflow-y-auto")}>
 				<DialogHeader>
 					<DialogTitle>{editingKey ? "Edit Key" : "Add Key"}</DialogTitle>
 					<DialogDescription>
@@ -846,45 +998,87 @@ function KeyDialog({
 					</DialogDescription>
 				</DialogHeader>
 
-				<form onSubmit={handleSubmit} className="space-y-4">
-					{error && (
+				{conflict ? (
+					<div className="space-y-4">
 						<div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
-							{error}
+							{conflict.error}. Nothing was saved.
 						</div>
-					)}
-
-					<div className="space-y-2">
-						<Label htmlFor="key">Key</Label>
-						<Input
-							id="key"
-							value={key}
-							onChange={(e) => setKey(e.target.value)}
-							placeholder="my.key.name"
-							disabled={!!editingKey}
-						/>
+						<ConflictCompare loaded={base} current={conflict.current} edited={value} />
+						<DialogFooter className="gap-2 sm:justify-between">
+							<Button type="button" variant="outline" onClick={discardEdit}>
+								Discard My Edit
+							</Button>
+							<div className="flex flex-col-reverse gap-2 sm:flex-row">
+								<Button type="button" variant="outline" onClick={rebase}>
+									Keep Editing
+								</Button>
+								<Button type="button" variant="destructive" onClick={overwrite} disabled={isSaving}>
+									{isSaving ? "Saving..." : "Overwrite With My Edit"}
+								</Button>
+							</div>
+						</DialogFooter>
 					</div>
+				) : (
+					<form onSubmit={handleSubmit} className="space-y-4">
+						{error && (
+							<div className="rounded-md bg-destructive/15 p-3 text-sm text-destructive">
+								{error}
+							</div>
+						)}
 
-					<div className="space-y-2">
-						<Label htmlFor="value">Value</Label>
-						<Textarea
-							id="value"
-							value={value}
-							onChange={(e) => setValue(e.target.value)}
-							placeholder="Value..."
-							rows={6}
-							className="font-mono text-sm"
-						/>
-					</div>
+						<div className="space-y-2">
+							<Label htmlFor={`${id}-key`}>Key</Label>
+							<Input
+								id={`${id}-key`}
+								value={key}
+								onChange={(e) => setKey(e.target.value)}
+								placeholder="my.key.name"
+								disabled={!!editingKey}
+							/>
+						</div>
 
-					<DialogFooter>
-						<Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
-							Cancel
-						</Button>
-						<Button type="submit" disabled={isSaving}>
-							{isSaving ? "Saving..." : "Save"}
-						</Button>
-					</DialogFooter>
-				</form>
+						<div className="space-y-2">
+							<div className="flex items-center justify-between">
+								<Label htmlFor={`${id}-value`}>Value</Label>
+								{base && (
+									<span className="text-xs text-muted-foreground">Editing revision {base.revision}</span>
+								)}
+							</div>
+							<Textarea
+								id={`${id}-value`}
+								value={value}
+								onChange={(e) => setValue(e.target.value)}
+								placeholder="Value..."
+								rows={6}
+								className="font-mono text-sm"
+							/>
+						</div>
+
+						{allowTtl && (
+							<div className="space-y-2">
+								<Label htmlFor={`${id}-ttl`}>TTL</Label>
+								<Input
+									id={`${id}-ttl`}
+									value={ttl}
+									onChange={(e) => setTtl(e.target.value)}
+									placeholder="e.g. 30s, 5m, 1h"
+								/>
+								<p className="text-xs text-muted-foreground">
+									Applies to this write only; leave empty to keep the key until the bucket's limits remove it
+								</p>
+							</div>
+						)}
+
+						<DialogFooter>
+							<Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+								Cancel
+							</Button>
+							<Button type="submit" disabled={isSaving}>
+								{isSaving ? "Saving..." : "Save"}
+							</Button>
+						</DialogFooter>
+					</form>
+				)}
 			</DialogContent>
 		</Dialog>
 	);
@@ -1,4 +1,3 @@
-import { useQuery } from "@tanstack/react-query";
 import { createFileRoute, Link } from "@tanstack/react-router";
 import {
 	AlertCircle,
@@ -16,12 +15,6 @@ import {
 	Upload,
 	X,
 } from "lucide-react";
-import {
-	connect,
-	type NatsConnection,
-	type ObjectStore,
-	type ObjectInfo as NatsObjectInfo,
-} from "nats.ws";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { AppHeader } from "@/components/layout/app-header";
 import { Badge } from "@/components/ui/badge";
@@ -57,33 +50,17 @@ import {
 	TableHeader,
 	TableRow,
 } from "@/components/ui/table";
-import { clustersApi } from "@/lib/api";
+import {
+	objectStoreApi,
+	type ObjectStoreBucketInfo,
+	type ObjectStoreObjectInfo,
+} from "@/lib/api";
 import { cn } from "@/lib/utils";
 
 export const Route = createFileRoute("/_app/objectstore/$clusterId/$bucket")({
 	component: ObjectStoreBucketPage,
 });
 
-interface LocalObjectInfo {
-	name: string;
-	description?: string;
-	size: number;
-	chunks: number;
-	digest: string;
-	mtime: string;
-	nuid: string;
-}
-
-interface BucketStatus {
-	bucket: string;
-	description?: string;
-	ttl: number;
-	storage: string;
-	replicas: number;
-	sealed: boolean;
-	size: number;
-}
-
 function formatBytes(bytes: number): string {
 	if (bytes === 0) return "0 B";
 	const k = 1024;
@@ -108,225 +85,72 @@ function getFileIcon(name: string) {
 	return <File className="h-4 w-4 text-muted-foreground" />;
 }
 
-function formatNatsObjectInfo(info: NatsObjectInfo): LocalObjectInfo {
-	// mtime can be a Date object or a string depending on the nats library version
-	const mtime = typeof info.mtime === 'string' ? info.mtime : info.mtime.toISOString();
-	return {
-		name: info.name,
-		description: info.description,
-		size: info.size,
-		chunks: info.chunks,
-		digest: info.digest,
-		mtime,
-		nuid: info.nuid,
-	};
-}
-
 function ObjectStoreBucketPage() {
 	const { clusterId, bucket } = Route.useParams();
 	const fileInputRef = useRef<HTMLInputElement>(null);
 	const dropZoneRef = useRef<HTMLDivElement>(null);
 
-	const [natsConnected, setNatsConnected] = useState(false);
 	const [connectionError, setConnectionError] = useState<string | null>(null);
 	const [isLoading, setIsLoading] = useState(true);
-	const [objects, setObjects] = useState<LocalObjectInfo[]>([]);
-	const [bucketInfo, setBucketInfo] = useState<BucketStatus | null>(null);
+	const [objects, setObjects] = useState<ObjectStoreObjectInfo[]>([]);
+	const [bucketInfo, setBucketInfo] = useState<ObjectStoreBucketInfo | null>(null);
 
 	const [showUploadDialog, setShowUploadDialog] = useState(false);
 	const [showInfoDialog, setShowInfoDialog] = useState(false);
-	const [selectedObject, setSelectedObject] = useState<LocalObjectInfo | null>(null);
+	const [selectedObject, setSelectedObject] = useState<ObjectStoreObjectInfo | null>(null);
 	const [uploadFiles, setUploadFiles] = useState<File[]>([]);
 	const [uploading, setUploading] = useState(false);
 	const [uploadProgress, setUploadProgress] = useState<string>("");
 	const [uploadError, setUploadError] = useState("");
 	const [isDragging, setIsDragging] = useState(false);
 
-	const ncRef = useRef<NatsConnection | null>(null);
-	const osRef = useRef<ObjectStore | null>(null);
-	const isMountedRef = useRef(true);
-
-	const { data: cluster } = useQuery({
-		queryKey: ["cluster", clusterId],
-		queryFn: () => clustersApi.getById(clusterId),
-	});
-
-	// Connect to NATS and load data
-	const connectToNats = useCallback(async () => {
-		if (ncRef.current) return;
-
-		setConnectionError(null);
-		setIsLoading(true);
-
-		try {
-			const connInfo = await clustersApi.getConnectionInfo(clusterId);
-
-			// Check for mixed content issues
-			const isSecurePage = window.location.protocol === 'https:';
-			const hasSecureWs = connInfo.urls.some(url => url.startsWith('wss://'));
-			const hasInsecureWs = connInfo.urls.some(url => url.startsWith('ws://') && !url.startsWith('wss://'));
-
-			if (isSecurePage && hasInsecureWs && !hasSecureWs) {
-				throw new Error(
-					'Security Error: This page is served over HTTPS but the NATS server uses insecure WebSocket (ws://). ' +
-					'Please configure your NATS server to use secure WebSocket (wss://) or access this app over HTTP.'
-				);
-			}
-
-			const opts: Parameters<typeof connect>[0] = {
-				servers: connInfo.urls,
-				timeout: 10000,
-			};
-
-			if (connInfo.authType === "token" && connInfo.token) {
-				opts.token = connInfo.token;
-			} else if (connInfo.authType === "userpass" && connInfo.username && connInfo.password) {
-				opts.user = connInfo.username;
-				opts.pass = connInfo.password;
-			}
-
-			const nc = await connect(opts);
-			if (!isMountedRef.current) {
-				await nc.close();
-				return;
-			}
-
-			ncRef.current = nc;
-			setNatsConnected(true);
-
-			const js = nc.jetstream();
-			const os = await js.views.os(bucket);
-			osRef.current = os;
-
-			// Load bucket status
-			const status = await os.status();
-			setBucketInfo({
-				bucket: status.bucket,
-				description: status.description,
-				ttl: status.ttl,
-				storage: status.storage === 1 ? "memory" : "file",
-				replicas: status.replicas,
-				sealed: status.sealed,
-				size: status.size,
-			});
-
-			// Load objects
-			await loadObjects();
-
-			setIsLoading(false);
-
-			// Monitor connection status
-			(async () => {
-				for await (const s of nc.status()) {
-					if (!isMountedRef.current) break;
-					if (s.type === "disconnect" || s.type === "error") {
-						setNatsConnected(false);
-						if (s.type === "error") {
-							setConnectionError(`Connection error: ${s.data}`);
-						}
-					} else if (s.type === "reconnect") {
-						setNatsConnected(true);
-						setConnectionError(null);
-					}
-				}
-			})();
-		} catch (err) {
-			console.error("Failed to connect to NATS:", err);
-			let errorMessage = (err instanceof Error ? err.message : undefined) || "Connection failed";
-
-			// Add helpful hints for common issues
-			if (errorMessage.includes('WebSocket') || errorMessage.includes('connect')) {
-				const isSecurePage = window.location.protocol === 'https:';
-				if (isSecurePage) {
-					errorMessage += '\n\nNote: You are accessing this app over HTTPS. Make sure your NATS server supports secure WebSocket (wss://) connections.';
-				}
-			}
-
-			setConnectionError(errorMessage);
-			setNatsConnected(false);
-			setIsLoading(false);
-		}
-	}, [clusterId, bucket]);
-
 	const loadObjects = async () => {
-		if (!ncRef.current) return;
-
 		try {
-			console.log("[ObjectStore] Loading objects for bucket:", bucket);
-			// Re-open the bucket to get fresh data
-			const js = ncRef.current.jetstream();
-			console.log("[ObjectStore] Got JetStream, opening bucket...");
-			const os = await js.views.os(bucket);
-			osRef.current = os;
-			console.log("[ObjectStore] Bucket opened, calling list()...");
-
-			// nats.ws list() returns a Promise<Array>, not an async iterator
-			const list = await os.list();
-			console.log("[ObjectStore] Raw list result:", JSON.stringify(list, null, 2));
-			console.log("[ObjectStore] List length:", list?.length);
-			console.log("[ObjectStore] List type:", typeof list, Array.isArray(list));
-
-			const objs: LocalObjectInfo[] = [];
-			if (Array.isArray(list)) {
-				for (const info of list) {
-					console.log("[ObjectStore] Found object:", info);
-					if (!info.deleted) {
-						objs.push(formatNatsObjectInfo(info));
-					}
-				}
-			}
-			console.log("[ObjectStore] Total objects found:", objs.length);
-			setObjects(objs);
+			setObjects(await objectStoreApi.listObjects(clusterId, bucket));
 		} catch (err) {
 			console.error("[ObjectStore] Failed to list objects:", err);
 		}
 	};
 
 	const refreshStatus = async () => {
-		if (!osRef.current) return;
 		try {
-			const status = await osRef.current.status();
-			setBucketInfo({
-				bucket: status.bucket,
-				description: status.description,
-				ttl: status.ttl,
-				storage: status.storage === 1 ? "memory" : "file",
-				replicas: status.replicas,
-				sealed: status.sealed,
-				size: status.size,
-			});
+			setBucketInfo(await objectStoreApi.getBucket(clusterId, bucket));
 		} catch (err) {
 			console.error("Failed to refresh status:", err);
 		}
 	};
 
-	const disconnectFromNats = useCallback(() => {
-		osRef.current = null;
-		if (ncRef.current) {
-			ncRef.current.close().catch(() => {});
-			ncRef.current = null;
+	// Load bucket status and objects through the backend
+	const loadBucket = useCallback(async () => {
+		setConnectionError(null);
+		setIsLoading(true);
+
+		try {
+			const [status, list] = await Promise.all([
+				objectStoreApi.getBucket(clusterId, bucket),
+				objectStoreApi.listObjects(clusterId, bucket),
+			]);
+			setBucketInfo(status);
+			setObjects(list);
+		} catch (err) {
+			console.error("Failed to load bucket:", err);
+			setConnectionError((err instanceof Error ? err.message : undefined) || "Failed to load bucket");
+		} finally {
+			setIsLoading(false);
 		}
-		setNatsConnected(false);
-	}, []);
+	}, [clusterId, bucket]);
 
 	useEffect(() => {
-		isMountedRef.current = true;
-		connectToNats();
-
-		return () => {
-			isMountedRef.current = false;
-			disconnectFromNats();
-		};
-	}, [clusterId, bucket]);
+		loadBucket();
+	}, [loadBucket]);
 
 	const handleDelete = async (objectName: string) => {
-		if (!osRef.current) return;
 		if (!confirm(`Are you sure you want to delete "${objectName}"? This action cannot be undone.`)) {
 			return;
 		}
 
 		try {
-			await osRef.current.delete(objectName);
+			await objectStoreApi.deleteObject(clusterId, bucket, objectName);
 			await loadObjects();
 			await refreshStatus();
 		} catch (error) {
@@ -334,47 +158,17 @@ function ObjectStoreBucketPage() {
 		}
 	};
 
-	const handleDownload = async (objectName: string) => {
-		if (!osRef.current) return;
-
-		try {
-			const result = await osRef.current.get(objectName);
-			if (!result) {
-				alert("Object not found");
-				return;
-			}
-
-			// Collect all chunks
-			const chunks: Uint8Array[] = [];
-			for await (const chunk of result.data) {
-				chunks.push(chunk);
-			}
-
-			// Combine chunks
-			const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
-			const data = new Uint8Array(totalLength);
-			let offset = 0;
-			for (const chunk of chunks) {
-				data.set(chunk, offset);
-				offset += chunk.length;
-			}
-
-			// Create download
-			const blob = new Blob([data]);
-			const url = URL.createObjectURL(blob);
-			const link = document.createElement("a");
-			link.href = url;
-			link.download = objectName;
-			document.body.appendChild(link);
-			link.click();
-			document.body.removeChild(link);
-			URL.revokeObjectURL(url);
-		} catch (error) {
-			alert(error instanceof Error ? error.message : "Failed to download object");
-		}
+	const handleDownload = (objectName: string) => {
+		// The backend streams the object as an attachment
+		const link = document.createElement("a");
+		link.href = objectStoreApi.getDownloadUrl(clusterId, bucket, objectName);
+		link.download = objectName;
+		document.body.appendChild(link);
+		link.click();
+		document.body.removeChild(link);
 	};
 
-	const handleViewInfo = (obj: LocalObjectInfo) => {
+	const handleViewInfo = (obj: ObjectStoreObjectInfo) => {
 		setSelectedObject(obj);
 		setShowInfoDialog(true);
 	};
@@ -474,8 +268,8 @@ function ObjectStoreBucketPage() {
 	};
 
 	const handleRefresh = async () => {
-		if (!ncRef.current) {
-			await connectToNats();
+		if (!bucketInfo) {
+			await loadBucket();
 			return;
 		}
 
@@ -485,7 +279,7 @@ function ObjectStoreBucketPage() {
 		setIsLoading(false);
 	};
 
-	if (connectionError && !natsConnected) {
+	if (connectionError && !bucketInfo) {
 		return (
 			<>
 				<AppHeader title={bucket}>
@@ -506,7 +300,7 @@ function ObjectStoreBucketPage() {
 							<CardDescription>{connectionError}</CardDescription>
 						</CardHeader>
 						<CardContent className="flex gap-2">
-							<Button variant="outline" onClick={() => connectToNats()}>
+							<Button variant="outline" onClick={() => loadBucket()}>
 								<RefreshCw className="h-4 w-4 mr-2" />
 								Retry
 							</Button>
@@ -559,7 +353,7 @@ function ObjectStoreBucketPage() {
 								<div>
 									<CardTitle className="flex items-center gap-2">
 										<FolderArchive className="h-5 w-5" />
-										{bucketInfo.bucket}
+										{bucketInfo.name}
 									</CardTitle>
 									{bucketInfo.description && (
 										<CardDescription>{bucketInfo.description}</CardDescription>
@@ -592,9 +386,6 @@ function ObjectStoreBucketPage() {
 										TTL: {Math.floor(bucketInfo.ttl / 1_000_000_000)}s
 									</Badge>
 								)}
-								<Badge variant={natsConnected ? "default" : "secondary"}>
-									{natsConnected ? "Connected" : "Disconnected"}
-								</Badge>
 							</div>
 						</CardContent>
 					</Card>
@@ -616,7 +407,7 @@ function ObjectStoreBucketPage() {
 									multiple
 									className="hidden"
 								/>
-								<Button onClick={() => fileInputRef.current?.click()} disabled={!natsConnected}>
+								<Button onClick={() => fileInputRef.current?.click()} disabled={!bucketInfo}>
 									<Upload className="h-4 w-4 mr-2" />
 									Upload Files
 								</Button>
@@ -636,7 +427,7 @@ function ObjectStoreBucketPage() {
 								isDragging
 									? "border-primary bg-primary/5"
 									: "border-muted-foreground/25 hover:border-muted-foreground/50",
-								!natsConnected && "opacity-50 pointer-events-none"
+								!bucketInfo && "opacity-50 pointer-events-none"
 							)}
 						>
 							<Upload className="h-10 w-10 mx-auto mb-4 text-muted-foreground" />
@@ -650,7 +441,7 @@ function ObjectStoreBucketPage() {
 											type="button"
 											onClick={() => fileInputRef.current?.click()}
 											className="text-primary hover:underline font-medium"
-											disabled={!natsConnected}
+											disabled={!bucketInfo}
 										>
 											browse
 										</button>
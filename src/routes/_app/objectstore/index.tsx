@@ -11,12 +11,7 @@ import {
 	Search,
 	Trash2,
 } from "lucide-react";
-import {
-	connect,
-	type NatsConnection,
-	StorageType,
-} from "nats.ws";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useEffect, useState } from "react";
 import { AppHeader } from "@/components/layout/app-header";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -78,9 +73,6 @@ function ObjectStorePage() {
 	const [selectedCluster, setSelectedCluster] = useState<string>("");
 	const [searchQuery, setSearchQuery] = useState("");
 	const [showCreateDialog, setShowCreateDialog] = useState(false);
-	const [natsConnected, setNatsConnected] = useState(false);
-	const ncRef = useRef<NatsConnection | null>(null);
-	const isMountedRef = useRef(true);
 	const { data: clusters, isLoading: loadingClusters } = useQuery({
 		queryKey: ["clusters"],
 		queryFn: () => clustersApi.getAll(),
@@ -99,63 +91,6 @@ function ObjectStorePage() {
 		retry: 1,
 	});
 
-	// Connect to NATS for create/delete operations (still needs direct connection)
-	const ensureNatsConnection = useCallback(async (): Promise<NatsConnection | null> => {
-		if (ncRef.current) return ncRef.current;
-		if (!selectedCluster) return null;
-
-		try {
-			const connInfo = await clustersApi.getConnectionInfo(selectedCluster);
-
-			const opts: Parameters<typeof connect>[0] = {
-				servers: connInfo.urls,
-				timeout: 10000,
-			};
-
-			if (connInfo.authType === "token" && connInfo.token) {
-				opts.token = connInfo.token;
-			} else if (connInfo.authType === "userpass" && connInfo.username && connInfo.password) {
-				opts.user = connInfo.username;
-				opts.pass = connInfo.password;
-			}
-
-			const nc = await connect(opts);
-			if (!isMountedRef.current) {
-				await nc.close();
-				return null;
-			}
-
-			ncRef.current = nc;
-			setNatsConnected(true);
-			return nc;
-		} catch (err) {
-			console.error("Failed to connect to NATS for operations:", err);
-			return null;
-		}
-	}, [selectedCluster]);
-
-	const disconnectFromNats = useCallback(() => {
-		if (ncRef.current) {
-			ncRef.current.close().catch(() => {});
-			ncRef.current = null;
-		}
-		setNatsConnected(false);
-	}, []);
-
-	// Cleanup on unmount or cluster change
-	useEffect(() => {
-		isMountedRef.current = true;
-		return () => {
-			isMountedRef.current = false;
-			disconnectFromNats();
-		};
-	}, [disconnectFromNats]);
-
-	// Disconnect when cluster changes
-	useEffect(() => {
-		disconnectFromNats();
-	}, [selectedCluster, disconnectFromNats]);
-
 	// Auto-select first cluster
 	useEffect(() => {
 		if (clusters && clusters.length > 0 && !selectedCluster) {
@@ -188,23 +123,9 @@ function ObjectStorePage() {
 		ttl?: number;
 		maxBucketSize?: number;
 	}) => {
-		const nc = await ensureNatsConnection();
-		if (!nc) throw new Error("Failed to connect to NATS. Check your cluster connection settings.");
-
-		try {
-			const js = nc.jetstream();
-			await js.views.os(data.name, {
-				description: data.description,
-				storage: data.storage === "memory" ? StorageType.Memory : StorageType.File,
-				replicas: data.replicas,
-				ttl: data.ttl,
-				max_bytes: data.maxBucketSize,
-			});
-			refetchBuckets();
-			setShowCreateDialog(false);
-		} catch (error) {
-			throw error;
-		}
+		await objectStoreApi.createBucket(selectedCluster, data);
+		refetchBuckets();
+		setShowCreateDialog(false);
 	};
 
 	const errorMessage = bucketsError instanceof Error ? bucketsError.message : bucketsError ? "Failed to load buckets" : null;
@@ -1,25 +1,38 @@
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
 import {
 	AlertCircle,
+	Archive,
 	ArrowLeft,
 	Calendar,
 	ChevronLeft,
 	ChevronRight,
+	Copy,
 	Database,
 	Filter,
 	HardDrive,
 	Layers,
 	Pause,
+	Pencil,
 	Play,
 	Radio,
 	RefreshCw,
+	Repeat,
+	Send,
 	Trash2,
 	X,
 } from "lucide-react";
-import { connect, type NatsConnection, type Subscription } from "nats.ws";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { AppHeader } from "@/components/layout/app-header";
+import { RawJsonTab } from "@/components/shared/raw-json-tab";
+import { BackupStreamDialog } from "@/components/streams/backup-stream-dialog";
+import { CopyMessagesDialog } from "@/components/streams/copy-messages-dialog";
+import { DeleteMessagesDialog } from "@/components/streams/delete-messages-dialog";
+import { EditStreamDialog } from "@/components/streams/edit-stream-dialog";
+import { PublishMessageDialog } from "@/components/streams/publish-message-dialog";
+import { PurgeStreamDialog } from "@/components/streams/purge-stream-dialog";
+import { SubjectTree } from "@/components/streams/subject-tree";
+import { TimeSeekBar } from "@/components/streams/time-seek-bar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -29,6 +42,7 @@ import {
 	CardHeader,
 	CardTitle,
 } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
@@ -40,7 +54,15 @@ import {
 	TableRow,
 } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { clustersApi, streamsApi } from "@/lib/api";
+import {
+	clustersApi,
+	type LiveStreamMessage,
+	liveApi,
+	type StreamMessage,
+	type StreamSourceConfig,
+	type StreamSourceStatus,
+	streamsApi,
+} from "@/lib/api";
 import { cn } from "@/lib/utils";
 
 export const Route = createFileRoute("/_app/streams/$clusterId/$name")({
@@ -73,17 +95,24 @@ function formatDuration(nanos: number): string {
 	return `${days.toFixed(0)}d`;
 }
 
+// Format nanoseconds since a mirror or source was last active
+function formatActive(nanos: number): string {
+	if (nanos < 0) return "Never";
+	const seconds = nanos / 1_000_000_000;
+	if (seconds < 1) return "Just now";
+	if (seconds < 60) return `${seconds.toFixed(0)}s ago`;
+	if (seconds < 3600) return `${(seconds / 60).toFixed(0)}m ago`;
+	if (seconds < 86400) return `${(seconds / 3600).toFixed(0)}h ago`;
+	return `${(seconds / 86400).toFixed(0)}d ago`;
+}
+
 function formatDate(dateStr: string): string {
 	if (!dateStr) return "N/A";
 	const date = new Date(dateStr);
 	return date.toLocaleString();
 }
 
-interface LiveMessage {
-	seq: number;
-	subject: string;
-	data: string;
-	time: string;
+interface LiveMessage extends LiveStreamMessage {
 	isNew?: boolean;
 }
 
@@ -103,13 +132,24 @@ function subjectMatchesFilter(subject: string, filter: string): boolean {
 
 function StreamDetailPage() {
 	const { clusterId, name } = Route.useParams();
-	const queryClient = useQueryClient();
 	const navigate = useNavigate();
 	const [currentSeq, setCurrentSeq] = useState<number | undefined>(undefined);
 	const [direction, setDirection] = useState<"forward" | "backward">("backward");
 	const [subjectFilter, setSubjectFilter] = useState("");
 	const [activeSubjectFilter, setActiveSubjectFilter] = useState("");
+	const [startTime, setStartTime] = useState<string | undefined>(undefined);
 	const [activeTab, setActiveTab] = useState("messages");
+	const [publishOpen, setPublishOpen] = useState(false);
+	const [republishMessage, setRepublishMessage] = useState<StreamMessage | null>(null);
+	const [selectedSeqs, setSelectedSeqs] = useState<Set<number>>(new Set());
+	const [deleteSeqs, setDeleteSeqs] = useState<number[]>([]);
+	const [purgeOpen, setPurgeOpen] = useState(false);
+	const [editOpen, setEditOpen] = useState(false);
+	const [backupOpen, setBackupOpen] = useState(false);
+	const [copyOpen, setCopyOpen] = useState(false);
+	const [copyRange, setCopyRange] = useState<{ startSeq: number; endSeq: number } | undefined>(undefined);
+	const [subjectTreeFilter, setSubjectTreeFilter] = useState("");
+	const [activeSubjectTreeFilter, setActiveSubjectTreeFilter] = useState("");
 
 	// Live streaming state
 	const [isStreaming, setIsStreaming] = useState(false);
@@ -117,10 +157,8 @@ function StreamDetailPage() {
 	const [liveSubjectFilter, setLiveSubjectFilter] = useState("");
 	const [natsConnected, setNatsConnected] = useState(false);
 	const [streamError, setStreamError] = useState<string | null>(null);
-	const ncRef = useRef<NatsConnection | null>(null);
-	const subsRef = useRef<Subscription[]>([]);
+	const eventSourceRef = useRef<EventSource | null>(null);
 	const messagesEndRef = useRef<HTMLDivElement>(null);
-	const msgCounterRef = useRef(0);
 
 	const { data: cluster } = useQuery({
 		queryKey: ["cluster", clusterId],
@@ -143,124 +181,101 @@ function StreamDetailPage() {
 		isLoading: loadingMessages,
 		refetch: refetchMessages,
 	} = useQuery({
-		queryKey: ["stream-messages", clusterId, name, currentSeq, direction, activeSubjectFilter],
-		queryFn: () => streamsApi.getMessages(clusterId, name, currentSeq, 25, direction, activeSubjectFilter || undefined),
+		queryKey: ["stream-messages", clusterId, name, currentSeq, direction, activeSubjectFilter, startTime],
+		queryFn: () => streamsApi.getMessages(clusterId, name, currentSeq, 25, direction, activeSubjectFilter || undefined, startTime),
 		enabled: !!stream,
 	});
 
-	// NATS connection for live streaming
-	const connectNats = useCallback(async () => {
-		if (ncRef.current) return;
-		if (!stream) return;
+	const toggleSelected = (seq: number, checked: boolean) => {
+		setSelectedSeqs((prev) => {
+			const next = new Set(prev);
+			if (checked) {
+				next.add(seq);
+			} else {
+				next.delete(seq);
+			}
+			return next;
+		});
+	};
 
-		setStreamError(null);
+	const {
+		data: subjectsData,
+		isLoading: loadingSubjects,
+		error: subjectsError,
+		refetch: refetchSubjects,
+		isFetching: fetchingSubjects,
+	} = useQuery({
+		queryKey: ["stream-subjects", clusterId, name, activeSubjectTreeFilter],
+		queryFn: () => streamsApi.getSubjects(clusterId, name, activeSubjectTreeFilter || undefined),
+		enabled: !!stream && activeTab === "subjects",
+	});
 
-		try {
-			// Get connection info from API
-			const connInfo = await clustersApi.getConnectionInfo(clusterId);
-
-			// Check for mixed content issues
-			const isSecurePage = window.location.protocol === 'https:';
-			const hasSecureWs = connInfo.urls.some(url => url.startsWith('wss://'));
-			const hasInsecureWs = connInfo.urls.some(url => url.startsWith('ws://') && !url.startsWith('wss://'));
-
-			if (isSecurePage && hasInsecureWs && !hasSecureWs) {
-				throw new Error(
-					'Security Error: This page is served over HTTPS but the NATS server uses insecure WebSocket (ws://). ' +
-					'Please configure your NATS server to use secure WebSocket (wss://) or access this app over HTTP.'
-				);
-			}
+	// Jump to the message browser filtered on a subject from the tree
+	const browseSubject = (filter: string) => {
+		setSubjectFilter(filter);
+		setActiveSubjectFilter(filter);
+		setCurrentSeq(undefined);
+		setDirection("backward");
+		setStartTime(undefined);
+		setActiveTab("messages");
+	};
 
-			// Build connection options
-			const opts: Parameters<typeof connect>[0] = {
-				servers: connInfo.urls,
-				timeout: 10000,
-			};
+	// Selection only applies to the page being viewed
+	const pageSeqs = messagesData?.messages.map((msg) => msg.seq) ?? [];
+	const selectedOnPage = pageSeqs.filter((seq) => selectedSeqs.has(seq));
+	const allSelected = pageSeqs.length > 0 && selectedOnPage.length === pageSeqs.length;
 
-			if (connInfo.authType === "token" && connInfo.token) {
-				opts.token = connInfo.token;
-			} else if (connInfo.authType === "userpass" && connInfo.username && connInfo.password) {
-				opts.user = connInfo.username;
-				opts.pass = connInfo.password;
-			}
+	const toggleSelectAll = (checked: boolean) => {
+		setSelectedSeqs(checked ? new Set(pageSeqs) : new Set());
+	};
+
+	const handleMessagesDeleted = (deleted: number[]) => {
+		setSelectedSeqs((prev) => new Set([...prev].filter((seq) => !deleted.includes(seq))));
+	};
+
+	// Tail the stream through the backend event stream
+	const connectNats = useCallback(() => {
+		if (eventSourceRef.current) return;
+		if (!stream) return;
+
+		setStreamError(null);
+
+		const source = liveApi.tailStream(clusterId, name);
+		eventSourceRef.current = source;
 
-			// Connect to NATS
-			const nc = await connect(opts);
-			ncRef.current = nc;
+		source.addEventListener("ready", () => {
 			setNatsConnected(true);
+			setStreamError(null);
+		});
+		source.addEventListener("message", (event) => {
+			const newMsg: LiveMessage = {
+				...(JSON.parse(event.data) as LiveStreamMessage),
+				isNew: true,
+			};
 
-			// Monitor connection status
-			(async () => {
-				for await (const status of nc.status()) {
-					if (status.type === "disconnect" || status.type === "error") {
-						setNatsConnected(false);
-						if (status.type === "error") {
-							setStreamError(`Connection error: ${status.data}`);
-						}
-					} else if (status.type === "reconnect") {
-						setNatsConnected(true);
-						setStreamError(null);
-					}
-				}
-			})();
-
-			// Subscribe to stream subjects
-			const subjects = stream.subjects || [];
-			for (const subject of subjects) {
-				const sub = nc.subscribe(subject, {
-					callback: (_err, msg) => {
-						msgCounterRef.current++;
-						const newMsg: LiveMessage = {
-							seq: msgCounterRef.current,
-							subject: msg.subject,
-							data: new TextDecoder().decode(msg.data),
-							time: new Date().toISOString(),
-							isNew: true,
-						};
-
-						setLiveMessages((prev) => [...prev, newMsg].slice(-100));
-
-						// Remove "new" flag after animation
-						setTimeout(() => {
-							setLiveMessages((prev) =>
-								prev.map((m) =>
-									m.seq === newMsg.seq ? { ...m, isNew: false } : m
-								)
-							);
-						}, 1000);
-					},
-				});
-				subsRef.current.push(sub);
-			}
-		} catch (err) {
-			console.error("Failed to connect to NATS:", err);
-			let errorMessage = (err instanceof Error ? err.message : undefined) || "Connection failed";
-
-			// Add helpful hints for common issues
-			if (errorMessage.includes('WebSocket') || errorMessage.includes('connect')) {
-				const isSecurePage = window.location.protocol === 'https:';
-				if (isSecurePage) {
-					errorMessage += '\n\nNote: You are accessing this app over HTTPS. Make sure your NATS server supports secure WebSocket (wss://) connections.';
-				}
-			}
+			setLiveMessages((prev) => [...prev, newMsg].slice(-100));
 
-			setStreamError(errorMessage);
+			// Remove "new" flag after animation
+			setTimeout(() => {
+				setLiveMessages((prev) =>
+					prev.map((m) =>
+						m.seq === newMsg.seq ? { ...m, isNew: false } : m
+					)
+				);
+			}, 1000);
+		});
+		source.addEventListener("error", (event) => {
 			setNatsConnected(false);
-		}
-	}, [clusterId, stream]);
-
-	const disconnectNats = useCallback(async () => {
-		// Unsubscribe all
-		for (const sub of subsRef.current) {
-			sub.unsubscribe();
-		}
-		subsRef.current = [];
+			// Server-sent error events carry a message; plain errors mean the browser is reconnecting
+			if (event instanceof MessageEvent && event.data) {
+				setStreamError(event.data);
+			}
+		});
+	}, [clusterId, name, stream]);
 
-		// Close connection
-		if (ncRef.current) {
-			await ncRef.current.close().catch(() => {});
-			ncRef.current = null;
-		}
+	const disconnectNats = useCallback(() => {
+		eventSourceRef.current?.close();
+		eventSourceRef.current = null;
 		setNatsConnected(false);
 	}, []);
 
@@ -281,26 +296,16 @@ function StreamDetailPage() {
 		}
 	}, [liveMessages, isStreaming]);
 
-	// Cleanup NATS connection on unmount
+	// Stop tailing on unmount
 	useEffect(() => {
 		return () => {
 			disconnectNats();
 		};
 	}, [disconnectNats]);
 
-	const handlePurge = async () => {
-		if (!confirm(`Are you sure you want to purge all messages from stream "${name}"?`)) {
-			return;
-		}
-
-		try {
-			const result = await streamsApi.purge(clusterId, name);
-			alert(`Purged ${result.purged} messages`);
-			queryClient.invalidateQueries({ queryKey: ["stream", clusterId, name] });
-			queryClient.invalidateQueries({ queryKey: ["stream-messages", clusterId, name] });
-		} catch (err) {
-			alert(err instanceof Error ? err.message : "Failed to purge stream");
-		}
+	const openPublish = (message: StreamMessage | null = null) => {
+		setRepublishMessage(message);
+		setPublishOpen(true);
 	};
 
 	const handleDelete = async () => {
@@ -322,6 +327,7 @@ function StreamDetailPage() {
 			if (firstMsgSeq > messagesData.firstSeq) {
 				setCurrentSeq(firstMsgSeq - 1);
 				setDirection("backward");
+				setStartTime(undefined);
 			}
 		}
 	};
@@ -332,6 +338,7 @@ function StreamDetailPage() {
 			if (lastMsgSeq < messagesData.lastSeq) {
 				setCurrentSeq(lastMsgSeq + 1);
 				setDirection("forward");
+				setStartTime(undefined);
 			}
 		}
 	};
@@ -339,12 +346,21 @@ function StreamDetailPage() {
 	const goToLatest = () => {
 		setCurrentSeq(undefined);
 		setDirection("backward");
+		setStartTime(undefined);
+	};
+
+	// Start browsing at the first message at or after a point in time
+	const seekToTime = (time: Date) => {
+		setCurrentSeq(undefined);
+		setDirection("forward");
+		setStartTime(time.toISOString());
 	};
 
 	const applySubjectFilter = () => {
 		setActiveSubjectFilter(subjectFilter.trim());
 		setCurrentSeq(undefined);
 		setDirection("backward");
+		setStartTime(undefined);
 	};
 
 	const clearSubjectFilter = () => {
@@ -352,6 +368,7 @@ function StreamDetailPage() {
 		setActiveSubjectFilter("");
 		setCurrentSeq(undefined);
 		setDirection("backward");
+		setStartTime(undefined);
 	};
 
 	const hasOlderPage = messagesData && messagesData.messages.length > 0 &&
@@ -413,6 +430,18 @@ function StreamDetailPage() {
 					<RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
 					Refresh
 				</Button>
+				<Button variant="outline" size="sm" onClick={() => setEditOpen(true)} disabled={!stream}>
+					<Pencil className="h-4 w-4 mr-2" />
+					Edit
+				</Button>
+				<Button variant="outline" size="sm" onClick={() => setBackupOpen(true)} disabled={!stream}>
+					<Archive className="h-4 w-4 mr-2" />
+					Backup
+				</Button>
+				<Button size="sm" onClick={() => openPublish()} disabled={!stream}>
+					<Send className="h-4 w-4 mr-2" />
+					Publish
+				</Button>
 			</AppHeader>
 
 			<div className="page-content">
@@ -514,7 +543,9 @@ function StreamDetailPage() {
 									<Radio className={cn("h-3 w-3", isStreaming && natsConnected && "text-green-500 animate-pulse")} />
 									Live
 								</TabsTrigger>
+								<TabsTrigger value="subjects">Subjects</TabsTrigger>
 								<TabsTrigger value="config">Configuration</TabsTrigger>
+								<TabsTrigger value="json">JSON</TabsTrigger>
 								<TabsTrigger value="danger">Danger Zone</TabsTrigger>
 							</TabsList>
 
@@ -529,6 +560,33 @@ function StreamDetailPage() {
 												</CardDescription>
 											</div>
 											<div className="flex items-center gap-2">
+												<Button
+													variant="outline"
+													size="sm"
+													onClick={() => {
+														// Prefill the range spanning the selected messages
+														setCopyRange(
+															selectedOnPage.length > 0
+																? { startSeq: Math.min(...selectedOnPage), endSeq: Math.max(...selectedOnPage) }
+																: undefined,
+														);
+														setCopyOpen(true);
+													}}
+													disabled={!stream}
+												>
+													<Copy className="h-4 w-4 mr-2" />
+													Copy / Move
+												</Button>
+												{selectedOnPage.length > 0 && (
+													<Button
+														variant="destructive"
+														size="sm"
+														onClick={() => setDeleteSeqs(selectedOnPage)}
+													>
+														<Trash2 className="h-4 w-4 mr-2" />
+														Delete {selectedOnPage.length}
+													</Button>
+												)}
 												<Button
 													variant="outline"
 													size="sm"
@@ -556,7 +614,7 @@ function StreamDetailPage() {
 													variant="outline"
 													size="sm"
 													onClick={goToLatest}
-													disabled={loadingMessages || (!currentSeq && direction === "backward")}
+													disabled={loadingMessages || (!currentSeq && !startTime && direction === "backward")}
 													title="Jump to latest"
 												>
 													Latest
@@ -610,7 +668,25 @@ function StreamDetailPage() {
 													</button>
 												</Badge>
 											)}
+											{startTime && messagesData?.startSeq !== undefined && (
+												<Badge variant="secondary" className="gap-1">
+													{new Date(startTime).toISOString()} → #{messagesData.startSeq}
+													<button type="button" onClick={goToLatest}>
+														<X className="h-3 w-3" />
+													</button>
+												</Badge>
+											)}
 										</div>
+										<TimeSeekBar
+											firstTs={stream.state.firstTs}
+											lastTs={stream.state.lastTs}
+											firstSeq={stream.state.firstSeq}
+											lastSeq={stream.state.lastSeq}
+											pageStart={messagesData?.messages[0]?.time}
+											pageEnd={messagesData?.messages[messagesData.messages.length - 1]?.time}
+											disabled={loadingMessages}
+											onSeek={seekToTime}
+										/>
 									</CardHeader>
 									<CardContent>
 										{loadingMessages ? (
@@ -623,15 +699,30 @@ function StreamDetailPage() {
 											<Table>
 												<TableHeader>
 													<TableRow>
+														<TableHead className="w-[40px]">
+															<Checkbox
+																checked={allSelected}
+																onCheckedChange={(checked) => toggleSelectAll(checked === true)}
+																aria-label="Select all messages on this page"
+															/>
+														</TableHead>
 														<TableHead className="w-[80px]">Seq</TableHead>
 														<TableHead className="w-[200px]">Subject</TableHead>
 														<TableHead className="w-[180px]">Time</TableHead>
 														<TableHead>Data</TableHead>
+														<TableHead className="w-[90px]" />
 													</TableRow>
 												</TableHeader>
 												<TableBody>
 													{messagesData.messages.map((msg) => (
-														<TableRow key={msg.seq}>
+														<TableRow key={msg.seq} data-state={selectedSeqs.has(msg.seq) ? "selected" : undefined}>
+															<TableCell>
+																<Checkbox
+																	checked={selectedSeqs.has(msg.seq)}
+																	onCheckedChange={(checked) => toggleSelected(msg.seq, checked === true)}
+																	aria-label={`Select message ${msg.seq}`}
+																/>
+															</TableCell>
 															<TableCell className="font-mono text-sm">
 																{msg.seq}
 															</TableCell>
@@ -646,6 +737,28 @@ function StreamDetailPage() {
 															<TableCell className="font-mono text-xs max-w-[400px] truncate">
 																{msg.data}
 															</TableCell>
+															<TableCell>
+																<div className="flex items-center">
+																	<Button
+																		variant="ghost"
+																		size="icon"
+																		className="h-8 w-8"
+																		onClick={() => openPublish(msg)}
+																		title="Republish this message"
+																	>
+																		<Repeat className="h-4 w-4" />
+																	</Button>
+																	<Button
+																		variant="ghost"
+																		size="icon"
+																		className="h-8 w-8 text-destructive hover:text-destructive"
+																		onClick={() => setDeleteSeqs([msg.seq])}
+																		title="Delete this message"
+																	>
+																		<Trash2 className="h-4 w-4" />
+																	</Button>
+																</div>
+															</TableCell>
 														</TableRow>
 													))}
 												</TableBody>
@@ -802,7 +915,153 @@ function StreamDetailPage() {
 								</Card>
 							</TabsContent>
 
+							<TabsContent value="subjects" className="space-y-4">
+								<Card>
+									<CardHeader className="space-y-3">
+										<div className="flex flex-row items-center justify-between">
+											<div>
+												<CardTitle>Subjects</CardTitle>
+												<CardDescription>
+													Message counts per subject. Click a subject to browse its messages.
+												</CardDescription>
+											</div>
+											<Button
+												variant="outline"
+												size="sm"
+												onClick={() => refetchSubjects()}
+												disabled={fetchingSubjects}
+											>
+												<RefreshCw className={`h-4 w-4 ${fetchingSubjects ? "animate-spin" : ""}`} />
+											</Button>
+										</div>
+										<div className="flex items-center gap-2">
+											<div className="relative flex-1 max-w-sm">
+												<Filter className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+												<Input
+													placeholder="Filter subjects (e.g. orders.>)"
+													value={subjectTreeFilter}
+													onChange={(e) => setSubjectTreeFilter(e.target.value)}
+													onKeyDown={(e) => {
+														if (e.key === "Enter") setActiveSubjectTreeFilter(subjectTreeFilter.trim());
+													}}
+													className="pl-9 h-9"
+												/>
+											</div>
+											<Button
+												variant="outline"
+												size="sm"
+												onClick={() => setActiveSubjectTreeFilter(subjectTreeFilter.trim())}
+												disabled={fetchingSubjects}
+												className="h-9"
+											>
+												Apply
+											</Button>
+											{activeSubjectTreeFilter && (
+												<Badge variant="secondary" className="gap-1">
+													{activeSubjectTreeFilter}
+													<button
+														type="button"
+														onClick={() => {
+															setSubjectTreeFilter("");
+															setActiveSubjectTreeFilter("");
+														}}
+													>
+														<X className="h-3 w-3" />
+													</button>
+												</Badge>
+											)}
+										</div>
+									</CardHeader>
+									<CardContent>
+										{loadingSubjects ? (
+											<div className="space-y-2">
+												<Skeleton className="h-8 w-full" />
+												<Skeleton className="h-8 w-full" />
+												<Skeleton className="h-8 w-full" />
+											</div>
+										) : subjectsError ? (
+											<div className="text-center py-8 text-destructive">
+												{subjectsError instanceof Error ? subjectsError.message : "Failed to load subjects"}
+											</div>
+										) : subjectsData ? (
+											<SubjectTree
+												subjects={subjectsData.subjects}
+												avgMessageSize={
+													subjectsData.totalMessages > 0
+														? subjectsData.totalBytes / subjectsData.totalMessages
+														: 0
+												}
+												onSelect={browseSubject}
+											/>
+										) : null}
+									</CardContent>
+								</Card>
+							</TabsContent>
+
 							<TabsContent value="config" className="space-y-4">
+								{(stream.mirror || (stream.sources && stream.sources.length > 0)) && (
+									<Card>
+										<CardHeader>
+											<CardTitle>{stream.mirror ? "Mirror" : "Sources"}</CardTitle>
+											<CardDescription>
+												{stream.mirror
+													? "This stream mirrors another stream"
+													: "Messages are sourced from these streams"}
+											</CardDescription>
+										</CardHeader>
+										<CardContent>
+											<Table>
+												<TableHeader>
+													<TableRow>
+														<TableHead>Stream</TableHead>
+														<TableHead>Filter / Transforms</TableHead>
+														<TableHead>External</TableHead>
+														<TableHead className="text-right">Lag</TableHead>
+														<TableHead className="text-right">Last Active</TableHead>
+													</TableRow>
+												</TableHeader>
+												<TableBody>
+													{(stream.mirror ? [stream.mirror] : (stream.sources ?? [])).map((source: StreamSourceConfig) => {
+														const status: StreamSourceStatus | undefined = stream.mirror
+															? stream.mirrorStatus
+															: stream.sourcesStatus?.find((st) => st.name === source.name);
+														return (
+															<TableRow key={`${source.name}-${source.external?.api ?? ""}-${source.filterSubject ?? ""}`}>
+																<TableCell className="font-medium">
+																	{source.name}
+																	{status?.error && (
+																		<div className="text-xs text-destructive">{status.error}</div>
+																	)}
+																</TableCell>
+																<TableCell className="font-mono text-xs">
+																	{source.filterSubject ||
+																		source.subjectTransforms?.map((t) => `${t.src} → ${t.dest}`).join(", ") ||
+																		"All subjects"}
+																</TableCell>
+																<TableCell className="font-mono text-xs text-muted-foreground">
+																	{source.external?.api ?? "-"}
+																</TableCell>
+																<TableCell className="text-right">
+																	{status ? (
+																		<Badge variant={status.lag > 0 ? "secondary" : "outline"}>
+																			{formatNumber(status.lag)}
+																		</Badge>
+																	) : (
+																		"-"
+																	)}
+																</TableCell>
+																<TableCell className="text-right text-sm text-muted-foreground">
+																	{status ? formatActive(status.active) : "-"}
+																</TableCell>
+															</TableRow>
+														);
+													})}
+												</TableBody>
+											</Table>
+										</CardContent>
+									</Card>
+								)}
+
 								<Card>
 									<CardHeader>
 										<CardTitle>Stream Configuration</CardTitle>
@@ -887,6 +1146,16 @@ function StreamDetailPage() {
 								</Card>
 							</TabsContent>
 
+							<TabsContent value="json" className="space-y-4">
+								<RawJsonTab
+									kind="Stream"
+									queryKey={["stream-raw", clusterId, name]}
+									fetchInfo={() => streamsApi.getRaw(clusterId, name)}
+									applyConfig={(config) => streamsApi.updateRaw(clusterId, name, config)}
+									invalidateKeys={[["stream", clusterId, name], ["streams", clusterId]]}
+								/>
+							</TabsContent>
+
 							<TabsContent value="danger" className="space-y-4">
 								<Card className="border-destructive/50">
 									<CardHeader>
@@ -898,12 +1167,12 @@ function StreamDetailPage() {
 									<CardContent className="space-y-4">
 										<div className="flex items-center justify-between p-4 border rounded-lg">
 											<div>
-												<div className="font-medium">Purge All Messages</div>
+												<div className="font-medium">Purge Messages</div>
 												<div className="text-sm text-muted-foreground">
-													Remove all messages from this stream. The stream configuration will be preserved.
+													Remove all messages, one subject, or everything but the latest. The stream configuration will be preserved.
 												</div>
 											</div>
-											<Button variant="outline" onClick={handlePurge}>
+											<Button variant="outline" onClick={() => setPurgeOpen(true)}>
 												<RefreshCw className="h-4 w-4 mr-2" />
 												Purge
 											</Button>
@@ -928,6 +1197,63 @@ function StreamDetailPage() {
 					</>
 				) : null}
 			</div>
+
+			{stream && (
+				<PublishMessageDialog
+					clusterId={clusterId}
+					streamName={name}
+					subjects={stream.subjects}
+					open={publishOpen}
+					onOpenChange={setPublishOpen}
+					message={republishMessage}
+				/>
+			)}
+
+			{stream && (
+				<EditStreamDialog
+					clusterId={clusterId}
+					stream={stream}
+					open={editOpen}
+					onOpenChange={setEditOpen}
+				/>
+			)}
+
+			{stream && (
+				<CopyMessagesDialog
+					clusterId={clusterId}
+					stream={stream}
+					initialRange={copyRange}
+					open={copyOpen}
+					onOpenChange={setCopyOpen}
+				/>
+			)}
+
+			{stream && (
+				<BackupStreamDialog
+					clusterId={clusterId}
+					stream={stream}
+					open={backupOpen}
+					onOpenChange={setBackupOpen}
+				/>
+			)}
+
+			<PurgeStreamDialog
+				clusterId={clusterId}
+				streamName={name}
+				open={purgeOpen}
+				onOpenChange={setPurgeOpen}
+			/>
+
+			<DeleteMessagesDialog
+				clusterId={clusterId}
+				streamName={name}
+				seqs={deleteSeqs}
+				open={deleteSeqs.length > 0}
+				onOpenChange={(open) => {
+					if (!open) setDeleteSeqs([]);
+				}}
+				onDeleted={handleMessagesDeleted}
+			/>
 		</>
 	);
 }
@@ -2,6 +2,7 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { createFileRoute, Link } from "@tanstack/react-router";
 import {
 	AlertCircle,
+	Archive,
 	Database,
 	HardDrive,
 	Layers,
@@ -48,6 +49,7 @@ import {
 } from "@/components/ui/table";
 import { clustersApi, streamsApi } from "@/lib/api";
 import { CreateStreamDialog } from "@/components/streams/create-stream-dialog";
+import { StreamBackupsDialog } from "@/components/streams/stream-backups-dialog";
 
 export const Route = createFileRoute("/_app/streams/")({
 	component: StreamsPage,
@@ -72,6 +74,7 @@ function StreamsPage() {
 	const [selectedCluster, setSelectedCluster] = useState<string>("");
 	const [searchQuery, setSearchQuery] = useState("");
 	const [showCreateDialog, setShowCreateDialog] = useState(false);
+	const [showBackupsDialog, setShowBackupsDialog] = useState(false);
 
 	const { data: clusters, isLoading: loadingClusters } = useQuery({
 		queryKey: ["clusters"],
@@ -173,10 +176,16 @@ function StreamsPage() {
 					</div>
 
 					{selectedCluster && (
-						<Button onClick={() => setShowCreateDialog(true)}>
-							<Plus className="h-4 w-4 mr-2" />
-							Create Stream
-						</Button>
+						<div className="flex gap-2">
+							<Button variant="outline" onClick={() => setShowBackupsDialog(true)}>
+								<Archive className="h-4 w-4 mr-2" />
+								Backups
+							</Button>
+							<Button onClick={() => setShowCreateDialog(true)}>
+								<Plus className="h-4 w-4 mr-2" />
+								Create Stream
+							</Button>
+						</div>
 					)}
 				</div>
 
@@ -348,6 +357,14 @@ function StreamsPage() {
 					onOpenChange={setShowCreateDialog}
 				/>
 			)}
+
+			{selectedCluster && (
+				<StreamBackupsDialog
+					clusterId={selectedCluster}
+					open={showBackupsDialog}
+					onOpenChange={setShowBackupsDialog}
+				/>
+			)}
 		</>
 	)
 }